@@ -0,0 +1,182 @@
+import {
+  classifyCensusApiError,
+  errorDetail,
+} from '../helpers/census-api-errors.js'
+import { ToolResult } from '../types/base.types.js'
+
+export type ToolErrorCode =
+  | 'VALIDATION_ERROR'
+  | 'CENSUS_API_ERROR'
+  | 'DATABASE_UNAVAILABLE'
+  | 'MISSING_API_KEY'
+  | 'NOT_FOUND'
+  | 'INTERNAL_ERROR'
+
+// Base class for errors a tool reports back to the client as an isError result
+export abstract class ToolError extends Error {
+  abstract readonly code: ToolErrorCode
+  readonly hint?: string
+  readonly details?: Record<string, unknown>
+
+  constructor(
+    message: string,
+    options: { hint?: string; details?: Record<string, unknown> } = {},
+  ) {
+    super(message)
+    this.name = new.target.name
+    this.hint = options.hint
+    this.details = options.details
+  }
+}
+
+export class ValidationError extends ToolError {
+  readonly code = 'VALIDATION_ERROR'
+
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(message, {
+      hint: "Check the arguments against the tool's input schema and try again.",
+      details,
+    })
+  }
+}
+
+export class CensusApiError extends ToolError {
+  readonly code = 'CENSUS_API_ERROR'
+  readonly status?: number
+
+  // Requests that never got a response, e.g. timeouts, have no status
+  constructor(
+    message: string,
+    status?: number,
+    hint?: string,
+    details?: Record<string, unknown>,
+  ) {
+    super(message, {
+      hint: hint ?? CensusApiError.hintForStatus(status),
+      details:
+        status === undefined && !details
+          ? undefined
+          : { ...(status !== undefined && { status }), ...details },
+    })
+    this.status = status
+  }
+
+  private static hintForStatus(status?: number): string {
+    if (status === undefined || status === 429 || status >= 500) {
+      return 'The Census Data API is unavailable or limiting requests. Wait a moment and try again.'
+    }
+    return 'Check that the variables, geography and predicates are available for this dataset and year, e.g. with fetch-dataset-geography or search-data-tables.'
+  }
+}
+
+export class DatabaseUnavailableError extends ToolError {
+  readonly code = 'DATABASE_UNAVAILABLE'
+
+  constructor(message: string) {
+    super(message, {
+      hint: 'Start the MCP database container and check that DATABASE_URL points to it.',
+    })
+  }
+}
+
+export class MissingApiKeyError extends ToolError {
+  readonly code = 'MISSING_API_KEY'
+
+  constructor() {
+    super('Error: CENSUS_API_KEY is not set.', {
+      hint: 'Request a key at https://api.census.gov/data/key_signup.html and set CENSUS_API_KEY in the MCP client configuration.',
+    })
+  }
+}
+
+export class NotFoundError extends ToolError {
+  readonly code = 'NOT_FOUND'
+
+  constructor(message: string, hint?: string) {
+    super(message, { hint })
+  }
+}
+
+export class InternalError extends ToolError {
+  readonly code = 'INTERNAL_ERROR'
+}
+
+// Typed errors pass through; anything else is reported as an internal error
+export function toToolError(err: unknown, prefix: string): ToolError {
+  if (err instanceof ToolError) return err
+
+  const errorMessage = err instanceof Error ? err.message : String(err)
+  return new InternalError(`${prefix}: ${errorMessage}`)
+}
+
+// The error code and hint are repeated in _meta for programmatic clients
+export function createToolErrorResult(error: ToolError): ToolResult {
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: error.hint
+          ? `${error.message}\n\nHint: ${error.hint}`
+          : error.message,
+      },
+    ],
+    isError: true,
+    _meta: {
+      error: {
+        code: error.code,
+        message: error.message,
+        hint: error.hint,
+        details: error.details,
+      },
+    },
+  }
+}
+
+// Maps a failed Census Data API response to the matching tool error. The
+// error message in the body, when there is one, is classified into guidance
+// pointing at the tool that can fix the request.
+export function censusApiErrorFromResponse(
+  prefix: string,
+  status: number,
+  statusText: string,
+  body?: string,
+): ToolError {
+  const message = `${prefix}: ${status} ${statusText}`
+
+  // The Census Data API answers valid queries without results with no content
+  if (status === 204) {
+    return new NotFoundError(
+      `${message}: The query returned no data.`,
+      'Check that the geography codes exist with resolve-geography-fips and that the dataset has data for the geography level with fetch-dataset-geography.',
+    )
+  }
+
+  if (status === 404) {
+    return new NotFoundError(
+      message,
+      'Check the dataset identifier and year with list-datasets.',
+    )
+  }
+
+  const classification = body ? classifyCensusApiError(body) : null
+
+  if (classification) {
+    return new CensusApiError(
+      `${message}: ${classification.detail}`,
+      status,
+      classification.hint,
+      { kind: classification.kind, values: classification.values },
+    )
+  }
+
+  // Successful responses only fail when their body cannot be read as JSON
+  if (status < 300) {
+    return new CensusApiError(
+      `${message}: Unexpected response: ${errorDetail(body ?? '')}`,
+      status,
+      'The Census Data API returned an unexpected response. Try again later.',
+    )
+  }
+
+  return new CensusApiError(message, status)
+}
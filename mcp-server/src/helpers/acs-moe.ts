@@ -0,0 +1,95 @@
+import { MoeComponent, MoePair } from '../types/moe.types.js'
+
+// ACS margins of error are published at the 90 percent confidence level
+export const MOE_Z_SCORE = 1.645
+
+// Estimate variables end in E, or PE for percentages in data profiles, and
+// their margins of error in M or PM, e.g. B01001_001E and B01001_001M
+const estimatePattern: RegExp = /^(\w+_\w*\d+P?)E$/
+
+export function moeCompanion(variable: string): string | null {
+  const match = estimatePattern.exec(variable)
+  return match ? `${match[1]}M` : null
+}
+
+// Adds the margin of error right after each estimate that lacks one
+export function addMoeCompanions(variables: string[]): string[] {
+  const requested = new Set(variables)
+
+  return variables.flatMap((variable) => {
+    const companion = moeCompanion(variable)
+    return companion && !requested.has(companion)
+      ? [variable, companion]
+      : [variable]
+  })
+}
+
+export function pairMoeColumns(headers: string[]): MoePair[] {
+  return headers.flatMap((estimate) => {
+    const moe = moeCompanion(estimate)
+    return moe && headers.includes(moe) ? [{ estimate, moe }] : []
+  })
+}
+
+// The formulas below follow the ACS General Handbook, "Calculating Measures
+// of Error for Derived Estimates".
+
+// Sums and differences. When several estimates are zero, only the largest of
+// their margins of error is included.
+export function moeOfSum(components: MoeComponent[]): number {
+  const zeroMoes = components
+    .filter((component) => component.estimate === 0)
+    .map((component) => component.moe)
+  const nonZero = components.filter((component) => component.estimate !== 0)
+
+  const moes = [
+    ...nonZero.map((component) => component.moe),
+    ...(zeroMoes.length ? [Math.max(...zeroMoes)] : []),
+  ]
+
+  return Math.sqrt(moes.reduce((sum, moe) => sum + moe ** 2, 0))
+}
+
+// For ratios where the numerator is not a subset of the denominator
+export function moeOfRatio(
+  numerator: MoeComponent,
+  denominator: MoeComponent,
+): number {
+  const ratio = numerator.estimate / denominator.estimate
+
+  return (
+    Math.sqrt(numerator.moe ** 2 + ratio ** 2 * denominator.moe ** 2) /
+    denominator.estimate
+  )
+}
+
+// For proportions where the numerator is a subset of the denominator. Falls
+// back to the ratio formula when the value under the square root is negative.
+export function moeOfProportion(
+  numerator: MoeComponent,
+  denominator: MoeComponent,
+): number {
+  const proportion = numerator.estimate / denominator.estimate
+  const radicand = numerator.moe ** 2 - proportion ** 2 * denominator.moe ** 2
+
+  if (radicand < 0) return moeOfRatio(numerator, denominator)
+
+  return Math.sqrt(radicand) / denominator.estimate
+}
+
+export function moeOfProduct(a: MoeComponent, b: MoeComponent): number {
+  return Math.sqrt(a.estimate ** 2 * b.moe ** 2 + b.estimate ** 2 * a.moe ** 2)
+}
+
+export function standardErrorOf(moe: number): number {
+  return moe / MOE_Z_SCORE
+}
+
+// The coefficient of variation as a percentage, or null for zero estimates
+export function coefficientOfVariation(
+  estimate: number,
+  moe: number,
+): number | null {
+  if (estimate === 0) return null
+  return (standardErrorOf(moe) / Math.abs(estimate)) * 100
+}
@@ -0,0 +1,23 @@
+import { VariableJsonEntry } from '../schema/describe-variables.schema.js'
+
+// Labels of values that cannot be summed across geographies, e.g.
+// 'Estimate!!Median household income in the past 12 months'
+const nonAdditiveLabelPattern =
+  /\b(median|mean|average|per capita|percent|rate|ratio|gini|index|quartile)\b/i
+
+// Why a variable cannot be summed across geographies, or undefined if it
+// can. Medians, averages, percentages and margins of error are not additive.
+export function nonAdditiveReason(
+  variable: string,
+  entry: VariableJsonEntry,
+): string | undefined {
+  if (/^\w+_\w*\d+P?M$/.test(variable)) return 'margin of error'
+  if (/^\w+_\w*\d+PE$/.test(variable)) return 'percent'
+
+  if (entry.predicateType && !['int', 'float'].includes(entry.predicateType)) {
+    return 'not numeric'
+  }
+
+  const match = nonAdditiveLabelPattern.exec(entry.label)
+  return match ? match[1].toLowerCase() : undefined
+}
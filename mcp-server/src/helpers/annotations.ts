@@ -0,0 +1,117 @@
+import {
+  AnnotationValues,
+  DecodedAnnotation,
+} from '../types/annotation.types.js'
+import { CensusApiRows } from '../types/census-api.types.js'
+
+// The ACS publishes these in place of estimates and margins of error, and in
+// the estimate (EA) and margin of error (MA) annotation columns, see the ACS
+// Notes on Data Release
+const acsAnnotationValues: AnnotationValues['values'] = {
+  '-999999999':
+    'Estimate or margin of error not displayed because there were too few sample cases',
+  '-888888888': 'Estimate or margin of error not applicable or not available',
+  '-666666666':
+    'Estimate could not be computed because there were too few sample observations, or a median falls in the lowest or highest interval of an open-ended distribution',
+  '-555555555':
+    'Estimate is controlled, so a margin of error is not appropriate',
+  '-333333333':
+    'Median falls in the lowest or highest interval of an open-ended distribution, so a margin of error is not appropriate',
+  '-222222222':
+    'Margin of error could not be computed because there were too few sample observations',
+  '(X)': 'Not applicable or not available',
+  N: 'Not displayed because there were too few sample cases',
+  '*****': 'Estimate is controlled, so a margin of error is not appropriate',
+  '***':
+    'Median falls in an open-ended interval, so a margin of error is not appropriate',
+  '**': 'Margin of error could not be computed because there were too few sample observations',
+  '-': 'Estimate could not be computed because there were too few sample observations',
+}
+
+// Matched against the dataset identifier in order, like datasetValidator
+export const ANNOTATION_VALUES: AnnotationValues[] = [
+  { identifiers: ['acs/'], values: acsAnnotationValues },
+]
+
+// Annotation columns add an A to the column they describe, e.g. B19013_001EA
+// annotates B19013_001E
+function annotatedColumn(header: string): string | undefined {
+  return /^\w+[EM]A$/.test(header) ? header.slice(0, -1) : undefined
+}
+
+// Replaces the sentinel values of the dataset with nulls, along with values
+// whose annotation column holds a sentinel value or symbol. Annotation
+// columns and the text columns, e.g. geography codes, are left as they are.
+export function decodeAnnotations(
+  dataset: string,
+  headers: string[],
+  rows: CensusApiRows,
+  textColumns: string[] = [],
+): { rows: CensusApiRows; annotations: DecodedAnnotation[] } {
+  const config = ANNOTATION_VALUES.find((entry) =>
+    entry.identifiers.some((identifier) => dataset.includes(identifier)),
+  )
+
+  if (!config) return { rows, annotations: [] }
+
+  const annotations = new Map<string, DecodedAnnotation>()
+  const reasonOf = (value: unknown) =>
+    value == null ? undefined : config.values[String(value).trim()]
+
+  const record = (column: string, value: unknown, reason: string) => {
+    const key = `${column}\u0000${value}`
+    const annotation = annotations.get(key)
+
+    if (annotation) {
+      annotation.count++
+    } else {
+      annotations.set(key, { column, value: String(value), reason, count: 1 })
+    }
+  }
+
+  const annotationIndexes = new Map<number, number>()
+  headers.forEach((header, index) => {
+    const column = annotatedColumn(header)
+    if (column && headers.includes(column)) {
+      annotationIndexes.set(headers.indexOf(column), index)
+    }
+  })
+
+  const decoded = rows.map((row) =>
+    row.map((value, index) => {
+      const header = headers[index]
+
+      if (textColumns.includes(header) || annotatedColumn(header)) {
+        return value
+      }
+
+      const reason = reasonOf(value)
+      if (reason) {
+        record(header, value, reason)
+        return null
+      }
+
+      const annotationIndex = annotationIndexes.get(index)
+      if (annotationIndex === undefined) return value
+
+      const annotation = row[annotationIndex]
+      const annotationReason = reasonOf(annotation)
+      if (!annotationReason) return value
+
+      record(header, annotation, annotationReason)
+      return null
+    }),
+  )
+
+  return { rows: decoded, annotations: [...annotations.values()] }
+}
+
+// e.g. '- B19013_001E: -666666666 in 2 rows. Estimate could not be ...'
+export function formatAnnotations(annotations: DecodedAnnotation[]): string {
+  return annotations
+    .map(
+      ({ column, value, reason, count }) =>
+        `- ${column}: ${value} in ${count} ${count === 1 ? 'row' : 'rows'}. ${reason}.`,
+    )
+    .join('\n')
+}
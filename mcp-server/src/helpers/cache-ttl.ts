@@ -0,0 +1,30 @@
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+export const CATALOG_CACHE_TTL_MS = HOUR_MS
+export const CURRENT_DATA_CACHE_TTL_MS = DAY_MS
+export const HISTORICAL_DATA_CACHE_TTL_MS = 365 * DAY_MS
+
+// Vintages this many years old or newer may still receive releases or corrections
+const RECENT_VINTAGE_YEARS = 2
+
+// The catalog changes with every release, timeseries endpoints are updated in
+// place and recent vintages can still be revised. Older vintages are
+// effectively immutable, so they are kept for a year.
+export function getCacheTtlMs(
+  dataset?: string,
+  year?: number,
+  now: Date = new Date(),
+): number {
+  if (!dataset) return CATALOG_CACHE_TTL_MS
+
+  if (dataset.startsWith('timeseries/') || year === undefined) {
+    return CURRENT_DATA_CACHE_TTL_MS
+  }
+
+  if (year > now.getFullYear() - RECENT_VINTAGE_YEARS) {
+    return CURRENT_DATA_CACHE_TTL_MS
+  }
+
+  return HISTORICAL_DATA_CACHE_TTL_MS
+}
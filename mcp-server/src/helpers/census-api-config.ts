@@ -0,0 +1,92 @@
+import path from 'node:path'
+
+import {
+  CensusApiClientOptions,
+  CensusApiMode,
+} from '../types/census-api.types.js'
+
+const CENSUS_API_MODES: CensusApiMode[] = ['live', 'record', 'replay']
+
+export const DEFAULT_CENSUS_API_FIXTURES_DIR = 'fixtures/census-api'
+export const DEFAULT_CENSUS_API_BASE_URL = 'https://api.census.gov'
+export const DEFAULT_CENSUS_API_TIMEOUT_MS = 30 * 1000
+export const DEFAULT_CENSUS_API_MAX_RETRIES = 3
+export const DEFAULT_CENSUS_API_RETRY_DELAY_MS = 1000
+export const DEFAULT_CENSUS_API_MAX_RETRY_DELAY_MS = 30 * 1000
+export const DEFAULT_CENSUS_API_MAX_CONCURRENT_REQUESTS = 5
+
+function parseInteger(
+  value: string | undefined,
+  fallback: number,
+  label: string,
+  min: number,
+): number {
+  if (value === undefined || value === '') return fallback
+
+  const parsed = Number(value)
+
+  if (!Number.isInteger(parsed) || parsed < min) {
+    throw new Error(`Invalid ${label}: ${value}`)
+  }
+
+  return parsed
+}
+
+export function resolveCensusApiMode(
+  env: NodeJS.ProcessEnv = process.env,
+): CensusApiMode {
+  const mode = (env.CENSUS_API_MODE || 'live').toLowerCase()
+
+  if (!CENSUS_API_MODES.includes(mode as CensusApiMode)) {
+    throw new Error(
+      `Invalid Census API mode: ${mode}. Expected one of: ${CENSUS_API_MODES.join(', ')}`,
+    )
+  }
+
+  return mode as CensusApiMode
+}
+
+export function resolveCensusApiConfig(
+  env: NodeJS.ProcessEnv = process.env,
+): CensusApiClientOptions {
+  return {
+    mode: resolveCensusApiMode(env),
+    fixturesDir: path.resolve(
+      env.CENSUS_API_FIXTURES_DIR || DEFAULT_CENSUS_API_FIXTURES_DIR,
+    ),
+    baseUrl: (env.CENSUS_API_BASE_URL ?? DEFAULT_CENSUS_API_BASE_URL).replace(
+      /\/+$/,
+      '',
+    ),
+    timeoutMs: parseInteger(
+      env.CENSUS_API_TIMEOUT_MS,
+      DEFAULT_CENSUS_API_TIMEOUT_MS,
+      'Census API timeout',
+      1,
+    ),
+    maxRetries: parseInteger(
+      env.CENSUS_API_MAX_RETRIES,
+      DEFAULT_CENSUS_API_MAX_RETRIES,
+      'Census API retry count',
+      0,
+    ),
+    retryDelayMs: parseInteger(
+      env.CENSUS_API_RETRY_DELAY_MS,
+      DEFAULT_CENSUS_API_RETRY_DELAY_MS,
+      'Census API retry delay',
+      0,
+    ),
+    maxRetryDelayMs: parseInteger(
+      env.CENSUS_API_MAX_RETRY_DELAY_MS,
+      DEFAULT_CENSUS_API_MAX_RETRY_DELAY_MS,
+      'Census API maximum retry delay',
+      0,
+    ),
+    maxConcurrentRequests: parseInteger(
+      env.CENSUS_API_MAX_CONCURRENT_REQUESTS,
+      DEFAULT_CENSUS_API_MAX_CONCURRENT_REQUESTS,
+      'Census API concurrency limit',
+      1,
+    ),
+  }
+}
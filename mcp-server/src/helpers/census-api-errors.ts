@@ -0,0 +1,108 @@
+import {
+  CensusApiErrorClassification,
+  CensusApiErrorKind,
+} from '../types/census-api.types.js'
+
+interface ErrorRule {
+  kind: CensusApiErrorKind
+  pattern: RegExp
+  hint: (values: string[]) => string
+}
+
+const MAX_DETAIL_LENGTH = 300
+
+// Error messages of the Census Data API, e.g. "error: unknown variable
+// 'B1901_001E'", in the order they are checked
+const errorRules: ErrorRule[] = [
+  {
+    kind: 'unknown_variable',
+    pattern: /unknown variable '([^']+)'/gi,
+    hint: (values) =>
+      `The dataset has no variable ${values.join(', ')}. Find the correct variable with search-data-tables, or check its name with describe-variables.`,
+  },
+  {
+    kind: 'unknown_predicate',
+    pattern: /unknown predicate variable:? '?([^'\s]+)'?/gi,
+    hint: (values) =>
+      `The dataset has no predicate ${values.join(', ')}. Predicates must be variables of the dataset; check them with describe-variables or search-data-tables.`,
+  },
+  {
+    kind: 'ambiguous_geography',
+    pattern: /ambiguous geography/gi,
+    hint: () =>
+      "The geography needs its parent levels in 'in', e.g. state:48+county:453 for tracts. List the parents each level requires with fetch-dataset-geography, or build the clauses with expand-geography.",
+  },
+  {
+    kind: 'unsupported_geography',
+    pattern: /unknown\/unsupported geography hierarchy|unsupported geography/gi,
+    hint: () =>
+      "The dataset does not support this combination of 'for' and 'in'. Check the available levels and their parents with fetch-dataset-geography, or build the clauses with expand-geography.",
+  },
+  {
+    kind: 'invalid_geography',
+    pattern: /invalid '?(for|in|ucgid)'?|unknown geography|invalid geography/gi,
+    hint: () =>
+      'The geography codes are not valid. Find the FIPS codes of a named place with resolve-geography-fips.',
+  },
+  {
+    kind: 'too_many_variables',
+    pattern:
+      /maximum number of variables|more than 50 variables|too many variables/gi,
+    hint: () =>
+      'Request at most 50 variables at a time, or use group to fetch a whole table.',
+  },
+  {
+    kind: 'invalid_key',
+    pattern: /invalid key|valid key must be included/gi,
+    hint: () =>
+      'The Census API key was rejected. Check CENSUS_API_KEY, or request a key at https://api.census.gov/data/key_signup.html.',
+  },
+]
+
+// Reads the body of a failed response, which cannot fail the error report
+export async function readErrorBody(response: {
+  text(): Promise<string>
+}): Promise<string> {
+  try {
+    return await response.text()
+  } catch {
+    return ''
+  }
+}
+
+// The error message of a response body without its 'error:' prefixes or
+// markup, e.g. "unknown variable 'B1901_001E'"
+export function errorDetail(body: string): string {
+  return body
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/^(\s*error:\s*)+/i, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, MAX_DETAIL_LENGTH)
+}
+
+export function classifyCensusApiError(
+  body: string,
+): CensusApiErrorClassification | null {
+  for (const rule of errorRules) {
+    const matches = [...body.matchAll(rule.pattern)]
+    if (matches.length === 0) continue
+
+    const values = Array.from(
+      new Set(
+        matches
+          .map((match) => match[1])
+          .filter((value): value is string => value !== undefined),
+      ),
+    )
+
+    return {
+      kind: rule.kind,
+      detail: errorDetail(body),
+      values,
+      hint: rule.hint(values),
+    }
+  }
+
+  return null
+}
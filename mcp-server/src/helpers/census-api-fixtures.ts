@@ -0,0 +1,66 @@
+import { createHash } from 'node:crypto'
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+
+import { CensusApiFixture } from '../types/census-api.types.js'
+
+// Fixtures are keyed by the request URL without the API key, so recordings
+// made with one key can be replayed with another key or none at all
+export function stripApiKey(url: string): string {
+  const parsed = new URL(url)
+  parsed.searchParams.delete('key')
+  return parsed.toString()
+}
+
+export function redactFixtureUrl(url: string): string {
+  const parsed = new URL(url)
+
+  if (parsed.searchParams.has('key')) {
+    parsed.searchParams.set('key', 'REDACTED')
+  }
+
+  return parsed.toString()
+}
+
+// e.g. data_2022_acs_acs1-3f2c9a1b7d4e6f80.json
+export function getFixturePath(fixturesDir: string, url: string): string {
+  const requestUrl = stripApiKey(url)
+  const hash = createHash('sha256').update(requestUrl).digest('hex')
+  const slug = new URL(requestUrl).pathname
+    .replace(/^\/+|\/+$/g, '')
+    .replace(/[^a-zA-Z0-9.-]+/g, '_')
+
+  return path.join(fixturesDir, `${slug || 'root'}-${hash.slice(0, 16)}.json`)
+}
+
+export async function readFixture(
+  fixturesDir: string,
+  url: string,
+): Promise<CensusApiFixture | null> {
+  try {
+    const contents = await readFile(getFixturePath(fixturesDir, url), 'utf8')
+    return JSON.parse(contents) as CensusApiFixture
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+    throw error
+  }
+}
+
+export async function writeFixture(
+  fixturesDir: string,
+  url: string,
+  fixture: Omit<CensusApiFixture, 'url'>,
+): Promise<void> {
+  const apiKey = new URL(url).searchParams.get('key')
+
+  // Error bodies can echo the request, so the key is removed from them too
+  const body = apiKey
+    ? fixture.body.replaceAll(apiKey, 'REDACTED')
+    : fixture.body
+
+  await mkdir(fixturesDir, { recursive: true })
+  await writeFile(
+    getFixturePath(fixturesDir, url),
+    `${JSON.stringify({ url: redactFixtureUrl(url), ...fixture, body }, null, 2)}\n`,
+  )
+}
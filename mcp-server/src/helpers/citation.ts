@@ -1,10 +1,143 @@
-export function buildCitation(url: string): string {
+import { Citations, CitationSource } from '../types/citation.types.js'
+
+export function redactApiKey(url: string): string {
   const apiKey = process.env.CENSUS_API_KEY
 
   if (!apiKey) {
-    return `Source: U.S. Census Bureau Data API (${url})`
+    return url
   }
 
-  const urlWithoutAPIKey = url.replaceAll(`key=${apiKey}`, 'key=REDACTED')
-  return `Source: U.S. Census Bureau Data API (${urlWithoutAPIKey})`
+  return url.replaceAll(`key=${apiKey}`, 'key=REDACTED')
+}
+
+// Data fetched with several requests is cited with all of their URLs
+export function buildCitation(...urls: string[]): string {
+  return `Source: U.S. Census Bureau Data API (${urls.map(redactApiKey).join('; ')})`
+}
+
+const PUBLISHER = 'U.S. Census Bureau'
+
+const MONTHS = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December',
+]
+
+// Citations drop the API key instead of redacting it, so the URL does not
+// depend on who fetched the data
+export function stableUrl(url: string): string {
+  try {
+    const parsed = new URL(url)
+    parsed.searchParams.delete('key')
+    return parsed.toString()
+  } catch {
+    return redactApiKey(url)
+  }
+}
+
+// The table of variables such as B19013_001E or S1701_C03_001E, when they all
+// come from one table
+export function tableIdOf(variables: string[]): string | undefined {
+  const tables = new Set(
+    variables
+      .map(
+        (variable) =>
+          /^([A-Z]+\d+[A-Z]*)_(?:C\d+_)?\d+[A-Z]*$/.exec(variable)?.[1],
+      )
+      .filter((table): table is string => table !== undefined),
+  )
+
+  return tables.size === 1 ? [...tables][0] : undefined
+}
+
+function escapeBibtex(value: string): string {
+  return value.replace(/([&%$#_{}])/g, '\\$1')
+}
+
+// e.g. census_acs_acs1_2022_b19013
+function citationKey(source: CitationSource): string {
+  return ['census', source.dataset, source.year, source.tableId]
+    .filter((part) => part !== undefined)
+    .join('_')
+    .replace(/\W+/g, '_')
+    .toLowerCase()
+}
+
+// Renders the source of fetched data as plain text, APA, Chicago, BibTeX and
+// CSL-JSON citations. Dates are those of the UTC day the data was accessed.
+// Data fetched with several requests cites every URL; the entries for
+// reference managers list those after the first in a note.
+export function formatCitations(source: CitationSource): Citations {
+  const urls = source.urls.map(stableUrl)
+  const [url, ...otherUrls] = urls
+  const allUrls = urls.join('; ')
+  const note = otherUrls.length
+    ? `Also retrieved from ${otherUrls.join('; ')}`
+    : undefined
+  const title = source.title ?? source.dataset
+  const vintageTitle = source.year ? `${title}, ${source.year}` : title
+  const table = source.tableId
+    ? `Table ${source.tableId}${source.tableLabel ? `: ${source.tableLabel}` : ''}`
+    : undefined
+
+  const accessed = source.accessed
+  const isoDate = accessed.toISOString().slice(0, 10)
+  const longDate = `${MONTHS[accessed.getUTCMonth()]} ${accessed.getUTCDate()}, ${accessed.getUTCFullYear()}`
+  const key = citationKey(source)
+
+  const bibtex = [
+    `@misc{${key},`,
+    `  author = {{${PUBLISHER}}},`,
+    `  title = {{${escapeBibtex(table ?? title)}}},`,
+    ...(table ? [`  howpublished = {${escapeBibtex(vintageTitle)}},`] : []),
+    ...(source.year ? [`  year = {${source.year}},`] : []),
+    `  url = {${escapeBibtex(url)}},`,
+    ...(note ? [`  note = {${escapeBibtex(note)}},`] : []),
+    `  urldate = {${isoDate}},`,
+    '}',
+  ].join('\n')
+
+  return {
+    plain: `${PUBLISHER}. ${vintageTitle}.${table ? ` ${table}.` : ''} ${allUrls} (accessed ${isoDate}).`,
+    apa: `${PUBLISHER}. (${source.year ?? 'n.d.'}). ${table ? `${table} [Data set]. ${title}` : `${title} [Data set]`}. Retrieved ${longDate}, from ${allUrls}`,
+    chicago: `${PUBLISHER}. ${table ? `"${table}." ` : ''}${vintageTitle}. Accessed ${longDate}. ${allUrls}.`,
+    bibtex,
+    csl_json: {
+      id: key,
+      type: 'dataset',
+      title: table ?? title,
+      author: [{ literal: PUBLISHER }],
+      publisher: PUBLISHER,
+      ...(table && { 'container-title': title }),
+      ...(source.tableId && { number: source.tableId }),
+      ...(source.year && { issued: { 'date-parts': [[source.year]] } }),
+      accessed: {
+        'date-parts': [
+          [
+            accessed.getUTCFullYear(),
+            accessed.getUTCMonth() + 1,
+            accessed.getUTCDate(),
+          ],
+        ],
+      },
+      URL: url,
+      ...(note && { note }),
+    },
+    url,
+    urls,
+    accessed: isoDate,
+    dataset_title: title,
+    ...(source.year && { year: source.year }),
+    ...(source.tableId && { table_id: source.tableId }),
+    ...(source.tableLabel && { table_label: source.tableLabel }),
+  }
 }
@@ -0,0 +1,61 @@
+import { coerceValue } from './output-format.js'
+import { CensusApiRows } from '../types/census-api.types.js'
+import { ColumnSummary } from '../types/result-store.types.js'
+
+// Describes each column of a result: numeric columns by their range and
+// text columns by their number of distinct values. Text columns, e.g.
+// geography codes, are never treated as numeric.
+export function summarizeColumns(
+  headers: string[],
+  rows: CensusApiRows,
+  textColumns: string[] = [],
+): ColumnSummary[] {
+  return headers.map((name, index) => {
+    const values = rows
+      .map((row) => row[index])
+      .filter((value) => value != null)
+      .map((value) => (textColumns.includes(name) ? value : coerceValue(value)))
+
+    const nullCount = rows.length - values.length
+
+    if (values.length === 0) {
+      return { name, type: 'empty', null_count: nullCount }
+    }
+
+    if (values.every((value) => typeof value === 'number')) {
+      const numbers = values as number[]
+      return {
+        name,
+        type: 'number',
+        null_count: nullCount,
+        min: numbers.reduce((min, value) => Math.min(min, value)),
+        max: numbers.reduce((max, value) => Math.max(max, value)),
+      }
+    }
+
+    return {
+      name,
+      type: 'string',
+      null_count: nullCount,
+      distinct_count: new Set(values.map(String)).size,
+    }
+  })
+}
+
+// e.g. 'B01001_001E: number, 0 to 38965193' or 'NAME: text, 52 distinct'
+export function formatColumnSummary(summaries: ColumnSummary[]): string {
+  return summaries
+    .map((summary) => {
+      const nulls = summary.null_count ? `, ${summary.null_count} null` : ''
+
+      switch (summary.type) {
+        case 'number':
+          return `${summary.name}: number, ${summary.min} to ${summary.max}${nulls}`
+        case 'string':
+          return `${summary.name}: text, ${summary.distinct_count} distinct${nulls}`
+        default:
+          return `${summary.name}: empty`
+      }
+    })
+    .join('\n')
+}
@@ -0,0 +1,17 @@
+// Names of the geography columns the Census Data API returns for the for, in
+// and ucgid arguments, e.g. ['state', 'county'] for in=state:06 and
+// for=county:*
+export function geographyColumns(args: {
+  for?: string
+  in?: string
+  ucgid?: string
+}): string[] {
+  if (args.ucgid) return ['ucgid']
+
+  const levels = [
+    ...(args.in ? args.in.split('+') : []),
+    ...(args.for ? [args.for] : []),
+  ]
+
+  return levels.map((level) => level.split(':')[0].trim())
+}
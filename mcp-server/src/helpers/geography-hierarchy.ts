@@ -0,0 +1,153 @@
+import {
+  GeographyClause,
+  GeographyContainer,
+  HierarchyGeography,
+  HierarchyLevel,
+} from '../types/geography-hierarchy.types.js'
+
+export const NATION_LEVEL = '010'
+export const COUNTY_LEVEL = '050'
+export const PLACE_LEVEL = '160'
+
+// The nation, regions and divisions are never part of an 'in' clause. Data
+// for a region or division is fetched by its states.
+export const NON_API_LEVELS = [NATION_LEVEL, '020', '030']
+
+// Geographies without a parent geography, e.g. regions, are in the nation
+export const NATION: HierarchyGeography = {
+  id: 0,
+  name: 'United States',
+  summary_level_code: NATION_LEVEL,
+  for_param: 'us:*',
+  in_param: null,
+  parent_geography_id: null,
+}
+
+// Summary levels whose query_name differs from the Census Data API's name
+const API_LEVEL_NAMES: Record<string, string> = { '140': 'tract' }
+
+export function apiLevelName(level: HierarchyLevel): string {
+  return API_LEVEL_NAMES[level.code] ?? level.query_name
+}
+
+// The summary levels above a level, from its parent up to the nation
+export function levelAncestors(
+  levels: Map<string, HierarchyLevel>,
+  code: string,
+): string[] {
+  const ancestors: string[] = []
+  let parent = levels.get(code)?.parent_summary_level
+
+  while (parent && !ancestors.includes(parent)) {
+    ancestors.push(parent)
+    parent = levels.get(parent)?.parent_summary_level
+  }
+
+  return ancestors
+}
+
+// The nearest geography of the ancestry, which starts with the requested
+// geography, that is or contains the target summary level. When the target
+// level is not nested in the requested geography, e.g. tracts in a place, the
+// container is a larger geography that must be narrowed down, e.g. to the
+// counties the place overlaps.
+export function findContainer(
+  levels: Map<string, HierarchyLevel>,
+  ancestry: HierarchyGeography[],
+  target: string,
+): GeographyContainer | null {
+  const targetAncestors = levelAncestors(levels, target)
+
+  for (const [index, geography] of ancestry.entries()) {
+    const isTarget = geography.summary_level_code === target
+
+    if (isTarget || targetAncestors.includes(geography.summary_level_code)) {
+      return { geography, isTarget, requiresFilter: index > 0 && !isTarget }
+    }
+  }
+
+  if (targetAncestors.includes(NATION_LEVEL)) {
+    return { geography: NATION, isTarget: false, requiresFilter: true }
+  }
+
+  return null
+}
+
+// The summary levels from below the container level down to the target
+export function expansionPath(
+  levels: Map<string, HierarchyLevel>,
+  container: string,
+  target: string,
+): string[] {
+  const ancestors = levelAncestors(levels, target)
+  const index = ancestors.indexOf(container)
+
+  return [...ancestors.slice(0, index).reverse(), target]
+}
+
+// Splits a stored parameter into its levels, e.g. 'state:01%20county:001'
+// into ['state:01', 'county:001']
+export function parseGeographyParam(param: string | null): string[] {
+  if (!param) return []
+  return decodeURIComponent(param).match(/[^:\s][^:]*:\S+/g) ?? []
+}
+
+export function geographyClause(
+  geography: HierarchyGeography,
+): GeographyClause {
+  const [forParam] = parseGeographyParam(geography.for_param)
+  const inParam = parseGeographyParam(geography.in_param).join('+')
+
+  return { for: forParam, ...(inParam && { in: inParam }) }
+}
+
+// Every geography of the last level of the path within a geography, with a
+// wildcard for each level in between, e.g. tracts in a state as
+// { for: 'tract:*', in: 'state:48+county:*' }
+export function clauseWithin(
+  levels: Map<string, HierarchyLevel>,
+  geography: HierarchyGeography,
+  path: string[],
+): GeographyClause {
+  const target = levels.get(path[path.length - 1])!
+  const base =
+    geography.summary_level_code === NATION_LEVEL
+      ? []
+      : [
+          ...parseGeographyParam(geography.in_param),
+          ...parseGeographyParam(geography.for_param),
+        ]
+
+  const wildcards = path
+    .slice(0, -1)
+    .filter((code) => !NON_API_LEVELS.includes(code))
+    .map((code) => `${apiLevelName(levels.get(code)!)}:*`)
+
+  const inParam = [...base, ...wildcards].join('+')
+
+  return { for: `${apiLevelName(target)}:*`, ...(inParam && { in: inParam }) }
+}
+
+// Combines clauses of the same level within the same geography, e.g. the
+// states of a region into { for: 'state:04,06,08' }
+export function mergeClauses(clauses: GeographyClause[]): GeographyClause[] {
+  const merged = new Map<string, { level: string; codes: string[] }>()
+
+  for (const clause of clauses) {
+    const separator = clause.for.lastIndexOf(':')
+    const level = clause.for.slice(0, separator)
+    const key = `${level}|${clause.in ?? ''}`
+
+    const entry = merged.get(key) ?? { level, codes: [] }
+    entry.codes.push(clause.for.slice(separator + 1))
+    merged.set(key, entry)
+  }
+
+  return Array.from(merged, ([key, { level, codes }]) => {
+    const inParam = key.slice(key.indexOf('|') + 1)
+    return {
+      for: `${level}:${codes.join(',')}`,
+      ...(inParam && { in: inParam }),
+    }
+  })
+}
@@ -0,0 +1,90 @@
+import { CensusApiRows } from '../types/census-api.types.js'
+import { OutputFormat } from '../types/output-format.types.js'
+
+type Value = CensusApiRows[number][number]
+
+// Integers and decimals without leading zeros. Codes such as '06' or '001'
+// keep their zeros and stay strings.
+const numericPattern = /^-?(?:0|[1-9]\d*)(?:\.\d+)?$/
+
+export function coerceValue(value: Value): Value {
+  return typeof value === 'string' && numericPattern.test(value)
+    ? Number(value)
+    : value
+}
+
+// The Census Data API returns every value as a string. Values are converted
+// to numbers, except in the text columns, e.g. geography codes such as
+// state=12.
+export function coerceRows(
+  headers: string[],
+  rows: CensusApiRows,
+  textColumns: string[] = [],
+): CensusApiRows {
+  const keepText = headers.map((header) => textColumns.includes(header))
+
+  return rows.map((row) =>
+    row.map((value, i) => (keepText[i] ? value : coerceValue(value))),
+  )
+}
+
+function csvField(value: Value): string {
+  const field = value == null ? '' : String(value)
+  return /[",\r\n]/.test(field) ? `"${field.replaceAll('"', '""')}"` : field
+}
+
+function markdownCell(value: Value): string {
+  return value == null
+    ? ''
+    : String(value).replaceAll('|', '\\|').replace(/\r?\n/g, ' ')
+}
+
+// Renders the rows in the requested format, with columns named by headers
+export function formatRows(
+  headers: string[],
+  rows: CensusApiRows,
+  format: OutputFormat,
+): string {
+  switch (format) {
+    case 'csv':
+      return [headers, ...rows]
+        .map((row) => row.map(csvField).join(','))
+        .join('\n')
+    case 'json':
+      return JSON.stringify(
+        rows.map((row) =>
+          Object.fromEntries(headers.map((h, i) => [h, row[i] ?? null])),
+        ),
+      )
+    case 'json_columns':
+      return JSON.stringify(
+        Object.fromEntries(
+          headers.map((h, i) => [h, rows.map((row) => row[i] ?? null)]),
+        ),
+      )
+    case 'markdown':
+      return [headers, headers.map(() => '---'), ...rows]
+        .map((row) => `| ${row.map(markdownCell).join(' | ')} |`)
+        .join('\n')
+    default:
+      return rows
+        .map((row) => headers.map((h, i) => `${h}: ${row[i]}`).join(', '))
+        .join('\n')
+  }
+}
+
+// Renders rows in the requested format, naming the columns by names. Every
+// format but text converts numeric values to numbers.
+export function renderRows(
+  headers: string[],
+  names: string[],
+  rows: CensusApiRows,
+  format: OutputFormat,
+  textColumns: string[] = [],
+): string {
+  return formatRows(
+    names,
+    format === 'text' ? rows : coerceRows(headers, rows, textColumns),
+    format,
+  )
+}
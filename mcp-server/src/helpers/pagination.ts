@@ -0,0 +1,42 @@
+import { CensusApiRows } from '../types/census-api.types.js'
+
+// Cursors are the offset of the next row, encoded so clients treat them as
+// opaque
+export function encodeCursor(offset: number): string {
+  return Buffer.from(`offset:${offset}`).toString('base64url')
+}
+
+export function decodeCursor(cursor: string): number | null {
+  const match = /^offset:(\d+)$/.exec(
+    Buffer.from(cursor, 'base64url').toString(),
+  )
+  return match ? Number(match[1]) : null
+}
+
+// resources/list pages through every resource in turn, so its cursors also
+// name the resource the offset is in
+export function encodeResourceCursor(resource: string, offset: number): string {
+  return Buffer.from(`${resource}:offset:${offset}`).toString('base64url')
+}
+
+export function decodeResourceCursor(
+  cursor: string,
+): { resource: string; offset: number } | null {
+  const match = /^(.+):offset:(\d+)$/.exec(
+    Buffer.from(cursor, 'base64url').toString(),
+  )
+  return match ? { resource: match[1], offset: Number(match[2]) } : null
+}
+
+export function pageOf(
+  rows: CensusApiRows,
+  offset: number,
+  maxRows: number,
+): { rows: CensusApiRows; nextCursor?: string } {
+  const end = offset + maxRows
+
+  return {
+    rows: rows.slice(offset, end),
+    ...(end < rows.length && { nextCursor: encodeCursor(end) }),
+  }
+}
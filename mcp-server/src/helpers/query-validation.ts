@@ -0,0 +1,249 @@
+import {
+  GeographyFipsEntry,
+  GeographyJson,
+} from '../schema/dataset-geography.schema.js'
+import { VariablesJson } from '../schema/describe-variables.schema.js'
+import { QueryIssue, QueryToValidate } from '../types/query-validation.types.js'
+
+export const MAX_SUGGESTIONS = 3
+
+// The number of single character edits between two strings
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      )
+    }
+
+    previous = current
+  }
+
+  return previous[b.length]
+}
+
+// The closest candidates, ignoring case, within a third of the value's length
+export function suggest(
+  value: string,
+  candidates: Iterable<string>,
+  limit: number = MAX_SUGGESTIONS,
+): string[] {
+  const target = value.toLowerCase()
+  const maxDistance = Math.max(2, Math.floor(value.length / 3))
+  const scored: { candidate: string; distance: number }[] = []
+
+  for (const candidate of new Set(candidates)) {
+    if (Math.abs(candidate.length - value.length) > maxDistance) continue
+
+    const distance = editDistance(target, candidate.toLowerCase())
+    if (distance <= maxDistance) scored.push({ candidate, distance })
+  }
+
+  return scored
+    .sort(
+      (a, b) =>
+        a.distance - b.distance || a.candidate.localeCompare(b.candidate),
+    )
+    .slice(0, limit)
+    .map(({ candidate }) => candidate)
+}
+
+// Checks variables, the group and predicate names against variables.json.
+// Margins of error and annotations such as B19013_001M and B19013_001EA are
+// only listed among the attributes of their estimate.
+export function variableIssues(
+  metadata: VariablesJson,
+  query: QueryToValidate,
+): QueryIssue[] {
+  const names = Object.keys(metadata.variables)
+  const known = new Set(names)
+  const issues: QueryIssue[] = []
+
+  for (const entry of Object.values(metadata.variables)) {
+    for (const attribute of entry.attributes?.split(',') ?? []) {
+      if (attribute) known.add(attribute)
+    }
+  }
+
+  for (const variable of query.variables ?? []) {
+    if (!known.has(variable)) {
+      issues.push({
+        field: 'variables',
+        value: variable,
+        message: `Unknown variable '${variable}'.`,
+        suggestions: suggest(variable, names),
+      })
+    }
+  }
+
+  for (const predicate of Object.keys(query.predicates ?? {})) {
+    if (!known.has(predicate)) {
+      issues.push({
+        field: 'predicates',
+        value: predicate,
+        message: `Unknown predicate '${predicate}'.`,
+        suggestions: suggest(predicate, names),
+      })
+    }
+  }
+
+  if (query.group) {
+    const groups = new Set(
+      Object.values(metadata.variables)
+        .map((entry) => entry.group)
+        .filter((group): group is string => Boolean(group) && group !== 'N/A'),
+    )
+
+    if (!groups.has(query.group)) {
+      issues.push({
+        field: 'group',
+        value: query.group,
+        message: `Unknown group '${query.group}'.`,
+        suggestions: suggest(query.group, groups),
+      })
+    }
+  }
+
+  return issues
+}
+
+// Checks the for level and its in levels against the requires chains in
+// geography.json, and the summary level of each UCGID
+export function geographyIssues(
+  metadata: GeographyJson,
+  query: QueryToValidate,
+): QueryIssue[] {
+  const levelNames = metadata.fips.map((entry) => entry.name)
+
+  if (!query.for) {
+    return ucgidIssues(metadata, query.ucgid)
+  }
+
+  const [forLevel, forCodes] = splitLevel(query.for)
+  const entries = metadata.fips.filter((entry) => entry.name === forLevel)
+
+  if (entries.length === 0) {
+    return [
+      {
+        field: 'for',
+        value: forLevel,
+        message: `Geography level '${forLevel}' is not available in ${query.dataset}.`,
+        suggestions: suggest(forLevel, levelNames),
+      },
+    ]
+  }
+
+  const inLevels = query.in ? query.in.split('+').map(splitLevel) : []
+  const unknownLevels = inLevels.filter(
+    ([level]) => !levelNames.includes(level),
+  )
+
+  if (unknownLevels.length > 0) {
+    return unknownLevels.map(([level]) => ({
+      field: 'in',
+      value: level,
+      message: `Geography level '${level}' is not available in ${query.dataset}.`,
+      suggestions: suggest(level, levelNames),
+    }))
+  }
+
+  if (entries.some((entry) => fitsHierarchy(entry, forCodes, inLevels))) {
+    return []
+  }
+
+  const codes = new Map(inLevels)
+  const chains = entries.map((entry) =>
+    (entry.requires ?? [])
+      .map((level) => `${level}:${codes.get(level) ?? '*'}`)
+      .join('+'),
+  )
+
+  return [
+    {
+      field: 'in',
+      value: query.in ?? '',
+      message: `'${forLevel}' cannot be requested ${query.in ? `in '${query.in}'` : 'without in'}. It requires ${entries
+        .map((entry) => entry.requires?.join(', ') || 'no parent geography')
+        .join(' or ')}${wildcardNote(entries)}.`,
+      suggestions: Array.from(new Set(chains.filter(Boolean))).slice(
+        0,
+        MAX_SUGGESTIONS,
+      ),
+    },
+  ]
+}
+
+export function formatIssues(issues: QueryIssue[]): string {
+  return issues
+    .map((issue) => {
+      const suggestions = issue.suggestions.length
+        ? ` Did you mean ${issue.suggestions.map((s) => `'${s}'`).join(', ')}?`
+        : ''
+      return `- ${issue.message}${suggestions}`
+    })
+    .join('\n')
+}
+
+// A level can be omitted from 'in' when it is optionalWithWCFor and 'for' is
+// a wildcard, and can only be a wildcard itself when listed in wildcard
+function fitsHierarchy(
+  entry: GeographyFipsEntry,
+  forCodes: string,
+  inLevels: [string, string][],
+): boolean {
+  const requires = entry.requires ?? []
+  const given = new Map(inLevels)
+
+  return (
+    inLevels.every(
+      ([level, codes]) =>
+        requires.includes(level) &&
+        (!codes.includes('*') || (entry.wildcard ?? []).includes(level)),
+    ) &&
+    requires.every(
+      (level) =>
+        given.has(level) ||
+        (level === entry.optionalWithWCFor && forCodes === '*'),
+    )
+  )
+}
+
+function wildcardNote(entries: GeographyFipsEntry[]): string {
+  const wildcards = Array.from(
+    new Set(entries.flatMap((entry) => entry.wildcard ?? [])),
+  )
+  return wildcards.length
+    ? `, with wildcards allowed only for ${wildcards.join(', ')}`
+    : ''
+}
+
+function ucgidIssues(
+  metadata: GeographyJson,
+  ucgid: string | undefined,
+): QueryIssue[] {
+  if (!ucgid || ucgid.startsWith('pseudo(')) return []
+
+  const levels = metadata.fips.map((entry) => entry.geoLevelDisplay)
+
+  return ucgid
+    .split(',')
+    .filter((value) => !levels.includes(value.slice(0, 3)))
+    .map((value) => ({
+      field: 'ucgid',
+      value,
+      message: `Summary level ${value.slice(0, 3)} of UCGID ${value} is not available in the dataset.`,
+      suggestions: [],
+    }))
+}
+
+// e.g. 'county subdivision:91835' to ['county subdivision', '91835']
+function splitLevel(param: string): [string, string] {
+  const separator = param.lastIndexOf(':')
+  return [param.slice(0, separator).trim(), param.slice(separator + 1)]
+}
@@ -0,0 +1,43 @@
+import { RankedValue, RankOrder } from '../types/ranking.types.js'
+
+// Ranks the non-null values, 1 being the highest with desc and the lowest
+// with asc. Ties share the best rank, e.g. 1, 2, 2, 4. The percentile does
+// not depend on the order, so the highest value is always the 100th.
+export function rankValues(
+  values: (number | null)[],
+  order: RankOrder = 'desc',
+): RankedValue[] {
+  const entries = values
+    .map((value, index) => ({ index, value }))
+    .filter((entry): entry is { index: number; value: number } =>
+      Number.isFinite(entry.value),
+    )
+
+  const sorted = entries.sort((a, b) =>
+    order === 'desc' ? b.value - a.value : a.value - b.value,
+  )
+
+  // The number of values below each value
+  const lowerCounts = new Map<number, number>()
+  ;[...sorted]
+    .sort((a, b) => a.value - b.value)
+    .forEach((entry, position) => {
+      if (!lowerCounts.has(entry.value)) lowerCounts.set(entry.value, position)
+    })
+
+  let rank = 0
+  return sorted.map((entry, position) => {
+    if (position === 0 || entry.value !== sorted[position - 1].value) {
+      rank = position + 1
+    }
+
+    const percentile =
+      sorted.length > 1
+        ? Math.round(
+            (1000 * lowerCounts.get(entry.value)!) / (sorted.length - 1),
+          ) / 10
+        : 100
+
+    return { ...entry, rank, percentile }
+  })
+}
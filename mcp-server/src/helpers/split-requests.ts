@@ -0,0 +1,95 @@
+import { CensusApiRows } from '../types/census-api.types.js'
+
+// The Census Data API rejects requests for more variables than this
+export const MAX_VARIABLES_PER_REQUEST = 50
+
+interface SplitResponse {
+  variables: string[]
+  rows: CensusApiRows
+}
+
+// Splits the get list into chunks the Census Data API accepts. An empty list
+// still yields one request. A smaller size leaves room for columns added to
+// every chunk.
+export function splitVariables(
+  getItems: string[],
+  size = MAX_VARIABLES_PER_REQUEST,
+): string[][] {
+  const chunks: string[][] = []
+
+  for (let i = 0; i < getItems.length; i += size) {
+    chunks.push(getItems.slice(i, i + size))
+  }
+
+  return chunks.length ? chunks : [[]]
+}
+
+// Joins the responses of a request that was split by variable into one
+// table. Columns that every response returned without them being requested,
+// such as state and county or predicate columns, identify each row. The
+// requested columns keep their order and the key columns are placed last, as
+// the Census Data API does. headerRowCount is 2 for descriptive responses.
+export function joinOnGeography(
+  responses: SplitResponse[],
+  headerRowCount = 1,
+): CensusApiRows {
+  const requested = new Set(responses.flatMap((response) => response.variables))
+  const headerSets = responses.map((response) => response.rows[0].map(String))
+
+  const keyColumns = headerSets[0].filter(
+    (header) =>
+      !requested.has(header) &&
+      headerSets.every((headers) => headers.includes(header)),
+  )
+
+  // Maps each output column to the response and column it is read from
+  const columns: { response: number; index: number; header: string }[] = []
+  const seen = new Set(keyColumns)
+
+  headerSets.forEach((headers, response) => {
+    headers.forEach((header, index) => {
+      if (seen.has(header)) return
+      seen.add(header)
+      columns.push({ response, index, header })
+    })
+  })
+
+  const keyIndexes = headerSets.map((headers) =>
+    keyColumns.map((column) => headers.indexOf(column)),
+  )
+
+  const headerRows: CensusApiRows = []
+  for (let row = 0; row < headerRowCount; row++) {
+    headerRows.push([
+      ...columns.map(
+        (column) =>
+          responses[column.response].rows[row]?.[column.index] ?? null,
+      ),
+      ...keyIndexes[0].map((index) => responses[0].rows[row]?.[index] ?? null),
+    ])
+  }
+
+  // Rows are ordered by their first appearance across the responses
+  const joined = new Map<string, CensusApiRows[number]>()
+
+  responses.forEach((response, responseIndex) => {
+    for (const row of response.rows.slice(headerRowCount)) {
+      const keyValues = keyIndexes[responseIndex].map((index) => row[index])
+      const key = JSON.stringify(keyValues)
+
+      let joinedRow = joined.get(key)
+      if (!joinedRow) {
+        joinedRow = [...columns.map(() => null), ...keyValues]
+        joined.set(key, joinedRow)
+      }
+
+      columns.forEach((column, outputIndex) => {
+        if (column.response === responseIndex) {
+          joinedRow[outputIndex] = row[column.index] ?? null
+        }
+      })
+    }
+  })
+
+  return [...headerRows, ...joined.values()]
+}
@@ -0,0 +1,119 @@
+import { TransportConfig, TransportMode } from '../types/transport.types.js'
+
+const TRANSPORT_MODES: TransportMode[] = ['stdio', 'http']
+
+export const DEFAULT_HTTP_HOST = '127.0.0.1'
+export const DEFAULT_HTTP_PORT = 3000
+export const DEFAULT_SESSION_TIMEOUT_MS = 30 * 60 * 1000
+export const DEFAULT_MAX_SESSIONS = 100
+export const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]']
+
+// Addresses that listen on every interface are not host names clients use
+const WILDCARD_HOSTS = ['0.0.0.0', '::', '[::]']
+
+// Reads --flag=value or --flag value from the CLI arguments
+function getFlag(argv: string[], flag: string): string | undefined {
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+
+    if (arg.startsWith(`--${flag}=`)) {
+      return arg.slice(flag.length + 3)
+    }
+
+    if (arg === `--${flag}` && argv[i + 1] && !argv[i + 1].startsWith('--')) {
+      return argv[i + 1]
+    }
+  }
+
+  return undefined
+}
+
+function parsePositiveInteger(
+  value: string | undefined,
+  fallback: number,
+  label: string,
+): number {
+  if (value === undefined || value === '') return fallback
+
+  const parsed = Number(value)
+
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`Invalid ${label}: ${value}`)
+  }
+
+  return parsed
+}
+
+// e.g. 'example.com, Localhost' into ['example.com', 'localhost']
+function parseList(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((item) => item.trim().toLowerCase())
+    .filter(Boolean)
+}
+
+// IPv6 addresses are bracketed in Host headers, e.g. [::1]:3000
+export function normalizeHostname(host: string): string {
+  const hostname = host.trim().toLowerCase()
+  return hostname.includes(':') && !hostname.startsWith('[')
+    ? `[${hostname}]`
+    : hostname
+}
+
+// Loopback names and the listening host are allowed unless hosts are listed
+function defaultAllowedHosts(host: string): string[] {
+  const hostname = normalizeHostname(host)
+
+  return WILDCARD_HOSTS.includes(hostname) || LOOPBACK_HOSTS.includes(hostname)
+    ? LOOPBACK_HOSTS
+    : [...LOOPBACK_HOSTS, hostname]
+}
+
+// CLI flags take precedence over environment variables
+export function resolveTransportConfig(
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env,
+): TransportConfig {
+  const mode = (
+    getFlag(argv, 'transport') ??
+    env.MCP_TRANSPORT ??
+    'stdio'
+  ).toLowerCase()
+
+  if (!TRANSPORT_MODES.includes(mode as TransportMode)) {
+    throw new Error(
+      `Invalid transport: ${mode}. Expected one of: ${TRANSPORT_MODES.join(', ')}`,
+    )
+  }
+
+  const host = getFlag(argv, 'host') ?? env.MCP_HTTP_HOST ?? DEFAULT_HTTP_HOST
+  const allowedHosts = parseList(env.MCP_ALLOWED_HOSTS).map(normalizeHostname)
+
+  return {
+    mode: mode as TransportMode,
+    http: {
+      host,
+      port: parsePositiveInteger(
+        getFlag(argv, 'port') ?? env.MCP_HTTP_PORT,
+        DEFAULT_HTTP_PORT,
+        'port',
+      ),
+      sessionTimeoutMs: parsePositiveInteger(
+        env.MCP_SESSION_TIMEOUT_MS,
+        DEFAULT_SESSION_TIMEOUT_MS,
+        'session timeout',
+      ),
+      maxSessions: parsePositiveInteger(
+        env.MCP_MAX_SESSIONS,
+        DEFAULT_MAX_SESSIONS,
+        'maximum number of sessions',
+      ),
+      allowedHosts: allowedHosts.length
+        ? allowedHosts
+        : defaultAllowedHosts(host),
+      allowedOrigins: parseList(env.MCP_ALLOWED_ORIGINS).map((origin) =>
+        origin.replace(/\/+$/, ''),
+      ),
+    },
+  }
+}
@@ -0,0 +1,187 @@
+import { ValidationError } from '../errors/tool.errors.js'
+import { GeographyClause } from '../types/geography-hierarchy.types.js'
+import { ParsedUcgid, UcgidComponent } from '../types/ucgid.types.js'
+
+// Summary level (3), geographic variant (2), geographic component (2), 'US'
+// and the GEOID, e.g. 0500000US48453 or 860Z200US77494
+const ucgidParts: RegExp = /^(\d{3})([0-9A-Z]{2})([0-9A-Z]{2})US([0-9A-Z]*)$/
+
+// The variant of geographies without a vintage. Levels such as congressional
+// districts name theirs in the variant, e.g. 5001800US4802 for the 118th
+// Congress.
+export const DEFAULT_UCGID_VARIANT = '00'
+
+const state: UcgidComponent = { level: 'state', width: 2 }
+const county: UcgidComponent = { level: 'county', width: 3 }
+
+const part = (level: string, width: number): UcgidComponent => ({
+  level,
+  width,
+})
+
+// The parts of the GEOID of each summary level the for and in syntax covers,
+// in the order of the Census Data API's geography hierarchy
+export const UCGID_LEVELS: Record<string, UcgidComponent[]> = {
+  '010': [],
+  '020': [part('region', 1)],
+  '030': [part('division', 1)],
+  '040': [state],
+  '050': [state, county],
+  '060': [state, county, part('county subdivision', 5)],
+  '140': [state, county, part('tract', 6)],
+  '150': [state, county, part('tract', 6), part('block group', 1)],
+  '160': [state, part('place', 5)],
+  '310': [
+    part('metropolitan statistical area/micropolitan statistical area', 5),
+  ],
+  '330': [part('combined statistical area', 3)],
+  '400': [part('urban area', 5)],
+  '500': [state, part('congressional district', 2)],
+  '610': [state, part('state legislative district (upper chamber)', 3)],
+  '620': [state, part('state legislative district (lower chamber)', 3)],
+  '795': [state, part('public use microdata area', 5)],
+  '860': [part('zip code tabulation area', 5)],
+  '950': [state, part('school district (elementary)', 5)],
+  '960': [state, part('school district (secondary)', 5)],
+  '970': [state, part('school district (unified)', 5)],
+}
+
+// Splits a UCGID into its parts. The GEOID is split into the codes of its
+// levels when the summary level is known and the GEOID has the right length.
+export function parseUcgid(ucgid: string): ParsedUcgid | null {
+  const match = ucgidParts.exec(ucgid)
+  if (!match) return null
+
+  const [, summaryLevel, variant, component, geoid] = match
+  const components = UCGID_LEVELS[summaryLevel]
+
+  const width = components?.reduce((sum, { width }) => sum + width, 0)
+  let offset = 0
+
+  const parts =
+    components && width === geoid.length
+      ? Object.fromEntries(
+          components.map(({ level, width }) => {
+            const code = geoid.slice(offset, offset + width)
+            offset += width
+            return [level, code]
+          }),
+        )
+      : undefined
+
+  return {
+    ucgid,
+    summaryLevel,
+    variant,
+    component,
+    geoid,
+    ...(parts && { parts }),
+  }
+}
+
+// The for and in clause of a UCGID, e.g. 0500000US48453 to
+// { for: 'county:453', in: 'state:48' }
+export function ucgidToClause(ucgid: string): GeographyClause {
+  const parsed = parseUcgid(ucgid)
+
+  if (!parsed) {
+    throw new ValidationError(
+      `Invalid UCGID: ${ucgid}. UCGIDs look like 0500000US48453.`,
+      { ucgid },
+    )
+  }
+
+  if (parsed.component !== '00') {
+    throw new ValidationError(
+      `UCGID ${ucgid} is a geographic component, which for and in clauses cannot express. Use it as a ucgid instead.`,
+      { ucgid },
+    )
+  }
+
+  if (!parsed.parts) {
+    throw new ValidationError(
+      `UCGID ${ucgid} has a summary level or GEOID that cannot be converted to for and in clauses.`,
+      { ucgid },
+    )
+  }
+
+  if (parsed.summaryLevel === '010') return { for: 'us:1' }
+
+  const levels = Object.entries(parsed.parts).map(
+    ([level, code]) => `${level}:${code}`,
+  )
+  const inParam = levels.slice(0, -1).join('+')
+
+  return { for: levels[levels.length - 1], ...(inParam && { in: inParam }) }
+}
+
+// The UCGIDs of a for and in clause, e.g. { for: 'county:453,491', in:
+// 'state:48' } to ['0500000US48453', '0500000US48491']. Wildcards cannot be
+// converted, as a UCGID names a single geography.
+export function clauseToUcgids(
+  clause: GeographyClause,
+  variant: string = DEFAULT_UCGID_VARIANT,
+): string[] {
+  const [forLevel, forCodes] = splitLevel(clause.for)
+
+  if (forLevel === 'us') return ['0100000US']
+
+  const parents = Object.fromEntries(
+    (clause.in ? clause.in.split('+') : []).map(splitLevel),
+  )
+
+  const entry = Object.entries(UCGID_LEVELS).find(
+    ([, components]) =>
+      components.length > 0 &&
+      components[components.length - 1].level === forLevel &&
+      components.slice(0, -1).every((component) => component.level in parents),
+  )
+
+  if (!entry) {
+    throw new ValidationError(
+      `Cannot build UCGIDs for ${clause.for}${clause.in ? ` in ${clause.in}` : ''}. Check that 'in' has every parent level, e.g. state:48+county:453 for tracts.`,
+      { for: clause.for, in: clause.in },
+    )
+  }
+
+  const [summaryLevel, components] = entry
+  const parentCodes = components.slice(0, -1).map((component) => {
+    const code = parents[component.level]
+
+    if (!isCode(code, component)) {
+      throw new ValidationError(
+        `Invalid ${component.level} code in ${clause.in}. UCGIDs need one ${component.width} digit code per level.`,
+        { in: clause.in },
+      )
+    }
+
+    return code
+  })
+
+  const target = components[components.length - 1]
+
+  return forCodes.split(',').map((code) => {
+    if (!isCode(code, target)) {
+      throw new ValidationError(
+        `Invalid ${target.level} code ${code} in ${clause.for}. UCGIDs need a ${target.width} digit code, not a wildcard.`,
+        { for: clause.for },
+      )
+    }
+
+    return `${summaryLevel}${variant}00US${parentCodes.join('')}${code}`
+  })
+}
+
+// e.g. 'county subdivision:91835' to ['county subdivision', '91835']
+function splitLevel(param: string): [string, string] {
+  const separator = param.lastIndexOf(':')
+  return [param.slice(0, separator).trim(), param.slice(separator + 1)]
+}
+
+function isCode(code: string | undefined, component: UcgidComponent): boolean {
+  return (
+    code !== undefined &&
+    code.length === component.width &&
+    /^[0-9A-Z]+$/.test(code)
+  )
+}
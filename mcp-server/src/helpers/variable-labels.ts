@@ -0,0 +1,90 @@
+import { CensusApiRows } from '../types/census-api.types.js'
+import {
+  ColumnLabel,
+  LabelStyle,
+  ParsedLabel,
+} from '../types/variable.types.js'
+
+// Labels separate each level with !!, and levels that have children end in
+// a colon, e.g. 'Estimate!!Total:!!Male:!!Under 5 years'. Single-level
+// labels such as 'Geographic Area Name' have no measure.
+export function parseLabel(label: string): ParsedLabel {
+  const parts = label
+    .split('!!')
+    .map((part) => part.trim().replace(/:$/, ''))
+    .filter(Boolean)
+
+  if (parts.length < 2) return { path: parts }
+
+  const [measure, ...path] = parts
+  return { measure, path }
+}
+
+// e.g. 'Total > Male > Under 5 years', prefixed with the measure unless it
+// is an estimate
+export function formatLabel({ measure, path }: ParsedLabel): string {
+  const hierarchy = path.join(' > ')
+  return measure && measure !== 'Estimate'
+    ? `${measure}: ${hierarchy}`
+    : hierarchy
+}
+
+export function formatColumnName(column: ColumnLabel, style: LabelStyle) {
+  if (style === 'code' || !column.label) return column.name
+
+  const label = formatLabel(column)
+  return style === 'label' || label === column.name
+    ? label
+    : `${label} [${column.name}]`
+}
+
+// With descriptive=true the Census Data API returns the labels as the second
+// row. They describe the columns, so they are split from the data rows.
+export function splitDescriptiveRow(
+  data: CensusApiRows,
+  descriptive: boolean,
+): { headers: string[]; columns?: ColumnLabel[]; rows: CensusApiRows } {
+  const [headerRow, ...rest] = data
+  const headers = headerRow.map(String)
+
+  if (!descriptive) return { headers, rows: rest }
+
+  const [labelRow = [], ...rows] = rest
+  const columns = headers.map((name, i) => {
+    const label = labelRow[i] == null ? '' : String(labelRow[i])
+    return { name, label, ...parseLabel(label) }
+  })
+
+  return { headers, columns, rows }
+}
+
+// Renders the labels of the columns as an indented hierarchy, sharing the
+// levels the columns have in common
+export function formatLabelTree(columns: ColumnLabel[]): string {
+  const lines: string[] = []
+  let previous: string[] = []
+
+  for (const column of columns) {
+    const levels = [...(column.measure ? [column.measure] : []), ...column.path]
+    if (levels.length === 0) continue
+
+    let shared = 0
+    while (
+      shared < levels.length - 1 &&
+      shared < previous.length &&
+      levels[shared] === previous[shared]
+    ) {
+      shared++
+    }
+
+    levels.slice(shared).forEach((level, i) => {
+      const depth = shared + i
+      const code = depth === levels.length - 1 ? ` [${column.name}]` : ''
+      lines.push(`${'  '.repeat(depth)}${level}${code}`)
+    })
+
+    previous = levels
+  }
+
+  return lines.join('\n')
+}
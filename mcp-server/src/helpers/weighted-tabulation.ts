@@ -0,0 +1,185 @@
+import { MOE_Z_SCORE } from './acs-moe.js'
+import { CensusApiRows } from '../types/census-api.types.js'
+import {
+  MicrodataWeight,
+  MicrodataWeights,
+  WeightedTabulation,
+} from '../types/microdata.types.js'
+
+function replicateVariables(prefix: string, count: number): string[] {
+  return Array.from({ length: count }, (_, i) => `${prefix}${i + 1}`)
+}
+
+// ACS PUMS publishes 80 successive difference replicate weights per weight,
+// see the PUMS Accuracy of the Data documentation
+const acsPumsWeights: MicrodataWeights['weights'] = {
+  PWGTP: {
+    replicates: { variables: replicateVariables('PWGTP', 80), factor: 4 / 80 },
+    recordKeys: ['SERIALNO', 'SPORDER'],
+  },
+  WGTP: {
+    replicates: { variables: replicateVariables('WGTP', 80), factor: 4 / 80 },
+    recordKeys: ['SERIALNO'],
+    // Household weights are counted once per household, on the householder
+    predicates: { SPORDER: '1' },
+  },
+}
+
+// Matched against the dataset identifier in order, like datasetValidator
+export const MICRODATA_WEIGHTS: MicrodataWeights[] = [
+  {
+    identifiers: ['pums', 'pumpr'],
+    defaultWeight: 'PWGTP',
+    weights: acsPumsWeights,
+  },
+  {
+    identifiers: ['cps/asec'],
+    defaultWeight: 'MARSUPWT',
+    weights: { MARSUPWT: { recordKeys: [] }, HSUP_WGT: { recordKeys: [] } },
+  },
+  {
+    identifiers: ['cps'],
+    defaultWeight: 'PWSSWGT',
+    weights: { PWSSWGT: { recordKeys: [] }, HWHHWGT: { recordKeys: [] } },
+  },
+  {
+    identifiers: ['sipp'],
+    defaultWeight: 'WPFINWGT',
+    weights: { WPFINWGT: { recordKeys: [] } },
+  },
+  {
+    identifiers: ['cfspum'],
+    defaultWeight: 'WGT_FACTOR',
+    weights: { WGT_FACTOR: { recordKeys: [] } },
+  },
+]
+
+// Resolves the weight variable for a dataset, falling back to its default
+// weight. Weights the dataset does not describe have no replicate weights.
+export function resolveMicrodataWeight(
+  dataset: string,
+  weight?: string,
+  useReplicates = true,
+): MicrodataWeight {
+  const config = MICRODATA_WEIGHTS.find((entry) =>
+    entry.identifiers.some((identifier) => dataset.includes(identifier)),
+  )
+
+  const variable = weight ?? config?.defaultWeight
+
+  if (!variable) {
+    throw new Error(`No default weight is known for ${dataset}`)
+  }
+
+  const { replicates, ...rest } = config?.weights[variable] ?? {
+    recordKeys: [],
+  }
+
+  return {
+    variable,
+    ...rest,
+    ...(useReplicates && replicates ? { replicates } : {}),
+  }
+}
+
+function toNumber(value: string | number | null | undefined): number {
+  const number = Number(value)
+  return Number.isFinite(number) ? number : 0
+}
+
+function compareValues(a: CensusApiRows[number], b: CensusApiRows[number]) {
+  for (let i = 0; i < a.length; i++) {
+    const order = String(a[i]).localeCompare(String(b[i]), undefined, {
+      numeric: true,
+    })
+    if (order !== 0) return order
+  }
+  return 0
+}
+
+// Sums the weight of every record for each combination of the group columns.
+// With replicate weights, each cell also gets its standard error and 90
+// percent margin of error.
+export function tabulateWeighted(
+  data: CensusApiRows,
+  groupColumns: string[],
+  weight: MicrodataWeight,
+): WeightedTabulation {
+  const [headerRow, ...records] = data
+  const headers = headerRow.map(String)
+
+  const indexOf = (column: string) => {
+    const index = headers.indexOf(column)
+    if (index === -1) {
+      throw new Error(`Column ${column} is missing from the response`)
+    }
+    return index
+  }
+
+  const groupIndexes = groupColumns.map(indexOf)
+  const weightIndex = indexOf(weight.variable)
+  const replicateIndexes = weight.replicates?.variables.map(indexOf) ?? []
+
+  const cells = new Map<
+    string,
+    {
+      values: CensusApiRows[number]
+      estimate: number
+      count: number
+      replicates: number[]
+    }
+  >()
+
+  for (const record of records) {
+    const values = groupIndexes.map((index) => record[index] ?? null)
+    const key = JSON.stringify(values)
+
+    let cell = cells.get(key)
+    if (!cell) {
+      cell = {
+        values,
+        estimate: 0,
+        count: 0,
+        replicates: replicateIndexes.map(() => 0),
+      }
+      cells.set(key, cell)
+    }
+
+    cell.estimate += toNumber(record[weightIndex])
+    cell.count += 1
+    replicateIndexes.forEach((index, i) => {
+      cell.replicates[i] += toNumber(record[index])
+    })
+  }
+
+  const rows = Array.from(cells.values())
+    .sort((a, b) => compareValues(a.values, b.values))
+    .map((cell) => {
+      const row = [...cell.values, cell.estimate, cell.count]
+
+      if (weight.replicates) {
+        const sumOfSquares = cell.replicates.reduce(
+          (sum, replicate) => sum + (replicate - cell.estimate) ** 2,
+          0,
+        )
+        const standardError = Math.sqrt(weight.replicates.factor * sumOfSquares)
+        row.push(
+          Math.round(standardError),
+          Math.round(standardError * MOE_Z_SCORE),
+        )
+      }
+
+      return row
+    })
+
+  return {
+    headers: [
+      ...groupColumns,
+      'weighted_count',
+      'unweighted_count',
+      ...(weight.replicates ? ['standard_error', 'margin_of_error'] : []),
+    ],
+    rows,
+    recordCount: records.length,
+  }
+}
@@ -0,0 +1,50 @@
+// The number of years of sample data in each ACS multiyear estimate
+function acsPeriodYears(dataset: string): number | undefined {
+  const match = dataset.match(/^acs\/acs([35])\b/)
+  return match ? Number(match[1]) : undefined
+}
+
+function listYears(years: number[]): string {
+  return years.join(', ')
+}
+
+// Notes on why the values of different vintages of a dataset may not be
+// comparable. missingVariables lists the years each variable was not
+// available in.
+export function comparabilityWarnings(
+  dataset: string,
+  startYear: number,
+  endYear: number,
+  years: number[],
+  missingVariables: Map<string, number[]> = new Map(),
+): string[] {
+  const warnings: string[] = []
+
+  if (/^acs\/acs1\b/.test(dataset) && startYear <= 2020 && endYear >= 2020) {
+    warnings.push(
+      'The 2020 ACS 1-year estimates were not released because of data collection disruptions during the COVID-19 pandemic. Use the experimental 2020 estimates or the ACS 5-year estimates to fill the gap.',
+    )
+  }
+
+  const period = acsPeriodYears(dataset)
+  if (period) {
+    const overlapping = years.filter((year, i) =>
+      years.some((other, j) => i !== j && Math.abs(year - other) < period),
+    )
+
+    if (overlapping.length) {
+      const [first] = overlapping
+      warnings.push(
+        `The ACS ${period}-year estimates for ${listYears(overlapping)} cover overlapping periods and share sample data, so differences between them are not independent. Compare non-overlapping periods, e.g. ${first - period + 1}-${first} and ${first + 1}-${first + period}.`,
+      )
+    }
+  }
+
+  for (const [variable, missingYears] of missingVariables) {
+    warnings.push(
+      `${variable} is not available in ${listYears(missingYears)}. Its code or definition may have changed between vintages; check each year with describe-variables.`,
+    )
+  }
+
+  return warnings
+}
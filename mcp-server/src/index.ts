@@ -8,29 +8,87 @@ if (!enableDebugLogs) {
 
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import { MCPServer } from './server.js'
+import { resolveTransportConfig } from './helpers/transport-config.js'
+import { CacheService } from './services/cache.service.js'
+import { HttpTransportService } from './services/http-transport.service.js'
 
+import { AggregateGeographiesTool } from './tools/aggregate-geographies.tool.js'
+import { CalculateMoeTool } from './tools/calculate-moe.tool.js'
+import { CompareYearsTool } from './tools/compare-years.tool.js'
+import { ConvertGeographyTool } from './tools/convert-geography.tool.js'
+import { DescribeVariablesTool } from './tools/describe-variables.tool.js'
+import { ExpandGeographyTool } from './tools/expand-geography.tool.js'
 import { FetchAggregateDataTool } from './tools/fetch-aggregate-data.tool.js'
 import { FetchDatasetGeographyTool } from './tools/fetch-dataset-geography.tool.js'
+import { FetchMicrodataTool } from './tools/fetch-microdata.tool.js'
+import { FetchTimeseriesDataTool } from './tools/fetch-timeseries-data.tool.js'
+import { GetResultPageTool } from './tools/get-result-page.tool.js'
 import { ListDatasetsTool } from './tools/list-datasets.tool.js'
+import { RankGeographiesTool } from './tools/rank-geographies.tool.js'
 import { ResolveGeographyFipsTool } from './tools/resolve-geography-fips.tool.js'
 import { SearchDataTablesTool } from './tools/search-data-tables.tool.js'
 
 import { PopulationPrompt } from './prompts/population.prompt.js'
 
+import { ComponentResource } from './resources/component.resource.js'
+import { DatasetResource } from './resources/dataset.resource.js'
+import { ProgramResource } from './resources/program.resource.js'
+import { SummaryLevelResource } from './resources/summary-level.resource.js'
+import { TopicResource } from './resources/topic.resource.js'
+
 // MCP Server Setup
 async function main() {
+  const transportConfig = resolveTransportConfig()
   const mcpServer = new MCPServer('census-api', '0.1.0')
 
   // Register prompts
   mcpServer.registerPrompt(new PopulationPrompt())
 
   // Register tools
+  mcpServer.registerTool(new AggregateGeographiesTool())
+  mcpServer.registerTool(new CalculateMoeTool())
+  mcpServer.registerTool(new CompareYearsTool())
+  mcpServer.registerTool(new ConvertGeographyTool())
+  mcpServer.registerTool(new DescribeVariablesTool())
+  mcpServer.registerTool(new ExpandGeographyTool())
   mcpServer.registerTool(new FetchAggregateDataTool())
   mcpServer.registerTool(new FetchDatasetGeographyTool())
+  mcpServer.registerTool(new FetchMicrodataTool())
+  mcpServer.registerTool(new FetchTimeseriesDataTool())
+  mcpServer.registerTool(new GetResultPageTool())
   mcpServer.registerTool(new ListDatasetsTool())
+  mcpServer.registerTool(new RankGeographiesTool())
   mcpServer.registerTool(new ResolveGeographyFipsTool())
   mcpServer.registerTool(new SearchDataTablesTool())
 
+  // Register resources
+  mcpServer.registerResource(new ComponentResource())
+  mcpServer.registerResource(new DatasetResource())
+  mcpServer.registerResource(new ProgramResource())
+  mcpServer.registerResource(new SummaryLevelResource())
+  mcpServer.registerResource(new TopicResource())
+
+  // Remove expired Census API responses from the cache
+  CacheService.getInstance().startCleanup()
+
+  if (transportConfig.mode === 'http') {
+    const httpTransport = new HttpTransportService(
+      mcpServer,
+      transportConfig.http,
+    )
+    await httpTransport.start()
+
+    const shutdown = () => {
+      httpTransport
+        .stop()
+        .catch(console.error)
+        .finally(() => process.exit(0))
+    }
+    process.once('SIGINT', shutdown)
+    process.once('SIGTERM', shutdown)
+    return
+  }
+
   const transport = new StdioServerTransport()
   await mcpServer.connect(transport)
 }
@@ -0,0 +1,182 @@
+import {
+  ErrorCode,
+  McpError,
+  Resource,
+  ResourceTemplate,
+  TextResourceContents,
+} from '@modelcontextprotocol/sdk/types.js'
+import { UriTemplate } from '@modelcontextprotocol/sdk/shared/uriTemplate.js'
+import { z } from 'zod'
+
+import { DatabaseService } from '../services/database.service.js'
+
+// The number of resources returned by each resources/list request
+export const RESOURCE_PAGE_SIZE = 100
+
+// A slice of a resource's list, in the order of its listHandler
+export interface ResourcePage {
+  offset: number
+  limit: number
+}
+
+export interface MCPResource {
+  name: string
+  description: string
+  uriTemplate: string
+  mimeType: string
+  variableNames: string[]
+  listResources: (page?: ResourcePage) => Promise<Resource[]>
+  matches: (uri: string) => boolean
+  readResource: (uri: string) => Promise<{ contents: TextResourceContents[] }>
+}
+
+export abstract class BaseResource<Params extends object>
+  implements MCPResource
+{
+  abstract name: string
+  abstract description: string
+  abstract uriTemplate: string
+  abstract get paramsSchema(): z.ZodType<Params, z.ZodTypeDef, unknown>
+  protected abstract listHandler(page: ResourcePage): Promise<Resource[]>
+  protected abstract readHandler(params: Params): Promise<object | null>
+
+  mimeType = 'application/json'
+
+  protected dbService: DatabaseService
+  private template: UriTemplate | null = null
+
+  constructor() {
+    this.dbService = DatabaseService.getInstance()
+    this.listResources = this.listResources.bind(this)
+    this.readResource = this.readResource.bind(this)
+  }
+
+  private getTemplate(): UriTemplate {
+    if (!this.template) {
+      this.template = new UriTemplate(this.uriTemplate)
+    }
+    return this.template
+  }
+
+  get variableNames(): string[] {
+    return this.getTemplate().variableNames
+  }
+
+  buildUri(params: Record<string, string>): string {
+    return this.getTemplate().expand(params)
+  }
+
+  matches(uri: string): boolean {
+    const params = this.getTemplate().match(uri)
+    return params !== null && this.paramsSchema.safeParse(params).success
+  }
+
+  async listResources(
+    page: ResourcePage = { offset: 0, limit: RESOURCE_PAGE_SIZE },
+  ): Promise<Resource[]> {
+    await this.ensureDatabase()
+    return await this.listHandler(page)
+  }
+
+  async readResource(
+    uri: string,
+  ): Promise<{ contents: TextResourceContents[] }> {
+    const params = this.paramsSchema.safeParse(this.getTemplate().match(uri))
+
+    if (!params.success) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid resource URI: ${uri}`,
+      )
+    }
+
+    await this.ensureDatabase()
+    const data = await this.readHandler(params.data)
+
+    if (!data) {
+      throw new McpError(ErrorCode.InvalidParams, `Resource not found: ${uri}`)
+    }
+
+    return this.createResourceContents(uri, data)
+  }
+
+  private async ensureDatabase() {
+    const isDbHealthy = await this.dbService.healthCheck()
+    if (!isDbHealthy) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        'Database connection failed - cannot retrieve resource metadata.',
+      )
+    }
+  }
+
+  protected createResource(
+    params: Record<string, string>,
+    name: string,
+    description?: string,
+  ): Resource {
+    return {
+      uri: this.buildUri(params),
+      name,
+      description,
+      mimeType: this.mimeType,
+    }
+  }
+
+  protected createResourceContents(
+    uri: string,
+    data: object,
+  ): { contents: TextResourceContents[] } {
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: this.mimeType,
+          text: JSON.stringify(data, null, 2),
+        },
+      ],
+    }
+  }
+}
+
+export class ResourceRegistry {
+  private resources = new Map<string, MCPResource>()
+
+  register(resource: MCPResource): void {
+    if (this.resources.has(resource.name)) {
+      throw new Error(`Resource '${resource.name}' is already registered`)
+    }
+    this.resources.set(resource.name, resource)
+  }
+
+  getAll(): MCPResource[] {
+    return Array.from(this.resources.values())
+  }
+
+  get(name: string): MCPResource | undefined {
+    return this.resources.get(name)
+  }
+
+  has(name: string): boolean {
+    return this.resources.has(name)
+  }
+
+  findByUri(uri: string): MCPResource | undefined {
+    return this.getAll().find((resource) => resource.matches(uri))
+  }
+
+  findByTemplate(uriTemplate: string): MCPResource | undefined {
+    return this.getAll().find(
+      (resource) => resource.uriTemplate === uriTemplate,
+    )
+  }
+
+  getTemplates(): ResourceTemplate[] {
+    return this.getAll().map((resource) => ({
+      uriTemplate: resource.uriTemplate,
+      name: resource.name,
+      description: resource.description,
+      mimeType: resource.mimeType,
+    }))
+  }
+}
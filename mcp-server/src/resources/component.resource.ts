@@ -0,0 +1,82 @@
+import { Resource } from '@modelcontextprotocol/sdk/types.js'
+
+import { BaseResource, ResourcePage } from './base.resource.js'
+import {
+  ComponentResourceParams,
+  ComponentResourceParamsSchema,
+} from '../schema/resources.schema.js'
+import {
+  ComponentListRow,
+  ComponentResourceRow,
+} from '../types/component.types.js'
+
+export const resourceDescription = `
+  A component of a Census Bureau program, e.g. ACS 1-Year Detailed Tables, with its description, API endpoint, parent program, and the years it is available.
+`
+
+export class ComponentResource extends BaseResource<ComponentResourceParams> {
+  name = 'component'
+  description = resourceDescription
+  uriTemplate = 'census://component/{component_id}'
+
+  get paramsSchema() {
+    return ComponentResourceParamsSchema
+  }
+
+  protected async listHandler(page: ResourcePage): Promise<Resource[]> {
+    const result = await this.dbService.query<ComponentListRow>(
+      `SELECT c.component_id, c.label, c.description, p.label AS program_label
+       FROM components c
+       JOIN programs p ON p.id = c.program_id
+       ORDER BY p.label, c.label, c.component_id
+       LIMIT $1 OFFSET $2`,
+      [page.limit, page.offset],
+    )
+
+    return result.rows.map((row) =>
+      this.createResource(
+        { component_id: row.component_id },
+        `${row.program_label} - ${row.label}`,
+        row.description,
+      ),
+    )
+  }
+
+  protected async readHandler(
+    params: ComponentResourceParams,
+  ): Promise<object | null> {
+    const result = await this.dbService.query<ComponentResourceRow>(
+      `SELECT
+         c.component_id,
+         c.label,
+         c.api_endpoint,
+         c.description,
+         p.acronym AS program_acronym,
+         p.label AS program_label,
+         COALESCE(
+           array_agg(DISTINCT y.year ORDER BY y.year)
+             FILTER (WHERE y.year IS NOT NULL),
+           '{}'
+         ) AS years
+       FROM components c
+       JOIN programs p ON p.id = c.program_id
+       LEFT JOIN datasets d ON d.component_id = c.id
+       LEFT JOIN years y ON y.id = d.year_id
+       WHERE c.component_id = $1
+       GROUP BY c.id, p.id`,
+      [params.component_id],
+    )
+
+    const row = result.rows[0]
+    if (!row) return null
+
+    return {
+      component_id: row.component_id,
+      label: row.label,
+      api_endpoint: row.api_endpoint,
+      description: row.description,
+      program: { acronym: row.program_acronym, label: row.program_label },
+      years: row.years,
+    }
+  }
+}
@@ -0,0 +1,110 @@
+import { Resource } from '@modelcontextprotocol/sdk/types.js'
+
+import { BaseResource, ResourcePage } from './base.resource.js'
+import {
+  DatasetResourceParams,
+  DatasetResourceParamsSchema,
+} from '../schema/resources.schema.js'
+import { DatasetListRow, DatasetResourceRow } from '../types/dataset.types.js'
+
+export const resourceDescription = `
+  Metadata for a Census Bureau dataset vintage, including its title, description, dataset type, temporal coverage, program, component, and topics. Use the api_endpoint and year with fetch-dataset-geography and fetch-aggregate-data.
+`
+
+export class DatasetResource extends BaseResource<DatasetResourceParams> {
+  name = 'dataset'
+  description = resourceDescription
+  uriTemplate = 'census://dataset/{+api_endpoint}/{year}'
+
+  get paramsSchema() {
+    return DatasetResourceParamsSchema
+  }
+
+  protected async listHandler(page: ResourcePage): Promise<Resource[]> {
+    // Timeseries datasets without a vintage cannot be addressed by year
+    const result = await this.dbService.query<DatasetListRow>(
+      `SELECT d.name, d.api_endpoint, y.year, d.description
+       FROM datasets d
+       JOIN years y ON y.id = d.year_id
+       ORDER BY d.api_endpoint, y.year DESC
+       LIMIT $1 OFFSET $2`,
+      [page.limit, page.offset],
+    )
+
+    return result.rows.map((row) =>
+      this.createResource(
+        { api_endpoint: row.api_endpoint, year: String(row.year) },
+        `${row.name} (${row.year})`,
+        row.description,
+      ),
+    )
+  }
+
+  protected async readHandler(
+    params: DatasetResourceParams,
+  ): Promise<object | null> {
+    const result = await this.dbService.query<DatasetResourceRow>(
+      `SELECT
+         d.dataset_id,
+         d.name,
+         d.api_endpoint,
+         y.year,
+         d.type,
+         d.description,
+         d.temporal_start,
+         d.temporal_end,
+         c.component_id,
+         c.label AS component_label,
+         p.acronym AS program_acronym,
+         p.label AS program_label,
+         COALESCE(
+           json_agg(
+             json_build_object('topic_string', t.topic_string, 'name', t.name)
+             ORDER BY t.name
+           ) FILTER (WHERE t.id IS NOT NULL),
+           '[]'
+         ) AS topics
+       FROM datasets d
+       JOIN years y ON y.id = d.year_id
+       LEFT JOIN components c ON c.id = d.component_id
+       LEFT JOIN programs p ON p.id = c.program_id
+       LEFT JOIN dataset_topics dt ON dt.dataset_id = d.id
+       LEFT JOIN topics t ON t.id = dt.topic_id
+       WHERE d.api_endpoint = $1 AND y.year = $2
+       GROUP BY d.id, y.year, c.id, p.id
+       LIMIT 1`,
+      [params.api_endpoint, params.year],
+    )
+
+    const row = result.rows[0]
+    if (!row) return null
+
+    const apiUrl = `https://api.census.gov/data/${row.year}/${row.api_endpoint}`
+
+    return {
+      dataset_id: row.dataset_id,
+      title: row.name,
+      api_endpoint: row.api_endpoint,
+      year: row.year,
+      type: row.type,
+      description: row.description,
+      temporal_coverage: {
+        start: row.temporal_start,
+        end: row.temporal_end,
+      },
+      program: row.program_acronym
+        ? { acronym: row.program_acronym, label: row.program_label }
+        : null,
+      component: row.component_id
+        ? { component_id: row.component_id, label: row.component_label }
+        : null,
+      topics: row.topics,
+      links: {
+        api: apiUrl,
+        variables: `${apiUrl}/variables.json`,
+        geography: `${apiUrl}/geography.json`,
+        groups: `${apiUrl}/groups.json`,
+      },
+    }
+  }
+}
@@ -0,0 +1,69 @@
+import { Resource } from '@modelcontextprotocol/sdk/types.js'
+
+import { BaseResource, ResourcePage } from './base.resource.js'
+import {
+  ProgramResourceParams,
+  ProgramResourceParamsSchema,
+} from '../schema/resources.schema.js'
+import { ProgramListRow, ProgramResourceRow } from '../types/component.types.js'
+
+export const resourceDescription = `
+  A Census Bureau program, e.g. the American Community Survey, with its description and the components published under it.
+`
+
+export class ProgramResource extends BaseResource<ProgramResourceParams> {
+  name = 'program'
+  description = resourceDescription
+  uriTemplate = 'census://program/{acronym}'
+
+  get paramsSchema() {
+    return ProgramResourceParamsSchema
+  }
+
+  protected async listHandler(page: ResourcePage): Promise<Resource[]> {
+    const result = await this.dbService.query<ProgramListRow>(
+      `SELECT acronym, label, description
+       FROM programs
+       ORDER BY label, acronym
+       LIMIT $1 OFFSET $2`,
+      [page.limit, page.offset],
+    )
+
+    return result.rows.map((row) =>
+      this.createResource(
+        { acronym: row.acronym },
+        row.label,
+        row.description ?? undefined,
+      ),
+    )
+  }
+
+  protected async readHandler(
+    params: ProgramResourceParams,
+  ): Promise<object | null> {
+    const result = await this.dbService.query<ProgramResourceRow>(
+      `SELECT
+         p.acronym,
+         p.label,
+         p.description,
+         COALESCE(
+           json_agg(
+             json_build_object(
+               'component_id', c.component_id,
+               'label', c.label,
+               'api_endpoint', c.api_endpoint
+             )
+             ORDER BY c.label
+           ) FILTER (WHERE c.id IS NOT NULL),
+           '[]'
+         ) AS components
+       FROM programs p
+       LEFT JOIN components c ON c.program_id = p.id
+       WHERE p.acronym = $1
+       GROUP BY p.id`,
+      [params.acronym],
+    )
+
+    return result.rows[0] ?? null
+  }
+}
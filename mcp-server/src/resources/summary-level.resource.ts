@@ -0,0 +1,93 @@
+import { Resource } from '@modelcontextprotocol/sdk/types.js'
+
+import { BaseResource, ResourcePage } from './base.resource.js'
+import {
+  SummaryLevelResourceParams,
+  SummaryLevelResourceParamsSchema,
+} from '../schema/resources.schema.js'
+import { SummaryLevelResourceRow } from '../types/summary-level.types.js'
+
+export const resourceDescription = `
+  Metadata for a Census Bureau summary level, including its name, description, the predicate used to query it, and its parent and child summary levels in the geographic hierarchy.
+`
+
+export class SummaryLevelResource extends BaseResource<SummaryLevelResourceParams> {
+  name = 'summary-level'
+  description = resourceDescription
+  uriTemplate = 'census://summary-level/{code}'
+
+  get paramsSchema() {
+    return SummaryLevelResourceParamsSchema
+  }
+
+  protected async listHandler(page: ResourcePage): Promise<Resource[]> {
+    const result = await this.dbService.query<{
+      code: string
+      name: string
+      description: string | null
+    }>(
+      `SELECT code, name, description
+       FROM summary_levels
+       ORDER BY code
+       LIMIT $1 OFFSET $2`,
+      [page.limit, page.offset],
+    )
+
+    return result.rows.map((row) =>
+      this.createResource(
+        { code: row.code },
+        `${row.name} (${row.code})`,
+        row.description ?? undefined,
+      ),
+    )
+  }
+
+  protected async readHandler(
+    params: SummaryLevelResourceParams,
+  ): Promise<object | null> {
+    const result = await this.dbService.query<SummaryLevelResourceRow>(
+      `SELECT
+         sl.code,
+         sl.name,
+         sl.description,
+         sl.get_variable,
+         sl.query_name,
+         sl.on_spine,
+         sl.hierarchy_level,
+         sl.parent_summary_level,
+         parent.name AS parent_name,
+         COALESCE(
+           (
+             SELECT json_agg(
+               json_build_object('code', child.code, 'name', child.name)
+               ORDER BY child.code
+             )
+             FROM summary_levels child
+             WHERE child.parent_summary_level_id = sl.id
+           ),
+           '[]'
+         ) AS children
+       FROM summary_levels sl
+       LEFT JOIN summary_levels parent ON parent.id = sl.parent_summary_level_id
+       WHERE sl.code = $1`,
+      [params.code],
+    )
+
+    const row = result.rows[0]
+    if (!row) return null
+
+    return {
+      code: row.code,
+      name: row.name,
+      description: row.description,
+      query_name: row.query_name,
+      get_variable: row.get_variable,
+      on_spine: row.on_spine,
+      hierarchy_level: row.hierarchy_level,
+      parent: row.parent_summary_level
+        ? { code: row.parent_summary_level, name: row.parent_name }
+        : null,
+      children: row.children,
+    }
+  }
+}
@@ -0,0 +1,85 @@
+import { Resource } from '@modelcontextprotocol/sdk/types.js'
+
+import { BaseResource, ResourcePage } from './base.resource.js'
+import {
+  TopicResourceParams,
+  TopicResourceParamsSchema,
+} from '../schema/resources.schema.js'
+import { TopicListRow, TopicResourceRow } from '../types/topic.types.js'
+
+export const resourceDescription = `
+  A Census Bureau data topic with its description, parent topic, subtopics, and the datasets (with available years) that cover it. Use it to find which datasets hold statistics on a subject.
+`
+
+export class TopicResource extends BaseResource<TopicResourceParams> {
+  name = 'topic'
+  description = resourceDescription
+  uriTemplate = 'census://topic/{topic_string}'
+
+  get paramsSchema() {
+    return TopicResourceParamsSchema
+  }
+
+  protected async listHandler(page: ResourcePage): Promise<Resource[]> {
+    const result = await this.dbService.query<TopicListRow>(
+      `SELECT topic_string, name, description
+       FROM topics
+       ORDER BY name, topic_string
+       LIMIT $1 OFFSET $2`,
+      [page.limit, page.offset],
+    )
+
+    return result.rows.map((row) =>
+      this.createResource(
+        { topic_string: row.topic_string },
+        row.name,
+        row.description,
+      ),
+    )
+  }
+
+  protected async readHandler(
+    params: TopicResourceParams,
+  ): Promise<object | null> {
+    const result = await this.dbService.query<TopicResourceRow>(
+      `SELECT
+         t.topic_string,
+         t.name,
+         t.description,
+         t.parent_topic_string,
+         COALESCE(
+           (
+             SELECT json_agg(
+               json_build_object('topic_string', sub.topic_string, 'name', sub.name)
+               ORDER BY sub.name
+             )
+             FROM topics sub
+             WHERE sub.parent_topic_id = t.id
+           ),
+           '[]'
+         ) AS subtopics,
+         COALESCE(
+           (
+             SELECT json_agg(ds ORDER BY ds.api_endpoint)
+             FROM (
+               SELECT
+                 d.api_endpoint,
+                 MAX(d.name) AS name,
+                 array_agg(DISTINCT y.year ORDER BY y.year) AS years
+               FROM dataset_topics dt
+               JOIN datasets d ON d.id = dt.dataset_id
+               JOIN years y ON y.id = d.year_id
+               WHERE dt.topic_id = t.id
+               GROUP BY d.api_endpoint
+             ) ds
+           ),
+           '[]'
+         ) AS datasets
+       FROM topics t
+       WHERE t.topic_string = $1`,
+      [params.topic_string],
+    )
+
+    return result.rows[0] ?? null
+  }
+}
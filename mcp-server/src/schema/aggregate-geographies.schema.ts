@@ -0,0 +1,155 @@
+import { z } from 'zod'
+
+import { citationsSchema } from './citation.schema.js'
+import {
+  baseProperties,
+  geoFields,
+  geoProperties,
+  ucgidPattern,
+  yearField,
+  yearProperty,
+} from './table.schema.js'
+
+// Each estimate is fetched with its margin of error, along with NAME and
+// GEO_ID, within the 50 variables of one request
+export const MAX_AGGREGATED_VARIABLES = 24
+export const MAX_AGGREGATED_GEOGRAPHIES = 500
+
+export const AggregateGeographiesSchema = {
+  type: 'object',
+  properties: {
+    dataset: baseProperties.dataset,
+    ...yearProperty,
+    variables: {
+      type: 'array',
+      items: { type: 'string' },
+      description: `The count variables to sum, up to ${MAX_AGGREGATED_VARIABLES}. ACS margins of error are fetched and combined automatically. Medians, averages, percentages and other non-additive variables are refused; sum their counts instead.`,
+      examples: [['B01001_001E', 'B17001_002E']],
+    },
+    geographies: {
+      type: 'array',
+      items: {
+        oneOf: [
+          {
+            type: 'string',
+            description: 'A UCGID, e.g. 0500000US48453',
+          },
+          {
+            type: 'object',
+            properties: {
+              for: geoProperties.for,
+              in: geoProperties.in,
+            },
+            required: ['for'],
+          },
+        ],
+      },
+      description:
+        'The geographies that make up the custom geography, as UCGIDs or for and in restrictions. Use resolve-geography-fips to find the codes of named places. Geographies listed more than once are only counted once.',
+      examples: [
+        ['0500000US48453', '0500000US48491'],
+        [{ for: 'tract:001100,001200', in: 'state:48+county:453' }],
+      ],
+    },
+    name: {
+      type: 'string',
+      description: 'A name for the custom geography.',
+      examples: ['Central Texas service area'],
+    },
+  },
+  required: ['dataset', 'year', 'variables', 'geographies'],
+}
+
+export const AggregateGeographiesOutputSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', description: 'The custom geography name.' },
+    dataset: { type: 'string', description: 'The dataset identifier.' },
+    year: { type: 'number', description: 'The year or vintage of the data.' },
+    estimates: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          variable: { type: 'string' },
+          label: { type: 'string' },
+          estimate: { type: ['number', 'null'] },
+          moe: { type: ['number', 'null'] },
+          coefficient_of_variation: { type: ['number', 'null'] },
+        },
+        required: ['variable', 'estimate'],
+      },
+      description:
+        'The total of each variable with its 90 percent margin of error and coefficient of variation, where the dataset publishes margins of error.',
+    },
+    geography_count: {
+      type: 'number',
+      description: 'The number of geographies aggregated.',
+    },
+    headers: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'The columns of the component geography rows.',
+    },
+    rows: {
+      type: 'array',
+      items: {
+        type: 'array',
+        items: { type: ['string', 'number', 'null'] },
+      },
+      description: 'The values of each component geography.',
+    },
+    warnings: {
+      type: 'array',
+      items: { type: 'string' },
+      description:
+        'Caveats, e.g. totals that could not be computed or the margin of error approximation.',
+    },
+    source_urls: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Every Census Data API URL used, with the API key redacted.',
+    },
+    citation: { type: 'string', description: 'The source citation.' },
+    citations: citationsSchema,
+  },
+  required: [
+    'name',
+    'dataset',
+    'year',
+    'estimates',
+    'geography_count',
+    'headers',
+    'rows',
+    'warnings',
+    'source_urls',
+    'citation',
+  ],
+}
+
+export const AggregateGeographiesToolSchema = z.object({
+  dataset: z.string(),
+  ...yearField,
+  variables: z.array(z.string()).min(1).max(MAX_AGGREGATED_VARIABLES),
+  geographies: z
+    .array(
+      z.union([
+        z.string().regex(ucgidPattern, {
+          message: "Must be a UCGID, e.g. '0500000US48453'.",
+        }),
+        z
+          .object({ for: geoFields.for, in: geoFields.in })
+          .refine((geography) => geography.for, {
+            path: ['for'],
+            message: "No geography specified error - define 'for'.",
+          }),
+      ]),
+    )
+    .min(1)
+    .max(MAX_AGGREGATED_GEOGRAPHIES),
+  name: z.string().optional(),
+})
+
+export type AggregateGeographiesArgs = z.infer<
+  typeof AggregateGeographiesToolSchema
+>
@@ -0,0 +1,87 @@
+import { z } from 'zod'
+
+const operations = [
+  'sum',
+  'difference',
+  'proportion',
+  'ratio',
+  'product',
+] as const
+
+export const CalculateMoeInputSchema = z.object({
+  operation: z.enum(operations),
+  components: z
+    .array(
+      z.object({
+        estimate: z.number(),
+        moe: z.number().nonnegative(),
+      }),
+    )
+    .min(1),
+})
+
+export const CalculateMoeArgsSchema = {
+  type: 'object',
+  properties: {
+    operation: {
+      type: 'string',
+      enum: operations,
+      description:
+        'How the estimates are combined. sum adds every component and difference subtracts the others from the first. proportion, ratio and product take exactly two components, the numerator (or first factor) followed by the denominator (or second factor). Use proportion when the numerator is a subset of the denominator.',
+      examples: ['sum', 'proportion'],
+    },
+    components: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          estimate: { type: 'number' },
+          moe: {
+            type: 'number',
+            description:
+              'The 90 percent margin of error. Use 0 for controlled estimates, which the Census Data API reports as -555555555.',
+          },
+        },
+        required: ['estimate', 'moe'],
+      },
+      description: 'The ACS estimates and their margins of error.',
+      examples: [
+        [
+          { estimate: 2461248, moe: 6178 },
+          { estimate: 5074296, moe: 0 },
+        ],
+      ],
+    },
+  },
+  required: ['operation', 'components'],
+}
+
+export const CalculateMoeOutputSchema = {
+  type: 'object',
+  properties: {
+    operation: { type: 'string', description: 'The operation applied.' },
+    estimate: { type: 'number', description: 'The derived estimate.' },
+    moe: {
+      type: 'number',
+      description: 'The 90 percent margin of error of the derived estimate.',
+    },
+    standard_error: {
+      type: 'number',
+      description: 'The standard error, i.e. the margin of error / 1.645.',
+    },
+    coefficient_of_variation: {
+      type: ['number', 'null'],
+      description:
+        'The standard error as a percentage of the estimate, or null for zero estimates.',
+    },
+  },
+  required: [
+    'operation',
+    'estimate',
+    'moe',
+    'standard_error',
+    'coefficient_of_variation',
+  ],
+}
+
+export type CalculateMoeArgs = z.infer<typeof CalculateMoeInputSchema>
@@ -0,0 +1,56 @@
+export const citationsSchema = {
+  type: 'object',
+  properties: {
+    plain: { type: 'string', description: 'A plain text citation.' },
+    apa: { type: 'string', description: 'An APA style citation.' },
+    chicago: {
+      type: 'string',
+      description: 'A Chicago style bibliography entry.',
+    },
+    bibtex: { type: 'string', description: 'A BibTeX entry.' },
+    csl_json: {
+      type: 'object',
+      description:
+        'A CSL-JSON item for reference managers such as Zotero or Pandoc.',
+    },
+    url: {
+      type: 'string',
+      description:
+        'The Census Data API URL without the API key, or the first of them when the data was fetched with several requests.',
+    },
+    urls: {
+      type: 'array',
+      items: { type: 'string' },
+      description:
+        'Every Census Data API URL the data was fetched from, without the API key.',
+    },
+    accessed: {
+      type: 'string',
+      description: 'The date the data was accessed, e.g. 2025-01-31.',
+    },
+    dataset_title: {
+      type: 'string',
+      description:
+        'The title of the dataset, or its identifier when the title is unavailable.',
+    },
+    year: { type: 'number', description: 'The vintage of the dataset.' },
+    table_id: {
+      type: 'string',
+      description: 'The table the data comes from, e.g. B19013.',
+    },
+    table_label: { type: 'string', description: 'The title of the table.' },
+  },
+  required: [
+    'plain',
+    'apa',
+    'chicago',
+    'bibtex',
+    'csl_json',
+    'url',
+    'urls',
+    'accessed',
+    'dataset_title',
+  ],
+  description:
+    'Citations of the data for publications, with the dataset title, vintage, table and access date.',
+}
@@ -0,0 +1,134 @@
+import { z } from 'zod'
+
+import { citationsSchema } from './citation.schema.js'
+import {
+  baseProperties,
+  geoFields,
+  geoProperties,
+  variablesField,
+} from './table.schema.js'
+
+export const CompareYearsSchema = {
+  type: 'object',
+  properties: {
+    dataset: {
+      ...baseProperties.dataset,
+      description:
+        'The dataset identifier. Each vintage of the dataset between the start and end year is fetched.',
+      examples: ['acs/acs1', 'acs/acs5'],
+    },
+    variables: {
+      type: 'array',
+      items: { type: 'string' },
+      description:
+        'The variables to compare across years, up to 50. Variables a vintage does not have are reported rather than failing the comparison.',
+      examples: [['NAME', 'B19013_001E', 'B19013_001M']],
+    },
+    start_year: {
+      type: 'number',
+      description: 'The first year to compare.',
+      examples: [2015],
+    },
+    end_year: {
+      type: 'number',
+      description: 'The last year to compare.',
+      examples: [2023],
+    },
+    ...geoProperties,
+  },
+  required: ['dataset', 'variables', 'start_year', 'end_year'],
+}
+
+export const CompareYearsOutputSchema = {
+  type: 'object',
+  properties: {
+    dataset: { type: 'string', description: 'The dataset identifier.' },
+    start_year: { type: 'number' },
+    end_year: { type: 'number' },
+    years: {
+      type: 'array',
+      items: { type: 'number' },
+      description: 'The vintages that returned data.',
+    },
+    missing_years: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          year: { type: 'number' },
+          reason: { type: 'string' },
+        },
+        required: ['year', 'reason'],
+      },
+      description:
+        'Years in the range without data for the dataset, and why, e.g. no release or a failed request.',
+    },
+    headers: {
+      type: 'array',
+      items: { type: 'string' },
+      description:
+        'year, followed by the requested variables and the geography columns.',
+    },
+    rows: {
+      type: 'array',
+      items: {
+        type: 'array',
+        items: { type: ['string', 'number', 'null'] },
+      },
+      description:
+        'One row per geography and year, ordered by geography and then year. Variables a vintage does not have are null.',
+    },
+    row_count: { type: 'number', description: 'The number of data rows.' },
+    warnings: {
+      type: 'array',
+      items: { type: 'string' },
+      description:
+        'Reasons the years may not be comparable, e.g. overlapping ACS 5-year periods or variables missing from some vintages.',
+    },
+    geography: {
+      type: 'object',
+      properties: {
+        for: { type: 'string' },
+        in: { type: 'string' },
+        ucgid: { type: 'string' },
+      },
+      description: 'The geography restrictions used to fetch the data.',
+    },
+    source_urls: {
+      type: 'array',
+      items: { type: 'string' },
+      description:
+        'The Census Data API URL of each year, with the API key redacted.',
+    },
+    citation: { type: 'string', description: 'The source citation.' },
+    citations: {
+      type: 'array',
+      items: citationsSchema,
+      description: 'Citations of each vintage that returned data.',
+    },
+  },
+  required: [
+    'dataset',
+    'start_year',
+    'end_year',
+    'years',
+    'missing_years',
+    'headers',
+    'rows',
+    'row_count',
+    'warnings',
+    'geography',
+    'source_urls',
+    'citation',
+  ],
+}
+
+export const CompareYearsToolSchema = z.object({
+  dataset: z.string(),
+  variables: variablesField.variables.unwrap().min(1),
+  start_year: z.number().int(),
+  end_year: z.number().int(),
+  ...geoFields,
+})
+
+export type CompareYearsArgs = z.infer<typeof CompareYearsToolSchema>
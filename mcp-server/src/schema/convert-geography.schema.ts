@@ -0,0 +1,84 @@
+import { z } from 'zod'
+
+import { geoFields, geoProperties } from './table.schema.js'
+
+export const ConvertGeographyInputSchema = z.object({
+  ...geoFields,
+  variant: z
+    .string()
+    .regex(/^[0-9A-Z]{2}$/, {
+      message: "Must be two digits or capital letters, e.g. '18'.",
+    })
+    .optional()
+    .describe('The geographic variant of the UCGIDs built from for and in.'),
+})
+
+export const ConvertGeographyArgsSchema = {
+  type: 'object',
+  properties: {
+    for: {
+      ...geoProperties.for,
+      description:
+        "The geography to convert to UCGIDs, as comma-separated codes of one level. Wildcards cannot be converted. Define 'for' or 'ucgid'.",
+      examples: ['state:06', 'county:453,491', 'tract:001100'],
+    },
+    in: {
+      ...geoProperties.in,
+      description:
+        'The parent geography of for, with one code for every parent level, separated by +.',
+      examples: ['state:48', 'state:48+county:453'],
+    },
+    variant: {
+      type: 'string',
+      description:
+        "The geographic variant of the UCGIDs built from for and in (default: '00'). Levels with vintages name them in the variant, e.g. '18' for congressional districts of the 118th Congress or 'Z2' for 2020 ZIP code tabulation areas.",
+      examples: ['00', '18', 'Z2'],
+    },
+    ucgid: {
+      ...geoProperties.ucgid,
+      description:
+        "The comma-separated UCGIDs to convert to for and in clauses. Define 'for' or 'ucgid'.",
+      examples: ['0500000US48453', '0400000US06,0400000US41'],
+    },
+  },
+}
+
+export const ConvertGeographyOutputSchema = {
+  type: 'object',
+  properties: {
+    ucgid: {
+      type: 'string',
+      description: 'Every UCGID, comma-separated, for use as a ucgid argument.',
+    },
+    geographies: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          ucgid: { type: 'string' },
+          summary_level: { type: 'string' },
+          geoid: { type: 'string' },
+          for: { type: 'string' },
+          in: { type: 'string' },
+          name: { type: 'string' },
+        },
+        required: ['ucgid', 'summary_level', 'geoid', 'for'],
+      },
+      description: 'Each geography in both syntaxes.',
+    },
+    validated: {
+      type: 'boolean',
+      description:
+        'Whether the UCGIDs were checked against the geographies in the MCP database.',
+    },
+    not_found: {
+      type: 'array',
+      items: { type: 'string' },
+      description:
+        'UCGIDs of a summary level in the MCP database that did not match a geography.',
+    },
+  },
+  required: ['ucgid', 'geographies', 'validated', 'not_found'],
+}
+
+export type ConvertGeographyArgs = z.infer<typeof ConvertGeographyInputSchema>
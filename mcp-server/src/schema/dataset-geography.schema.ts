@@ -23,6 +23,49 @@ export const FetchDatasetGeographyArgsSchema = {
   required: ['dataset'],
 }
 
+export const FetchDatasetGeographyOutputSchema = {
+  type: 'object',
+  properties: {
+    dataset: { type: 'string', description: 'The dataset identifier.' },
+    year: { type: 'number', description: 'The year or vintage of the data.' },
+    geographies: {
+      type: 'array',
+      description: 'The geography levels available for the dataset.',
+      items: {
+        type: 'object',
+        properties: {
+          vintage: { type: 'string' },
+          displayName: { type: 'string' },
+          querySyntax: { type: 'string' },
+          code: { type: 'string' },
+          name: { type: 'string' },
+          hierarchy: { type: 'array', items: { type: 'string' } },
+          fullName: { type: 'string' },
+          description: { type: 'string' },
+          onSpine: { type: 'boolean' },
+          queryExample: { type: 'string' },
+          requires: { type: 'array', items: { type: 'string' } },
+          allowsWildcard: { type: 'boolean' },
+          wildcardFor: { type: 'array', items: { type: 'string' } },
+        },
+        required: [
+          'vintage',
+          'displayName',
+          'querySyntax',
+          'code',
+          'name',
+          'hierarchy',
+          'fullName',
+          'onSpine',
+          'queryExample',
+          'allowsWildcard',
+        ],
+      },
+    },
+  },
+  required: ['dataset', 'geographies'],
+}
+
 // Schema for individual geography object in the fips array
 export const GeographyFipsEntrySchema = z.object({
   name: z
@@ -0,0 +1,143 @@
+import { z } from 'zod'
+
+export const DescribeVariablesInputSchema = z
+  .object({
+    dataset: z.string().describe("Dataset identifier (e.g., 'acs/acs1')"),
+    year: z
+      .number()
+      .describe('The year or vintage of the data, e.g. 2022')
+      .optional(),
+    variables: z.array(z.string()).min(1).optional(),
+    group: z.string().optional(),
+  })
+  .refine((args) => args.variables || args.group, {
+    path: ['variables', 'group'],
+    message: 'No variables specified error - define variables or group.',
+  })
+
+export const DescribeVariablesArgsSchema = {
+  type: 'object',
+  properties: {
+    dataset: {
+      type: 'string',
+      description: "The dataset identifier (e.g., 'acs/acs1')",
+    },
+    year: {
+      type: 'number',
+      description:
+        'The year of the data. Omit for timeseries datasets, which have no vintage.',
+    },
+    variables: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'The variables to describe.',
+      examples: [['B19013_001E', 'NAME']],
+    },
+    group: {
+      type: 'string',
+      description:
+        'The table ID of a group to describe with all of its variables. Use search-data-tables to find the correct ID.',
+      examples: ['B19013', 'S0101'],
+    },
+  },
+  required: ['dataset'],
+}
+
+const variableDescriptionProperties = {
+  name: { type: 'string' },
+  label: { type: 'string' },
+  concept: { type: 'string' },
+  group: { type: 'string' },
+  universe: { type: 'string' },
+  predicate_type: {
+    type: 'string',
+    description: 'The type of values the variable accepts as a predicate.',
+  },
+  predicate_only: {
+    type: 'boolean',
+    description: 'Whether the variable can only be used as a predicate.',
+  },
+  attributes: {
+    type: 'array',
+    items: { type: 'string' },
+    description:
+      'The companion variables, e.g. margins of error and annotations.',
+  },
+  required: {
+    type: 'boolean',
+    description: 'Whether the dataset requires a predicate on the variable.',
+  },
+}
+
+export const DescribeVariablesOutputSchema = {
+  type: 'object',
+  properties: {
+    dataset: { type: 'string', description: 'The dataset identifier.' },
+    year: { type: 'number', description: 'The year or vintage of the data.' },
+    group: {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        description: { type: 'string' },
+        universe: { type: 'string' },
+      },
+      required: ['name'],
+      description: 'The requested group.',
+    },
+    variables: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: variableDescriptionProperties,
+        required: ['name', 'label', 'attributes'],
+      },
+      description: 'The requested variables, or every variable of the group.',
+    },
+    not_found: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Requested variables the dataset does not have.',
+    },
+  },
+  required: ['dataset', 'variables', 'not_found'],
+}
+
+// Schema for individual variables in variables.json
+export const VariableJsonEntrySchema = z
+  .object({
+    label: z.string(),
+    concept: z.string().optional(),
+    predicateType: z.string().optional(),
+    group: z.string().optional(),
+    limit: z.number().optional(),
+    predicateOnly: z.boolean().optional(),
+    attributes: z.string().optional(),
+    required: z.union([z.string(), z.boolean()]).optional(),
+    universe: z.string().optional(),
+  })
+  .passthrough()
+
+export const VariablesJsonSchema = z.object({
+  variables: z.record(z.string(), VariableJsonEntrySchema),
+})
+
+// Some datasets publish the universe under 'universe ', with a trailing space
+export const GroupJsonEntrySchema = z
+  .object({
+    name: z.string(),
+    description: z.string().optional(),
+    variables: z.string().optional(),
+    universe: z.string().optional(),
+    'universe ': z.string().optional(),
+  })
+  .passthrough()
+
+export const GroupsJsonSchema = z.object({
+  groups: z.array(GroupJsonEntrySchema),
+})
+
+export type DescribeVariablesArgs = z.infer<typeof DescribeVariablesInputSchema>
+export type VariableJsonEntry = z.infer<typeof VariableJsonEntrySchema>
+export type VariablesJson = z.infer<typeof VariablesJsonSchema>
+export type GroupJsonEntry = z.infer<typeof GroupJsonEntrySchema>
+export type GroupsJson = z.infer<typeof GroupsJsonSchema>
@@ -0,0 +1,113 @@
+import { z } from 'zod'
+
+export const ExpandGeographyInputSchema = z.object({
+  geography_id: z
+    .number()
+    .int()
+    .positive()
+    .describe('The id of a geography from resolve-geography-fips'),
+  summary_level: z
+    .string()
+    .describe('The name or code of the summary level to expand to'),
+})
+
+export const ExpandGeographyArgsSchema = {
+  type: 'object',
+  properties: {
+    geography_id: {
+      type: 'number',
+      description:
+        'The id of the geography to expand, as returned by resolve-geography-fips.',
+      examples: [1234],
+    },
+    summary_level: {
+      type: 'string',
+      description:
+        'The name or code of the summary level of the geographies to return.',
+      examples: ['census tract', '140', 'county', '050', 'place'],
+    },
+  },
+  required: ['geography_id', 'summary_level'],
+}
+
+const geographyProperties = {
+  id: { type: 'number' },
+  name: { type: 'string' },
+  summary_level: { type: 'string' },
+}
+
+export const ExpandGeographyOutputSchema = {
+  type: 'object',
+  properties: {
+    geography: {
+      type: 'object',
+      properties: geographyProperties,
+      required: ['id', 'name', 'summary_level'],
+      description: 'The geography to expand.',
+    },
+    summary_level: {
+      type: 'object',
+      properties: {
+        code: { type: 'string' },
+        name: { type: 'string' },
+      },
+      required: ['code', 'name'],
+      description: 'The summary level of the geographies to return.',
+    },
+    container: {
+      type: 'object',
+      properties: geographyProperties,
+      required: ['id', 'name', 'summary_level'],
+      description:
+        'The geography the clauses are built from. It is larger than the requested geography when the Census Data API cannot return the summary level within it, e.g. the state of a place, and the clauses are then limited to the counties the place overlaps.',
+    },
+    path: {
+      type: 'array',
+      items: { type: 'string' },
+      description:
+        'The summary level codes from the container down to the requested summary level.',
+    },
+    clauses: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          for: { type: 'string' },
+          in: { type: 'string' },
+        },
+        required: ['for'],
+      },
+      description:
+        'The for and in arguments of each fetch-aggregate-data request needed.',
+    },
+    counties: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: geographyProperties,
+        required: ['id', 'name', 'summary_level'],
+      },
+      description:
+        'The counties a place overlaps, when the summary level is expanded within them.',
+    },
+    requires_filter: {
+      type: 'boolean',
+      description:
+        'Whether the results include geographies outside the requested geography that must be removed.',
+    },
+    filter: {
+      type: 'string',
+      description: 'How to filter the results, when requires_filter is set.',
+    },
+  },
+  required: [
+    'geography',
+    'summary_level',
+    'container',
+    'path',
+    'clauses',
+    'requires_filter',
+  ],
+}
+
+export type ExpandGeographyArgs = z.infer<typeof ExpandGeographyInputSchema>
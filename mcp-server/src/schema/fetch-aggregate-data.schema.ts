@@ -1,5 +1,6 @@
 import { z } from 'zod'
 
+import { citationsSchema } from './citation.schema.js'
 import {
   baseFields,
   baseProperties,
@@ -10,6 +11,11 @@ import {
   yearField,
   yearProperty,
 } from './table.schema.js'
+import {
+  columnSummarySchema,
+  DEFAULT_MAX_ROWS,
+  MAX_ROWS_LIMIT,
+} from './get-result-page.schema.js'
 
 export const TableSchema = {
   type: 'object',
@@ -18,15 +24,159 @@ export const TableSchema = {
     ...yearProperty,
     ...getProperties,
     ...geoProperties,
+    labels: {
+      type: 'string',
+      enum: ['code', 'label', 'both'],
+      description:
+        "How columns are named in the text output: by variable code, by parsed label, e.g. 'Total > Male > Under 5 years', or both (default: code). Labels are fetched with descriptive and returned in columns.",
+      examples: ['both'],
+    },
+    output_format: {
+      type: 'string',
+      enum: ['text', 'csv', 'json', 'json_columns', 'markdown'],
+      description:
+        "How the rows are rendered in the text output: 'header: value' lines, CSV, a JSON array of row objects, JSON with an array of values per column, or a Markdown table (default: text). Numeric values are converted to numbers, while geography codes keep their leading zeros.",
+      examples: ['csv', 'markdown'],
+    },
+    max_rows: {
+      type: 'number',
+      description: `The number of rows to return, up to ${MAX_ROWS_LIMIT} (default: ${DEFAULT_MAX_ROWS}). Larger results are kept on the server for 30 minutes under a result_handle, and the remaining rows are read with get-result-page.`,
+      examples: [100],
+    },
+    include_moe: {
+      type: 'boolean',
+      description:
+        'Also fetch the margin of error (_M) for every ACS estimate (_E) variable and list the estimate and margin of error pairs (default: false). Use calculate-moe to combine them.',
+      examples: ['true', 'false'],
+    },
   },
   required: ['dataset', 'year', 'get'],
 }
 
+export const FetchAggregateDataOutputSchema = {
+  type: 'object',
+  properties: {
+    dataset: { type: 'string', description: 'The dataset identifier.' },
+    year: { type: 'number', description: 'The year or vintage of the data.' },
+    headers: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'The column names of each row, e.g. NAME or B01001_001E.',
+    },
+    rows: {
+      type: 'array',
+      items: {
+        type: 'array',
+        items: { type: ['string', 'number', 'null'] },
+      },
+      description: 'The data rows, with values in the same order as headers.',
+    },
+    row_count: {
+      type: 'number',
+      description: 'The number of data rows returned.',
+    },
+    geography: {
+      type: 'object',
+      properties: {
+        for: { type: 'string' },
+        in: { type: 'string' },
+        ucgid: { type: 'string' },
+      },
+      description: 'The geography restrictions used to fetch the data.',
+    },
+    source_url: {
+      type: 'string',
+      description: 'The Census Data API URL with the API key redacted.',
+    },
+    source_urls: {
+      type: 'array',
+      items: { type: 'string' },
+      description:
+        'Every Census Data API URL used, with the API key redacted. Requests for more than 50 variables are split into several calls.',
+    },
+    citation: { type: 'string', description: 'The source citation.' },
+    citations: citationsSchema,
+    columns: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          label: { type: 'string' },
+          measure: { type: 'string' },
+          path: { type: 'array', items: { type: 'string' } },
+        },
+        required: ['name', 'label', 'path'],
+      },
+      description:
+        'The label of each column, parsed into its measure, e.g. Estimate, and hierarchy, when descriptive or labels is set.',
+    },
+    annotations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          column: { type: 'string' },
+          value: { type: 'string' },
+          reason: { type: 'string' },
+          count: { type: 'number' },
+        },
+        required: ['column', 'value', 'reason', 'count'],
+      },
+      description:
+        'Sentinel and annotation values, e.g. -666666666, that were returned as null in rows, with the reason and the number of rows of each. They are not estimates.',
+    },
+    result_handle: {
+      type: 'string',
+      description:
+        'The handle of the full result, when it has more rows than max_rows. Pass it to get-result-page with next_cursor.',
+    },
+    next_cursor: {
+      type: 'string',
+      description: 'The cursor of the next page of rows.',
+    },
+    total_row_count: {
+      type: 'number',
+      description: 'The number of rows of the full result.',
+    },
+    column_summary: columnSummarySchema,
+    moe_pairs: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          estimate: { type: 'string' },
+          moe: { type: 'string' },
+        },
+        required: ['estimate', 'moe'],
+      },
+      description:
+        'The estimate columns and their margin of error columns, when include_moe is set.',
+    },
+  },
+  required: [
+    'dataset',
+    'year',
+    'headers',
+    'rows',
+    'row_count',
+    'geography',
+    'source_url',
+    'citation',
+  ],
+}
+
 export const FetchAggregateDataToolSchema = z.object({
   ...baseFields,
   ...yearField,
   ...getFields,
   ...geoFields,
+  labels: z.enum(['code', 'label', 'both']).optional(),
+  output_format: z
+    .enum(['text', 'csv', 'json', 'json_columns', 'markdown'])
+    .optional(),
+  include_moe: z.boolean().optional(),
+  max_rows: z.number().int().min(1).max(MAX_ROWS_LIMIT).optional(),
 })
 
 export type TableArgs = z.infer<typeof FetchAggregateDataToolSchema>
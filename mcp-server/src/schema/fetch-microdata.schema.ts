@@ -0,0 +1,137 @@
+import { z } from 'zod'
+
+import { citationsSchema } from './citation.schema.js'
+import {
+  baseFields,
+  baseProperties,
+  geoFields,
+  geoProperties,
+  yearField,
+  yearProperty,
+} from './table.schema.js'
+
+// Each tabulation variable multiplies the number of cells
+export const MAX_TABULATION_VARIABLES = 10
+
+export const MicrodataSchema = {
+  type: 'object',
+  properties: {
+    dataset: {
+      ...baseProperties.dataset,
+      description: 'The microdata dataset identifier.',
+      examples: ['acs/acs1/pums', 'acs/acs5/pums', 'cps/asec/mar'],
+    },
+    ...yearProperty,
+    tabulate: {
+      type: 'array',
+      items: { type: 'string' },
+      description:
+        'The microdata variables to cross-tabulate. Each combination of their values becomes one row with a weighted count.',
+      examples: [['SEX'], ['SCHL', 'ESR']],
+    },
+    weight: {
+      type: 'string',
+      description:
+        'The weight variable to sum. Defaults to the person weight of the dataset, e.g. PWGTP for ACS PUMS. Use WGTP for ACS PUMS household counts.',
+      examples: ['PWGTP', 'WGTP'],
+    },
+    replicate_weights: {
+      type: 'boolean',
+      description:
+        'Compute standard errors and 90 percent margins of error from the replicate weights, where the dataset provides them (default: true).',
+      examples: ['true', 'false'],
+    },
+    predicates: {
+      ...baseProperties.predicates,
+      description:
+        'Used to filter the records before tabulation. Microdata predicates accept ranges, e.g. AGEP: 18:64.',
+      examples: [{ AGEP: '18:64', ESR: '1' }],
+    },
+    ...geoProperties,
+    for: {
+      ...geoProperties.for,
+      examples: ['state:06', 'public use microdata area:*', 'us:*'],
+    },
+  },
+  required: ['dataset', 'year', 'tabulate'],
+}
+
+export const FetchMicrodataOutputSchema = {
+  type: 'object',
+  properties: {
+    dataset: { type: 'string', description: 'The dataset identifier.' },
+    year: { type: 'number', description: 'The year or vintage of the data.' },
+    headers: {
+      type: 'array',
+      items: { type: 'string' },
+      description:
+        'The tabulation and geography columns, followed by weighted_count, unweighted_count and, with replicate weights, standard_error and margin_of_error.',
+    },
+    rows: {
+      type: 'array',
+      items: {
+        type: 'array',
+        items: { type: ['string', 'number', 'null'] },
+      },
+      description:
+        'The tabulated cells, with values in the same order as headers.',
+    },
+    row_count: { type: 'number', description: 'The number of cells.' },
+    record_count: {
+      type: 'number',
+      description: 'The number of microdata records tabulated.',
+    },
+    weight: { type: 'string', description: 'The weight variable summed.' },
+    replicate_weights: {
+      type: 'number',
+      description:
+        'The number of replicate weights used for standard errors, or 0 if none were used.',
+    },
+    geography: {
+      type: 'object',
+      properties: {
+        for: { type: 'string' },
+        in: { type: 'string' },
+        ucgid: { type: 'string' },
+      },
+      description: 'The geography restrictions used to fetch the data.',
+    },
+    source_url: {
+      type: 'string',
+      description: 'The Census Data API URL with the API key redacted.',
+    },
+    source_urls: {
+      type: 'array',
+      items: { type: 'string' },
+      description:
+        'Every Census Data API URL used, with the API key redacted. Requests for more than 50 variables, e.g. with replicate weights, are split into several calls.',
+    },
+    citation: { type: 'string', description: 'The source citation.' },
+    citations: citationsSchema,
+  },
+  required: [
+    'dataset',
+    'year',
+    'headers',
+    'rows',
+    'row_count',
+    'record_count',
+    'weight',
+    'replicate_weights',
+    'geography',
+    'source_url',
+    'citation',
+  ],
+}
+
+export const FetchMicrodataToolSchema = z.object({
+  dataset: baseFields.dataset,
+  ...yearField,
+  tabulate: z.array(z.string()).min(1).max(MAX_TABULATION_VARIABLES),
+  weight: z.string().optional(),
+  replicate_weights: z.boolean().optional(),
+  predicates: baseFields.predicates,
+  ...geoFields,
+})
+
+export type MicrodataArgs = z.infer<typeof FetchMicrodataToolSchema>
@@ -0,0 +1,180 @@
+import { z } from 'zod'
+
+import { citationsSchema } from './citation.schema.js'
+import {
+  baseFields,
+  baseProperties,
+  geoFields,
+  geoProperties,
+  getFields,
+  getProperties,
+} from './table.schema.js'
+
+// A year, month or quarter, e.g. 2019, 2019-03 or 2019-Q1
+const timeValue = '\\d{4}(?:-(?:0[1-9]|1[0-2])|-Q[1-4])?'
+
+const timeValuePattern: RegExp = new RegExp(`^${timeValue}$`)
+const timePredicatePattern: RegExp = new RegExp(
+  `^(?:${timeValue}|from ${timeValue}(?: to ${timeValue})?|to ${timeValue})$`,
+)
+
+export const timeProperties = {
+  time: {
+    description:
+      "The time period to fetch. Accepts a single period or a range using the Census Data API time predicate syntax, e.g. '2019', '2019-03', '2019-Q1', 'from 2015 to 2019' or 'from 2018-01'. Ranges can also be given as an object with 'from' and/or 'to'.",
+    oneOf: [
+      { type: 'string' },
+      {
+        type: 'object',
+        properties: {
+          from: { type: 'string', description: 'The first period, e.g. 2015' },
+          to: { type: 'string', description: 'The last period, e.g. 2019' },
+        },
+      },
+    ],
+    examples: ['2019', 'from 2015 to 2019', { from: '2018-01', to: '2019-12' }],
+  },
+}
+
+export const TimeseriesSchema = {
+  type: 'object',
+  properties: {
+    ...baseProperties,
+    predicates: {
+      ...baseProperties.predicates,
+      description:
+        'Used to filter timeseries results with parameters outside of time and geography constraints, including time-slot variables such as YEAR, MONTH or QUARTER and dataset filters such as time_slot_id, category_code, data_type_code or seasonally_adj.',
+      examples: [
+        { category_code: 'TOTAL', data_type_code: 'SM', seasonally_adj: 'yes' },
+      ],
+    },
+    ...getProperties,
+    ...timeProperties,
+    ...geoProperties,
+    for: {
+      ...geoProperties.for,
+      description:
+        "Geography restriction as comma-separated values. Some timeseries datasets, e.g. international trade, have no geography and should omit 'for' and 'ucgid'.",
+    },
+  },
+  required: ['dataset', 'get'],
+}
+
+export const FetchTimeseriesDataOutputSchema = {
+  type: 'object',
+  properties: {
+    dataset: { type: 'string', description: 'The dataset identifier.' },
+    headers: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'The column names of each row, e.g. time or cell_value.',
+    },
+    rows: {
+      type: 'array',
+      items: {
+        type: 'array',
+        items: { type: ['string', 'number', 'null'] },
+      },
+      description: 'The data rows, with values in the same order as headers.',
+    },
+    row_count: { type: 'number', description: 'The number of data rows.' },
+    time: {
+      type: 'string',
+      description: 'The time predicate used to fetch the data.',
+    },
+    geography: {
+      type: 'object',
+      properties: {
+        for: { type: 'string' },
+        in: { type: 'string' },
+        ucgid: { type: 'string' },
+      },
+      description: 'The geography restrictions used to fetch the data.',
+    },
+    source_url: {
+      type: 'string',
+      description: 'The Census Data API URL with the API key redacted.',
+    },
+    source_urls: {
+      type: 'array',
+      items: { type: 'string' },
+      description:
+        'Every Census Data API URL used, with the API key redacted. Requests for more than 50 variables are split into several calls.',
+    },
+    citation: { type: 'string', description: 'The source citation.' },
+    citations: citationsSchema,
+    columns: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          label: { type: 'string' },
+          measure: { type: 'string' },
+          path: { type: 'array', items: { type: 'string' } },
+        },
+        required: ['name', 'label', 'path'],
+      },
+      description:
+        'The label of each column, parsed into its measure and hierarchy, when descriptive is set.',
+    },
+  },
+  required: [
+    'dataset',
+    'headers',
+    'rows',
+    'row_count',
+    'geography',
+    'source_url',
+    'citation',
+  ],
+}
+
+export const timeFields = {
+  time: z
+    .union([
+      z.string().regex(timePredicatePattern, {
+        message:
+          "Must be a period or range, e.g. '2019', '2019-03', '2019-Q1', 'from 2015 to 2019' or 'to 2019'.",
+      }),
+      z
+        .object({
+          from: z
+            .string()
+            .regex(timeValuePattern, {
+              message: "Must be a period, e.g. '2019', '2019-03' or '2019-Q1'.",
+            })
+            .optional(),
+          to: z
+            .string()
+            .regex(timeValuePattern, {
+              message: "Must be a period, e.g. '2019', '2019-03' or '2019-Q1'.",
+            })
+            .optional(),
+        })
+        .refine((range) => range.from || range.to, {
+          message: "Define 'from', 'to' or both.",
+        }),
+    ])
+    .optional(),
+}
+
+export const FetchTimeseriesDataToolSchema = z.object({
+  ...baseFields,
+  ...getFields,
+  ...timeFields,
+  ...geoFields,
+})
+
+export type TimeseriesArgs = z.infer<typeof FetchTimeseriesDataToolSchema>
+
+// Converts the time argument to the Census Data API time predicate
+export function toTimePredicate(
+  time: TimeseriesArgs['time'],
+): string | undefined {
+  if (time === undefined || typeof time === 'string') return time
+
+  return [time.from && `from ${time.from}`, time.to && `to ${time.to}`]
+    .filter(Boolean)
+    .join(' ')
+}
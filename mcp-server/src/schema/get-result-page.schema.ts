@@ -0,0 +1,104 @@
+import { z } from 'zod'
+
+import { citationsSchema } from './citation.schema.js'
+
+// Results with more rows than this are stored and returned a page at a time
+export const DEFAULT_MAX_ROWS = 500
+export const MAX_ROWS_LIMIT = 5000
+
+export const columnSummarySchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      name: { type: 'string' },
+      type: { type: 'string', enum: ['number', 'string', 'empty'] },
+      null_count: { type: 'number' },
+      min: { type: 'number' },
+      max: { type: 'number' },
+      distinct_count: { type: 'number' },
+    },
+    required: ['name', 'type', 'null_count'],
+  },
+  description:
+    'The type of each column of the full result, with the range of numeric columns and the number of distinct values of text columns.',
+}
+
+export const GetResultPageInputSchema = z.object({
+  result_handle: z.string().describe('The result_handle of a large result'),
+  cursor: z.string().describe('The next_cursor of the previous page'),
+  max_rows: z.number().int().min(1).max(MAX_ROWS_LIMIT).optional(),
+})
+
+export const GetResultPageArgsSchema = {
+  type: 'object',
+  properties: {
+    result_handle: {
+      type: 'string',
+      description:
+        'The result_handle returned with a result that had more rows than max_rows.',
+    },
+    cursor: {
+      type: 'string',
+      description: 'The next_cursor returned with the previous page.',
+    },
+    max_rows: {
+      type: 'number',
+      description: `The number of rows to return, up to ${MAX_ROWS_LIMIT} (default: ${DEFAULT_MAX_ROWS}).`,
+      examples: [100],
+    },
+  },
+  required: ['result_handle', 'cursor'],
+}
+
+export const GetResultPageOutputSchema = {
+  type: 'object',
+  properties: {
+    result_handle: { type: 'string' },
+    dataset: { type: 'string', description: 'The dataset identifier.' },
+    year: { type: 'number', description: 'The year or vintage of the data.' },
+    headers: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'The column names of each row.',
+    },
+    rows: {
+      type: 'array',
+      items: {
+        type: 'array',
+        items: { type: ['string', 'number', 'null'] },
+      },
+      description: 'The rows of the page.',
+    },
+    row_count: {
+      type: 'number',
+      description: 'The number of rows of the page.',
+    },
+    first_row: {
+      type: 'number',
+      description: 'The position of the first row of the page, from 1.',
+    },
+    total_row_count: {
+      type: 'number',
+      description: 'The number of rows of the full result.',
+    },
+    next_cursor: {
+      type: 'string',
+      description: 'The cursor of the next page, unless this is the last.',
+    },
+    citation: { type: 'string', description: 'The source citation.' },
+    citations: citationsSchema,
+  },
+  required: [
+    'result_handle',
+    'dataset',
+    'headers',
+    'rows',
+    'row_count',
+    'first_row',
+    'total_row_count',
+    'citation',
+  ],
+}
+
+export type GetResultPageArgs = z.infer<typeof GetResultPageInputSchema>
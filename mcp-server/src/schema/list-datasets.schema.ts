@@ -7,6 +7,26 @@ export const AggregatedResultSchema = z.object({
   title: z.string(),
 })
 
+export const ListDatasetsOutputSchema = {
+  type: 'object',
+  properties: {
+    datasets: {
+      type: 'array',
+      description: 'The aggregate datasets available in the Census Data API.',
+      items: {
+        type: 'object',
+        properties: {
+          dataset: { type: 'string' },
+          title: { type: 'string' },
+          years: { type: 'array', items: { type: 'number' } },
+        },
+        required: ['dataset', 'title'],
+      },
+    },
+  },
+  required: ['datasets'],
+}
+
 // Zod schema for the simplified dataset
 export const SimplifiedAPIDatasetSchema = z.object({
   c_dataset: z.string(),
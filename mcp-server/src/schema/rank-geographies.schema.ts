@@ -0,0 +1,161 @@
+import { z } from 'zod'
+
+import { citationsSchema } from './citation.schema.js'
+import {
+  baseProperties,
+  geoFields,
+  geoProperties,
+  yearField,
+  yearProperty,
+} from './table.schema.js'
+
+// The largest number of geographies returned from the top or bottom
+export const MAX_RANKED_GEOGRAPHIES = 100
+
+export const RankGeographiesSchema = {
+  type: 'object',
+  properties: {
+    dataset: baseProperties.dataset,
+    ...yearProperty,
+    variable: {
+      type: 'string',
+      description: 'The variable to rank the geographies by.',
+      examples: ['B25064_001E', 'B19013_001E'],
+    },
+    geography: {
+      type: 'string',
+      description:
+        "The geography level to rank, as used in 'for'. Every geography of the level within the parent geography is ranked.",
+      examples: ['county', 'place', 'state'],
+    },
+    in: {
+      ...geoProperties.in,
+      description:
+        'The parent geography to rank within, with different summary levels separated by +. Its value is returned for context. Omit to rank the whole country.',
+      examples: ['state:48', 'state:06+county:037'],
+    },
+    order: {
+      type: 'string',
+      enum: ['desc', 'asc'],
+      description:
+        'desc returns the highest values first and asc the lowest (default: desc).',
+    },
+    limit: {
+      type: 'number',
+      description: `The number of geographies to return, up to ${MAX_RANKED_GEOGRAPHIES} (default: 10).`,
+      examples: [10],
+    },
+    min: {
+      type: 'number',
+      description:
+        'Only return geographies with at least this value. Ranks and percentiles are still among all geographies.',
+    },
+    max: {
+      type: 'number',
+      description:
+        'Only return geographies with at most this value. Ranks and percentiles are still among all geographies.',
+    },
+  },
+  required: ['dataset', 'year', 'variable', 'geography'],
+}
+
+export const RankGeographiesOutputSchema = {
+  type: 'object',
+  properties: {
+    dataset: { type: 'string', description: 'The dataset identifier.' },
+    year: { type: 'number', description: 'The year or vintage of the data.' },
+    variable: { type: 'string', description: 'The variable ranked.' },
+    order: { type: 'string', enum: ['desc', 'asc'] },
+    headers: {
+      type: 'array',
+      items: { type: 'string' },
+      description:
+        'rank, percentile, NAME and the variable, followed by the geography columns.',
+    },
+    rows: {
+      type: 'array',
+      items: {
+        type: 'array',
+        items: { type: ['string', 'number', 'null'] },
+      },
+      description: 'The ranked geographies, in rank order.',
+    },
+    row_count: { type: 'number', description: 'The number of rows returned.' },
+    ranked_count: {
+      type: 'number',
+      description: 'The number of geographies ranked.',
+    },
+    excluded_count: {
+      type: 'number',
+      description:
+        'The number of geographies without a value, e.g. because the sample was too small, that were not ranked.',
+    },
+    parent: {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        value: { type: ['number', 'null'] },
+      },
+      description: 'The value of the parent geography, for context.',
+    },
+    parent_note: {
+      type: 'string',
+      description:
+        "Why the parent geography's value was omitted, e.g. because its request failed.",
+    },
+    geography: {
+      type: 'object',
+      properties: {
+        for: { type: 'string' },
+        in: { type: 'string' },
+      },
+      description: 'The geography restrictions used to fetch the data.',
+    },
+    source_urls: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Every Census Data API URL used, with the API key redacted.',
+    },
+    citation: { type: 'string', description: 'The source citation.' },
+    citations: citationsSchema,
+  },
+  required: [
+    'dataset',
+    'year',
+    'variable',
+    'order',
+    'headers',
+    'rows',
+    'row_count',
+    'ranked_count',
+    'excluded_count',
+    'geography',
+    'source_urls',
+    'citation',
+  ],
+}
+
+export const RankGeographiesToolSchema = z
+  .object({
+    dataset: z.string(),
+    ...yearField,
+    variable: z.string(),
+    geography: z.string().regex(/^[a-zA-Z\s]+$/, {
+      message: "Must be a geography level, e.g. 'county' or 'place'.",
+    }),
+    in: geoFields.in,
+    order: z.enum(['desc', 'asc']).optional(),
+    limit: z.number().int().min(1).max(MAX_RANKED_GEOGRAPHIES).optional(),
+    min: z.number().optional(),
+    max: z.number().optional(),
+  })
+  .refine(
+    (args) =>
+      args.min === undefined || args.max === undefined || args.min <= args.max,
+    {
+      path: ['min', 'max'],
+      message: 'Invalid threshold error - min is greater than max.',
+    },
+  )
+
+export type RankGeographiesArgs = z.infer<typeof RankGeographiesToolSchema>
@@ -40,6 +40,38 @@ export const ResolveGeographyFipsArgsSchema = {
   required: ['geography_name'],
 }
 
+export const ResolveGeographyFipsOutputSchema = {
+  type: 'object',
+  properties: {
+    geography_name: {
+      type: 'string',
+      description: 'The name of the geography that was resolved.',
+    },
+    summary_level: {
+      type: 'string',
+      description: 'The summary level code used to filter the results.',
+    },
+    geographies: {
+      type: 'array',
+      description: 'The matching geographies, best match first.',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'number' },
+          name: { type: 'string' },
+          summary_level_name: { type: ['string', 'null'] },
+          latitude: { type: ['number', 'string', 'null'] },
+          longitude: { type: ['number', 'string', 'null'] },
+          for_param: { type: ['string', 'null'] },
+          in_param: { type: ['string', 'null'] },
+        },
+        required: ['id', 'name'],
+      },
+    },
+  },
+  required: ['geography_name', 'geographies'],
+}
+
 export type ResolveGeographyFipsArgs = z.infer<
   typeof ResolveGeographyFipsInputSchema
 >
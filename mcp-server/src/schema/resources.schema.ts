@@ -0,0 +1,48 @@
+import { z } from 'zod'
+
+export const DatasetResourceParamsSchema = z.object({
+  api_endpoint: z
+    .string()
+    .regex(/^[a-z0-9]+(\/[a-z0-9]+)*$/i)
+    .describe("The dataset API endpoint, e.g. 'acs/acs1'"),
+  year: z
+    .string()
+    .regex(/^\d{4}$/)
+    .transform(Number)
+    .describe('The vintage of the dataset, e.g. 2022'),
+})
+
+export const SummaryLevelResourceParamsSchema = z.object({
+  code: z
+    .string()
+    .regex(/^\d{3}$/)
+    .describe("The 3-digit summary level code, e.g. '050'"),
+})
+
+export const TopicResourceParamsSchema = z.object({
+  topic_string: z
+    .string()
+    .regex(/^[A-Za-z0-9]+(_[A-Za-z0-9]+)*$/)
+    .describe("The topic identifier, e.g. 'Income_and_Poverty'"),
+})
+
+export const ComponentResourceParamsSchema = z.object({
+  component_id: z
+    .string()
+    .min(1)
+    .describe("The component identifier, e.g. 'ACSDT1Y'"),
+})
+
+export const ProgramResourceParamsSchema = z.object({
+  acronym: z.string().min(1).describe("The program acronym, e.g. 'ACS'"),
+})
+
+export type DatasetResourceParams = z.infer<typeof DatasetResourceParamsSchema>
+export type SummaryLevelResourceParams = z.infer<
+  typeof SummaryLevelResourceParamsSchema
+>
+export type TopicResourceParams = z.infer<typeof TopicResourceParamsSchema>
+export type ComponentResourceParams = z.infer<
+  typeof ComponentResourceParamsSchema
+>
+export type ProgramResourceParams = z.infer<typeof ProgramResourceParamsSchema>
@@ -26,6 +26,30 @@ export const SearchDataTablesArgsSchema = {
   required: [],
 } as const
 
+export const SearchDataTablesOutputSchema = {
+  type: 'object',
+  properties: {
+    data_tables: {
+      type: 'array',
+      description: 'The matching data tables, best match first.',
+      items: {
+        type: 'object',
+        properties: {
+          data_table_id: { type: 'string' },
+          label: { type: 'string' },
+          component: { type: 'string' },
+          datasets: {
+            type: 'object',
+            additionalProperties: { type: 'array', items: { type: 'string' } },
+          },
+        },
+        required: ['data_table_id', 'label', 'component', 'datasets'],
+      },
+    },
+  },
+  required: ['data_tables'],
+} as const
+
 export const SearchDataTablesInputSchema = z
   .object({
     data_table_id: z
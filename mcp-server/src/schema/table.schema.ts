@@ -38,7 +38,7 @@ export const getProperties = {
         type: 'array',
         items: { type: 'string' },
         description:
-          'The variables (or rows) that should be fetched from a given dataset. A max of 50 variables can be passed.',
+          'The variables (or rows) that should be fetched from a given dataset. Requests for more than 50 variables are split into several Census Data API calls and joined into one table.',
         examples: [['B24022_060E', 'B19001B_014E', 'C02014_002E']],
       },
       group: {
@@ -83,6 +83,11 @@ export const geoProperties = {
 //Fields
 const geographyPatternFor: RegExp = /^[a-zA-Z+\s]+:[*\d,]+$/
 const geographyPatternIn: RegExp = /^[a-zA-Z]+:[*\d,]+(?:\+[a-zA-Z]+:[*\d,]+)*$/
+// Summary level, geographic variant and component, e.g. 0500000US48453 or
+// 860Z200US77494. UCGIDs are parsed strictly by convert-geography.
+export const ucgidPattern: RegExp = /^\d{3}[0-9A-Z]{4}US[0-9A-Z]*$/
+// e.g. pseudo(0400000US06$1400000), every tract in California
+const pseudoUcgidPattern: RegExp = /^pseudo\(.+\)$/
 
 export const baseFields = {
   dataset: z.string(),
@@ -97,7 +102,7 @@ export const yearField = {
 export const getFields = {
   get: z.object({
     group: z.string().optional(),
-    variables: z.array(z.string()).max(50).optional(),
+    variables: z.array(z.string()).optional(),
   }),
 }
 
@@ -129,6 +134,16 @@ export const geoFields = {
   ucgid: z
     .string()
     .optional()
+    .refine(
+      (val) =>
+        !val ||
+        pseudoUcgidPattern.test(val) ||
+        val.split(',').every((ucgid) => ucgidPattern.test(ucgid)),
+      {
+        message:
+          "Must be comma-separated UCGIDs or a pseudo geography, e.g., '0400000US06', '0500000US06001,0500000US06075' or 'pseudo(0400000US06$1400000)'.",
+      },
+    )
     .describe(
       "Alternative geography specification using UCGID, e.g., '0400000US06', '0400000US41'.",
     ),
@@ -11,6 +11,7 @@ type TableArgs = {
   group?: string
   variables?: string[]
   for?: string
+  in?: string
   ucgid?: string
 }
 
@@ -21,14 +22,12 @@ const datasets: Dataset[] = [
   },
   {
     tool: 'fetch-timeseries-data',
-    message:
-      'This data is currently not supported by the U.S. Census Bureau Data API MCP Server.',
+    message: 'Incompatible dataset. Please use the fetch-timeseries-data tool.',
     identifiers: ['timeseries'],
   },
   {
     tool: 'fetch-microdata',
-    message:
-      'This data is currently not supported by the U.S. Census Bureau Data API MCP Server.',
+    message: 'Incompatible dataset. Please use the fetch-microdata tool.',
     identifiers: ['cfspum', 'cps', 'pums', 'pumpr', 'sipp'],
   },
 ]
@@ -61,3 +60,26 @@ export function validateGeographyArgs(args: TableArgs, ctx: RefinementCtx) {
     })
   }
 }
+
+// For datasets where geography is optional, e.g. timeseries and microdata
+export function validateOptionalGeographyArgs(
+  args: TableArgs,
+  ctx: RefinementCtx,
+) {
+  if (args.for && args.ucgid) {
+    ctx.addIssue({
+      path: ['for', 'ucgid'],
+      code: z.ZodIssueCode.custom,
+      message:
+        'Too many geographies specified error - define for or ucgid only, not both.',
+    })
+  }
+
+  if (args.in && !args.for) {
+    ctx.addIssue({
+      path: ['in'],
+      code: z.ZodIssueCode.custom,
+      message: "Parent geography specified error - 'in' requires 'for'.",
+    })
+  }
+}
@@ -1,53 +1,105 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js'
-import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js'
 import {
   CallToolRequestSchema,
+  CompleteRequestSchema,
   GetPromptRequestSchema,
   ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  Resource,
   ErrorCode,
   McpError,
 } from '@modelcontextprotocol/sdk/types.js'
 import { z } from 'zod'
 import { MCPPrompt, PromptRegistry } from './prompts/base.prompt.js'
+import {
+  MCPResource,
+  RESOURCE_PAGE_SIZE,
+  ResourceRegistry,
+} from './resources/base.resource.js'
 import { MCPTool, ToolRegistry } from './tools/base.tool.js'
+import { CompletionService } from './services/completion.service.js'
+import {
+  decodeResourceCursor,
+  encodeResourceCursor,
+} from './helpers/pagination.js'
+import {
+  createToolErrorResult,
+  toToolError,
+  ValidationError,
+} from './errors/tool.errors.js'
+import { ToolContext } from './types/base.types.js'
 
 export class MCPServer {
   private server: Server
   private toolRegistry = new ToolRegistry()
   private promptRegistry = new PromptRegistry()
+  private resourceRegistry = new ResourceRegistry()
+  private completionService: CompletionService | null = null
+
+  constructor(
+    private name: string,
+    private version: string,
+  ) {
+    this.server = this.createServer()
+  }
 
-  constructor(name: string, version: string) {
-    this.server = new Server(
-      { name, version },
+  // Each connected transport needs its own SDK Server; registries are shared
+  private createServer(): Server {
+    const server = new Server(
+      { name: this.name, version: this.version },
       {
         capabilities: {
           tools: {},
           prompts: {},
+          resources: {},
+          completions: {},
         },
       },
     )
-    this.setupHandlers()
+    this.setupHandlers(server)
+    return server
   }
 
-  private setupHandlers() {
+  private setupHandlers(server: Server) {
     // Tool handlers
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
       return await this.getTools()
     })
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      return await this.handleToolCall(request)
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      return await this.handleToolCall(request, { sessionId: extra.sessionId })
     })
 
     // Prompt handlers
-    this.server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
       return await this.getPrompts()
     })
 
-    this.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
       return await this.handleGetPrompt(request)
     })
+
+    // Resource handlers
+    server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+      return await this.getResources(request.params?.cursor)
+    })
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return this.getResourceTemplates()
+    })
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      return await this.handleReadResource(request)
+    })
+
+    // Completion handlers
+    server.setRequestHandler(CompleteRequestSchema, async (request) => {
+      return await this.handleComplete(request)
+    })
   }
 
   getTools() {
@@ -56,13 +108,17 @@ export class MCPServer {
         name: tool.name,
         description: tool.description,
         inputSchema: tool.inputSchema,
+        ...(tool.outputSchema && { outputSchema: tool.outputSchema }),
       })),
     }
   }
 
-  async handleToolCall(request: {
-    params: { name: string; arguments?: unknown }
-  }) {
+  async handleToolCall(
+    request: {
+      params: { name: string; arguments?: unknown }
+    },
+    context: ToolContext = {},
+  ) {
     const toolName = request.params.name
     const tool = this.toolRegistry.get(toolName)
 
@@ -70,19 +126,20 @@ export class MCPServer {
       throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${toolName}`)
     }
 
+    // Tool failures are results, not protocol errors, so the model can correct them
+    const parsedArgs = tool.argsSchema.safeParse(request.params.arguments)
+    if (!parsedArgs.success) {
+      return createToolErrorResult(
+        new ValidationError(`Invalid arguments: ${parsedArgs.error.message}`, {
+          issues: parsedArgs.error.issues,
+        }),
+      )
+    }
+
     try {
-      // Validate arguments using the tool's schema
-      const validatedArgs = tool.argsSchema.parse(request.params.arguments)
-      // Call the tool handler
-      return await tool.handler(validatedArgs)
+      return await tool.handler(parsedArgs.data, context)
     } catch (err) {
-      if (err instanceof z.ZodError) {
-        throw new McpError(
-          ErrorCode.InvalidParams,
-          `Invalid arguments: ${err.message}`,
-        )
-      }
-      throw err
+      return createToolErrorResult(toToolError(err, 'Unexpected error'))
     }
   }
 
@@ -138,7 +195,126 @@ export class MCPServer {
     this.promptRegistry.register(prompt)
   }
 
-  async connect(transport: StdioServerTransport) {
+  async getResources(cursor?: string) {
+    const resources = this.resourceRegistry.getAll()
+    let index = 0
+    let offset = 0
+
+    if (cursor !== undefined) {
+      const position = decodeResourceCursor(cursor)
+      index = position
+        ? resources.findIndex(({ name }) => name === position.resource)
+        : -1
+
+      if (!position || index === -1) {
+        throw new McpError(ErrorCode.InvalidParams, `Invalid cursor: ${cursor}`)
+      }
+
+      offset = position.offset
+    }
+
+    const page: Resource[] = []
+
+    for (; index < resources.length; index++, offset = 0) {
+      const limit = RESOURCE_PAGE_SIZE - page.length
+
+      // One more than fits shows whether the list continues
+      const listed = await resources[index].listResources({
+        offset,
+        limit: limit + 1,
+      })
+      page.push(...listed.slice(0, limit))
+
+      if (listed.length > limit) {
+        return {
+          resources: page,
+          nextCursor: encodeResourceCursor(
+            resources[index].name,
+            offset + limit,
+          ),
+        }
+      }
+    }
+
+    return { resources: page }
+  }
+
+  getResourceTemplates() {
+    return { resourceTemplates: this.resourceRegistry.getTemplates() }
+  }
+
+  async handleReadResource(request: { params: { uri: string } }) {
+    const uri = request.params.uri
+    const resource = this.resourceRegistry.findByUri(uri)
+
+    if (!resource) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`)
+    }
+
+    return await resource.readResource(uri)
+  }
+
+  registerResource(resource: MCPResource) {
+    this.resourceRegistry.register(resource)
+  }
+
+  async handleComplete(request: {
+    params: {
+      ref: { type: string; name?: string; uri?: string }
+      argument: { name: string; value: string }
+    }
+  }) {
+    const { ref, argument } = request.params
+    const argumentNames = this.getCompletableArguments(ref)
+
+    if (!argumentNames.includes(argument.name)) {
+      return { completion: { values: [], hasMore: false } }
+    }
+
+    // Created on first use so servers without completion clients skip the database
+    this.completionService ??= new CompletionService()
+    const { values, hasMore } = await this.completionService.complete(
+      argument.name,
+      argument.value,
+    )
+
+    return { completion: { values, hasMore } }
+  }
+
+  private getCompletableArguments(ref: {
+    type: string
+    name?: string
+    uri?: string
+  }): string[] {
+    if (ref.type === 'ref/prompt') {
+      const prompt = this.promptRegistry.get(ref.name ?? '')
+      if (!prompt) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Unknown prompt: ${ref.name}`,
+        )
+      }
+      return (prompt.arguments ?? []).map((arg) => arg.name)
+    }
+
+    const resource = this.resourceRegistry.findByTemplate(ref.uri ?? '')
+    if (!resource) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown resource template: ${ref.uri}`,
+      )
+    }
+    return resource.variableNames
+  }
+
+  async connect(transport: Transport) {
     await this.server.connect(transport)
   }
+
+  // Connects a transport to a dedicated server instance, e.g. one per HTTP session
+  async connectSession(transport: Transport): Promise<Server> {
+    const server = this.createServer()
+    await server.connect(transport)
+    return server
+  }
 }
@@ -0,0 +1,169 @@
+import { DatabaseService } from './database.service.js'
+import { resolveCensusApiMode } from '../helpers/census-api-config.js'
+import {
+  CacheEntry,
+  CacheKey,
+  CacheStatsRow,
+  CacheStatus,
+} from '../types/cache.types.js'
+
+export const CACHE_CLEANUP_INTERVAL_MS = 60 * 60 * 1000
+
+interface CacheRow {
+  response_data: unknown
+  created_at: Date
+  expires_at: Date | null
+}
+
+// Stores Census Data API responses in census_data_cache. The cache is
+// best-effort: database errors are logged and treated as cache misses.
+export class CacheService {
+  private static instance: CacheService
+  private dbService: DatabaseService
+
+  private constructor() {
+    this.dbService = DatabaseService.getInstance()
+  }
+
+  // Get singleton instance
+  public static getInstance(): CacheService {
+    if (!CacheService.instance) {
+      CacheService.instance = new CacheService()
+    }
+    return CacheService.instance
+  }
+
+  // Responses are still cached while recording, but never read, so that
+  // every request reaches the Census Data API and is saved as a fixture
+  async get<T>(key: CacheKey): Promise<CacheEntry<T> | null> {
+    if (!this.isEnabled() || resolveCensusApiMode() === 'record') return null
+
+    try {
+      // Reading an entry also records when it was last accessed
+      const result = await this.dbService.query<CacheRow>(
+        `UPDATE census_data_cache
+         SET last_accessed = NOW()
+         WHERE request_hash = generate_cache_hash($1::text, $2::int, $3::text[], $4::jsonb)
+           AND (expires_at IS NULL OR expires_at > NOW())
+         RETURNING response_data, created_at, expires_at`,
+        this.toParams(key),
+      )
+
+      const row = result.rows[0]
+      if (!row) return null
+
+      return {
+        data: row.response_data as T,
+        createdAt: row.created_at,
+        expiresAt: row.expires_at,
+      }
+    } catch (error) {
+      console.error('Failed to read from the response cache:', error)
+      return null
+    }
+  }
+
+  async set<T>(
+    key: CacheKey,
+    data: T,
+    options: { ttlMs: number; rowCount?: number },
+  ): Promise<void> {
+    if (!this.isEnabled()) return
+
+    try {
+      await this.dbService.query(
+        `INSERT INTO census_data_cache (
+           request_hash, dataset_code, year, variables, geography_spec,
+           response_data, row_count, expires_at
+         )
+         VALUES (
+           generate_cache_hash($1::text, $2::int, $3::text[], $4::jsonb),
+           $1::text, $2::int, $3::text[], $4::jsonb, $5::jsonb, $6, $7
+         )
+         ON CONFLICT (request_hash) DO UPDATE SET
+           response_data = EXCLUDED.response_data,
+           row_count = EXCLUDED.row_count,
+           expires_at = EXCLUDED.expires_at,
+           created_at = NOW()`,
+        [
+          ...this.toParams(key),
+          JSON.stringify(data),
+          options.rowCount ?? null,
+          new Date(Date.now() + options.ttlMs),
+        ],
+      )
+    } catch (error) {
+      console.error('Failed to write to the response cache:', error)
+    }
+  }
+
+  async cleanupExpired(): Promise<number> {
+    const result = await this.dbService.query<{ deleted: number }>(
+      'SELECT cleanup_expired_cache() AS deleted',
+    )
+    return result.rows[0]?.deleted ?? 0
+  }
+
+  async getStats(): Promise<CacheStatsRow | null> {
+    const result = await this.dbService.query<CacheStatsRow>(
+      'SELECT * FROM get_cache_stats()',
+    )
+    return result.rows[0] ?? null
+  }
+
+  // Removes expired entries periodically without keeping the process alive
+  startCleanup(intervalMs: number = CACHE_CLEANUP_INTERVAL_MS): NodeJS.Timeout {
+    const cleanup = async () => {
+      try {
+        const deleted = await this.cleanupExpired()
+        const stats = await this.getStats()
+        console.log(
+          `Removed ${deleted} expired cache entries. Cache stats:`,
+          stats,
+        )
+      } catch (error) {
+        console.error('Failed to clean up the response cache:', error)
+      }
+    }
+
+    const timer = setInterval(cleanup, intervalMs)
+    timer.unref()
+    return timer
+  }
+
+  // Combined results are only a hit when every part came from the cache
+  static toStatus<T>(...entries: Array<CacheEntry<T> | null>): CacheStatus {
+    if (entries.length === 0 || entries.some((entry) => !entry)) {
+      return { hit: false }
+    }
+
+    const hits = entries as CacheEntry<T>[]
+    const createdAt = Math.min(
+      ...hits.map((entry) => new Date(entry.createdAt).getTime()),
+    )
+    const expiries = hits
+      .filter((entry) => entry.expiresAt)
+      .map((entry) => new Date(entry.expiresAt as Date).getTime())
+
+    return {
+      hit: true,
+      cached_at: new Date(createdAt).toISOString(),
+      expires_at: expiries.length
+        ? new Date(Math.min(...expiries)).toISOString()
+        : null,
+    }
+  }
+
+  private isEnabled(): boolean {
+    return process.env.CENSUS_CACHE_ENABLED !== 'false'
+  }
+
+  private toParams(key: CacheKey): [string, number, string[], string] {
+    return [
+      key.datasetCode,
+      key.year,
+      key.variables,
+      JSON.stringify(key.geographySpec),
+    ]
+  }
+}
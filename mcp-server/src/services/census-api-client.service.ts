@@ -0,0 +1,310 @@
+import fetch, { Response } from 'node-fetch'
+
+import { CacheService } from './cache.service.js'
+import {
+  CensusApiError,
+  censusApiErrorFromResponse,
+} from '../errors/tool.errors.js'
+import { getCacheTtlMs } from '../helpers/cache-ttl.js'
+import { resolveCensusApiConfig } from '../helpers/census-api-config.js'
+import { readErrorBody } from '../helpers/census-api-errors.js'
+import {
+  readFixture,
+  redactFixtureUrl,
+  writeFixture,
+} from '../helpers/census-api-fixtures.js'
+import { redactApiKey } from '../helpers/citation.js'
+import { CacheEntry, CacheKey } from '../types/cache.types.js'
+import {
+  CensusApiClientOptions,
+  CensusApiRows,
+} from '../types/census-api.types.js'
+
+const RETRYABLE_STATUSES = [429, 500, 502, 503, 504]
+
+// All requests to the Census Data API share this client so that timeouts,
+// retries and the concurrency limit apply across every tool
+export class CensusApiClient {
+  private static instance: CensusApiClient
+  private activeRequests = 0
+  private waiting: Array<() => void> = []
+
+  constructor(
+    private options: CensusApiClientOptions = resolveCensusApiConfig(),
+  ) {}
+
+  // Get singleton instance
+  public static getInstance(): CensusApiClient {
+    if (!CensusApiClient.instance) {
+      CensusApiClient.instance = new CensusApiClient()
+    }
+    return CensusApiClient.instance
+  }
+
+  // Builds a request URL for a path such as 'data/2022/acs/acs1' and
+  // appends the API key after the other query parameters
+  buildUrl(
+    path: string,
+    query: URLSearchParams = new URLSearchParams(),
+    apiKey: string | undefined = process.env.CENSUS_API_KEY,
+  ): string {
+    const params = new URLSearchParams(query)
+
+    if (apiKey) {
+      params.set('key', apiKey)
+    }
+
+    const queryString = params.toString()
+    return `${this.options.baseUrl}/${path.replace(/^\/+/, '')}${queryString ? `?${queryString}` : ''}`
+  }
+
+  // The Census Data API answers some failures, e.g. an invalid key, with an
+  // HTML page and status 200, so a body that is not JSON is reported as the
+  // error it describes
+  async readJson<T>(
+    response: Response,
+    prefix = 'Census API error',
+  ): Promise<T> {
+    const body = await response.text()
+
+    try {
+      return JSON.parse(body) as T
+    } catch {
+      throw censusApiErrorFromResponse(
+        prefix,
+        response.status,
+        response.statusText,
+        body,
+      )
+    }
+  }
+
+  // Fetches the rows of a data request, using census_data_cache when
+  // possible. Timeseries datasets have no year.
+  async fetchRows(
+    url: string,
+    dataset: string,
+    year?: number,
+  ): Promise<{
+    rows: CensusApiRows
+    cached: CacheEntry<CensusApiRows> | null
+  }> {
+    const cache = CacheService.getInstance()
+    const cacheKey = this.cacheKey(url, dataset, year)
+
+    const cached = await cache.get<CensusApiRows>(cacheKey)
+    if (cached) return { rows: cached.data, cached }
+
+    const res = await this.fetch(url)
+
+    console.log(`URL Attempted: ${url}`)
+
+    if (!res.ok || res.status === 204) {
+      throw censusApiErrorFromResponse(
+        'Census API error',
+        res.status,
+        res.statusText,
+        await readErrorBody(res),
+      )
+    }
+
+    const rows = await this.readJson<CensusApiRows>(res)
+    await cache.set(cacheKey, rows, {
+      ttlMs: getCacheTtlMs(dataset, year),
+      rowCount: rows.length - 1,
+    })
+
+    return { rows, cached: null }
+  }
+
+  // In record mode responses are also saved as fixtures, and in replay mode
+  // they are served from those fixtures without touching the network
+  async fetch(url: string): Promise<Response> {
+    if (this.options.mode === 'replay') {
+      return this.replay(url)
+    }
+
+    const response = await this.fetchWithRetries(url)
+
+    if (this.options.mode === 'record') {
+      return this.record(url, response)
+    }
+
+    return response
+  }
+
+  // Retries network failures, timeouts, 429 and 5xx responses. The last
+  // response is returned once retries run out so callers can report it
+  private async fetchWithRetries(url: string): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      let response: Response
+
+      try {
+        response = await this.withConcurrencyLimit(() =>
+          this.fetchWithTimeout(url),
+        )
+      } catch (error) {
+        if (attempt >= this.options.maxRetries) throw error
+
+        const errorMessage =
+          error instanceof Error ? error.message : String(error)
+        await this.waitBeforeRetry(url, attempt, errorMessage)
+        continue
+      }
+
+      if (
+        !RETRYABLE_STATUSES.includes(response.status) ||
+        attempt >= this.options.maxRetries
+      ) {
+        return response
+      }
+
+      // Discard the body so the connection can be reused
+      await response.text().catch(() => undefined)
+
+      await this.waitBeforeRetry(
+        url,
+        attempt,
+        `${response.status} ${response.statusText}`,
+        this.parseRetryAfter(response.headers.get('retry-after')),
+      )
+    }
+  }
+
+  private async replay(url: string): Promise<Response> {
+    const fixture = await readFixture(this.options.fixturesDir, url)
+
+    if (!fixture) {
+      throw new CensusApiError(
+        `No recorded Census API response for ${redactFixtureUrl(url)}`,
+        undefined,
+        'Record the request with CENSUS_API_MODE=record while the Census Data API is reachable, or check CENSUS_API_FIXTURES_DIR.',
+      )
+    }
+
+    return new Response(fixture.body, {
+      status: fixture.status,
+      statusText: fixture.statusText,
+      headers: fixture.headers,
+    })
+  }
+
+  // The body can only be read once, so a copy is returned to the caller
+  private async record(url: string, response: Response): Promise<Response> {
+    const body = await response.text()
+    const headers: Record<string, string> = {}
+    const contentType = response.headers.get('content-type')
+
+    if (contentType) {
+      headers['content-type'] = contentType
+    }
+
+    await writeFixture(this.options.fixturesDir, url, {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+      body,
+    })
+
+    return new Response(body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+    })
+  }
+
+  // Requests are keyed by their query without the API key, so every tool
+  // sending the same query shares the cached response
+  private cacheKey(url: string, dataset: string, year?: number): CacheKey {
+    const { searchParams } = new URL(url)
+    const geographySpec: Record<string, string | string[]> = {}
+
+    for (const name of new Set(searchParams.keys())) {
+      if (name === 'get' || name === 'key') continue
+
+      const values = searchParams.getAll(name)
+      geographySpec[name] = values.length === 1 ? values[0] : values
+    }
+
+    return {
+      datasetCode: dataset,
+      year: year ?? 0,
+      variables: searchParams.get('get')?.split(',') ?? [],
+      geographySpec,
+    }
+  }
+
+  private async fetchWithTimeout(url: string): Promise<Response> {
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), this.options.timeoutMs)
+
+    try {
+      return await fetch(url, { signal: controller.signal })
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new CensusApiError(
+          `Census API request timed out after ${this.options.timeoutMs}ms`,
+        )
+      }
+      throw error
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  private async withConcurrencyLimit<T>(request: () => Promise<T>): Promise<T> {
+    if (this.activeRequests < this.options.maxConcurrentRequests) {
+      this.activeRequests++
+    } else {
+      // The releasing request hands its slot over directly
+      await new Promise<void>((resolve) => this.waiting.push(resolve))
+    }
+
+    try {
+      return await request()
+    } finally {
+      const next = this.waiting.shift()
+      if (next) {
+        next()
+      } else {
+        this.activeRequests--
+      }
+    }
+  }
+
+  private async waitBeforeRetry(
+    url: string,
+    attempt: number,
+    reason: string,
+    retryAfterMs?: number,
+  ): Promise<void> {
+    const backoffMs = this.options.retryDelayMs * 2 ** attempt
+    const delayMs = Math.min(
+      retryAfterMs ?? backoffMs,
+      this.options.maxRetryDelayMs,
+    )
+
+    console.warn(
+      `Census API request failed (${reason}), retrying in ${delayMs}ms (attempt ${attempt + 1}/${this.options.maxRetries}): ${redactApiKey(url)}`,
+    )
+
+    await this.sleep(delayMs)
+  }
+
+  // Retry-After is either a number of seconds or an HTTP date
+  private parseRetryAfter(value: string | null): number | undefined {
+    if (!value) return undefined
+
+    const seconds = Number(value)
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+
+    const date = Date.parse(value)
+    if (Number.isNaN(date)) return undefined
+
+    return Math.max(0, date - Date.now())
+  }
+
+  protected sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms))
+  }
+}
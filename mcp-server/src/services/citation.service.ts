@@ -0,0 +1,63 @@
+import { DatabaseService } from './database.service.js'
+import { formatCitations } from '../helpers/citation.js'
+import { CitationRequest, Citations } from '../types/citation.types.js'
+
+interface CitationRow {
+  name: string
+  table_label: string | null
+}
+
+// Builds publication citations with the dataset title and table label from
+// the MCP Database. The lookup is best-effort: without the database, the
+// dataset identifier is cited instead of its title.
+export class CitationService {
+  private static instance: CitationService
+  private dbService: DatabaseService
+
+  private constructor() {
+    this.dbService = DatabaseService.getInstance()
+  }
+
+  // Get singleton instance
+  public static getInstance(): CitationService {
+    if (!CitationService.instance) {
+      CitationService.instance = new CitationService()
+    }
+    return CitationService.instance
+  }
+
+  async cite(source: CitationRequest): Promise<Citations> {
+    const row = await this.lookup(source)
+
+    return formatCitations({
+      ...source,
+      title: row?.name,
+      tableLabel: row?.table_label ?? undefined,
+      accessed: new Date(),
+    })
+  }
+
+  private async lookup(source: CitationRequest): Promise<CitationRow | null> {
+    try {
+      // Timeseries datasets have no vintage
+      const result = await this.dbService.query<CitationRow>(
+        `SELECT d.name, COALESCE(dtd.label, t.label) AS table_label
+         FROM datasets d
+         LEFT JOIN years y ON y.id = d.year_id
+         LEFT JOIN data_tables t ON t.data_table_id = $3
+         LEFT JOIN data_table_datasets dtd
+           ON dtd.dataset_id = d.id AND dtd.data_table_id = t.id
+         WHERE d.api_endpoint = $1 AND y.year IS NOT DISTINCT FROM $2
+         LIMIT 1`,
+        [source.dataset, source.year ?? null, source.tableId ?? null],
+      )
+
+      return result.rows[0] ?? null
+    } catch (err) {
+      console.error(
+        `Citing ${source.dataset} without its title: ${err instanceof Error ? err.message : err}`,
+      )
+      return null
+    }
+  }
+}
@@ -0,0 +1,177 @@
+import { DatabaseService } from './database.service.js'
+
+export const COMPLETION_LIMIT = 20
+
+export interface CompletionResult {
+  values: string[]
+  hasMore: boolean
+}
+
+type Completer = (value: string, limit: number) => Promise<string[]>
+
+// Typed values are matched literally, so LIKE wildcards in them are escaped
+// for the ESCAPE '\' clause of the prefix queries
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, '\\$&')
+}
+
+// Suggests values for prompt and resource template arguments as users type
+export class CompletionService {
+  private dbService: DatabaseService
+  private completers: Record<string, Completer>
+
+  constructor() {
+    this.dbService = DatabaseService.getInstance()
+
+    // Arguments are matched by name so every prompt and resource shares them
+    this.completers = {
+      geography_name: this.completeGeographyName.bind(this),
+      code: this.completeSummaryLevel.bind(this),
+      summary_level: this.completeSummaryLevel.bind(this),
+      api_endpoint: this.completeApiEndpoint.bind(this),
+      dataset: this.completeApiEndpoint.bind(this),
+      year: this.completeYear.bind(this),
+      data_table_id: this.completeDataTableId.bind(this),
+      topic_string: this.completeTopic.bind(this),
+      component_id: this.completeComponent.bind(this),
+      acronym: this.completeProgram.bind(this),
+    }
+  }
+
+  async complete(
+    argumentName: string,
+    value: string,
+  ): Promise<CompletionResult> {
+    const completer = this.completers[argumentName]
+    if (!completer) return { values: [], hasMore: false }
+
+    // Completions are best-effort, so an unavailable database yields no values
+    const isDbHealthy = await this.dbService.healthCheck()
+    if (!isDbHealthy) return { values: [], hasMore: false }
+
+    // Fetch one extra value to detect whether more are available
+    const values = Array.from(
+      new Set(await completer(value.trim(), COMPLETION_LIMIT + 1)),
+    )
+
+    return {
+      values: values.slice(0, COMPLETION_LIMIT),
+      hasMore: values.length > COMPLETION_LIMIT,
+    }
+  }
+
+  private async completeGeographyName(
+    value: string,
+    limit: number,
+  ): Promise<string[]> {
+    if (!value) return []
+
+    const result = await this.dbService.query<{ name: string }>(
+      `SELECT name FROM search_geographies($1, $2)`,
+      [value, limit],
+    )
+    return result.rows.map((row) => row.name)
+  }
+
+  private async completeSummaryLevel(
+    value: string,
+    limit: number,
+  ): Promise<string[]> {
+    // Partial codes are matched by prefix, names through the fuzzy search
+    if (/^\d{0,3}$/.test(value)) {
+      const result = await this.dbService.query<{ code: string }>(
+        `SELECT code FROM summary_levels
+         WHERE code LIKE $1 || '%' ESCAPE '\\'
+         ORDER BY code
+         LIMIT $2`,
+        [escapeLikePattern(value), limit],
+      )
+      return result.rows.map((row) => row.code)
+    }
+
+    const result = await this.dbService.query<{ code: string }>(
+      `SELECT code FROM search_summary_levels($1, $2)`,
+      [value, limit],
+    )
+    return result.rows.map((row) => row.code)
+  }
+
+  private async completeApiEndpoint(
+    value: string,
+    limit: number,
+  ): Promise<string[]> {
+    const result = await this.dbService.query<{ api_endpoint: string }>(
+      `SELECT DISTINCT api_endpoint FROM datasets
+       WHERE api_endpoint ILIKE $1 || '%' ESCAPE '\\'
+       ORDER BY api_endpoint
+       LIMIT $2`,
+      [escapeLikePattern(value), limit],
+    )
+    return result.rows.map((row) => row.api_endpoint)
+  }
+
+  private async completeYear(value: string, limit: number): Promise<string[]> {
+    const result = await this.dbService.query<{ year: string }>(
+      `SELECT DISTINCT y.year::TEXT AS year FROM years y
+       JOIN datasets d ON d.year_id = y.id
+       WHERE y.year::TEXT LIKE $1 || '%' ESCAPE '\\'
+       ORDER BY year DESC
+       LIMIT $2`,
+      [escapeLikePattern(value), limit],
+    )
+    return result.rows.map((row) => row.year)
+  }
+
+  private async completeDataTableId(
+    value: string,
+    limit: number,
+  ): Promise<string[]> {
+    const result = await this.dbService.query<{ data_table_id: string }>(
+      `SELECT data_table_id FROM data_tables
+       WHERE data_table_id ILIKE $1 || '%' ESCAPE '\\'
+       ORDER BY LENGTH(data_table_id), data_table_id
+       LIMIT $2`,
+      [escapeLikePattern(value), limit],
+    )
+    return result.rows.map((row) => row.data_table_id)
+  }
+
+  private async completeTopic(value: string, limit: number): Promise<string[]> {
+    const result = await this.dbService.query<{ topic_string: string }>(
+      `SELECT topic_string FROM topics
+       WHERE topic_string ILIKE $1 || '%' ESCAPE '\\'
+       ORDER BY topic_string
+       LIMIT $2`,
+      [escapeLikePattern(value), limit],
+    )
+    return result.rows.map((row) => row.topic_string)
+  }
+
+  private async completeComponent(
+    value: string,
+    limit: number,
+  ): Promise<string[]> {
+    const result = await this.dbService.query<{ component_id: string }>(
+      `SELECT component_id FROM components
+       WHERE component_id ILIKE $1 || '%' ESCAPE '\\'
+       ORDER BY component_id
+       LIMIT $2`,
+      [escapeLikePattern(value), limit],
+    )
+    return result.rows.map((row) => row.component_id)
+  }
+
+  private async completeProgram(
+    value: string,
+    limit: number,
+  ): Promise<string[]> {
+    const result = await this.dbService.query<{ acronym: string }>(
+      `SELECT acronym FROM programs
+       WHERE acronym ILIKE $1 || '%' ESCAPE '\\'
+       ORDER BY acronym
+       LIMIT $2`,
+      [escapeLikePattern(value), limit],
+    )
+    return result.rows.map((row) => row.acronym)
+  }
+}
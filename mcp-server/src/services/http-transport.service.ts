@@ -0,0 +1,315 @@
+import { randomUUID } from 'node:crypto'
+import {
+  createServer,
+  IncomingMessage,
+  Server as NodeHttpServer,
+  ServerResponse,
+} from 'node:http'
+import { AddressInfo } from 'node:net'
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js'
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js'
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js'
+
+import { normalizeHostname } from '../helpers/transport-config.js'
+import { MCPServer } from '../server.js'
+import { ResultStoreService } from './result-store.service.js'
+import { HttpTransportOptions } from '../types/transport.types.js'
+
+export const MCP_ENDPOINT = '/mcp'
+export const SSE_ENDPOINT = '/sse'
+export const SSE_MESSAGES_ENDPOINT = '/messages'
+export const HEALTH_ENDPOINT = '/health'
+
+type SessionTransport = StreamableHTTPServerTransport | SSEServerTransport
+
+interface HttpSession {
+  transport: SessionTransport
+  server: Server
+  lastSeen: number
+}
+
+export class HttpTransportService {
+  private httpServer: NodeHttpServer | null = null
+  private sessions = new Map<string, HttpSession>()
+  private sweepTimer: NodeJS.Timeout | null = null
+
+  constructor(
+    private mcpServer: MCPServer,
+    private options: HttpTransportOptions,
+  ) {}
+
+  async start(): Promise<AddressInfo> {
+    this.httpServer = createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        console.error('Error handling HTTP request:', error)
+        if (!res.headersSent) {
+          this.sendJsonRpcError(res, 500, -32603, 'Internal server error')
+        }
+      })
+    })
+
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer!.once('error', reject)
+      this.httpServer!.listen(this.options.port, this.options.host, resolve)
+    })
+
+    // Sweep sessions abandoned by clients that never sent DELETE
+    this.sweepTimer = setInterval(
+      () =>
+        this.closeIdleSessions().catch((error) =>
+          console.error('Error closing idle sessions:', error),
+        ),
+      Math.min(this.options.sessionTimeoutMs, 60000),
+    )
+    this.sweepTimer.unref()
+
+    const address = this.httpServer.address() as AddressInfo
+    console.log(
+      `MCP HTTP transport listening on http://${address.address}:${address.port}${MCP_ENDPOINT}`,
+    )
+    return address
+  }
+
+  async stop(): Promise<void> {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer)
+      this.sweepTimer = null
+    }
+
+    for (const sessionId of Array.from(this.sessions.keys())) {
+      await this.closeSession(sessionId)
+    }
+
+    if (this.httpServer) {
+      const httpServer = this.httpServer
+      this.httpServer = null
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()))
+    }
+  }
+
+  getSessionCount(): number {
+    return this.sessions.size
+  }
+
+  async handleRequest(req: IncomingMessage, res: ServerResponse) {
+    const url = new URL(req.url ?? '/', 'http://localhost')
+
+    // The health check is left open for probes that address the server by IP
+    if (url.pathname !== HEALTH_ENDPOINT) {
+      const forbidden = this.checkHostAndOrigin(req)
+      if (forbidden) {
+        return this.sendJsonRpcError(res, 403, -32000, forbidden)
+      }
+    }
+
+    switch (url.pathname) {
+      case MCP_ENDPOINT:
+        return await this.handleStreamableRequest(req, res)
+      case SSE_ENDPOINT:
+        return await this.handleSseConnect(req, res)
+      case SSE_MESSAGES_ENDPOINT:
+        return await this.handleSseMessage(
+          req,
+          res,
+          url.searchParams.get('sessionId'),
+        )
+      case HEALTH_ENDPOINT:
+        res.writeHead(200, { 'Content-Type': 'application/json' })
+        res.end(JSON.stringify({ status: 'ok', sessions: this.sessions.size }))
+        return
+      default:
+        res.writeHead(404).end('Not Found')
+    }
+  }
+
+  private async handleStreamableRequest(
+    req: IncomingMessage,
+    res: ServerResponse,
+  ) {
+    const sessionId = req.headers['mcp-session-id']
+
+    if (typeof sessionId === 'string') {
+      const session = this.sessions.get(sessionId)
+
+      if (
+        !session ||
+        !(session.transport instanceof StreamableHTTPServerTransport)
+      ) {
+        return this.sendJsonRpcError(res, 404, -32001, 'Session not found')
+      }
+
+      session.lastSeen = Date.now()
+      return await session.transport.handleRequest(req, res)
+    }
+
+    if (req.method !== 'POST') {
+      return this.sendJsonRpcError(
+        res,
+        400,
+        -32000,
+        'Bad Request: Mcp-Session-Id header is required',
+      )
+    }
+
+    if (this.isAtSessionLimit()) {
+      return this.sendSessionLimitError(res)
+    }
+
+    // A POST without a session ID must be an initialize request; the transport rejects anything else
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (newSessionId) => {
+        this.sessions.set(newSessionId, {
+          transport,
+          server,
+          lastSeen: Date.now(),
+        })
+      },
+    })
+
+    const server = await this.mcpServer.connectSession(transport)
+
+    // Protocol.connect() takes over transport.onclose, so listen on the server
+    server.onclose = () => {
+      if (transport.sessionId) {
+        this.forgetSession(transport.sessionId)
+      }
+    }
+
+    await transport.handleRequest(req, res)
+
+    if (!transport.sessionId) {
+      await server.close()
+    }
+  }
+
+  private async handleSseConnect(req: IncomingMessage, res: ServerResponse) {
+    if (req.method !== 'GET') {
+      res.writeHead(405, { Allow: 'GET' }).end('Method Not Allowed')
+      return
+    }
+
+    if (this.isAtSessionLimit()) {
+      return this.sendSessionLimitError(res)
+    }
+
+    const transport = new SSEServerTransport(SSE_MESSAGES_ENDPOINT, res)
+    const sessionId = transport.sessionId
+
+    const server = await this.mcpServer.connectSession(transport)
+    server.onclose = () => {
+      this.forgetSession(sessionId)
+    }
+    this.sessions.set(sessionId, { transport, server, lastSeen: Date.now() })
+
+    res.on('close', () => {
+      this.closeSession(sessionId).catch((error) =>
+        console.error(`Error closing SSE session ${sessionId}:`, error),
+      )
+    })
+  }
+
+  private async handleSseMessage(
+    req: IncomingMessage,
+    res: ServerResponse,
+    sessionId: string | null,
+  ) {
+    if (req.method !== 'POST') {
+      res.writeHead(405, { Allow: 'POST' }).end('Method Not Allowed')
+      return
+    }
+
+    const session = sessionId ? this.sessions.get(sessionId) : undefined
+
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      return this.sendJsonRpcError(res, 404, -32001, 'Session not found')
+    }
+
+    session.lastSeen = Date.now()
+    await session.transport.handlePostMessage(req, res)
+  }
+
+  private forgetSession(sessionId: string) {
+    this.sessions.delete(sessionId)
+    ResultStoreService.getInstance().clearSession(sessionId)
+  }
+
+  private async closeSession(sessionId: string) {
+    const session = this.sessions.get(sessionId)
+    if (!session) return
+
+    this.sessions.delete(sessionId)
+    await session.server.close()
+  }
+
+  private async closeIdleSessions() {
+    const cutoff = Date.now() - this.options.sessionTimeoutMs
+
+    for (const [sessionId, session] of Array.from(this.sessions.entries())) {
+      if (session.lastSeen < cutoff) {
+        console.log(`Closing idle MCP session ${sessionId}`)
+        await this.closeSession(sessionId)
+      }
+    }
+  }
+
+  // Returns why the request is refused, or null when it is allowed. Requests
+  // from browsers carry an Origin header; other clients usually do not.
+  private checkHostAndOrigin(req: IncomingMessage): string | null {
+    const hostname = this.hostnameOf(`http://${req.headers.host ?? ''}`)
+
+    if (!hostname || !this.options.allowedHosts.includes(hostname)) {
+      return 'Forbidden: Host not allowed'
+    }
+
+    const origin = req.headers.origin
+    if (origin === undefined) return null
+
+    const normalized = origin.toLowerCase().replace(/\/+$/, '')
+    const originHostname = this.hostnameOf(normalized)
+
+    if (
+      this.options.allowedOrigins.includes(normalized) ||
+      (originHostname && this.options.allowedHosts.includes(originHostname))
+    ) {
+      return null
+    }
+
+    return 'Forbidden: Origin not allowed'
+  }
+
+  private hostnameOf(url: string): string | null {
+    try {
+      return normalizeHostname(new URL(url).hostname)
+    } catch {
+      return null
+    }
+  }
+
+  private isAtSessionLimit(): boolean {
+    return this.sessions.size >= this.options.maxSessions
+  }
+
+  private sendSessionLimitError(res: ServerResponse) {
+    res.setHeader('Retry-After', '60')
+    this.sendJsonRpcError(
+      res,
+      503,
+      -32000,
+      'Service Unavailable: Too many open sessions',
+    )
+  }
+
+  private sendJsonRpcError(
+    res: ServerResponse,
+    status: number,
+    code: number,
+    message: string,
+  ) {
+    res.writeHead(status, { 'Content-Type': 'application/json' })
+    res.end(
+      JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }),
+    )
+  }
+}
@@ -0,0 +1,110 @@
+import {
+  VariableMetadataResult,
+  VariableMetadataService,
+} from './variable-metadata.service.js'
+import { geographyIssues, variableIssues } from '../helpers/query-validation.js'
+import { QueryIssue, QueryToValidate } from '../types/query-validation.types.js'
+
+export const METADATA_TTL_MS = 60 * 60 * 1000
+export const FAILED_METADATA_TTL_MS = 5 * 60 * 1000
+export const MAX_LOADED_METADATA = 20
+
+interface LoadedMetadata {
+  data: Promise<unknown>
+  expiresAt: number
+}
+
+// Checks a query against the dataset's variables.json and geography.json
+// before any data is requested. Validation is best-effort: when the metadata
+// cannot be fetched, the data request reports its own errors.
+//
+// The parsed metadata is kept in memory for each dataset and vintage, so
+// queries do not download it again when the response cache is disabled or
+// the database is down. Failed fetches are remembered for a shorter time and
+// skip validation until then.
+export class QueryValidationService {
+  private static instance: QueryValidationService
+  private metadata: VariableMetadataService
+  private loaded = new Map<string, LoadedMetadata>()
+
+  private constructor() {
+    this.metadata = VariableMetadataService.getInstance()
+  }
+
+  // Get singleton instance
+  public static getInstance(): QueryValidationService {
+    if (!QueryValidationService.instance) {
+      QueryValidationService.instance = new QueryValidationService()
+    }
+    return QueryValidationService.instance
+  }
+
+  async validate(
+    query: QueryToValidate,
+    apiKey: string,
+  ): Promise<QueryIssue[]> {
+    const [variables, geography] = await Promise.all([
+      this.load(query, 'variables.json', () =>
+        this.metadata.getVariables(query.dataset, query.year, apiKey),
+      ),
+      this.load(query, 'geography.json', () =>
+        this.metadata.getGeography(query.dataset, query.year, apiKey),
+      ),
+    ])
+
+    return [
+      ...(variables ? variableIssues(variables, query) : []),
+      ...(geography ? geographyIssues(geography, query) : []),
+    ]
+  }
+
+  // Concurrent queries of the same dataset share one fetch
+  private load<T>(
+    query: QueryToValidate,
+    endpoint: string,
+    fetchMetadata: () => Promise<VariableMetadataResult<T>>,
+  ): Promise<T | null> {
+    this.removeExpired()
+
+    const key = `${query.dataset}/${query.year ?? ''}/${endpoint}`
+    const loaded = this.loaded.get(key)
+    if (loaded) return loaded.data as Promise<T | null>
+
+    while (this.loaded.size >= MAX_LOADED_METADATA) {
+      const oldest = this.loaded.keys().next().value as string
+      this.loaded.delete(oldest)
+    }
+
+    const data = this.fetch(key, endpoint, fetchMetadata)
+    this.loaded.set(key, { data, expiresAt: Date.now() + METADATA_TTL_MS })
+
+    return data
+  }
+
+  private async fetch<T>(
+    key: string,
+    endpoint: string,
+    fetchMetadata: () => Promise<VariableMetadataResult<T>>,
+  ): Promise<T | null> {
+    try {
+      return (await fetchMetadata()).data
+    } catch (err) {
+      console.error(
+        `Skipping query validation against ${endpoint}: ${err instanceof Error ? err.message : err}`,
+      )
+
+      const loaded = this.loaded.get(key)
+      if (loaded) loaded.expiresAt = Date.now() + FAILED_METADATA_TTL_MS
+
+      return null
+    }
+  }
+
+  private removeExpired() {
+    const now = Date.now()
+
+    for (const [key, entry] of this.loaded) {
+      if (entry.expiresAt <= now) this.loaded.delete(key)
+    }
+  }
+}
@@ -0,0 +1,79 @@
+import { randomUUID } from 'node:crypto'
+
+import { StoredResult } from '../types/result-store.types.js'
+
+export const RESULT_TTL_MS = 30 * 60 * 1000
+export const MAX_STORED_RESULTS = 20
+
+// The stdio transport has no session id and serves a single client
+const DEFAULT_SESSION = ''
+
+interface StoredEntry {
+  result: StoredResult
+  expiresAt: number
+}
+
+// Keeps large results in memory under a result handle, so clients can page
+// through them without fetching them again. Results are scoped to the MCP
+// session that fetched them, and each session keeps at most
+// MAX_STORED_RESULTS, dropping its oldest results first.
+export class ResultStoreService {
+  private static instance: ResultStoreService
+  private sessions = new Map<string, Map<string, StoredEntry>>()
+
+  private constructor() {}
+
+  // Get singleton instance
+  public static getInstance(): ResultStoreService {
+    if (!ResultStoreService.instance) {
+      ResultStoreService.instance = new ResultStoreService()
+    }
+    return ResultStoreService.instance
+  }
+
+  save(sessionId: string | undefined, result: StoredResult): string {
+    this.removeExpired()
+
+    const key = sessionId ?? DEFAULT_SESSION
+    const results = this.sessions.get(key) ?? new Map<string, StoredEntry>()
+    this.sessions.set(key, results)
+
+    while (results.size >= MAX_STORED_RESULTS) {
+      const oldest = results.keys().next().value as string
+      results.delete(oldest)
+    }
+
+    const handle = randomUUID()
+    results.set(handle, {
+      result,
+      expiresAt: Date.now() + RESULT_TTL_MS,
+    })
+
+    return handle
+  }
+
+  get(sessionId: string | undefined, handle: string): StoredResult | null {
+    this.removeExpired()
+    return (
+      this.sessions.get(sessionId ?? DEFAULT_SESSION)?.get(handle)?.result ??
+      null
+    )
+  }
+
+  // Called when a session closes, since its handles can no longer be used
+  clearSession(sessionId: string) {
+    this.sessions.delete(sessionId)
+  }
+
+  private removeExpired() {
+    const now = Date.now()
+
+    for (const [sessionId, results] of this.sessions) {
+      for (const [handle, entry] of results) {
+        if (entry.expiresAt <= now) results.delete(handle)
+      }
+
+      if (results.size === 0) this.sessions.delete(sessionId)
+    }
+  }
+}
@@ -0,0 +1,141 @@
+import { z } from 'zod'
+
+import { CacheService } from './cache.service.js'
+import { CensusApiClient } from './census-api-client.service.js'
+import {
+  CensusApiError,
+  censusApiErrorFromResponse,
+} from '../errors/tool.errors.js'
+import { getCacheTtlMs } from '../helpers/cache-ttl.js'
+import {
+  GeographyJson,
+  GeographyJsonSchema,
+} from '../schema/dataset-geography.schema.js'
+import {
+  GroupsJson,
+  GroupsJsonSchema,
+  VariablesJson,
+  VariablesJsonSchema,
+} from '../schema/describe-variables.schema.js'
+import { CacheEntry } from '../types/cache.types.js'
+
+export interface VariableMetadataResult<T> {
+  data: T
+  cached: CacheEntry<T> | null
+}
+
+// Fetches a dataset's variables.json, groups.json and geography.json. They are
+// large and only change with a new vintage, so validated responses are cached.
+export class VariableMetadataService {
+  private static instance: VariableMetadataService
+  private censusApi: CensusApiClient
+  private cache: CacheService
+
+  private constructor() {
+    this.censusApi = CensusApiClient.getInstance()
+    this.cache = CacheService.getInstance()
+  }
+
+  // Get singleton instance
+  public static getInstance(): VariableMetadataService {
+    if (!VariableMetadataService.instance) {
+      VariableMetadataService.instance = new VariableMetadataService()
+    }
+    return VariableMetadataService.instance
+  }
+
+  async getVariables(
+    dataset: string,
+    year: number | undefined,
+    apiKey: string,
+  ): Promise<VariableMetadataResult<VariablesJson>> {
+    return this.fetchMetadata(
+      dataset,
+      year,
+      'variables.json',
+      VariablesJsonSchema,
+      apiKey,
+    )
+  }
+
+  async getGroups(
+    dataset: string,
+    year: number | undefined,
+    apiKey: string,
+  ): Promise<VariableMetadataResult<GroupsJson>> {
+    return this.fetchMetadata(
+      dataset,
+      year,
+      'groups.json',
+      GroupsJsonSchema,
+      apiKey,
+    )
+  }
+
+  async getGeography(
+    dataset: string,
+    year: number | undefined,
+    apiKey: string,
+  ): Promise<VariableMetadataResult<GeographyJson>> {
+    return this.fetchMetadata(
+      dataset,
+      year,
+      'geography.json',
+      GeographyJsonSchema,
+      apiKey,
+    )
+  }
+
+  private async fetchMetadata<T>(
+    dataset: string,
+    year: number | undefined,
+    endpoint: string,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    apiKey: string,
+  ): Promise<VariableMetadataResult<T>> {
+    const cacheKey = {
+      datasetCode: dataset,
+      year: year ?? 0,
+      variables: [],
+      geographySpec: { endpoint },
+    }
+
+    const cached = await this.cache.get<T>(cacheKey)
+    if (cached) return { data: cached.data, cached }
+
+    // Timeseries datasets have no vintage in their path
+    const url = this.censusApi.buildUrl(
+      `data/${year ? `${year}/` : ''}${dataset}/${endpoint}`,
+      undefined,
+      apiKey,
+    )
+
+    const response = await this.censusApi.fetch(url)
+
+    if (!response.ok) {
+      throw censusApiErrorFromResponse(
+        `${endpoint} endpoint returned`,
+        response.status,
+        response.statusText,
+      )
+    }
+
+    const validation = schema.safeParse(
+      await this.censusApi.readJson(response, `${endpoint} endpoint returned`),
+    )
+
+    if (!validation.success) {
+      throw new CensusApiError(
+        `Response validation failed: ${validation.error.message}`,
+        response.status,
+        'The Census Data API returned an unexpected response. Try again later.',
+      )
+    }
+
+    await this.cache.set(cacheKey, validation.data, {
+      ttlMs: getCacheTtlMs(dataset, year),
+    })
+
+    return { data: validation.data, cached: null }
+  }
+}
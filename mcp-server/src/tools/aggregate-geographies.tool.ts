@@ -0,0 +1,401 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js'
+import { z } from 'zod'
+
+import { BaseTool } from './base.tool.js'
+import { NotFoundError, ValidationError } from '../errors/tool.errors.js'
+import {
+  coefficientOfVariation,
+  moeCompanion,
+  moeOfSum,
+} from '../helpers/acs-moe.js'
+import { nonAdditiveReason } from '../helpers/additivity.js'
+import { decodeAnnotations } from '../helpers/annotations.js'
+import { buildCitation, redactApiKey, tableIdOf } from '../helpers/citation.js'
+import { coerceValue } from '../helpers/output-format.js'
+import { splitVariables } from '../helpers/split-requests.js'
+import { formatLabel, parseLabel } from '../helpers/variable-labels.js'
+import {
+  AggregateGeographiesArgs,
+  AggregateGeographiesOutputSchema,
+  AggregateGeographiesSchema,
+  AggregateGeographiesToolSchema,
+} from '../schema/aggregate-geographies.schema.js'
+import { VariablesJson } from '../schema/describe-variables.schema.js'
+import { CacheService } from '../services/cache.service.js'
+import { CensusApiClient } from '../services/census-api-client.service.js'
+import { CitationService } from '../services/citation.service.js'
+import { VariableMetadataService } from '../services/variable-metadata.service.js'
+import { AggregatedEstimate } from '../types/aggregation.types.js'
+import { ToolResult } from '../types/base.types.js'
+import { CacheEntry } from '../types/cache.types.js'
+import { CensusApiRows } from '../types/census-api.types.js'
+
+import { datasetValidator } from '../schema/validators.js'
+
+export const toolDescription = `
+  Combines several geographies into one custom geography, e.g. a service area made of counties or census tracts, and sums count variables across them with properly propagated margins of error. Use this tool when users ask for totals of areas the Census Bureau does not publish. Requires a dataset identifier, year, the count variables and the geographies as UCGIDs or for and in restrictions; use resolve-geography-fips to find the codes of named places. Refuses medians, averages, percentages and other variables that cannot be summed. Returns the totals with margins of error and the values of each component geography, with proper citations for authoritative government statistics.
+`
+
+const DEFAULT_NAME = 'Custom geography'
+const UCGIDS_PER_REQUEST = 50
+
+// Controlled ACS estimates, e.g. total population, have no sampling error
+const CONTROLLED_MOE = '-555555555'
+
+type GeographySpec = { for?: string; in?: string; ucgid?: string }
+
+export class AggregateGeographiesTool extends BaseTool<AggregateGeographiesArgs> {
+  name = 'aggregate-geographies'
+  description = toolDescription
+  inputSchema: Tool['inputSchema'] =
+    AggregateGeographiesSchema as Tool['inputSchema']
+  outputSchema: Tool['outputSchema'] =
+    AggregateGeographiesOutputSchema as Tool['outputSchema']
+  readonly requiresApiKey = true
+
+  private censusApi: CensusApiClient
+  private citations: CitationService
+  private metadata: VariableMetadataService
+
+  get argsSchema() {
+    return AggregateGeographiesToolSchema.superRefine((args, ctx) => {
+      //Check that the correct tool is used to fetch data
+      const identifiedDataset = datasetValidator(args.dataset)
+
+      if (identifiedDataset.tool !== 'fetch-aggregate-data') {
+        ctx.addIssue({
+          path: ['dataset'],
+          code: z.ZodIssueCode.custom,
+          message: identifiedDataset.message,
+        })
+      }
+    })
+  }
+
+  constructor() {
+    super()
+    this.handler = this.handler.bind(this)
+    this.censusApi = CensusApiClient.getInstance()
+    this.citations = CitationService.getInstance()
+    this.metadata = VariableMetadataService.getInstance()
+  }
+
+  validateArgs(input: unknown) {
+    return this.argsSchema.safeParse(input)
+  }
+
+  async toolHandler(
+    args: AggregateGeographiesArgs,
+    apiKey: string,
+  ): Promise<ToolResult> {
+    try {
+      const variables = Array.from(new Set(args.variables))
+      const metadata = await this.metadata.getVariables(
+        args.dataset,
+        args.year,
+        apiKey,
+      )
+
+      this.checkAdditive(args, variables, metadata.data)
+
+      // Only variables the dataset publishes a margin of error for, which
+      // variables.json lists among the estimate's attributes
+      const moes = new Map(
+        variables.flatMap((variable) => {
+          const moe = moeCompanion(variable)
+          const attributes =
+            metadata.data.variables[variable]?.attributes?.split(',') ?? []
+
+          return moe && attributes.includes(moe)
+            ? [[variable, moe] as const]
+            : []
+        }),
+      )
+
+      const getItems = [
+        'NAME',
+        'GEO_ID',
+        ...variables.flatMap((variable) => [
+          variable,
+          ...(moes.has(variable) ? [moes.get(variable)!] : []),
+        ]),
+      ]
+
+      const responses = await Promise.all(
+        this.geographySpecs(args).map((geography) =>
+          this.fetchRows(args, geography, getItems, apiKey),
+        ),
+      )
+
+      const { headers, rows } = this.combineRows(
+        args.dataset,
+        responses,
+        getItems,
+      )
+      const warnings: string[] = []
+
+      const estimates = variables.map((variable) =>
+        this.aggregate(
+          variable,
+          moes.get(variable),
+          headers,
+          rows,
+          metadata.data,
+          warnings,
+        ),
+      )
+
+      if (moes.size > 0 && rows.length > 1) {
+        warnings.push(
+          'Margins of error are combined as the square root of the sum of squared margins, which ignores the correlation between geographies and is an approximation.',
+        )
+      }
+
+      const name = args.name ?? DEFAULT_NAME
+      const output = estimates
+        .map(
+          ({ variable, label, estimate, moe }) =>
+            `${variable}${label ? ` (${label})` : ''}: ${estimate}${moe == null ? '' : ` ± ${moe}`}`,
+        )
+        .join('\n')
+
+      const geographyNames = rows
+        .map((row) => row[headers.indexOf('NAME')])
+        .join('; ')
+      const urls = responses.map((response) => response.url)
+      const citation = buildCitation(...urls)
+      const citations = await this.citations.cite({
+        dataset: args.dataset,
+        year: args.year,
+        tableId: tableIdOf(variables),
+        urls,
+      })
+
+      return this.createSuccessResponse(
+        `${name}, ${rows.length} geographies from ${args.dataset} (${args.year}):\n${output}\nGeographies: ${geographyNames}\n${warnings.map((warning) => `Warning: ${warning}\n`).join('')}${citation}`,
+        {
+          name,
+          dataset: args.dataset,
+          year: args.year,
+          estimates,
+          geography_count: rows.length,
+          headers,
+          rows,
+          warnings,
+          source_urls: urls.map(redactApiKey),
+          citation,
+          citations,
+        },
+        {
+          cache: CacheService.toStatus<unknown>(
+            metadata.cached,
+            ...responses.map((response) => response.cached),
+          ),
+        },
+      )
+    } catch (err) {
+      return this.createErrorResponse(this.toToolError(err, 'Fetch failed'))
+    }
+  }
+
+  // Summing medians or percentages gives numbers that look plausible but
+  // are wrong, so they are refused before any data is fetched
+  private checkAdditive(
+    args: AggregateGeographiesArgs,
+    variables: string[],
+    metadata: VariablesJson,
+  ) {
+    const unknown = variables.filter(
+      (variable) => !(variable in metadata.variables),
+    )
+
+    if (unknown.length) {
+      throw new NotFoundError(
+        `Variables not found in ${args.dataset} (${args.year}): ${unknown.join(', ')}.`,
+        'Use describe-variables or search-data-tables to find the variable codes.',
+      )
+    }
+
+    const nonAdditive = variables.flatMap((variable) => {
+      const reason = nonAdditiveReason(variable, metadata.variables[variable])
+      return reason ? [`${variable} (${reason})`] : []
+    })
+
+    if (nonAdditive.length) {
+      throw new ValidationError(
+        `Cannot sum non-additive variables across geographies: ${nonAdditive.join(', ')}. Aggregate the counts they are derived from instead, e.g. the numerator and denominator of a percentage, and combine them with calculate-moe.`,
+        { variables: nonAdditive },
+      )
+    }
+  }
+
+  // UCGIDs are requested together, up to 50 at a time
+  private geographySpecs(args: AggregateGeographiesArgs): GeographySpec[] {
+    const ucgids = args.geographies.filter(
+      (geography): geography is string => typeof geography === 'string',
+    )
+    const restrictions = args.geographies.filter(
+      (geography) => typeof geography !== 'string',
+    )
+
+    return [
+      ...(ucgids.length
+        ? splitVariables(ucgids, UCGIDS_PER_REQUEST).map((chunk) => ({
+            ucgid: chunk.join(','),
+          }))
+        : []),
+      ...restrictions,
+    ]
+  }
+
+  // Keeps the requested columns of every response, counting each GEO_ID
+  // once. Sentinel values become nulls, except controlled margins of error,
+  // which are zero.
+  private combineRows(
+    dataset: string,
+    responses: { rows: CensusApiRows }[],
+    getItems: string[],
+  ): { headers: string[]; rows: CensusApiRows } {
+    const seen = new Set<string>()
+    const combined: CensusApiRows = []
+
+    for (const response of responses) {
+      const [headerRow, ...rows] = response.rows
+      const indexes = getItems.map((item) =>
+        headerRow.map(String).indexOf(item),
+      )
+
+      for (const row of rows) {
+        const values = indexes.map((index) =>
+          index === -1 ? null : (row[index] ?? null),
+        )
+        const geoId = String(values[1] ?? JSON.stringify(row))
+
+        if (seen.has(geoId)) continue
+        seen.add(geoId)
+
+        combined.push(
+          values.map((value, i) =>
+            /M$/.test(getItems[i]) && String(value) === CONTROLLED_MOE
+              ? '0'
+              : value,
+          ),
+        )
+      }
+    }
+
+    const { rows } = decodeAnnotations(
+      dataset,
+      getItems,
+      combined.map((row) =>
+        row.map((value, i) => (i < 2 ? value : coerceValue(value))),
+      ),
+    )
+
+    return { headers: getItems, rows }
+  }
+
+  private aggregate(
+    variable: string,
+    moeVariable: string | undefined,
+    headers: string[],
+    rows: CensusApiRows,
+    metadata: VariablesJson,
+    warnings: string[],
+  ): AggregatedEstimate {
+    const label = formatLabel(parseLabel(metadata.variables[variable].label))
+    const estimateIndex = headers.indexOf(variable)
+    const moeIndex = moeVariable ? headers.indexOf(moeVariable) : -1
+
+    const missing = rows.filter((row) => typeof row[estimateIndex] !== 'number')
+    if (missing.length) {
+      warnings.push(
+        `${variable} has no estimate for ${missing.map((row) => row[0]).join('; ')}, so its total cannot be computed.`,
+      )
+      return {
+        variable,
+        label,
+        estimate: null,
+        ...(moeVariable && { moe: null, coefficient_of_variation: null }),
+      }
+    }
+
+    const estimate = rows.reduce(
+      (sum, row) => sum + (row[estimateIndex] as number),
+      0,
+    )
+
+    if (!moeVariable) return { variable, label, estimate }
+
+    if (rows.some((row) => typeof row[moeIndex] !== 'number')) {
+      warnings.push(
+        `${variable} has no margin of error for some geographies, so the margin of error of its total cannot be computed.`,
+      )
+      return {
+        variable,
+        label,
+        estimate,
+        moe: null,
+        coefficient_of_variation: null,
+      }
+    }
+
+    const moe = moeOfSum(
+      rows.map((row) => ({
+        estimate: row[estimateIndex] as number,
+        moe: row[moeIndex] as number,
+      })),
+    )
+
+    return {
+      variable,
+      label,
+      estimate,
+      moe,
+      coefficient_of_variation: coefficientOfVariation(estimate, moe),
+    }
+  }
+
+  // Fetches the variables of one set of geographies, using the cache when
+  // possible
+  private async fetchRows(
+    args: AggregateGeographiesArgs,
+    geography: GeographySpec,
+    getItems: string[],
+    apiKey: string,
+  ): Promise<{
+    rows: CensusApiRows
+    url: string
+    cached: CacheEntry<CensusApiRows> | null
+  }> {
+    const query = new URLSearchParams({ get: getItems.join(',') })
+
+    if (geography.for) {
+      query.append('for', geography.for)
+    }
+
+    if (geography.in) {
+      query.append('in', geography.in)
+    }
+
+    if (geography.ucgid) {
+      query.append('ucgid', geography.ucgid)
+    }
+
+    query.append('descriptive', 'false')
+
+    const url = this.censusApi.buildUrl(
+      `data/${args.year}/${args.dataset}`,
+      query,
+      apiKey,
+    )
+
+    const { rows, cached } = await this.censusApi.fetchRows(
+      url,
+      args.dataset,
+      args.year,
+    )
+
+    return { rows, url, cached }
+  }
+}
@@ -1,67 +1,80 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js'
 import { z } from 'zod'
 
-import { ToolContent } from '../types/base.types.js'
+import {
+  createToolErrorResult,
+  MissingApiKeyError,
+  ToolError,
+  toToolError,
+} from '../errors/tool.errors.js'
+import { resolveCensusApiMode } from '../helpers/census-api-config.js'
+import { ToolContext, ToolResult } from '../types/base.types.js'
 
 export interface MCPTool<Args extends object = object> {
   name: string
   description: string
   inputSchema: Tool['inputSchema']
+  outputSchema?: Tool['outputSchema']
   argsSchema: z.ZodSchema<Args, z.ZodTypeDef, Args>
-  handler: (args: Args) => Promise<{ content: ToolContent[] }>
+  handler: (args: Args, context?: ToolContext) => Promise<ToolResult>
 }
 
 interface StoredMCPTool {
   name: string
   description: string
   inputSchema: Tool['inputSchema']
+  outputSchema?: Tool['outputSchema']
   argsSchema: z.ZodSchema<object, z.ZodTypeDef, object>
-  handler: (args: object) => Promise<{ content: ToolContent[] }>
+  handler: (args: object, context?: ToolContext) => Promise<ToolResult>
 }
 
 export abstract class BaseTool<Args extends object> implements MCPTool<Args> {
   abstract name: string
   abstract description: string
   abstract inputSchema: Tool['inputSchema']
+  abstract outputSchema: Tool['outputSchema']
   abstract get argsSchema(): z.ZodType<Args, z.ZodTypeDef, Args>
   protected abstract toolHandler(
     args: Args,
     apiKey?: string,
-  ): Promise<{ content: ToolContent[] }>
+    context?: ToolContext,
+  ): Promise<ToolResult>
   abstract readonly requiresApiKey: boolean
 
-  async handler(args: Args): Promise<{ content: ToolContent[] }> {
+  async handler(args: Args, context: ToolContext = {}): Promise<ToolResult> {
     try {
       let apiKey: string | undefined
 
-      // Only check for API key if the tool requires it
+      // Only check for API key if the tool requires it. Replayed fixtures
+      // are matched without the key, so replay mode runs without one.
       if (this.requiresApiKey) {
         apiKey = process.env.CENSUS_API_KEY
 
-        if (!apiKey) {
-          return this.createErrorResponse('Error: CENSUS_API_KEY is not set.')
+        if (!apiKey && resolveCensusApiMode() !== 'replay') {
+          return this.createErrorResponse(new MissingApiKeyError())
         }
       }
 
-      return await this.toolHandler(args, apiKey)
+      return await this.toolHandler(args, apiKey, context)
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : String(err)
-      return this.createErrorResponse(`Unexpected error: ${errorMessage}`)
+      return this.createErrorResponse(this.toToolError(err, 'Unexpected error'))
     }
   }
 
-  protected createErrorResponse(message: string): { content: ToolContent[] } {
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: message,
-        },
-      ],
-    }
+  protected createErrorResponse(error: ToolError): ToolResult {
+    return createToolErrorResult(error)
+  }
+
+  protected toToolError(err: unknown, prefix: string): ToolError {
+    return toToolError(err, prefix)
   }
 
-  protected createSuccessResponse(text: string): { content: ToolContent[] } {
+  // Structured content must match the tool's outputSchema
+  protected createSuccessResponse(
+    text: string,
+    structuredContent?: Record<string, unknown>,
+    meta?: Record<string, unknown>,
+  ): ToolResult {
     return {
       content: [
         {
@@ -69,6 +82,8 @@ export abstract class BaseTool<Args extends object> implements MCPTool<Args> {
           text,
         },
       ],
+      ...(structuredContent && { structuredContent }),
+      ...(meta && { _meta: meta }),
     }
   }
 }
@@ -82,10 +97,9 @@ export class ToolRegistry {
       name: tool.name,
       description: tool.description,
       inputSchema: tool.inputSchema,
+      outputSchema: tool.outputSchema,
       argsSchema: tool.argsSchema as z.ZodSchema<object, z.ZodTypeDef, object>,
-      handler: tool.handler as (
-        args: object,
-      ) => Promise<{ content: ToolContent[] }>,
+      handler: tool.handler as StoredMCPTool['handler'],
     }
     this.tools.set(tool.name, storedTool)
   }
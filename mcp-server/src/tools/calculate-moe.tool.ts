@@ -0,0 +1,112 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js'
+import { z } from 'zod'
+
+import { BaseTool } from './base.tool.js'
+import {
+  coefficientOfVariation,
+  moeOfProduct,
+  moeOfProportion,
+  moeOfRatio,
+  moeOfSum,
+  standardErrorOf,
+} from '../helpers/acs-moe.js'
+import {
+  CalculateMoeArgs,
+  CalculateMoeArgsSchema,
+  CalculateMoeInputSchema,
+  CalculateMoeOutputSchema,
+} from '../schema/calculate-moe.schema.js'
+import { ToolResult } from '../types/base.types.js'
+import { MoeComponent } from '../types/moe.types.js'
+
+export const toolDescription = `
+  Calculates the margin of error of estimates derived from American Community Survey (ACS) data, using the formulas in the ACS General Handbook. Use this tool whenever ACS estimates are added, subtracted, divided or multiplied, e.g. to combine age groups, compare two areas or turn counts into a percentage, so the derived estimate is reported with its margin of error. Accepts the operation and the estimates with their margins of error, e.g. from fetch-aggregate-data with include_moe. Returns the derived estimate, margin of error, standard error and coefficient of variation.
+`
+
+export class CalculateMoeTool extends BaseTool<CalculateMoeArgs> {
+  name = 'calculate-moe'
+  description = toolDescription
+  inputSchema: Tool['inputSchema'] =
+    CalculateMoeArgsSchema as Tool['inputSchema']
+  outputSchema: Tool['outputSchema'] =
+    CalculateMoeOutputSchema as Tool['outputSchema']
+  readonly requiresApiKey = false
+
+  get argsSchema() {
+    return CalculateMoeInputSchema.superRefine((args, ctx) => {
+      if (args.operation === 'sum' || args.operation === 'difference') return
+
+      if (args.components.length !== 2) {
+        ctx.addIssue({
+          path: ['components'],
+          code: z.ZodIssueCode.custom,
+          message: `The ${args.operation} operation takes exactly two components.`,
+        })
+      } else if (
+        args.operation !== 'product' &&
+        args.components[1].estimate === 0
+      ) {
+        ctx.addIssue({
+          path: ['components', 1, 'estimate'],
+          code: z.ZodIssueCode.custom,
+          message: 'The denominator must not be zero.',
+        })
+      }
+    })
+  }
+
+  constructor() {
+    super()
+    this.handler = this.handler.bind(this)
+  }
+
+  private derive(
+    operation: CalculateMoeArgs['operation'],
+    [first, ...rest]: MoeComponent[],
+  ): MoeComponent {
+    switch (operation) {
+      case 'sum':
+        return {
+          estimate: [first, ...rest].reduce((sum, c) => sum + c.estimate, 0),
+          moe: moeOfSum([first, ...rest]),
+        }
+      case 'difference':
+        return {
+          estimate: rest.reduce((sum, c) => sum - c.estimate, first.estimate),
+          moe: moeOfSum([first, ...rest]),
+        }
+      case 'proportion':
+        return {
+          estimate: first.estimate / rest[0].estimate,
+          moe: moeOfProportion(first, rest[0]),
+        }
+      case 'ratio':
+        return {
+          estimate: first.estimate / rest[0].estimate,
+          moe: moeOfRatio(first, rest[0]),
+        }
+      case 'product':
+        return {
+          estimate: first.estimate * rest[0].estimate,
+          moe: moeOfProduct(first, rest[0]),
+        }
+    }
+  }
+
+  async toolHandler(args: CalculateMoeArgs): Promise<ToolResult> {
+    const { estimate, moe } = this.derive(args.operation, args.components)
+    const standardError = standardErrorOf(moe)
+    const cv = coefficientOfVariation(estimate, moe)
+
+    return this.createSuccessResponse(
+      `${args.operation}: ${estimate} ± ${moe} (90% margin of error, standard error ${standardError}${cv === null ? '' : `, CV ${cv.toFixed(1)}%`})`,
+      {
+        operation: args.operation,
+        estimate,
+        moe,
+        standard_error: standardError,
+        coefficient_of_variation: cv,
+      },
+    )
+  }
+}
@@ -0,0 +1,364 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js'
+import { z } from 'zod'
+
+import { BaseTool } from './base.tool.js'
+import {
+  CensusApiError,
+  DatabaseUnavailableError,
+  NotFoundError,
+} from '../errors/tool.errors.js'
+import { decodeAnnotations, formatAnnotations } from '../helpers/annotations.js'
+import { buildCitation, redactApiKey, tableIdOf } from '../helpers/citation.js'
+import { geographyColumns } from '../helpers/geography-columns.js'
+import { comparabilityWarnings } from '../helpers/year-comparability.js'
+import {
+  CompareYearsArgs,
+  CompareYearsOutputSchema,
+  CompareYearsSchema,
+  CompareYearsToolSchema,
+} from '../schema/compare-years.schema.js'
+import { CacheService } from '../services/cache.service.js'
+import { CensusApiClient } from '../services/census-api-client.service.js'
+import { CitationService } from '../services/citation.service.js'
+import { DatabaseService } from '../services/database.service.js'
+import { ToolResult } from '../types/base.types.js'
+import { CensusApiRows } from '../types/census-api.types.js'
+import { MissingYear, YearResult } from '../types/comparison.types.js'
+
+import {
+  datasetValidator,
+  validateGeographyArgs,
+} from '../schema/validators.js'
+
+export const toolDescription = `
+  Compares the same variables for a geography across several vintages of a U.S. Census Bureau dataset, e.g. median household income for a county from 2015 to 2023. Use this tool when users ask about trends or changes over time instead of calling fetch-aggregate-data once per year. Requires a dataset identifier, variables, a year range and a geography. Fetches every vintage of the dataset available in the range, aligns the results into one table by geography and year, and flags comparisons that may be misleading, such as overlapping ACS 5-year periods, the missing 2020 ACS 1-year release and variables that changed between vintages. Returns structured data with proper citations for authoritative government statistics.
+`
+
+// e.g. 'Missing years:\n- 2020: No vintage of the dataset.\n', or nothing
+function listSection(title: string, lines: string[]): string {
+  return lines.length
+    ? `${title}:\n${lines.map((line) => `- ${line}`).join('\n')}\n`
+    : ''
+}
+
+export class CompareYearsTool extends BaseTool<CompareYearsArgs> {
+  name = 'compare-years'
+  description = toolDescription
+  inputSchema: Tool['inputSchema'] = CompareYearsSchema as Tool['inputSchema']
+  outputSchema: Tool['outputSchema'] =
+    CompareYearsOutputSchema as Tool['outputSchema']
+  readonly requiresApiKey = true
+
+  private censusApi: CensusApiClient
+  private citations: CitationService
+  private dbService: DatabaseService
+
+  get argsSchema() {
+    return CompareYearsToolSchema.superRefine((args, ctx) => {
+      //Check that the correct tool is used to fetch data
+      const identifiedDataset = datasetValidator(args.dataset)
+
+      if (identifiedDataset.tool !== 'fetch-aggregate-data') {
+        ctx.addIssue({
+          path: ['dataset'],
+          code: z.ZodIssueCode.custom,
+          message: identifiedDataset.message,
+        })
+      }
+
+      if (args.start_year > args.end_year) {
+        ctx.addIssue({
+          path: ['start_year', 'end_year'],
+          code: z.ZodIssueCode.custom,
+          message: 'Invalid year range error - start_year is after end_year.',
+        })
+      }
+
+      validateGeographyArgs(args, ctx)
+    })
+  }
+
+  constructor() {
+    super()
+    this.handler = this.handler.bind(this)
+    this.censusApi = CensusApiClient.getInstance()
+    this.citations = CitationService.getInstance()
+    this.dbService = DatabaseService.getInstance()
+  }
+
+  validateArgs(input: unknown) {
+    return this.argsSchema.safeParse(input)
+  }
+
+  async toolHandler(
+    args: CompareYearsArgs,
+    apiKey: string,
+  ): Promise<ToolResult> {
+    try {
+      const isDbHealthy = await this.dbService.healthCheck()
+      if (!isDbHealthy) {
+        return this.createErrorResponse(
+          new DatabaseUnavailableError(
+            'Database connection failed - cannot retrieve dataset vintages.',
+          ),
+        )
+      }
+
+      const availableYears = await this.availableYears(args)
+
+      if (availableYears.length === 0) {
+        return this.createErrorResponse(
+          new NotFoundError(
+            `No vintages of ${args.dataset} found between ${args.start_year} and ${args.end_year}.`,
+            'Check the dataset identifier and the years it covers with list-datasets.',
+          ),
+        )
+      }
+
+      const results = await Promise.all(
+        availableYears.map((year) => this.fetchYear(args, year, apiKey)),
+      )
+
+      const missingYears: MissingYear[] = []
+      for (let year = args.start_year; year <= args.end_year; year++) {
+        const result = results.find((entry) => entry.year === year)
+
+        if (!result) {
+          missingYears.push({ year, reason: 'No vintage of the dataset.' })
+        } else if (result.missing) {
+          missingYears.push({ year, reason: result.missing })
+        }
+      }
+
+      const fetched = results.filter((result) => result.rows)
+      const years = fetched.map((result) => result.year)
+
+      if (fetched.length === 0) {
+        return this.createErrorResponse(
+          new NotFoundError(
+            `No data returned for ${args.dataset} between ${args.start_year} and ${args.end_year}. ${missingYears.map(({ year, reason }) => `${year}: ${reason}`).join(' ')}`,
+            'Check the variables with describe-variables and the geography with fetch-dataset-geography.',
+          ),
+        )
+      }
+
+      const missingVariables = new Map<string, number[]>()
+      for (const result of fetched) {
+        for (const variable of result.unknownVariables) {
+          missingVariables.set(variable, [
+            ...(missingVariables.get(variable) ?? []),
+            result.year,
+          ])
+        }
+      }
+
+      const geoColumns = geographyColumns(args)
+      const headers = ['year', ...args.variables, ...geoColumns]
+      const aligned = this.alignRows(fetched, args.variables, geoColumns)
+
+      const { rows, annotations } = decodeAnnotations(
+        args.dataset,
+        headers,
+        aligned,
+        ['year', ...geoColumns],
+      )
+
+      const warnings = comparabilityWarnings(
+        args.dataset,
+        args.start_year,
+        args.end_year,
+        years,
+        missingVariables,
+      )
+
+      const output = rows
+        .map((row) => headers.map((h, i) => `${h}: ${row[i]}`).join(', '))
+        .join('\n')
+
+      const notes = [
+        listSection(
+          'Missing years',
+          missingYears.map(({ year, reason }) => `${year}: ${reason}`),
+        ),
+        listSection('Comparability warnings', warnings),
+        annotations.length
+          ? `Annotated values returned as null:\n${formatAnnotations(annotations)}\n`
+          : '',
+      ].join('')
+
+      const urls = results.map((result) => result.url)
+      const citation = buildCitation(...fetched.map((result) => result.url))
+
+      // Each vintage is a separate release and is cited on its own
+      const citations = await Promise.all(
+        fetched.map((result) =>
+          this.citations.cite({
+            dataset: args.dataset,
+            year: result.year,
+            tableId: tableIdOf(args.variables),
+            urls: [result.url],
+          }),
+        ),
+      )
+
+      return this.createSuccessResponse(
+        `Comparison of ${args.dataset} from ${args.start_year} to ${args.end_year}:\n${output}\n${notes}${citation}`,
+        {
+          dataset: args.dataset,
+          start_year: args.start_year,
+          end_year: args.end_year,
+          years,
+          missing_years: missingYears,
+          headers,
+          rows,
+          row_count: rows.length,
+          warnings,
+          geography: { for: args.for, in: args.in, ucgid: args.ucgid },
+          source_urls: urls.map(redactApiKey),
+          citation,
+          citations,
+          ...(annotations.length > 0 && { annotations }),
+        },
+        {
+          cache: CacheService.toStatus(
+            ...fetched.map((result) => result.cached),
+          ),
+        },
+      )
+    } catch (err) {
+      return this.createErrorResponse(this.toToolError(err, 'Fetch failed'))
+    }
+  }
+
+  // The vintages of the dataset in the range, from the datasets table
+  private async availableYears(args: CompareYearsArgs): Promise<number[]> {
+    const result = await this.dbService.query<{ year: number }>(
+      `SELECT DISTINCT y.year
+       FROM datasets d
+       JOIN years y ON y.id = d.year_id
+       WHERE d.api_endpoint = $1 AND y.year BETWEEN $2 AND $3
+       ORDER BY y.year`,
+      [args.dataset, args.start_year, args.end_year],
+    )
+
+    return result.rows.map((row) => Number(row.year))
+  }
+
+  // One row per geography and year, with the requested variables in order.
+  // Geographies are ordered by their first appearance.
+  private alignRows(
+    results: YearResult[],
+    variables: string[],
+    geoColumns: string[],
+  ): CensusApiRows {
+    const series = new Map<string, CensusApiRows>()
+
+    for (const result of results) {
+      const [headerRow, ...rows] = result.rows ?? [[]]
+      const headers = headerRow.map(String)
+      const indexes = [...variables, ...geoColumns].map((column) =>
+        headers.indexOf(column),
+      )
+
+      for (const row of rows) {
+        const values = indexes.map((index) =>
+          index === -1 ? null : (row[index] ?? null),
+        )
+        const key = JSON.stringify(values.slice(variables.length))
+
+        series.set(key, [...(series.get(key) ?? []), [result.year, ...values]])
+      }
+    }
+
+    return [...series.values()].flat()
+  }
+
+  // A vintage that does not have some of the variables rejects the whole
+  // request, so it is fetched again without them
+  private async fetchYear(
+    args: CompareYearsArgs,
+    year: number,
+    apiKey: string,
+  ): Promise<YearResult> {
+    const unknownVariables: string[] = []
+    let variables = [...args.variables]
+
+    for (;;) {
+      const query = new URLSearchParams({ get: variables.join(',') })
+
+      if (args.for) {
+        query.append('for', args.for)
+      }
+
+      if (args.in) {
+        query.append('in', args.in)
+      }
+
+      if (args.ucgid) {
+        query.append('ucgid', args.ucgid)
+      }
+
+      query.append('descriptive', 'false')
+
+      const url = this.censusApi.buildUrl(
+        `data/${year}/${args.dataset}`,
+        query,
+        apiKey,
+      )
+
+      try {
+        const { rows, cached } = await this.censusApi.fetchRows(
+          url,
+          args.dataset,
+          year,
+        )
+
+        return { year, url, rows, cached, unknownVariables }
+      } catch (error) {
+        if (error instanceof NotFoundError) {
+          return {
+            year,
+            url,
+            cached: null,
+            unknownVariables,
+            missing: 'No data for the geography in this vintage.',
+          }
+        }
+
+        // Only requests the vintage rejected are reported as missing
+        if (
+          !(error instanceof CensusApiError) ||
+          error.status === undefined ||
+          error.status < 400 ||
+          error.status >= 500 ||
+          error.status === 429
+        ) {
+          throw error
+        }
+
+        const unknown =
+          error.details?.kind === 'unknown_variable'
+            ? (error.details.values as string[]).filter((variable) =>
+                variables.includes(variable),
+              )
+            : []
+
+        if (unknown.length && unknown.length < variables.length) {
+          unknownVariables.push(...unknown)
+          variables = variables.filter(
+            (variable) => !unknown.includes(variable),
+          )
+          continue
+        }
+
+        return {
+          year,
+          url,
+          cached: null,
+          unknownVariables: [...unknownVariables, ...unknown],
+          missing: error.message,
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,133 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js'
+
+import { BaseTool } from './base.tool.js'
+import { clauseToUcgids, parseUcgid, ucgidToClause } from '../helpers/ucgid.js'
+import {
+  ConvertGeographyArgs,
+  ConvertGeographyArgsSchema,
+  ConvertGeographyInputSchema,
+  ConvertGeographyOutputSchema,
+} from '../schema/convert-geography.schema.js'
+import { validateGeographyArgs } from '../schema/validators.js'
+import { DatabaseService } from '../services/database.service.js'
+import { ToolResult } from '../types/base.types.js'
+
+export const toolDescription = `
+  Converts between the two geography syntaxes of the Census Data API: for and in clauses, e.g. for=county:453 in=state:48, and Uniform Census Geography Identifiers (UCGIDs), e.g. 0500000US48453. Use this tool when a UCGID needs to be read or built, or to switch a request from one syntax to the other. Requires either for (with in) or ucgid. Parses each UCGID into its summary level and FIPS codes, and checks the geographies against the MCP database where it has their summary level.
+`
+
+interface GeographyMatch {
+  ucgid_code: string
+  name: string
+}
+
+export class ConvertGeographyTool extends BaseTool<ConvertGeographyArgs> {
+  name = 'convert-geography'
+  description = toolDescription
+  inputSchema: Tool['inputSchema'] =
+    ConvertGeographyArgsSchema as Tool['inputSchema']
+  outputSchema: Tool['outputSchema'] =
+    ConvertGeographyOutputSchema as Tool['outputSchema']
+  readonly requiresApiKey = false
+
+  private dbService: DatabaseService
+
+  get argsSchema() {
+    return ConvertGeographyInputSchema.superRefine(validateGeographyArgs)
+  }
+
+  constructor() {
+    super()
+    this.handler = this.handler.bind(this)
+    this.dbService = DatabaseService.getInstance()
+  }
+
+  validateArgs(input: unknown) {
+    return this.argsSchema.safeParse(input)
+  }
+
+  async toolHandler(args: ConvertGeographyArgs): Promise<ToolResult> {
+    try {
+      const ucgids = args.ucgid
+        ? args.ucgid.split(',')
+        : clauseToUcgids({ for: args.for!, in: args.in }, args.variant)
+
+      const clauses = ucgids.map(ucgidToClause)
+
+      // Geographies of the levels the database has are checked against it
+      const isDbHealthy = await this.dbService.healthCheck()
+      const matches = isDbHealthy ? await this.findGeographies(ucgids) : null
+
+      const geographies = ucgids.map((ucgid, index) => {
+        const parsed = parseUcgid(ucgid)!
+        const name = matches?.names.get(ucgid)
+
+        return {
+          ucgid,
+          summary_level: parsed.summaryLevel,
+          geoid: parsed.geoid,
+          ...clauses[index],
+          ...(name && { name }),
+        }
+      })
+
+      const notFound = matches
+        ? geographies
+            .filter(
+              (geography) =>
+                !geography.name && matches.levels.has(geography.summary_level),
+            )
+            .map((geography) => geography.ucgid)
+        : []
+
+      const output = geographies
+        .map(
+          (geography) =>
+            `- ${geography.ucgid}: for=${geography.for}${geography.in ? ` in=${geography.in}` : ''}${geography.name ? ` (${geography.name})` : ''}`,
+        )
+        .join('\n')
+
+      const validation = !matches
+        ? '\nNot checked against the MCP database, which is unavailable.'
+        : notFound.length
+          ? `\nNot found in the MCP database: ${notFound.join(', ')}. Check the codes with resolve-geography-fips.`
+          : ''
+
+      return this.createSuccessResponse(
+        `Converted ${geographies.length} ${geographies.length === 1 ? 'geography' : 'geographies'}:\n${output}\nucgid: ${ucgids.join(',')}${validation}`,
+        {
+          ucgid: ucgids.join(','),
+          geographies,
+          validated: matches !== null,
+          not_found: notFound,
+        },
+      )
+    } catch (err) {
+      return this.createErrorResponse(
+        this.toToolError(err, 'Failed to convert geography'),
+      )
+    }
+  }
+
+  // The names of the UCGIDs in the geographies table, and which of their
+  // summary levels the table has at all
+  private async findGeographies(
+    ucgids: string[],
+  ): Promise<{ names: Map<string, string>; levels: Set<string> }> {
+    const geographies = await this.dbService.query<GeographyMatch>(
+      `SELECT ucgid_code, name FROM geographies WHERE ucgid_code = ANY($1)`,
+      [ucgids],
+    )
+
+    const levels = await this.dbService.query<{ summary_level_code: string }>(
+      `SELECT DISTINCT summary_level_code FROM geographies
+      WHERE summary_level_code = ANY($1)`,
+      [ucgids.map((ucgid) => ucgid.slice(0, 3))],
+    )
+
+    return {
+      names: new Map(geographies.rows.map((row) => [row.ucgid_code, row.name])),
+      levels: new Set(levels.rows.map((row) => row.summary_level_code)),
+    }
+  }
+}
@@ -0,0 +1,192 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js'
+
+import { BaseTool } from './base.tool.js'
+import { NotFoundError } from '../errors/tool.errors.js'
+import {
+  DescribeVariablesArgs,
+  DescribeVariablesArgsSchema,
+  DescribeVariablesInputSchema,
+  DescribeVariablesOutputSchema,
+  GroupJsonEntry,
+  GroupsJson,
+  VariableJsonEntry,
+} from '../schema/describe-variables.schema.js'
+import { CacheService } from '../services/cache.service.js'
+import { VariableMetadataService } from '../services/variable-metadata.service.js'
+import { ToolResult } from '../types/base.types.js'
+import { CacheEntry } from '../types/cache.types.js'
+import {
+  GroupDescription,
+  VariableDescription,
+} from '../types/variable.types.js'
+
+export const toolDescription = `
+  Returns the label, concept, universe, predicate type and attributes of Census variables, or of every variable in a table group. Use this tool BEFORE fetch-aggregate-data to confirm what a variable code such as B19013_001E measures, to list the variables of a table, or to check which variables accept predicates. Requires a dataset identifier and either variable codes or a group ID; the year is required except for timeseries datasets. Returns variable metadata from the dataset's variables.json and groups.json.
+`
+
+function describeGroup(entry: GroupJsonEntry): GroupDescription {
+  return {
+    name: entry.name,
+    description: entry.description,
+    universe: entry.universe ?? entry['universe '],
+  }
+}
+
+function describeVariable(
+  name: string,
+  entry: VariableJsonEntry,
+  group?: GroupDescription,
+): VariableDescription {
+  return {
+    name,
+    label: entry.label,
+    concept: entry.concept,
+    group: entry.group && entry.group !== 'N/A' ? entry.group : undefined,
+    universe: entry.universe ?? group?.universe,
+    predicate_type: entry.predicateType,
+    predicate_only: entry.predicateOnly,
+    attributes: entry.attributes ? entry.attributes.split(',') : [],
+    required:
+      entry.required === undefined
+        ? undefined
+        : String(entry.required) === 'true',
+  }
+}
+
+export class DescribeVariablesTool extends BaseTool<DescribeVariablesArgs> {
+  name = 'describe-variables'
+  description = toolDescription
+  readonly requiresApiKey = true
+
+  private metadata: VariableMetadataService
+
+  inputSchema: Tool['inputSchema'] =
+    DescribeVariablesArgsSchema as Tool['inputSchema']
+  outputSchema: Tool['outputSchema'] =
+    DescribeVariablesOutputSchema as Tool['outputSchema']
+
+  get argsSchema() {
+    return DescribeVariablesInputSchema
+  }
+
+  constructor() {
+    super()
+    this.handler = this.handler.bind(this)
+    this.metadata = VariableMetadataService.getInstance()
+  }
+
+  // groups.json supplies the universe. It is required to describe a group
+  // but optional for individual variables.
+  private async getGroups(
+    args: DescribeVariablesArgs,
+    apiKey: string,
+  ): Promise<{
+    data: GroupsJson | null
+    cached: CacheEntry<GroupsJson> | null
+  }> {
+    try {
+      return await this.metadata.getGroups(args.dataset, args.year, apiKey)
+    } catch (error) {
+      if (args.group) throw error
+
+      console.warn('Failed to fetch groups.json:', error)
+      return { data: null, cached: null }
+    }
+  }
+
+  async toolHandler(
+    args: DescribeVariablesArgs,
+    apiKey: string,
+  ): Promise<ToolResult> {
+    try {
+      const variables = await this.metadata.getVariables(
+        args.dataset,
+        args.year,
+        apiKey,
+      )
+      const groups = await this.getGroups(args, apiKey)
+
+      const groupsByName = new Map(
+        (groups.data?.groups ?? []).map((entry) => [
+          entry.name,
+          describeGroup(entry),
+        ]),
+      )
+
+      let group: GroupDescription | undefined
+
+      if (args.group) {
+        group = groupsByName.get(args.group)
+
+        if (!group) {
+          return this.createErrorResponse(
+            new NotFoundError(
+              `Group ${args.group} not found in ${args.dataset}${args.year ? ` (${args.year})` : ''}.`,
+              'Use search-data-tables to find the table ID.',
+            ),
+          )
+        }
+      }
+
+      const entries = variables.data.variables
+
+      const names = [
+        ...(args.group
+          ? Object.keys(entries)
+              .filter((name) => entries[name].group === args.group)
+              .sort()
+          : []),
+        ...(args.variables ?? []),
+      ]
+
+      const described = Array.from(new Set(names))
+        .filter((name) => entries[name])
+        .map((name) =>
+          describeVariable(
+            name,
+            entries[name],
+            groupsByName.get(entries[name].group ?? ''),
+          ),
+        )
+
+      const notFound = (args.variables ?? []).filter((name) => !entries[name])
+
+      const output = described
+        .map(
+          (variable) =>
+            `${variable.name}: ${variable.label}${variable.concept ? ` (${variable.concept})` : ''}`,
+        )
+        .join('\n')
+
+      return this.createSuccessResponse(
+        [
+          `Variables in ${args.dataset}${args.year ? ` (${args.year})` : ''}:`,
+          ...(group
+            ? [
+                `Group ${group.name}: ${group.description ?? ''}${group.universe ? `\nUniverse: ${group.universe}` : ''}`,
+              ]
+            : []),
+          output,
+          ...(notFound.length ? [`Not found: ${notFound.join(', ')}`] : []),
+        ].join('\n'),
+        {
+          dataset: args.dataset,
+          year: args.year,
+          group,
+          variables: described,
+          not_found: notFound,
+        },
+        {
+          cache: CacheService.toStatus<unknown>(
+            variables.cached,
+            groups.cached,
+          ),
+        },
+      )
+    } catch (error) {
+      return this.createErrorResponse(
+        this.toToolError(error, 'Failed to describe variables'),
+      )
+    }
+  }
+}
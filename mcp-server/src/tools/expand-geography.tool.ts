@@ -0,0 +1,340 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js'
+
+import { BaseTool } from './base.tool.js'
+import {
+  censusApiErrorFromResponse,
+  DatabaseUnavailableError,
+  NotFoundError,
+  ValidationError,
+} from '../errors/tool.errors.js'
+import { readErrorBody } from '../helpers/census-api-errors.js'
+import {
+  apiLevelName,
+  clauseWithin,
+  COUNTY_LEVEL,
+  expansionPath,
+  findContainer,
+  geographyClause,
+  mergeClauses,
+  NATION_LEVEL,
+  NON_API_LEVELS,
+  parseGeographyParam,
+  PLACE_LEVEL,
+} from '../helpers/geography-hierarchy.js'
+import {
+  ExpandGeographyArgs,
+  ExpandGeographyArgsSchema,
+  ExpandGeographyInputSchema,
+  ExpandGeographyOutputSchema,
+} from '../schema/expand-geography.schema.js'
+import { CensusApiClient } from '../services/census-api-client.service.js'
+import { DatabaseService } from '../services/database.service.js'
+import { ToolResult } from '../types/base.types.js'
+import { CensusApiRows } from '../types/census-api.types.js'
+import {
+  GeographyClause,
+  HierarchyGeography,
+  HierarchyLevel,
+} from '../types/geography-hierarchy.types.js'
+
+export const toolDescription = `
+  Builds the for and in arguments that return every geography of a summary level within a geography, e.g. the census tracts of a county or the counties of a region. Use this tool before fetch-aggregate-data instead of composing for and in by hand, after resolving the geography with resolve-geography-fips. Requires the geography id and the name or code of the summary level. Follows the Census geographic hierarchy. Where the Census Data API cannot return the summary level within the geography directly, e.g. tracts in a place, returns one clause for each county the place overlaps and explains how to filter the results; other such combinations are refused.
+`
+
+const geographyColumns =
+  'id, name, summary_level_code, for_param, in_param, parent_geography_id'
+
+export class ExpandGeographyTool extends BaseTool<ExpandGeographyArgs> {
+  name = 'expand-geography'
+  description = toolDescription
+  inputSchema: Tool['inputSchema'] =
+    ExpandGeographyArgsSchema as Tool['inputSchema']
+  outputSchema: Tool['outputSchema'] =
+    ExpandGeographyOutputSchema as Tool['outputSchema']
+  readonly requiresApiKey = false
+
+  private censusApi: CensusApiClient
+  private dbService: DatabaseService
+
+  get argsSchema() {
+    return ExpandGeographyInputSchema
+  }
+
+  constructor() {
+    super()
+    this.handler = this.handler.bind(this)
+    this.censusApi = CensusApiClient.getInstance()
+    this.dbService = DatabaseService.getInstance()
+  }
+
+  async toolHandler(args: ExpandGeographyArgs): Promise<ToolResult> {
+    try {
+      const isDbHealthy = await this.dbService.healthCheck()
+      if (!isDbHealthy) {
+        return this.createErrorResponse(
+          new DatabaseUnavailableError(
+            'Database connection failed - cannot retrieve geography metadata.',
+          ),
+        )
+      }
+
+      const levels = await this.getLevels()
+      const target = await this.findLevel(levels, args.summary_level)
+
+      if (!target) {
+        return this.createErrorResponse(
+          new NotFoundError(
+            `Summary level ${args.summary_level} not found.`,
+            'Use a summary level name or code, e.g. census tract or 140.',
+          ),
+        )
+      }
+
+      const ancestry = await this.getAncestry(args.geography_id)
+
+      if (ancestry.length === 0) {
+        return this.createErrorResponse(
+          new NotFoundError(
+            `Geography ${args.geography_id} not found.`,
+            'Use resolve-geography-fips to find the id of the geography.',
+          ),
+        )
+      }
+
+      const [geography] = ancestry
+      const container = findContainer(levels, ancestry, target.code)
+
+      if (!container) {
+        return this.createErrorResponse(
+          new NotFoundError(
+            `No ${target.name} geographies found within ${geography.name}.`,
+            'The summary level is not part of the hierarchy of the geography. Fetch it with a for clause of its own.',
+          ),
+        )
+      }
+
+      const path = container.isTarget
+        ? [target.code]
+        : expansionPath(
+            levels,
+            container.geography.summary_level_code,
+            target.code,
+          )
+
+      // Levels below counties are expanded within the counties a place
+      // overlaps. Every other level outside the hierarchy of the geography
+      // would return all of its container, e.g. every ZCTA in the nation.
+      const counties =
+        container.requiresFilter &&
+        geography.summary_level_code === PLACE_LEVEL &&
+        path.includes(COUNTY_LEVEL)
+          ? await this.getPlaceCounties(geography)
+          : []
+
+      if (container.requiresFilter && counties.length === 0) {
+        return this.createErrorResponse(
+          new ValidationError(
+            `Expanding ${geography.name} to ${target.name} geographies is unsupported: the Census Data API cannot return ${target.query_name} geographies within a ${geography.summary_level_code} geography.`,
+            {
+              geography_id: geography.id,
+              summary_level: target.code,
+            },
+          ),
+        )
+      }
+
+      const clauses = container.isTarget
+        ? [geographyClause(container.geography)]
+        : counties.length > 0
+          ? counties.map((county) =>
+              clauseWithin(
+                levels,
+                county,
+                expansionPath(levels, COUNTY_LEVEL, target.code),
+              ),
+            )
+          : await this.buildClauses(levels, container.geography, path)
+
+      const filter = container.requiresFilter
+        ? `The Census Data API cannot return ${target.query_name} geographies within ${geography.name} directly. These clauses return every ${target.query_name} in the ${counties.length === 1 ? 'county' : `${counties.length} counties`} ${geography.name} overlaps (${counties.map((county) => county.name).join('; ')}); ${target.query_name} geographies crossing its boundary are included, so keep only those within ${geography.name}.`
+        : undefined
+
+      const summary = (g: HierarchyGeography) => ({
+        id: g.id,
+        name: g.name,
+        summary_level: g.summary_level_code,
+      })
+
+      const output = clauses
+        .map(
+          (clause) =>
+            `- for: ${clause.for}${clause.in ? `, in: ${clause.in}` : ''}`,
+        )
+        .join('\n')
+
+      return this.createSuccessResponse(
+        `${target.name} geographies within ${geography.name} (${clauses.length} ${clauses.length === 1 ? 'request' : 'requests'} with fetch-aggregate-data):\n${output}${filter ? `\n${filter}` : ''}`,
+        {
+          geography: summary(geography),
+          summary_level: { code: target.code, name: target.name },
+          container: summary(container.geography),
+          path,
+          clauses,
+          ...(counties.length > 0 && { counties: counties.map(summary) }),
+          requires_filter: container.requiresFilter,
+          ...(filter && { filter }),
+        },
+      )
+    } catch (err) {
+      return this.createErrorResponse(
+        this.toToolError(err, 'Failed to expand geography'),
+      )
+    }
+  }
+
+  // Regions and divisions cannot be used in an 'in' clause, so their clauses
+  // are built from the geographies within them, e.g. their states
+  private async buildClauses(
+    levels: Map<string, HierarchyLevel>,
+    container: HierarchyGeography,
+    path: string[],
+  ): Promise<GeographyClause[]> {
+    const containerLevel = container.summary_level_code
+
+    if (
+      !NON_API_LEVELS.includes(containerLevel) ||
+      containerLevel === NATION_LEVEL
+    ) {
+      return [clauseWithin(levels, container, path)]
+    }
+
+    const index = path.findIndex((code) => !NON_API_LEVELS.includes(code))
+    const members = await this.getDescendants(container.id, path[index])
+    const remaining = path.slice(index + 1)
+
+    if (remaining.length === 0) {
+      return mergeClauses(members.map(geographyClause))
+    }
+
+    return members.map((member) => clauseWithin(levels, member, remaining))
+  }
+
+  // The counties a place overlaps, from the county (or part) geographies of
+  // the place in the latest ACS 5-year vintage
+  private async getPlaceCounties(
+    place: HierarchyGeography,
+  ): Promise<HierarchyGeography[]> {
+    const vintage = await this.dbService.query<{ year: number | null }>(
+      `SELECT MAX(y.year) AS year
+       FROM datasets d
+       JOIN years y ON y.id = d.year_id
+       WHERE d.api_endpoint = 'acs/acs5'`,
+    )
+    const year = vintage.rows[0]?.year
+    if (!year || place.parent_geography_id === null) return []
+
+    const query = new URLSearchParams({
+      get: 'NAME',
+      for: 'county (or part):*',
+      in: [
+        ...parseGeographyParam(place.in_param),
+        ...parseGeographyParam(place.for_param),
+      ].join(' '),
+    })
+    const url = this.censusApi.buildUrl(`data/${year}/acs/acs5`, query)
+    const res = await this.censusApi.fetch(url)
+
+    if (!res.ok || res.status === 204) {
+      throw censusApiErrorFromResponse(
+        'Census API error',
+        res.status,
+        res.statusText,
+        await readErrorBody(res),
+      )
+    }
+
+    const [headers, ...rows] = await this.censusApi.readJson<CensusApiRows>(res)
+    const countyIndex = headers.indexOf('county')
+    const countyParams = rows.map((row) => `county:${row[countyIndex]}`)
+
+    const result = await this.dbService.query<HierarchyGeography>(
+      `SELECT ${geographyColumns} FROM geographies
+       WHERE summary_level_code = $1 AND parent_geography_id = $2
+         AND for_param = ANY($3)
+       ORDER BY for_param`,
+      [COUNTY_LEVEL, place.parent_geography_id, countyParams],
+    )
+
+    return result.rows
+  }
+
+  private async getLevels(): Promise<Map<string, HierarchyLevel>> {
+    const result = await this.dbService.query<HierarchyLevel>(
+      `SELECT code, name, query_name, parent_summary_level FROM summary_levels`,
+    )
+
+    return new Map(result.rows.map((level) => [level.code, level]))
+  }
+
+  private async findLevel(
+    levels: Map<string, HierarchyLevel>,
+    query: string,
+  ): Promise<HierarchyLevel | undefined> {
+    const normalized = query.trim().toLowerCase()
+    const match = Array.from(levels.values()).find(
+      (level) =>
+        level.code === normalized ||
+        level.name.toLowerCase() === normalized ||
+        level.query_name.toLowerCase() === normalized ||
+        apiLevelName(level) === normalized,
+    )
+
+    if (match) return match
+
+    const result = await this.dbService.query<{ code: string }>(
+      `SELECT * FROM search_summary_levels($1)`,
+      [query],
+    )
+
+    return result.rows.length > 0 ? levels.get(result.rows[0].code) : undefined
+  }
+
+  // The geography followed by its parents, nearest first
+  private async getAncestry(id: number): Promise<HierarchyGeography[]> {
+    const result = await this.dbService.query<HierarchyGeography>(
+      `WITH RECURSIVE ancestry AS (
+        SELECT ${geographyColumns}, 0 AS depth FROM geographies WHERE id = $1
+        UNION ALL
+        SELECT g.id, g.name, g.summary_level_code, g.for_param, g.in_param,
+          g.parent_geography_id, a.depth + 1
+        FROM geographies g JOIN ancestry a ON g.id = a.parent_geography_id
+      )
+      SELECT ${geographyColumns} FROM ancestry ORDER BY depth`,
+      [id],
+    )
+
+    return result.rows
+  }
+
+  private async getDescendants(
+    id: number,
+    summaryLevel: string,
+  ): Promise<HierarchyGeography[]> {
+    const result = await this.dbService.query<HierarchyGeography>(
+      `WITH RECURSIVE descendants AS (
+        SELECT ${geographyColumns} FROM geographies WHERE parent_geography_id = $1
+        UNION ALL
+        SELECT g.id, g.name, g.summary_level_code, g.for_param, g.in_param,
+          g.parent_geography_id
+        FROM geographies g JOIN descendants d ON g.parent_geography_id = d.id
+        WHERE d.summary_level_code <> $2
+      )
+      SELECT ${geographyColumns} FROM descendants
+      WHERE summary_level_code = $2
+      ORDER BY for_param`,
+      [id, summaryLevel],
+    )
+
+    return result.rows
+  }
+}
@@ -2,13 +2,39 @@ import { Tool } from '@modelcontextprotocol/sdk/types.js'
 import { z } from 'zod'
 
 import { BaseTool } from './base.tool.js'
-import { buildCitation } from '../helpers/citation.js'
+import { ValidationError } from '../errors/tool.errors.js'
+import { addMoeCompanions, pairMoeColumns } from '../helpers/acs-moe.js'
+import { decodeAnnotations, formatAnnotations } from '../helpers/annotations.js'
+import { buildCitation, redactApiKey, tableIdOf } from '../helpers/citation.js'
+import { geographyColumns } from '../helpers/geography-columns.js'
 import {
+  formatColumnSummary,
+  summarizeColumns,
+} from '../helpers/column-summary.js'
+import { renderRows } from '../helpers/output-format.js'
+import { pageOf } from '../helpers/pagination.js'
+import { formatIssues } from '../helpers/query-validation.js'
+import { joinOnGeography, splitVariables } from '../helpers/split-requests.js'
+import {
+  formatColumnName,
+  formatLabelTree,
+  splitDescriptiveRow,
+} from '../helpers/variable-labels.js'
+import {
+  FetchAggregateDataOutputSchema,
   FetchAggregateDataToolSchema,
   TableArgs,
   TableSchema,
 } from '../schema/fetch-aggregate-data.schema.js'
-import { ToolContent } from '../types/base.types.js'
+import { DEFAULT_MAX_ROWS } from '../schema/get-result-page.schema.js'
+import { CacheService } from '../services/cache.service.js'
+import { CensusApiClient } from '../services/census-api-client.service.js'
+import { CitationService } from '../services/citation.service.js'
+import { QueryValidationService } from '../services/query-validation.service.js'
+import { ResultStoreService } from '../services/result-store.service.js'
+import { ToolContext, ToolResult } from '../types/base.types.js'
+import { CacheEntry } from '../types/cache.types.js'
+import { CensusApiRows } from '../types/census-api.types.js'
 
 import {
   datasetValidator,
@@ -23,8 +49,15 @@ export class FetchAggregateDataTool extends BaseTool<TableArgs> {
   name = 'fetch-aggregate-data'
   description = toolDescription
   inputSchema: Tool['inputSchema'] = TableSchema as Tool['inputSchema']
+  outputSchema: Tool['outputSchema'] =
+    FetchAggregateDataOutputSchema as Tool['outputSchema']
   readonly requiresApiKey = true
 
+  private censusApi: CensusApiClient
+  private citations: CitationService
+  private queryValidator: QueryValidationService
+  private results: ResultStoreService
+
   get argsSchema() {
     return FetchAggregateDataToolSchema.superRefine((args, ctx) => {
       //Check that the correct tool is used to fetch data
@@ -45,6 +78,10 @@ export class FetchAggregateDataTool extends BaseTool<TableArgs> {
   constructor() {
     super()
     this.handler = this.handler.bind(this)
+    this.censusApi = CensusApiClient.getInstance()
+    this.citations = CitationService.getInstance()
+    this.queryValidator = QueryValidationService.getInstance()
+    this.results = ResultStoreService.getInstance()
   }
 
   validateArgs(input: unknown) {
@@ -54,23 +91,174 @@ export class FetchAggregateDataTool extends BaseTool<TableArgs> {
   async toolHandler(
     args: TableArgs,
     apiKey: string,
-  ): Promise<{ content: ToolContent[] }> {
-    const baseUrl = `https://api.census.gov/data/${args.year}/${args.dataset}`
+    context: ToolContext = {},
+  ): Promise<ToolResult> {
+    const variables = args.get.variables ?? []
+    const getItems = args.include_moe
+      ? addMoeCompanions(variables)
+      : [...variables]
 
-    let getParams = ''
+    if (args.get.group) {
+      getItems.push(`group(${args.get.group})`)
+    }
 
-    if (args.get.variables || args.get.group) {
-      if (args.get.variables) {
-        getParams = args.get.variables.join(',')
-      }
+    try {
+      // Unknown variables and invalid geography levels are reported with
+      // suggestions before any data is requested
+      const issues = await this.queryValidator.validate(
+        {
+          dataset: args.dataset,
+          year: args.year,
+          variables,
+          group: args.get.group,
+          predicates: args.predicates,
+          for: args.for,
+          in: args.in,
+          ucgid: args.ucgid,
+        },
+        apiKey,
+      )
 
-      if (args.get.group) {
-        if (getParams != '') {
-          getParams += ','
-        }
-        getParams += `group(${args.get.group})`
+      if (issues.length > 0) {
+        return this.createErrorResponse(
+          new ValidationError(
+            `Invalid query for ${args.dataset} (${args.year}):\n${formatIssues(issues)}`,
+            { issues },
+          ),
+        )
       }
+
+      // Requests for more than 50 variables are split and the responses
+      // joined on their geography columns
+      const responses = await Promise.all(
+        splitVariables(getItems).map((variables) =>
+          this.fetchRows(args, variables, apiKey),
+        ),
+      )
+
+      const descriptive = this.isDescriptive(args)
+
+      const data =
+        responses.length === 1
+          ? responses[0].rows
+          : joinOnGeography(responses, descriptive ? 2 : 1)
+
+      const split = splitDescriptiveRow(data, descriptive)
+      const { headers, columns } = split
+      const textColumns = geographyColumns(args)
+
+      // Sentinel values such as -666666666 are not estimates
+      const { rows, annotations } = decodeAnnotations(
+        args.dataset,
+        headers,
+        split.rows,
+        textColumns,
+      )
+
+      const urls = responses.map((response) => response.url)
+
+      const labelStyle = args.labels ?? 'code'
+      const names = columns
+        ? columns.map((column) => formatColumnName(column, labelStyle))
+        : headers
+
+      const labelTree =
+        columns && labelStyle !== 'code'
+          ? `Labels:\n${formatLabelTree(columns)}\n`
+          : ''
+
+      const annotationSummary = annotations.length
+        ? `Annotated values returned as null:\n${formatAnnotations(annotations)}\n`
+        : ''
+
+      const citation = buildCitation(...urls)
+      const citations = await this.citations.cite({
+        dataset: args.dataset,
+        year: args.year,
+        tableId: args.get.group ?? tableIdOf(variables),
+        urls,
+      })
+      const format = args.output_format ?? 'text'
+
+      // Large results are stored and returned a page at a time
+      const maxRows = args.max_rows ?? DEFAULT_MAX_ROWS
+      const page = pageOf(rows, 0, maxRows)
+
+      const stored = page.nextCursor
+        ? {
+            handle: this.results.save(context.sessionId, {
+              tool: this.name,
+              dataset: args.dataset,
+              year: args.year,
+              headers,
+              names,
+              rows,
+              format,
+              textColumns,
+              citation,
+              citations,
+            }),
+            summary: summarizeColumns(headers, rows, textColumns),
+          }
+        : undefined
+
+      const output = renderRows(headers, names, page.rows, format, textColumns)
+
+      const pagination = stored
+        ? `Showing rows 1-${page.rows.length} of ${rows.length}. Use get-result-page with result_handle "${stored.handle}" and cursor "${page.nextCursor}" for the next page.\nColumns:\n${formatColumnSummary(stored.summary)}\n`
+        : ''
+
+      return this.createSuccessResponse(
+        `Response from ${args.dataset}:\n${labelTree}${output}\n${pagination}${annotationSummary}${citation}`,
+        {
+          dataset: args.dataset,
+          year: args.year,
+          headers,
+          rows: page.rows,
+          row_count: page.rows.length,
+          geography: { for: args.for, in: args.in, ucgid: args.ucgid },
+          source_url: redactApiKey(urls[0]),
+          source_urls: urls.map(redactApiKey),
+          citation,
+          citations,
+          ...(columns && { columns }),
+          ...(annotations.length > 0 && { annotations }),
+          ...(args.include_moe && { moe_pairs: pairMoeColumns(headers) }),
+          ...(stored && {
+            result_handle: stored.handle,
+            next_cursor: page.nextCursor,
+            total_row_count: rows.length,
+            column_summary: stored.summary,
+          }),
+        },
+        {
+          cache: CacheService.toStatus(
+            ...responses.map((response) => response.cached),
+          ),
+        },
+      )
+    } catch (err) {
+      return this.createErrorResponse(this.toToolError(err, 'Fetch failed'))
     }
+  }
+
+  // Labels come from the descriptive row, so they imply descriptive=true
+  private isDescriptive(args: TableArgs): boolean {
+    return Boolean(args.descriptive) || (args.labels ?? 'code') !== 'code'
+  }
+
+  // Fetches one request's worth of variables, using the cache when possible
+  private async fetchRows(
+    args: TableArgs,
+    variables: string[],
+    apiKey: string,
+  ): Promise<{
+    variables: string[]
+    rows: CensusApiRows
+    url: string
+    cached: CacheEntry<CensusApiRows> | null
+  }> {
+    const getParams = variables.join(',')
 
     const query = new URLSearchParams({
       get: getParams,
@@ -94,39 +282,22 @@ export class FetchAggregateDataTool extends BaseTool<TableArgs> {
       }
     }
 
-    const descriptive = args.descriptive?.toString() ?? 'false'
+    const descriptive = this.isDescriptive(args).toString()
 
     query.append('descriptive', descriptive)
-    query.append('key', apiKey)
-
-    const url = `${baseUrl}?${query.toString()}`
 
-    try {
-      const fetch = (await import('node-fetch')).default
-      const res = await fetch(url)
-
-      console.log(`URL Attempted: ${url}`)
-
-      if (!res.ok) {
-        return this.createErrorResponse(
-          `Census API error: ${res.status} ${res.statusText}`,
-        )
-      }
+    const url = this.censusApi.buildUrl(
+      `data/${args.year}/${args.dataset}`,
+      query,
+      apiKey,
+    )
 
-      const data = (await res.json()) as string[][]
-      const [headers, ...rows] = data
+    const { rows, cached } = await this.censusApi.fetchRows(
+      url,
+      args.dataset,
+      args.year,
+    )
 
-      const output = rows
-        .map((row) => headers.map((h, i) => `${h}: ${row[i]}`).join(', '))
-        .join('\n')
-
-      const citation = buildCitation(url)
-
-      return this.createSuccessResponse(
-        `Response from ${args.dataset}:\n${output}\n${citation}`,
-      )
-    } catch (err) {
-      return this.createErrorResponse(`Fetch failed: ${(err as Error).message}`)
-    }
+    return { variables, rows, url, cached }
   }
 }
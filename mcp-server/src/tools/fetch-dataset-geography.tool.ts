@@ -1,14 +1,24 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js'
 
 import { BaseTool } from './base.tool.js'
+import {
+  CensusApiError,
+  censusApiErrorFromResponse,
+  DatabaseUnavailableError,
+} from '../errors/tool.errors.js'
+import { getCacheTtlMs } from '../helpers/cache-ttl.js'
+import { CacheService } from '../services/cache.service.js'
+import { CensusApiClient } from '../services/census-api-client.service.js'
 import { DatabaseService } from '../services/database.service.js'
 import {
   FetchDatasetGeographyArgs,
   FetchDatasetGeographyArgsSchema,
   FetchDatasetGeographyInputSchema,
+  FetchDatasetGeographyOutputSchema,
+  GeographyJson,
   GeographyJsonSchema,
 } from '../schema/dataset-geography.schema.js'
-import { ToolContent } from '../types/base.types.js'
+import { ToolResult } from '../types/base.types.js'
 import {
   SummaryLevelRow,
   GeographyMetadata,
@@ -25,9 +35,13 @@ export class FetchDatasetGeographyTool extends BaseTool<FetchDatasetGeographyArg
   readonly requiresApiKey = true
 
   private dbService: DatabaseService
+  private censusApi: CensusApiClient
+  private cache: CacheService
 
   inputSchema: Tool['inputSchema'] =
     FetchDatasetGeographyArgsSchema as Tool['inputSchema']
+  outputSchema: Tool['outputSchema'] =
+    FetchDatasetGeographyOutputSchema as Tool['outputSchema']
 
   get argsSchema() {
     return FetchDatasetGeographyInputSchema
@@ -37,6 +51,8 @@ export class FetchDatasetGeographyTool extends BaseTool<FetchDatasetGeographyArg
     super()
     this.handler = this.handler.bind(this)
     this.dbService = DatabaseService.getInstance()
+    this.censusApi = CensusApiClient.getInstance()
+    this.cache = CacheService.getInstance()
   }
 
   private async getSummaryLevels(): Promise<SummaryLevelRow[]> {
@@ -181,72 +197,97 @@ export class FetchDatasetGeographyTool extends BaseTool<FetchDatasetGeographyArg
   async toolHandler(
     args: FetchDatasetGeographyArgs,
     apiKey: string,
-  ): Promise<{ content: ToolContent[] }> {
+  ): Promise<ToolResult> {
     try {
       // Check database health first
       const isDbHealthy = await this.dbService.healthCheck()
       if (!isDbHealthy) {
         return this.createErrorResponse(
-          'Database connection failed - cannot retrieve geography metadata.',
+          new DatabaseUnavailableError(
+            'Database connection failed - cannot retrieve geography metadata.',
+          ),
         )
       }
 
       // Get geography levels from database
       const geographyLevels = await this.getSummaryLevels()
 
-      const fetch = (await import('node-fetch')).default
       let year = ''
       if (args.year) {
         year = `${args.year}/`
       }
 
-      const baseUrl = `https://api.census.gov/data/${year}${args.dataset}/geography.json`
-      const geographyUrl = `${baseUrl}?key=${apiKey}`
+      const geographyUrl = this.censusApi.buildUrl(
+        `data/${year}${args.dataset}/geography.json`,
+        undefined,
+        apiKey,
+      )
 
-      const geographyResponse = await fetch(geographyUrl)
+      const cacheKey = {
+        datasetCode: args.dataset,
+        year: args.year ?? 0,
+        variables: [],
+        geographySpec: { endpoint: 'geography.json' },
+      }
+      const cached = await this.cache.get<GeographyJson>(cacheKey)
+      let validatedData: GeographyJson
 
-      if (geographyResponse.ok) {
-        const geographyData = await geographyResponse.json()
+      if (cached) {
+        validatedData = cached.data
+      } else {
+        const geographyResponse = await this.censusApi.fetch(geographyUrl)
 
-        try {
-          const validatedData = GeographyJsonSchema.parse(geographyData)
-          // Use the database-aware parsing function
-          const parsedGeographyData = this.parseGeographyJsonWithDb(
-            validatedData,
-            geographyLevels,
+        if (!geographyResponse.ok) {
+          console.log(geographyResponse.status)
+          return this.createErrorResponse(
+            censusApiErrorFromResponse(
+              'Geography endpoint returned',
+              geographyResponse.status,
+              geographyResponse.statusText,
+            ),
           )
+        }
 
-          return {
-            content: [
-              {
-                type: 'text',
-                text: `Available geographies for ${args.dataset}${args.year ? ` (${args.year})` : ''}:\n\n${JSON.stringify(parsedGeographyData, null, 2)}`,
-              },
-            ],
-          }
-        } catch (validationError) {
-          const validationMessage =
-            validationError instanceof Error
-              ? validationError.message
-              : 'Validation failed'
-          console.error('Schema validation failed:', validationMessage)
+        const geographyData = await geographyResponse.json()
+        const validation = GeographyJsonSchema.safeParse(geographyData)
+
+        if (!validation.success) {
+          console.error('Schema validation failed:', validation.error.message)
 
           return this.createErrorResponse(
-            `Response validation failed: ${validationMessage}`,
+            new CensusApiError(
+              `Response validation failed: ${validation.error.message}`,
+              geographyResponse.status,
+              'The Census Data API returned an unexpected response. Try again later.',
+            ),
           )
         }
-      } else {
-        console.log(geographyResponse.status)
-        return this.createErrorResponse(
-          `Geography endpoint returned: ${geographyResponse.status} ${geographyResponse.statusText}`,
-        )
+
+        validatedData = validation.data
+        await this.cache.set(cacheKey, validatedData, {
+          ttlMs: getCacheTtlMs(args.dataset, args.year),
+          rowCount: validatedData.fips.length,
+        })
       }
-    } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : 'Unknown error occurred'
 
+      // Use the database-aware parsing function
+      const parsedGeographyData = this.parseGeographyJsonWithDb(
+        validatedData,
+        geographyLevels,
+      )
+
+      return this.createSuccessResponse(
+        `Available geographies for ${args.dataset}${args.year ? ` (${args.year})` : ''}:\n\n${JSON.stringify(parsedGeographyData, null, 2)}`,
+        {
+          dataset: args.dataset,
+          year: args.year,
+          geographies: parsedGeographyData,
+        },
+        { cache: CacheService.toStatus(cached) },
+      )
+    } catch (error) {
       return this.createErrorResponse(
-        `Failed to fetch dataset geography levels: ${errorMessage}`,
+        this.toToolError(error, 'Failed to fetch dataset geography levels'),
       )
     }
   }
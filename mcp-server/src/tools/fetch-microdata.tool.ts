@@ -0,0 +1,258 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js'
+import { z } from 'zod'
+
+import { BaseTool } from './base.tool.js'
+import { censusApiErrorFromResponse } from '../errors/tool.errors.js'
+import { readErrorBody } from '../helpers/census-api-errors.js'
+import { buildCitation, redactApiKey } from '../helpers/citation.js'
+import { geographyColumns } from '../helpers/geography-columns.js'
+import {
+  joinOnGeography,
+  MAX_VARIABLES_PER_REQUEST,
+  splitVariables,
+} from '../helpers/split-requests.js'
+import {
+  resolveMicrodataWeight,
+  tabulateWeighted,
+} from '../helpers/weighted-tabulation.js'
+import {
+  FetchMicrodataOutputSchema,
+  FetchMicrodataToolSchema,
+  MicrodataArgs,
+  MicrodataSchema,
+} from '../schema/fetch-microdata.schema.js'
+import { getCacheTtlMs } from '../helpers/cache-ttl.js'
+import { CacheService } from '../services/cache.service.js'
+import { CensusApiClient } from '../services/census-api-client.service.js'
+import { CitationService } from '../services/citation.service.js'
+import { ToolResult } from '../types/base.types.js'
+import { CensusApiRows } from '../types/census-api.types.js'
+import {
+  MicrodataWeight,
+  WeightedTabulation,
+} from '../types/microdata.types.js'
+
+import {
+  datasetValidator,
+  validateOptionalGeographyArgs,
+} from '../schema/validators.js'
+
+export const toolDescription = `
+  Produces custom weighted cross-tabulations from U.S. Census Bureau microdata, including the American Community Survey Public Use Microdata Sample (PUMS), the Current Population Survey (CPS), the Survey of Income and Program Participation (SIPP) and the Commodity Flow Survey public use file. Use this tool when users ask for estimates the published tables do not cover, e.g. a combination of characteristics for a state or PUMA. Requires a microdata dataset identifier, year and the variables to tabulate. Applies the person or household weight to produce weighted counts and, where the dataset provides replicate weights, standard errors and margins of error. Returns structured data with proper citations for authoritative government statistics.
+`
+
+export class FetchMicrodataTool extends BaseTool<MicrodataArgs> {
+  name = 'fetch-microdata'
+  description = toolDescription
+  inputSchema: Tool['inputSchema'] = MicrodataSchema as Tool['inputSchema']
+  outputSchema: Tool['outputSchema'] =
+    FetchMicrodataOutputSchema as Tool['outputSchema']
+  readonly requiresApiKey = true
+
+  private censusApi: CensusApiClient
+  private cache: CacheService
+  private citations: CitationService
+
+  get argsSchema() {
+    return FetchMicrodataToolSchema.superRefine((args, ctx) => {
+      //Check that the correct tool is used to fetch data
+      const identifiedDataset = datasetValidator(args.dataset)
+
+      if (identifiedDataset.tool !== this.name) {
+        ctx.addIssue({
+          path: ['dataset'],
+          code: z.ZodIssueCode.custom,
+          message: identifiedDataset.message,
+        })
+      }
+
+      validateOptionalGeographyArgs(args, ctx)
+    })
+  }
+
+  constructor() {
+    super()
+    this.handler = this.handler.bind(this)
+    this.censusApi = CensusApiClient.getInstance()
+    this.cache = CacheService.getInstance()
+    this.citations = CitationService.getInstance()
+  }
+
+  validateArgs(input: unknown) {
+    return this.argsSchema.safeParse(input)
+  }
+
+  async toolHandler(args: MicrodataArgs, apiKey: string): Promise<ToolResult> {
+    try {
+      const weight = resolveMicrodataWeight(
+        args.dataset,
+        args.weight,
+        args.replicate_weights ?? true,
+      )
+
+      const requests = this.buildRequests(args, weight, apiKey)
+      const urls = requests.map((request) => request.url)
+
+      const cacheKey = {
+        datasetCode: args.dataset,
+        year: args.year,
+        variables: [...args.tabulate, weight.variable],
+        geographySpec: {
+          for: args.for,
+          in: args.in,
+          ucgid: args.ucgid,
+          predicates: args.predicates,
+          replicates: Boolean(weight.replicates),
+          endpoint: 'tabulation',
+        },
+      }
+
+      const cached = await this.cache.get<WeightedTabulation>(cacheKey)
+      let tabulation = cached?.data
+
+      if (!tabulation) {
+        tabulation = await this.tabulate(args, weight, requests)
+        await this.cache.set(cacheKey, tabulation, {
+          ttlMs: getCacheTtlMs(args.dataset, args.year),
+          rowCount: tabulation.rows.length,
+        })
+      }
+
+      const { headers, rows, recordCount } = tabulation
+
+      const output = rows
+        .map((row) => headers.map((h, i) => `${h}: ${row[i]}`).join(', '))
+        .join('\n')
+
+      const citation = buildCitation(...urls)
+      const citations = await this.citations.cite({
+        dataset: args.dataset,
+        year: args.year,
+        urls,
+      })
+
+      return this.createSuccessResponse(
+        `Weighted tabulation of ${recordCount} records from ${args.dataset} (weight: ${weight.variable}):\n${output}\n${citation}`,
+        {
+          dataset: args.dataset,
+          year: args.year,
+          headers,
+          rows,
+          row_count: rows.length,
+          record_count: recordCount,
+          weight: weight.variable,
+          replicate_weights: weight.replicates?.variables.length ?? 0,
+          geography: { for: args.for, in: args.in, ucgid: args.ucgid },
+          source_url: redactApiKey(urls[0]),
+          source_urls: urls.map(redactApiKey),
+          citation,
+          citations,
+        },
+        { cache: CacheService.toStatus(cached) },
+      )
+    } catch (err) {
+      return this.createErrorResponse(this.toToolError(err, 'Fetch failed'))
+    }
+  }
+
+  // Replicate weights push most requests past 50 variables. Each split request
+  // also gets the record keys, so the records can be joined back together.
+  private buildRequests(
+    args: MicrodataArgs,
+    weight: MicrodataWeight,
+    apiKey: string,
+  ): { variables: string[]; url: string }[] {
+    const variables = Array.from(
+      new Set([
+        ...args.tabulate,
+        weight.variable,
+        ...(weight.replicates?.variables ?? []),
+      ]),
+    ).filter((variable) => !weight.recordKeys.includes(variable))
+
+    const chunks =
+      variables.length > MAX_VARIABLES_PER_REQUEST
+        ? splitVariables(
+            variables,
+            MAX_VARIABLES_PER_REQUEST - weight.recordKeys.length,
+          )
+        : [variables]
+
+    const predicates = { ...weight.predicates, ...args.predicates }
+
+    return chunks.map((chunk) => {
+      const getItems =
+        chunks.length > 1 ? [...weight.recordKeys, ...chunk] : chunk
+
+      const query = new URLSearchParams({
+        get: getItems.join(','),
+      })
+
+      if (args.for) {
+        query.append('for', args.for)
+      }
+
+      if (args.in) {
+        query.append('in', args.in)
+      }
+
+      if (args.ucgid) {
+        query.append('ucgid', args.ucgid)
+      }
+
+      for (const [key, value] of Object.entries(predicates)) {
+        query.append(key, value)
+      }
+
+      const url = this.censusApi.buildUrl(
+        `data/${args.year}/${args.dataset}`,
+        query,
+        apiKey,
+      )
+
+      return { variables: chunk, url }
+    })
+  }
+
+  private async tabulate(
+    args: MicrodataArgs,
+    weight: MicrodataWeight,
+    requests: { variables: string[]; url: string }[],
+  ): Promise<WeightedTabulation> {
+    const responses = await Promise.all(
+      requests.map(async (request) => {
+        const res = await this.censusApi.fetch(request.url)
+
+        console.log(`URL Attempted: ${request.url}`)
+
+        if (!res.ok || res.status === 204) {
+          throw censusApiErrorFromResponse(
+            'Census API error',
+            res.status,
+            res.statusText,
+            await readErrorBody(res),
+          )
+        }
+
+        return {
+          variables: request.variables,
+          rows: await this.censusApi.readJson<CensusApiRows>(res),
+        }
+      }),
+    )
+
+    // The record keys and geography columns are shared by every response
+    const records =
+      responses.length === 1 ? responses[0].rows : joinOnGeography(responses)
+
+    const headers = records[0].map(String)
+    const groupColumns = [
+      ...args.tabulate,
+      ...geographyColumns(args).filter(
+        (column) => headers.includes(column) && !args.tabulate.includes(column),
+      ),
+    ]
+
+    return tabulateWeighted(records, groupColumns, weight)
+  }
+}
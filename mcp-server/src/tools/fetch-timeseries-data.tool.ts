@@ -0,0 +1,199 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js'
+import { z } from 'zod'
+
+import { BaseTool } from './base.tool.js'
+import { buildCitation, redactApiKey, tableIdOf } from '../helpers/citation.js'
+import { joinOnGeography, splitVariables } from '../helpers/split-requests.js'
+import { splitDescriptiveRow } from '../helpers/variable-labels.js'
+import {
+  FetchTimeseriesDataOutputSchema,
+  FetchTimeseriesDataToolSchema,
+  TimeseriesArgs,
+  TimeseriesSchema,
+  toTimePredicate,
+} from '../schema/fetch-timeseries-data.schema.js'
+import { CacheService } from '../services/cache.service.js'
+import { CensusApiClient } from '../services/census-api-client.service.js'
+import { CitationService } from '../services/citation.service.js'
+import { ToolResult } from '../types/base.types.js'
+import { CacheEntry } from '../types/cache.types.js'
+import { CensusApiRows } from '../types/census-api.types.js'
+
+import {
+  datasetValidator,
+  validateOptionalGeographyArgs,
+} from '../schema/validators.js'
+
+export const toolDescription = `
+  Fetches time series data from U.S. Census Bureau timeseries datasets, such as economic indicators (EITS), small area income and poverty estimates (SAIPE), small area health insurance estimates (SAHIE), quarterly workforce indicators (QWI) and international trade. Use this tool when users request how a Census statistic changes over months, quarters or years. Requires a timeseries dataset identifier, e.g. 'timeseries/eits/resconst', and variables or table groups. Accepts a time period or range, time-slot predicates and, for datasets that have them, geography restrictions. Returns structured data with proper citations for authoritative government statistics.
+`
+
+export class FetchTimeseriesDataTool extends BaseTool<TimeseriesArgs> {
+  name = 'fetch-timeseries-data'
+  description = toolDescription
+  inputSchema: Tool['inputSchema'] = TimeseriesSchema as Tool['inputSchema']
+  outputSchema: Tool['outputSchema'] =
+    FetchTimeseriesDataOutputSchema as Tool['outputSchema']
+  readonly requiresApiKey = true
+
+  private censusApi: CensusApiClient
+  private citations: CitationService
+
+  get argsSchema() {
+    return FetchTimeseriesDataToolSchema.superRefine((args, ctx) => {
+      //Check that the correct tool is used to fetch data
+      const identifiedDataset = datasetValidator(args.dataset)
+
+      if (identifiedDataset.tool !== this.name) {
+        ctx.addIssue({
+          path: ['dataset'],
+          code: z.ZodIssueCode.custom,
+          message: identifiedDataset.message,
+        })
+      }
+
+      // Geography is optional for timeseries, e.g. international trade
+      validateOptionalGeographyArgs(args, ctx)
+
+      if (args.time && args.predicates?.time) {
+        ctx.addIssue({
+          path: ['time'],
+          code: z.ZodIssueCode.custom,
+          message:
+            'Too many time periods specified error - define time or predicates.time only, not both.',
+        })
+      }
+    })
+  }
+
+  constructor() {
+    super()
+    this.handler = this.handler.bind(this)
+    this.censusApi = CensusApiClient.getInstance()
+    this.citations = CitationService.getInstance()
+  }
+
+  validateArgs(input: unknown) {
+    return this.argsSchema.safeParse(input)
+  }
+
+  async toolHandler(args: TimeseriesArgs, apiKey: string): Promise<ToolResult> {
+    const getItems = [...(args.get.variables ?? [])]
+
+    if (args.get.group) {
+      getItems.push(`group(${args.get.group})`)
+    }
+
+    const time = toTimePredicate(args.time) ?? args.predicates?.time
+
+    try {
+      // Requests for more than 50 variables are split and the responses
+      // joined on their time and geography columns
+      const responses = await Promise.all(
+        splitVariables(getItems).map((variables) =>
+          this.fetchRows(args, variables, time, apiKey),
+        ),
+      )
+
+      const data =
+        responses.length === 1
+          ? responses[0].rows
+          : joinOnGeography(responses, args.descriptive ? 2 : 1)
+
+      const { headers, columns, rows } = splitDescriptiveRow(
+        data,
+        Boolean(args.descriptive),
+      )
+      const urls = responses.map((response) => response.url)
+
+      const output = rows
+        .map((row) => headers.map((h, i) => `${h}: ${row[i]}`).join(', '))
+        .join('\n')
+
+      const citation = buildCitation(...urls)
+      const citations = await this.citations.cite({
+        dataset: args.dataset,
+        tableId: args.get.group ?? tableIdOf(args.get.variables ?? []),
+        urls,
+      })
+
+      return this.createSuccessResponse(
+        `Response from ${args.dataset}:\n${output}\n${citation}`,
+        {
+          dataset: args.dataset,
+          headers,
+          rows,
+          row_count: rows.length,
+          time,
+          geography: { for: args.for, in: args.in, ucgid: args.ucgid },
+          source_url: redactApiKey(urls[0]),
+          source_urls: urls.map(redactApiKey),
+          citation,
+          citations,
+          ...(columns && { columns }),
+        },
+        {
+          cache: CacheService.toStatus(
+            ...responses.map((response) => response.cached),
+          ),
+        },
+      )
+    } catch (err) {
+      return this.createErrorResponse(this.toToolError(err, 'Fetch failed'))
+    }
+  }
+
+  // Fetches one request's worth of variables, using the cache when possible
+  private async fetchRows(
+    args: TimeseriesArgs,
+    variables: string[],
+    time: string | undefined,
+    apiKey: string,
+  ): Promise<{
+    variables: string[]
+    rows: CensusApiRows
+    url: string
+    cached: CacheEntry<CensusApiRows> | null
+  }> {
+    const getParams = variables.join(',')
+
+    const query = new URLSearchParams({
+      get: getParams,
+    })
+
+    if (args.for) {
+      query.append('for', args.for)
+    }
+
+    if (args.in) {
+      query.append('in', args.in)
+    }
+
+    if (args.ucgid) {
+      query.append('ucgid', args.ucgid)
+    }
+
+    if (time) {
+      query.append('time', time)
+    }
+
+    if (args.predicates) {
+      for (const [key, value] of Object.entries(args.predicates)) {
+        if (key !== 'time') {
+          query.append(key, value)
+        }
+      }
+    }
+
+    const descriptive = args.descriptive?.toString() ?? 'false'
+
+    query.append('descriptive', descriptive)
+
+    // Timeseries endpoints have no vintage in their path
+    const url = this.censusApi.buildUrl(`data/${args.dataset}`, query, apiKey)
+
+    const { rows, cached } = await this.censusApi.fetchRows(url, args.dataset)
+
+    return { variables, rows, url, cached }
+  }
+}
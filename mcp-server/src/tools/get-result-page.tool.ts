@@ -0,0 +1,100 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js'
+
+import { BaseTool } from './base.tool.js'
+import { NotFoundError, ValidationError } from '../errors/tool.errors.js'
+import { renderRows } from '../helpers/output-format.js'
+import { decodeCursor, pageOf } from '../helpers/pagination.js'
+import {
+  DEFAULT_MAX_ROWS,
+  GetResultPageArgs,
+  GetResultPageArgsSchema,
+  GetResultPageInputSchema,
+  GetResultPageOutputSchema,
+} from '../schema/get-result-page.schema.js'
+import { ResultStoreService } from '../services/result-store.service.js'
+import { ToolContext, ToolResult } from '../types/base.types.js'
+
+export const toolDescription = `
+  Returns the next page of rows of a large result. Use this tool when fetch-aggregate-data returns a result_handle and next_cursor because the result had more rows than max_rows, e.g. every census tract in the country. Requires the result_handle and the cursor of the previous page. Results are kept for 30 minutes; fetch the data again once they expire.
+`
+
+export class GetResultPageTool extends BaseTool<GetResultPageArgs> {
+  name = 'get-result-page'
+  description = toolDescription
+  inputSchema: Tool['inputSchema'] =
+    GetResultPageArgsSchema as Tool['inputSchema']
+  outputSchema: Tool['outputSchema'] =
+    GetResultPageOutputSchema as Tool['outputSchema']
+  readonly requiresApiKey = false
+
+  private results: ResultStoreService
+
+  get argsSchema() {
+    return GetResultPageInputSchema
+  }
+
+  constructor() {
+    super()
+    this.handler = this.handler.bind(this)
+    this.results = ResultStoreService.getInstance()
+  }
+
+  async toolHandler(
+    args: GetResultPageArgs,
+    _apiKey?: string,
+    context: ToolContext = {},
+  ): Promise<ToolResult> {
+    const result = this.results.get(context.sessionId, args.result_handle)
+
+    if (!result) {
+      return this.createErrorResponse(
+        new NotFoundError(
+          `Result ${args.result_handle} not found. It may have expired.`,
+          'Results are kept for 30 minutes. Fetch the data again to get a new result_handle.',
+        ),
+      )
+    }
+
+    const offset = decodeCursor(args.cursor)
+
+    if (offset === null || offset >= result.rows.length) {
+      return this.createErrorResponse(
+        new ValidationError(`Invalid cursor: ${args.cursor}`, {
+          cursor: args.cursor,
+        }),
+      )
+    }
+
+    const page = pageOf(result.rows, offset, args.max_rows ?? DEFAULT_MAX_ROWS)
+    const lastRow = offset + page.rows.length
+
+    const output = renderRows(
+      result.headers,
+      result.names,
+      page.rows,
+      result.format,
+      result.textColumns,
+    )
+
+    const next = page.nextCursor
+      ? `Use cursor "${page.nextCursor}" for the next page.`
+      : 'This is the last page.'
+
+    return this.createSuccessResponse(
+      `Rows ${offset + 1}-${lastRow} of ${result.rows.length} from ${result.dataset}:\n${output}\n${next}\n${result.citation}`,
+      {
+        result_handle: args.result_handle,
+        dataset: result.dataset,
+        year: result.year,
+        headers: result.headers,
+        rows: page.rows,
+        row_count: page.rows.length,
+        first_row: offset + 1,
+        total_row_count: result.rows.length,
+        ...(page.nextCursor && { next_cursor: page.nextCursor }),
+        citation: result.citation,
+        citations: result.citations,
+      },
+    )
+  }
+}
@@ -5,14 +5,30 @@ import { Tool } from '@modelcontextprotocol/sdk/types.js'
 import {
   AllDatasetMetadataJsonSchema,
   AllDatasetMetadataJsonResponseType,
+  ListDatasetsOutputSchema,
   SimplifiedAPIDatasetType,
   AggregatedResultType,
   DatasetType,
 } from '../schema/list-datasets.schema.js'
 
 import { BaseTool } from './base.tool.js'
-
-import { ToolContent } from '../types/base.types.js'
+import {
+  CensusApiError,
+  censusApiErrorFromResponse,
+} from '../errors/tool.errors.js'
+import { getCacheTtlMs } from '../helpers/cache-ttl.js'
+import { CacheService } from '../services/cache.service.js'
+import { CensusApiClient } from '../services/census-api-client.service.js'
+
+import { ToolResult } from '../types/base.types.js'
+
+// The catalog is not tied to a dataset or vintage
+const CATALOG_CACHE_KEY = {
+  datasetCode: 'catalog',
+  year: 0,
+  variables: [],
+  geographySpec: { endpoint: 'data.json' },
+}
 
 export const toolDescription = `
   Returns complete catalog of available U.S. Census Bureau datasets with titles, identifiers, and available years. Use this tool FIRST when users request Census data but don't specify which dataset, or when you're unsure which dataset contains the requested statistics. Essential for mapping user requests about demographics, economics, housing, business, or government data to the correct Census dataset. After receiving results, analyze the catalog to identify the best dataset match based on topic relevance and temporal scope, then explain your reasoning to the user.
@@ -29,6 +45,12 @@ export class ListDatasetsTool extends BaseTool<object> {
     required: [],
   }
 
+  outputSchema: Tool['outputSchema'] =
+    ListDatasetsOutputSchema as Tool['outputSchema']
+
+  private censusApi: CensusApiClient
+  private cache: CacheService
+
   get argsSchema() {
     return z.object({})
   }
@@ -36,6 +58,8 @@ export class ListDatasetsTool extends BaseTool<object> {
   constructor() {
     super()
     this.handler = this.handler.bind(this)
+    this.censusApi = CensusApiClient.getInstance()
+    this.cache = CacheService.getInstance()
   }
 
   private isValidMetadataResponse(
@@ -131,54 +155,69 @@ export class ListDatasetsTool extends BaseTool<object> {
     return Array.from(grouped.values())
   }
 
-  async toolHandler(
-    args: object,
-    apiKey: string,
-  ): Promise<{ content: ToolContent[] }> {
+  async toolHandler(args: object, apiKey: string): Promise<ToolResult> {
     try {
-      const fetch = (await import('node-fetch')).default
-      const catalogUrl = `https://api.census.gov/data.json?key=${apiKey}`
+      const cached =
+        await this.cache.get<AggregatedResultType[]>(CATALOG_CACHE_KEY)
+      let aggregated: AggregatedResultType[]
 
-      const response = await fetch(catalogUrl)
-      if (!response.ok) {
-        return this.createErrorResponse(
-          `Failed to fetch catalog: ${response.status} ${response.statusText}`,
+      if (cached) {
+        aggregated = cached.data
+      } else {
+        const catalogUrl = this.censusApi.buildUrl(
+          'data.json',
+          undefined,
+          apiKey,
         )
-      }
 
-      const data = await response.json()
-      if (!this.isValidMetadataResponse(data)) {
-        return this.createErrorResponse(
-          'Catalog response did not match expected metadata schema',
-        )
-      }
+        const response = await this.censusApi.fetch(catalogUrl)
+        if (!response.ok) {
+          return this.createErrorResponse(
+            censusApiErrorFromResponse(
+              'Failed to fetch catalog',
+              response.status,
+              response.statusText,
+            ),
+          )
+        }
+
+        const data = await response.json()
+        if (!this.isValidMetadataResponse(data)) {
+          return this.createErrorResponse(
+            new CensusApiError(
+              'Catalog response did not match expected metadata schema',
+              response.status,
+              'The Census Data API returned an unexpected response. Try again later.',
+            ),
+          )
+        }
 
-      let simplified = data.dataset.map(this.simplifyDataset)
-      // Deterministically sort: group by c_dataset, newest vintage first
-      simplified = simplified.sort((a, b) => {
-        const datasetCompare = a.c_dataset.localeCompare(b.c_dataset)
-        if (datasetCompare !== 0) return datasetCompare
-
-        return (b.c_vintage ?? 0) - (a.c_vintage ?? 0) // descending vintage
-      })
-
-      const aggregated = this.aggregateDatasets(simplified)
-
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(aggregated, (key, value) => {
-              return value === null ? undefined : value
-            }),
-          },
-        ],
+        let simplified = data.dataset.map(this.simplifyDataset)
+        // Deterministically sort: group by c_dataset, newest vintage first
+        simplified = simplified.sort((a, b) => {
+          const datasetCompare = a.c_dataset.localeCompare(b.c_dataset)
+          if (datasetCompare !== 0) return datasetCompare
+
+          return (b.c_vintage ?? 0) - (a.c_vintage ?? 0) // descending vintage
+        })
+
+        aggregated = this.aggregateDatasets(simplified)
+        await this.cache.set(CATALOG_CACHE_KEY, aggregated, {
+          ttlMs: getCacheTtlMs(),
+          rowCount: aggregated.length,
+        })
       }
+
+      return this.createSuccessResponse(
+        JSON.stringify(aggregated, (key, value) => {
+          return value === null ? undefined : value
+        }),
+        { datasets: aggregated },
+        { cache: CacheService.toStatus(cached) },
+      )
     } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : 'Unknown error occurred'
       return this.createErrorResponse(
-        `Failed to fetch datasets: ${errorMessage}`,
+        this.toToolError(error, 'Failed to fetch datasets'),
       )
     }
   }
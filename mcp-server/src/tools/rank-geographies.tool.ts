@@ -0,0 +1,285 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js'
+import { z } from 'zod'
+
+import { BaseTool } from './base.tool.js'
+import { decodeAnnotations } from '../helpers/annotations.js'
+import { buildCitation, redactApiKey, tableIdOf } from '../helpers/citation.js'
+import { geographyColumns } from '../helpers/geography-columns.js'
+import { coerceValue } from '../helpers/output-format.js'
+import { rankValues } from '../helpers/ranking.js'
+import {
+  RankGeographiesArgs,
+  RankGeographiesOutputSchema,
+  RankGeographiesSchema,
+  RankGeographiesToolSchema,
+} from '../schema/rank-geographies.schema.js'
+import { CacheService } from '../services/cache.service.js'
+import { CensusApiClient } from '../services/census-api-client.service.js'
+import { CitationService } from '../services/citation.service.js'
+import { ToolResult } from '../types/base.types.js'
+import { CacheEntry } from '../types/cache.types.js'
+import { CensusApiRows } from '../types/census-api.types.js'
+
+import { datasetValidator } from '../schema/validators.js'
+
+export const toolDescription = `
+  Ranks every geography of a level within a parent geography by one variable, e.g. the 10 counties in Texas with the highest median rent or the states with the lowest poverty rate. Use this tool for top-N, bottom-N and percentile questions instead of fetching every geography with fetch-aggregate-data and sorting the rows. Requires a dataset identifier, year, variable and geography level, and optionally the parent geography, sort order, number of results and value thresholds. Returns each geography's rank and percentile along with the parent geography's value for context, with proper citations for authoritative government statistics.
+`
+
+const DEFAULT_LIMIT = 10
+
+type GeographySpec = { for: string; in?: string }
+
+interface FetchedRows {
+  rows: CensusApiRows
+  url: string
+  cached: CacheEntry<CensusApiRows> | null
+}
+
+// The parent geography as its own request, e.g. in=state:06+county:037
+// becomes for=county:037&in=state:06. Parents with several or wildcard
+// values have no single value.
+function parentGeography(parent?: string): GeographySpec | undefined {
+  if (!parent) return { for: 'us:1' }
+
+  const levels = parent.split('+')
+  if (levels.some((level) => /[*,]/.test(level))) return undefined
+
+  const last = levels.pop()!
+  return levels.length ? { for: last, in: levels.join('+') } : { for: last }
+}
+
+export class RankGeographiesTool extends BaseTool<RankGeographiesArgs> {
+  name = 'rank-geographies'
+  description = toolDescription
+  inputSchema: Tool['inputSchema'] =
+    RankGeographiesSchema as Tool['inputSchema']
+  outputSchema: Tool['outputSchema'] =
+    RankGeographiesOutputSchema as Tool['outputSchema']
+  readonly requiresApiKey = true
+
+  private censusApi: CensusApiClient
+  private citations: CitationService
+
+  get argsSchema() {
+    return RankGeographiesToolSchema.superRefine((args, ctx) => {
+      //Check that the correct tool is used to fetch data
+      const identifiedDataset = datasetValidator(args.dataset)
+
+      if (identifiedDataset.tool !== 'fetch-aggregate-data') {
+        ctx.addIssue({
+          path: ['dataset'],
+          code: z.ZodIssueCode.custom,
+          message: identifiedDataset.message,
+        })
+      }
+    })
+  }
+
+  constructor() {
+    super()
+    this.handler = this.handler.bind(this)
+    this.censusApi = CensusApiClient.getInstance()
+    this.citations = CitationService.getInstance()
+  }
+
+  validateArgs(input: unknown) {
+    return this.argsSchema.safeParse(input)
+  }
+
+  async toolHandler(
+    args: RankGeographiesArgs,
+    apiKey: string,
+  ): Promise<ToolResult> {
+    const order = args.order ?? 'desc'
+    const limit = args.limit ?? DEFAULT_LIMIT
+    const geography = { for: `${args.geography.trim()}:*`, in: args.in }
+    const parentSpec = parentGeography(args.in)
+
+    try {
+      const [result, parentFetch] = await Promise.all([
+        this.fetchRows(args, geography, apiKey),
+        this.fetchParent(args, parentSpec, apiKey),
+      ])
+      const parentResult = parentFetch.result
+
+      const [headerRow, ...dataRows] = result.rows
+      const geoColumns = geographyColumns(geography)
+      const responseHeaders = headerRow.map(String)
+
+      const { rows, annotations } = decodeAnnotations(
+        args.dataset,
+        responseHeaders,
+        dataRows,
+        geoColumns,
+      )
+
+      const nameIndex = responseHeaders.indexOf('NAME')
+      const valueIndex = responseHeaders.indexOf(args.variable)
+      const geoIndexes = geoColumns.map((column) =>
+        responseHeaders.indexOf(column),
+      )
+
+      const values = rows.map((row) => {
+        const value = coerceValue(row[valueIndex])
+        return typeof value === 'number' ? value : null
+      })
+
+      const ranked = rankValues(values, order)
+
+      const headers = [
+        'rank',
+        'percentile',
+        'NAME',
+        args.variable,
+        ...geoColumns,
+      ]
+      const selected = ranked
+        .filter(
+          ({ value }) =>
+            (args.min === undefined || value >= args.min) &&
+            (args.max === undefined || value <= args.max),
+        )
+        .slice(0, limit)
+        .map(({ index, value, rank, percentile }) => [
+          rank,
+          percentile,
+          rows[index][nameIndex],
+          value,
+          ...geoIndexes.map((i) => rows[index][i]),
+        ])
+
+      const parent = parentResult && this.parentValue(parentResult.rows, args)
+      const parentNote =
+        parentFetch.error ??
+        (parentResult && !parent ? 'No value was returned.' : undefined)
+
+      const output = selected
+        .map(
+          ([rank, percentile, name, value]) =>
+            `${rank}. ${name}: ${value} (percentile: ${percentile})`,
+        )
+        .join('\n')
+
+      const excludedCount = rows.length - ranked.length
+      const notes = [
+        parent && `Parent geography ${parent.name}: ${parent.value}`,
+        parentNote && `Parent geography value omitted: ${parentNote}`,
+        excludedCount > 0 &&
+          `${excludedCount} geographies without a value were not ranked${annotations.length ? ', see annotations' : ''}.`,
+      ]
+        .filter(Boolean)
+        .map((note) => `${note}\n`)
+        .join('')
+
+      const urls = [result.url, ...(parentResult ? [parentResult.url] : [])]
+      const citation = buildCitation(...urls)
+      const citations = await this.citations.cite({
+        dataset: args.dataset,
+        year: args.year,
+        tableId: tableIdOf([args.variable]),
+        urls,
+      })
+
+      return this.createSuccessResponse(
+        `${order === 'desc' ? 'Highest' : 'Lowest'} ${selected.length} of ${ranked.length} ${args.geography} geographies${args.in ? ` in ${args.in}` : ''} by ${args.variable} from ${args.dataset} (${args.year}):\n${output}\n${notes}${citation}`,
+        {
+          dataset: args.dataset,
+          year: args.year,
+          variable: args.variable,
+          order,
+          headers,
+          rows: selected,
+          row_count: selected.length,
+          ranked_count: ranked.length,
+          excluded_count: excludedCount,
+          ...(parent && { parent }),
+          ...(parentNote && { parent_note: parentNote }),
+          geography,
+          source_urls: urls.map(redactApiKey),
+          citation,
+          citations,
+          ...(annotations.length > 0 && { annotations }),
+        },
+        {
+          cache: CacheService.toStatus(
+            result.cached,
+            ...(parentResult ? [parentResult.cached] : []),
+          ),
+        },
+      )
+    } catch (err) {
+      return this.createErrorResponse(this.toToolError(err, 'Fetch failed'))
+    }
+  }
+
+  private parentValue(
+    rows: CensusApiRows,
+    args: RankGeographiesArgs,
+  ): { name: string; value: number | null } | undefined {
+    const [headerRow, row] = rows
+    if (!row) return undefined
+
+    const headers = headerRow.map(String)
+    const {
+      rows: [decoded],
+    } = decodeAnnotations(args.dataset, headers, [row])
+    const value = coerceValue(decoded[headers.indexOf(args.variable)] ?? null)
+
+    return {
+      name: String(row[headers.indexOf('NAME')]),
+      value: typeof value === 'number' ? value : null,
+    }
+  }
+
+  // The parent's value is only context, so any failure to fetch it is
+  // reported as a note instead of failing the ranking
+  private async fetchParent(
+    args: RankGeographiesArgs,
+    geography: GeographySpec | undefined,
+    apiKey: string,
+  ): Promise<{ result?: FetchedRows; error?: string }> {
+    if (!geography) return {}
+
+    try {
+      return { result: await this.fetchRows(args, geography, apiKey) }
+    } catch (err) {
+      const error = this.toToolError(err, 'Parent geography fetch failed')
+      console.error(error.message)
+      return { error: error.message }
+    }
+  }
+
+  // Fetches the variable and name of the geographies, using the cache when
+  // possible
+  private async fetchRows(
+    args: RankGeographiesArgs,
+    geography: GeographySpec,
+    apiKey: string,
+  ): Promise<FetchedRows> {
+    const variables = Array.from(new Set(['NAME', args.variable]))
+    const query = new URLSearchParams({ get: variables.join(',') })
+
+    query.append('for', geography.for)
+
+    if (geography.in) {
+      query.append('in', geography.in)
+    }
+
+    query.append('descriptive', 'false')
+
+    const url = this.censusApi.buildUrl(
+      `data/${args.year}/${args.dataset}`,
+      query,
+      apiKey,
+    )
+
+    const { rows, cached } = await this.censusApi.fetchRows(
+      url,
+      args.dataset,
+      args.year,
+    )
+
+    return { rows, url, cached }
+  }
+}
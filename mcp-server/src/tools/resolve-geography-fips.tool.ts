@@ -1,16 +1,18 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js'
 
 import { BaseTool } from './base.tool.js'
+import { DatabaseUnavailableError } from '../errors/tool.errors.js'
 import { DatabaseService } from '../services/database.service.js'
 import {
   ResolveGeographyFipsArgs,
   ResolveGeographyFipsArgsSchema,
   ResolveGeographyFipsInputSchema,
+  ResolveGeographyFipsOutputSchema,
 } from '../schema/resolve-geography-fips.schema.js'
 
 import { GeographySearchResultRow } from '../types/geography.types.js'
 import { SummaryLevelRow } from '../types/summary-level.types.js'
-import { ToolContent } from '../types/base.types.js'
+import { ToolResult } from '../types/base.types.js'
 
 export const toolDescription = `
   Converts geographic place names into Census FIPS codes and query parameters. Use this tool when users reference locations by name (e.g., "Philadelphia", "Cook County", "New York State") rather than codes. Accepts natural language geography names and optional summary level filters (State, County, Place, County Subdivision). Returns FIPS codes, query syntax for fetch-aggregate-data tool, available vintages, and geographic hierarchy. Essential for translating human-readable location references into Census API parameters.
@@ -24,6 +26,8 @@ export class ResolveGeographyFipsTool extends BaseTool<ResolveGeographyFipsArgs>
 
   inputSchema: Tool['inputSchema'] =
     ResolveGeographyFipsArgsSchema as Tool['inputSchema']
+  outputSchema: Tool['outputSchema'] =
+    ResolveGeographyFipsOutputSchema as Tool['outputSchema']
 
   get argsSchema() {
     return ResolveGeographyFipsInputSchema
@@ -67,19 +71,20 @@ export class ResolveGeographyFipsTool extends BaseTool<ResolveGeographyFipsArgs>
     return result.rows
   }
 
-  async toolHandler(
-    args: ResolveGeographyFipsArgs,
-  ): Promise<{ content: ToolContent[] }> {
+  async toolHandler(args: ResolveGeographyFipsArgs): Promise<ToolResult> {
     try {
       // Check database health first
       const isDbHealthy = await this.dbService.healthCheck()
       if (!isDbHealthy) {
         return this.createErrorResponse(
-          'Database connection failed - cannot retrieve geography metadata.',
+          new DatabaseUnavailableError(
+            'Database connection failed - cannot retrieve geography metadata.',
+          ),
         )
       }
 
       let result
+      let summaryLevelCode: string | undefined
 
       if (args.summary_level) {
         const summary_levels = await this.searchSummaryLevels(
@@ -87,9 +92,10 @@ export class ResolveGeographyFipsTool extends BaseTool<ResolveGeographyFipsArgs>
         )
 
         if (summary_levels.length > 0) {
+          summaryLevelCode = summary_levels[0].code
           result = await this.searchGeographiesBySummaryLevel(
             args.geography_name,
-            summary_levels[0].code,
+            summaryLevelCode,
           )
         } else {
           result = await this.searchGeographies(args.geography_name)
@@ -98,31 +104,26 @@ export class ResolveGeographyFipsTool extends BaseTool<ResolveGeographyFipsArgs>
         result = await this.searchGeographies(args.geography_name)
       }
 
+      const structuredContent = {
+        geography_name: args.geography_name,
+        summary_level: summaryLevelCode,
+        geographies: result ?? [],
+      }
+
       if (result && result.length > 0) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Found ${result.length} Matching Geographies:\n\n${JSON.stringify(result, null, 2)}`,
-            },
-          ],
-        }
+        return this.createSuccessResponse(
+          `Found ${result.length} Matching Geographies:\n\n${JSON.stringify(result, null, 2)}`,
+          structuredContent,
+        )
       } else {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `No geographies found matching "${args.geography_name}".`,
-            },
-          ],
-        }
+        return this.createSuccessResponse(
+          `No geographies found matching "${args.geography_name}".`,
+          structuredContent,
+        )
       }
     } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : 'Unknown error occurred'
-
       return this.createErrorResponse(
-        `Failed to resolve geography: ${errorMessage}`,
+        this.toToolError(error, 'Failed to resolve geography'),
       )
     }
   }
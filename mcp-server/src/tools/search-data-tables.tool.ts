@@ -1,15 +1,17 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js'
 
 import { BaseTool } from './base.tool.js'
+import { DatabaseUnavailableError } from '../errors/tool.errors.js'
 import { DatabaseService } from '../services/database.service.js'
 import {
   SearchDataTablesArgs,
   SearchDataTablesArgsSchema,
   SearchDataTablesInputSchema,
+  SearchDataTablesOutputSchema,
 } from '../schema/search-data-tables.schema.js'
 
 import { DataTableSearchResultRow } from '../types/data-table.types.js'
-import { ToolContent } from '../types/base.types.js'
+import { ToolResult } from '../types/base.types.js'
 
 export const toolDescription = `
   Search for Census Bureau data tables by ID, label, or data API endpoint (e.g. acs/acs1). Use this tool when users reference a topic or variable category (e.g., "language spoken at home", "income by race") and need to identify the correct table ID before calling fetch-aggregate-data to retrieve the actual data. Accepts a table ID prefix (e.g., "B16005"), a natural language label query, and an optional API endpoint scope. Returns a ranked list of matching table metadata with their canonical labels, component, and available years.
@@ -34,6 +36,8 @@ export class SearchDataTablesTool extends BaseTool<SearchDataTablesArgs> {
 
   inputSchema: Tool['inputSchema'] =
     SearchDataTablesArgsSchema as unknown as Tool['inputSchema']
+  outputSchema: Tool['outputSchema'] =
+    SearchDataTablesOutputSchema as unknown as Tool['outputSchema']
 
   get argsSchema() {
     return SearchDataTablesInputSchema
@@ -63,29 +67,27 @@ export class SearchDataTablesTool extends BaseTool<SearchDataTablesArgs> {
     return result.rows
   }
 
-  async toolHandler(
-    args: SearchDataTablesArgs,
-  ): Promise<{ content: ToolContent[] }> {
+  async toolHandler(args: SearchDataTablesArgs): Promise<ToolResult> {
     try {
       // Check database health first
       const isDbHealthy = await this.dbService.healthCheck()
       if (!isDbHealthy) {
         return this.createErrorResponse(
-          'Database connection failed - cannot search data tables.',
+          new DatabaseUnavailableError(
+            'Database connection failed - cannot search data tables.',
+          ),
         )
       }
 
       const results = await this.searchDataTables(args)
 
+      const structuredContent = { data_tables: results ?? [] }
+
       if (results && results.length > 0) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Found ${results.length} Matching Data Table${results.length === 1 ? '' : 's'}:\n\n${JSON.stringify(results, null, 2)}`,
-            },
-          ],
-        }
+        return this.createSuccessResponse(
+          `Found ${results.length} Matching Data Table${results.length === 1 ? '' : 's'}:\n\n${JSON.stringify(results, null, 2)}`,
+          structuredContent,
+        )
       } else {
         const searchTerms = [
           args.data_table_id && `table ID "${args.data_table_id}"`,
@@ -95,21 +97,14 @@ export class SearchDataTablesTool extends BaseTool<SearchDataTablesArgs> {
           .filter(Boolean)
           .join(', ')
 
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `No data tables found matching ${searchTerms}.`,
-            },
-          ],
-        }
+        return this.createSuccessResponse(
+          `No data tables found matching ${searchTerms}.`,
+          structuredContent,
+        )
       }
     } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : 'Unknown error occurred'
-
       return this.createErrorResponse(
-        `Failed to search data tables: ${errorMessage}`,
+        this.toToolError(error, 'Failed to search data tables'),
       )
     }
   }
@@ -0,0 +1,10 @@
+// The total of a variable across the geographies of a custom geography.
+// Totals that cannot be computed, e.g. because a geography has no estimate,
+// are null.
+export interface AggregatedEstimate {
+  variable: string
+  label?: string
+  estimate: number | null
+  moe?: number | null
+  coefficient_of_variation?: number | null
+}
@@ -0,0 +1,13 @@
+export interface AnnotationValues {
+  identifiers: string[]
+  // The reason for each sentinel value or annotation symbol
+  values: Record<string, string>
+}
+
+// Values of a column that were replaced by nulls, grouped by value
+export interface DecodedAnnotation {
+  column: string
+  value: string
+  reason: string
+  count: number
+}
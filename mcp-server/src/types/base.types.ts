@@ -1,17 +1,27 @@
 import { TextContent, Tool } from '@modelcontextprotocol/sdk/types.js'
 import { z } from 'zod'
 
-type JsonContent = {
-  type: 'json'
-  json: object
+export type ToolContent = TextContent
+
+// A type alias rather than an interface so results satisfy the SDK's CallToolResult
+export type ToolResult = {
+  content: ToolContent[]
+  structuredContent?: Record<string, unknown>
+  isError?: boolean
+  _meta?: Record<string, unknown>
 }
 
-export type ToolContent = TextContent | JsonContent
+// Per-request state passed to tool handlers. The session id is undefined for
+// the stdio transport, which serves a single client.
+export interface ToolContext {
+  sessionId?: string
+}
 
 export interface StoredMCPTool {
   name: string
   description: string
   inputSchema: Tool['inputSchema']
+  outputSchema?: Tool['outputSchema']
   argsSchema: z.ZodSchema<object, z.ZodTypeDef, object>
-  handler: (args: object) => Promise<{ content: ToolContent[] }>
+  handler: (args: object, context?: ToolContext) => Promise<ToolResult>
 }
@@ -0,0 +1,26 @@
+export interface CacheKey {
+  datasetCode: string
+  year: number
+  variables: string[]
+  geographySpec: Record<string, unknown>
+}
+
+export interface CacheEntry<T> {
+  data: T
+  createdAt: Date
+  expiresAt: Date | null
+}
+
+export interface CacheStatus {
+  hit: boolean
+  cached_at?: string
+  expires_at?: string | null
+}
+
+export interface CacheStatsRow {
+  total_entries: string
+  expired_entries: string
+  cache_size_mb: string | null
+  most_accessed_dataset: string | null
+  avg_response_size_kb: string | null
+}
@@ -0,0 +1,40 @@
+export type CensusApiMode = 'live' | 'record' | 'replay'
+
+export interface CensusApiClientOptions {
+  mode: CensusApiMode
+  fixturesDir: string
+  baseUrl: string
+  timeoutMs: number
+  maxRetries: number
+  retryDelayMs: number
+  maxRetryDelayMs: number
+  maxConcurrentRequests: number
+}
+
+export interface CensusApiFixture {
+  url: string
+  status: number
+  statusText: string
+  headers: Record<string, string>
+  body: string
+}
+
+// A Census Data API response: a header row followed by the data rows
+export type CensusApiRows = (string | number | null)[][]
+
+export type CensusApiErrorKind =
+  | 'unknown_variable'
+  | 'unknown_predicate'
+  | 'ambiguous_geography'
+  | 'unsupported_geography'
+  | 'invalid_geography'
+  | 'too_many_variables'
+  | 'invalid_key'
+
+// The cause of a failed request, read from the error message in its body
+export interface CensusApiErrorClassification {
+  kind: CensusApiErrorKind
+  detail: string
+  values: string[]
+  hint: string
+}
@@ -0,0 +1,46 @@
+// What a citation of fetched data is built from. The title and table label
+// come from the datasets and data_tables tables when they are available.
+export interface CitationSource {
+  dataset: string
+  year?: number
+  title?: string
+  tableId?: string
+  tableLabel?: string
+  urls: string[]
+  accessed: Date
+}
+
+// The tool arguments a citation is requested with
+export type CitationRequest = Omit<
+  CitationSource,
+  'title' | 'tableLabel' | 'accessed'
+>
+
+export interface CslJsonItem {
+  id: string
+  type: 'dataset'
+  title: string
+  author: { literal: string }[]
+  publisher: string
+  'container-title'?: string
+  number?: string
+  issued?: { 'date-parts': number[][] }
+  accessed: { 'date-parts': number[][] }
+  URL: string
+  note?: string
+}
+
+export interface Citations {
+  plain: string
+  apa: string
+  chicago: string
+  bibtex: string
+  csl_json: CslJsonItem
+  url: string
+  urls: string[]
+  accessed: string
+  dataset_title: string
+  year?: number
+  table_id?: string
+  table_label?: string
+}
@@ -0,0 +1,18 @@
+import { CacheEntry } from './cache.types.js'
+import { CensusApiRows } from './census-api.types.js'
+
+export interface MissingYear {
+  year: number
+  reason: string
+}
+
+// The response of one vintage, with the requested variables it did not have.
+// Vintages without data have a reason instead of rows.
+export interface YearResult {
+  year: number
+  url: string
+  rows?: CensusApiRows
+  cached: CacheEntry<CensusApiRows> | null
+  unknownVariables: string[]
+  missing?: string
+}
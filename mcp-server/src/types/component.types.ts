@@ -0,0 +1,29 @@
+export interface ComponentListRow {
+  component_id: string
+  label: string
+  description: string
+  program_label: string
+}
+
+export interface ComponentResourceRow {
+  component_id: string
+  label: string
+  api_endpoint: string
+  description: string
+  program_acronym: string
+  program_label: string
+  years: number[]
+}
+
+export interface ProgramListRow {
+  acronym: string
+  label: string
+  description: string | null
+}
+
+export interface ProgramResourceRow {
+  acronym: string
+  label: string
+  description: string | null
+  components: { component_id: string; label: string; api_endpoint: string }[]
+}
@@ -0,0 +1,22 @@
+export interface DatasetListRow {
+  name: string
+  api_endpoint: string
+  year: number
+  description: string
+}
+
+export interface DatasetResourceRow {
+  dataset_id: string
+  name: string
+  api_endpoint: string
+  year: number
+  type: 'aggregate' | 'microdata' | 'timeseries'
+  description: string
+  temporal_start: string | null
+  temporal_end: string | null
+  component_id: string | null
+  component_label: string | null
+  program_acronym: string | null
+  program_label: string | null
+  topics: { topic_string: string; name: string }[]
+}
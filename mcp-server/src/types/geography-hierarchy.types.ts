@@ -0,0 +1,30 @@
+export interface HierarchyLevel {
+  code: string
+  name: string
+  query_name: string
+  parent_summary_level: string | null
+}
+
+// A row of the geographies table, with for_param and in_param as stored, e.g.
+// 'county%20subdivision:91835' and 'state:01%20county:001'
+export interface HierarchyGeography {
+  id: number
+  name: string
+  summary_level_code: string
+  for_param: string
+  in_param: string | null
+  parent_geography_id: number | null
+}
+
+export interface GeographyClause {
+  for: string
+  in?: string
+}
+
+// The geography the clauses are built from. When it is not the requested
+// geography, the results must be filtered back down to the requested one.
+export interface GeographyContainer {
+  geography: HierarchyGeography
+  isTarget: boolean
+  requiresFilter: boolean
+}
@@ -0,0 +1,27 @@
+// How the standard error of a weighted estimate is computed from its
+// replicate weights: SE = sqrt(factor * sum((replicate - estimate)^2))
+export interface ReplicateWeights {
+  variables: string[]
+  factor: number
+}
+
+export interface MicrodataWeight {
+  variable: string
+  replicates?: ReplicateWeights
+  // Columns that identify a record, used to join split requests
+  recordKeys: string[]
+  // Predicates that keep one record per unit, e.g. householders only
+  predicates?: Record<string, string>
+}
+
+export interface MicrodataWeights {
+  identifiers: string[]
+  defaultWeight: string
+  weights: Record<string, Omit<MicrodataWeight, 'variable'>>
+}
+
+export interface WeightedTabulation {
+  headers: string[]
+  rows: (string | number | null)[][]
+  recordCount: number
+}
@@ -0,0 +1,18 @@
+// An estimate and its 90 percent margin of error
+export interface MoeComponent {
+  estimate: number
+  moe: number
+}
+
+// An estimate column and the margin of error column that accompanies it
+export interface MoePair {
+  estimate: string
+  moe: string
+}
+
+export type MoeOperation =
+  | 'sum'
+  | 'difference'
+  | 'proportion'
+  | 'ratio'
+  | 'product'
@@ -0,0 +1 @@
+export type OutputFormat = 'text' | 'csv' | 'json' | 'json_columns' | 'markdown'
@@ -0,0 +1,19 @@
+export interface QueryToValidate {
+  dataset: string
+  year?: number
+  variables?: string[]
+  group?: string
+  predicates?: Record<string, string>
+  for?: string
+  in?: string
+  ucgid?: string
+}
+
+// A problem with a query found before it is sent, with the closest valid
+// values when there are any
+export interface QueryIssue {
+  field: 'variables' | 'group' | 'predicates' | 'for' | 'in' | 'ucgid'
+  value: string
+  message: string
+  suggestions: string[]
+}
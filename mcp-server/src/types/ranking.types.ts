@@ -0,0 +1,10 @@
+export type RankOrder = 'desc' | 'asc'
+
+// The position of a value among all ranked values. Ties share a rank.
+export interface RankedValue {
+  index: number
+  value: number
+  rank: number
+  // The percentage of the other values that are lower
+  percentile: number
+}
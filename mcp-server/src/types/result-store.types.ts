@@ -0,0 +1,27 @@
+import { CensusApiRows } from './census-api.types.js'
+import { Citations } from './citation.types.js'
+import { OutputFormat } from './output-format.types.js'
+
+// A large result kept server-side so it can be read a page at a time. The
+// column names and format are those of the first page.
+export interface StoredResult {
+  tool: string
+  dataset: string
+  year?: number
+  headers: string[]
+  names: string[]
+  rows: CensusApiRows
+  format: OutputFormat
+  textColumns: string[]
+  citation: string
+  citations: Citations
+}
+
+export interface ColumnSummary {
+  name: string
+  type: 'number' | 'string' | 'empty'
+  null_count: number
+  min?: number
+  max?: number
+  distinct_count?: number
+}
@@ -39,3 +39,16 @@ export interface ParsedGeographyEntry {
   allowsWildcard: boolean
   wildcardFor?: string[]
 }
+
+export interface SummaryLevelResourceRow {
+  code: string
+  name: string
+  description: string | null
+  get_variable: string
+  query_name: string
+  on_spine: boolean
+  hierarchy_level: number | null
+  parent_summary_level: string | null
+  parent_name: string | null
+  children: { code: string; name: string }[]
+}
@@ -0,0 +1,14 @@
+export interface TopicListRow {
+  topic_string: string
+  name: string
+  description: string
+}
+
+export interface TopicResourceRow {
+  topic_string: string
+  name: string
+  description: string
+  parent_topic_string: string | null
+  subtopics: { topic_string: string; name: string }[]
+  datasets: { api_endpoint: string; name: string; years: number[] }[]
+}
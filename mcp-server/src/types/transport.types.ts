@@ -0,0 +1,17 @@
+export type TransportMode = 'stdio' | 'http'
+
+// Requests are only served when their Host header, and their Origin header
+// if they have one, are allowed, to prevent DNS rebinding attacks
+export interface HttpTransportOptions {
+  host: string
+  port: number
+  sessionTimeoutMs: number
+  maxSessions: number
+  allowedHosts: string[]
+  allowedOrigins: string[]
+}
+
+export interface TransportConfig {
+  mode: TransportMode
+  http: HttpTransportOptions
+}
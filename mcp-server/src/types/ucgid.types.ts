@@ -0,0 +1,16 @@
+// A part of a summary level's GEOID, e.g. the 3 digit county code
+export interface UcgidComponent {
+  level: string
+  width: number
+}
+
+// e.g. 0500000US48453: summary level 050, variant 00, component 00 and GEOID
+// 48453, made of state 48 and county 453
+export interface ParsedUcgid {
+  ucgid: string
+  summaryLevel: string
+  variant: string
+  component: string
+  geoid: string
+  parts?: Record<string, string>
+}
@@ -0,0 +1,31 @@
+export interface VariableDescription {
+  name: string
+  label: string
+  concept?: string
+  group?: string
+  universe?: string
+  predicate_type?: string
+  predicate_only?: boolean
+  attributes: string[]
+  required?: boolean
+}
+
+export interface GroupDescription {
+  name: string
+  description?: string
+  universe?: string
+}
+
+// A Census label such as 'Estimate!!Total:!!Male:' split into its measure
+// and the hierarchy below it
+export interface ParsedLabel {
+  measure?: string
+  path: string[]
+}
+
+export interface ColumnLabel extends ParsedLabel {
+  name: string
+  label: string
+}
+
+export type LabelStyle = 'code' | 'label' | 'both'
@@ -0,0 +1,186 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  CensusApiError,
+  censusApiErrorFromResponse,
+  createToolErrorResult,
+  DatabaseUnavailableError,
+  InternalError,
+  MissingApiKeyError,
+  NotFoundError,
+  ToolError,
+  toToolError,
+  ValidationError,
+} from '../../src/errors/tool.errors'
+
+describe('Tool errors', () => {
+  describe('error classes', () => {
+    it('should expose a machine-readable code and hint', () => {
+      const error = new DatabaseUnavailableError('Database connection failed')
+
+      expect(error).toBeInstanceOf(ToolError)
+      expect(error).toBeInstanceOf(Error)
+      expect(error.name).toBe('DatabaseUnavailableError')
+      expect(error.code).toBe('DATABASE_UNAVAILABLE')
+      expect(error.hint).toContain('DATABASE_URL')
+    })
+
+    it('should carry validation details', () => {
+      const error = new ValidationError('Invalid arguments', { issues: [] })
+
+      expect(error.code).toBe('VALIDATION_ERROR')
+      expect(error.details).toEqual({ issues: [] })
+    })
+
+    it('should point to the key signup page when the API key is missing', () => {
+      const error = new MissingApiKeyError()
+
+      expect(error.code).toBe('MISSING_API_KEY')
+      expect(error.message).toBe('Error: CENSUS_API_KEY is not set.')
+      expect(error.hint).toContain(
+        'https://api.census.gov/data/key_signup.html',
+      )
+    })
+
+    it('should suggest retrying for rate limits and server errors', () => {
+      expect(new CensusApiError('Too many', 429).hint).toContain('try again')
+      expect(new CensusApiError('Unavailable', 503).hint).toContain('try again')
+    })
+
+    it('should suggest checking the request for client errors', () => {
+      const error = new CensusApiError('Bad Request', 400)
+
+      expect(error.code).toBe('CENSUS_API_ERROR')
+      expect(error.status).toBe(400)
+      expect(error.details).toEqual({ status: 400 })
+      expect(error.hint).toContain('fetch-dataset-geography')
+    })
+
+    it('should allow the hint to be overridden', () => {
+      expect(new CensusApiError('Oops', 400, 'Custom hint').hint).toBe(
+        'Custom hint',
+      )
+    })
+  })
+
+  describe('toToolError', () => {
+    it('should pass typed errors through unchanged', () => {
+      const error = new NotFoundError('Missing')
+
+      expect(toToolError(error, 'Prefix')).toBe(error)
+    })
+
+    it('should wrap other errors as internal errors', () => {
+      const error = toToolError(new Error('Boom'), 'Fetch failed')
+
+      expect(error).toBeInstanceOf(InternalError)
+      expect(error.code).toBe('INTERNAL_ERROR')
+      expect(error.message).toBe('Fetch failed: Boom')
+    })
+
+    it('should handle non-Error values', () => {
+      expect(toToolError('String error', 'Unexpected error').message).toBe(
+        'Unexpected error: String error',
+      )
+    })
+  })
+
+  describe('createToolErrorResult', () => {
+    it('should create an isError result with the hint and error metadata', () => {
+      const result = createToolErrorResult(
+        new CensusApiError('Census API error: 400 Bad Request', 400),
+      )
+
+      expect(result.isError).toBe(true)
+      expect(result.structuredContent).toBeUndefined()
+      expect(result.content[0].text).toMatch(
+        /^Census API error: 400 Bad Request\n\nHint: /,
+      )
+      expect(result._meta).toEqual({
+        error: {
+          code: 'CENSUS_API_ERROR',
+          message: 'Census API error: 400 Bad Request',
+          hint: expect.any(String),
+          details: { status: 400 },
+        },
+      })
+    })
+
+    it('should omit the hint line when there is no hint', () => {
+      const result = createToolErrorResult(new InternalError('Failed: Boom'))
+
+      expect(result.content[0].text).toBe('Failed: Boom')
+    })
+  })
+
+  describe('censusApiErrorFromResponse', () => {
+    it('should map 404 responses to not found errors', () => {
+      const error = censusApiErrorFromResponse(
+        'Census API error',
+        404,
+        'Not Found',
+      )
+
+      expect(error).toBeInstanceOf(NotFoundError)
+      expect(error.message).toBe('Census API error: 404 Not Found')
+      expect(error.hint).toContain('list-datasets')
+    })
+
+    it('should map other responses to Census API errors', () => {
+      const error = censusApiErrorFromResponse(
+        'Census API error',
+        500,
+        'Internal Server Error',
+      )
+
+      expect(error).toBeInstanceOf(CensusApiError)
+      expect((error as CensusApiError).status).toBe(500)
+    })
+
+    it('should translate recognised error bodies', () => {
+      const error = censusApiErrorFromResponse(
+        'Census API error',
+        400,
+        'Bad Request',
+        "error: unknown variable 'B1901_001E'",
+      )
+
+      expect(error).toBeInstanceOf(CensusApiError)
+      expect(error.message).toBe(
+        "Census API error: 400 Bad Request: unknown variable 'B1901_001E'",
+      )
+      expect(error.hint).toContain('search-data-tables')
+      expect(error.details).toEqual({
+        status: 400,
+        kind: 'unknown_variable',
+        values: ['B1901_001E'],
+      })
+    })
+
+    it('should keep the default message for unrecognised bodies', () => {
+      const error = censusApiErrorFromResponse(
+        'Census API error',
+        400,
+        'Bad Request',
+        'Something went wrong',
+      )
+
+      expect(error.message).toBe('Census API error: 400 Bad Request')
+      expect(error.details).toEqual({ status: 400 })
+    })
+
+    it('should map 204 responses to not found errors', () => {
+      const error = censusApiErrorFromResponse(
+        'Census API error',
+        204,
+        'No Content',
+      )
+
+      expect(error).toBeInstanceOf(NotFoundError)
+      expect(error.message).toBe(
+        'Census API error: 204 No Content: The query returned no data.',
+      )
+      expect(error.hint).toContain('resolve-geography-fips')
+    })
+  })
+})
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest'
+import {
+  addMoeCompanions,
+  coefficientOfVariation,
+  moeCompanion,
+  moeOfProduct,
+  moeOfProportion,
+  moeOfRatio,
+  moeOfSum,
+  pairMoeColumns,
+  standardErrorOf,
+} from '../../src/helpers/acs-moe'
+
+describe('moeCompanion', () => {
+  it('should return the margin of error of ACS estimate variables', () => {
+    expect(moeCompanion('B01001_001E')).toBe('B01001_001M')
+    expect(moeCompanion('S0101_C01_001E')).toBe('S0101_C01_001M')
+    expect(moeCompanion('DP05_0001PE')).toBe('DP05_0001PM')
+  })
+
+  it('should ignore other variables', () => {
+    expect(moeCompanion('NAME')).toBeNull()
+    expect(moeCompanion('B01001_001M')).toBeNull()
+    expect(moeCompanion('B01001_001EA')).toBeNull()
+  })
+})
+
+describe('addMoeCompanions', () => {
+  it('should add missing margins of error after their estimates', () => {
+    expect(
+      addMoeCompanions(['NAME', 'B01001_001E', 'B01001_002E', 'B01001_002M']),
+    ).toEqual([
+      'NAME',
+      'B01001_001E',
+      'B01001_001M',
+      'B01001_002E',
+      'B01001_002M',
+    ])
+  })
+})
+
+describe('pairMoeColumns', () => {
+  it('should pair estimates with the margins of error present', () => {
+    expect(
+      pairMoeColumns(['B01001_001E', 'B01001_001M', 'B01001_002E', 'state']),
+    ).toEqual([{ estimate: 'B01001_001E', moe: 'B01001_001M' }])
+  })
+})
+
+describe('ACS margin of error formulas', () => {
+  it('should calculate the margin of error of sums', () => {
+    expect(
+      moeOfSum([
+        { estimate: 10, moe: 3 },
+        { estimate: 20, moe: 4 },
+      ]),
+    ).toBe(5)
+  })
+
+  it('should only include the largest margin of error of zero estimates', () => {
+    expect(
+      moeOfSum([
+        { estimate: 0, moe: 10 },
+        { estimate: 0, moe: 20 },
+        { estimate: 5, moe: 0 },
+      ]),
+    ).toBe(20)
+  })
+
+  it('should calculate the margin of error of ratios', () => {
+    expect(
+      moeOfRatio({ estimate: 50, moe: 6 }, { estimate: 100, moe: 8 }),
+    ).toBeCloseTo(Math.sqrt(52) / 100)
+  })
+
+  it('should calculate the margin of error of proportions', () => {
+    expect(
+      moeOfProportion({ estimate: 50, moe: 6 }, { estimate: 100, moe: 8 }),
+    ).toBeCloseTo(Math.sqrt(20) / 100)
+  })
+
+  it('should fall back to the ratio formula for negative radicands', () => {
+    expect(
+      moeOfProportion({ estimate: 50, moe: 2 }, { estimate: 100, moe: 8 }),
+    ).toBeCloseTo(Math.sqrt(20) / 100)
+  })
+
+  it('should calculate the margin of error of products', () => {
+    expect(
+      moeOfProduct({ estimate: 10, moe: 2 }, { estimate: 5, moe: 1 }),
+    ).toBeCloseTo(Math.sqrt(200))
+  })
+
+  it('should convert margins of error to standard errors and CVs', () => {
+    expect(standardErrorOf(16.45)).toBeCloseTo(10)
+    expect(coefficientOfVariation(100, 16.45)).toBeCloseTo(10)
+    expect(coefficientOfVariation(0, 16.45)).toBeNull()
+  })
+})
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest'
+import { nonAdditiveReason } from '../../src/helpers/additivity'
+
+describe('nonAdditiveReason', () => {
+  it('should allow counts', () => {
+    expect(
+      nonAdditiveReason('B01001_002E', {
+        label: 'Estimate!!Total:!!Male:',
+        predicateType: 'int',
+      }),
+    ).toBeUndefined()
+  })
+
+  it('should refuse medians, averages and rates', () => {
+    expect(
+      nonAdditiveReason('B19013_001E', {
+        label:
+          'Estimate!!Median household income in the past 12 months (in 2022 inflation-adjusted dollars)',
+        predicateType: 'int',
+      }),
+    ).toBe('median')
+    expect(
+      nonAdditiveReason('S2301_C04_001E', {
+        label: 'Estimate!!Unemployment rate!!Population 16 years and over',
+      }),
+    ).toBe('rate')
+  })
+
+  it('should refuse percentages and margins of error', () => {
+    expect(
+      nonAdditiveReason('DP05_0002PE', { label: 'Percent!!SEX AND AGE!!Male' }),
+    ).toBe('percent')
+    expect(
+      nonAdditiveReason('B01001_002M', {
+        label: 'Margin of Error!!Total:!!Male:',
+      }),
+    ).toBe('margin of error')
+  })
+
+  it('should refuse text variables', () => {
+    expect(
+      nonAdditiveReason('NAME', {
+        label: 'Geographic Area Name',
+        predicateType: 'string',
+      }),
+    ).toBe('not numeric')
+  })
+})
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest'
+import {
+  decodeAnnotations,
+  formatAnnotations,
+} from '../../src/helpers/annotations'
+
+describe('decodeAnnotations', () => {
+  it('should replace ACS sentinel values with nulls', () => {
+    const { rows, annotations } = decodeAnnotations(
+      'acs/acs5',
+      ['NAME', 'B19013_001E', 'B19013_001M', 'state'],
+      [
+        ['Alabama', '59609', '377', '01'],
+        ['Loving County', '-666666666', '-222222222', '48'],
+        ['Kenedy County', -666666666, '-222222222', '48'],
+      ],
+      ['state'],
+    )
+
+    expect(rows).toEqual([
+      ['Alabama', '59609', '377', '01'],
+      ['Loving County', null, null, '48'],
+      ['Kenedy County', null, null, '48'],
+    ])
+    expect(annotations).toEqual([
+      {
+        column: 'B19013_001E',
+        value: '-666666666',
+        reason: expect.stringContaining('too few sample observations'),
+        count: 2,
+      },
+      {
+        column: 'B19013_001M',
+        value: '-222222222',
+        reason: expect.stringContaining('Margin of error could not'),
+        count: 2,
+      },
+    ])
+  })
+
+  it('should use annotation columns to explain their values', () => {
+    const { rows, annotations } = decodeAnnotations(
+      'acs/acs1',
+      ['B01001_001E', 'B01001_001EA', 'B01001_001M', 'B01001_001MA'],
+      [['5074296', null, '5000', '*****']],
+    )
+
+    expect(rows).toEqual([['5074296', null, null, '*****']])
+    expect(annotations).toEqual([
+      {
+        column: 'B01001_001M',
+        value: '*****',
+        reason:
+          'Estimate is controlled, so a margin of error is not appropriate',
+        count: 1,
+      },
+    ])
+  })
+
+  it('should leave other datasets and text columns as they are', () => {
+    const rows = [['-666666666', '-']]
+
+    expect(
+      decodeAnnotations('dec/pl', ['P1_001N', 'state'], rows).annotations,
+    ).toEqual([])
+    expect(
+      decodeAnnotations(
+        'acs/acs1',
+        ['B01001_001E', 'state'],
+        [['1', '-']],
+        ['state'],
+      ).rows,
+    ).toEqual([['1', '-']])
+  })
+})
+
+describe('formatAnnotations', () => {
+  it('should list each value with its row count and reason', () => {
+    expect(
+      formatAnnotations([
+        {
+          column: 'B19013_001E',
+          value: '-666666666',
+          reason: 'Reason',
+          count: 1,
+        },
+      ]),
+    ).toBe('- B19013_001E: -666666666 in 1 row. Reason.')
+  })
+})
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest'
+import {
+  CATALOG_CACHE_TTL_MS,
+  CURRENT_DATA_CACHE_TTL_MS,
+  getCacheTtlMs,
+  HISTORICAL_DATA_CACHE_TTL_MS,
+} from '../../src/helpers/cache-ttl'
+
+describe('getCacheTtlMs', () => {
+  const now = new Date('2025-06-01T00:00:00Z')
+
+  it('should keep the catalog for a short time', () => {
+    expect(getCacheTtlMs(undefined, undefined, now)).toBe(CATALOG_CACHE_TTL_MS)
+  })
+
+  it('should treat timeseries datasets as current', () => {
+    expect(getCacheTtlMs('timeseries/healthins/sahie', undefined, now)).toBe(
+      CURRENT_DATA_CACHE_TTL_MS,
+    )
+  })
+
+  it('should treat recent vintages as current', () => {
+    expect(getCacheTtlMs('acs/acs1', 2025, now)).toBe(CURRENT_DATA_CACHE_TTL_MS)
+    expect(getCacheTtlMs('acs/acs1', 2024, now)).toBe(CURRENT_DATA_CACHE_TTL_MS)
+  })
+
+  it('should keep historical vintages for a long time', () => {
+    expect(getCacheTtlMs('acs/acs5', 2020, now)).toBe(
+      HISTORICAL_DATA_CACHE_TTL_MS,
+    )
+  })
+})
@@ -0,0 +1,71 @@
+import path from 'node:path'
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_CENSUS_API_BASE_URL,
+  DEFAULT_CENSUS_API_FIXTURES_DIR,
+  DEFAULT_CENSUS_API_MAX_CONCURRENT_REQUESTS,
+  DEFAULT_CENSUS_API_MAX_RETRIES,
+  DEFAULT_CENSUS_API_MAX_RETRY_DELAY_MS,
+  DEFAULT_CENSUS_API_RETRY_DELAY_MS,
+  DEFAULT_CENSUS_API_TIMEOUT_MS,
+  resolveCensusApiConfig,
+} from '../../src/helpers/census-api-config'
+
+describe('resolveCensusApiConfig', () => {
+  it('should use the defaults when no environment variables are set', () => {
+    expect(resolveCensusApiConfig({})).toEqual({
+      mode: 'live',
+      fixturesDir: path.resolve(DEFAULT_CENSUS_API_FIXTURES_DIR),
+      baseUrl: DEFAULT_CENSUS_API_BASE_URL,
+      timeoutMs: DEFAULT_CENSUS_API_TIMEOUT_MS,
+      maxRetries: DEFAULT_CENSUS_API_MAX_RETRIES,
+      retryDelayMs: DEFAULT_CENSUS_API_RETRY_DELAY_MS,
+      maxRetryDelayMs: DEFAULT_CENSUS_API_MAX_RETRY_DELAY_MS,
+      maxConcurrentRequests: DEFAULT_CENSUS_API_MAX_CONCURRENT_REQUESTS,
+    })
+  })
+
+  it('should read the options from environment variables', () => {
+    expect(
+      resolveCensusApiConfig({
+        CENSUS_API_MODE: 'Replay',
+        CENSUS_API_FIXTURES_DIR: '/tmp/fixtures',
+        CENSUS_API_BASE_URL: 'http://localhost:8080/',
+        CENSUS_API_TIMEOUT_MS: '5000',
+        CENSUS_API_MAX_RETRIES: '0',
+        CENSUS_API_RETRY_DELAY_MS: '250',
+        CENSUS_API_MAX_RETRY_DELAY_MS: '2000',
+        CENSUS_API_MAX_CONCURRENT_REQUESTS: '2',
+      }),
+    ).toEqual({
+      mode: 'replay',
+      fixturesDir: '/tmp/fixtures',
+      baseUrl: 'http://localhost:8080',
+      timeoutMs: 5000,
+      maxRetries: 0,
+      retryDelayMs: 250,
+      maxRetryDelayMs: 2000,
+      maxConcurrentRequests: 2,
+    })
+  })
+
+  it('should reject unknown modes', () => {
+    expect(() =>
+      resolveCensusApiConfig({ CENSUS_API_MODE: 'offline' }),
+    ).toThrow(
+      'Invalid Census API mode: offline. Expected one of: live, record, replay',
+    )
+  })
+
+  it('should reject invalid values', () => {
+    expect(() =>
+      resolveCensusApiConfig({ CENSUS_API_TIMEOUT_MS: '0' }),
+    ).toThrow('Invalid Census API timeout: 0')
+    expect(() =>
+      resolveCensusApiConfig({ CENSUS_API_MAX_RETRIES: '-1' }),
+    ).toThrow('Invalid Census API retry count: -1')
+    expect(() =>
+      resolveCensusApiConfig({ CENSUS_API_MAX_CONCURRENT_REQUESTS: 'many' }),
+    ).toThrow('Invalid Census API concurrency limit: many')
+  })
+})
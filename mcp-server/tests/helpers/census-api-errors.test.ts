@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  classifyCensusApiError,
+  errorDetail,
+  readErrorBody,
+} from '../../src/helpers/census-api-errors'
+
+describe('census-api-errors', () => {
+  describe('classifyCensusApiError', () => {
+    it('should classify unknown variables', () => {
+      const classification = classifyCensusApiError(
+        "error: error: unknown variable 'B1901_001E'",
+      )
+
+      expect(classification).toMatchObject({
+        kind: 'unknown_variable',
+        detail: "unknown variable 'B1901_001E'",
+        values: ['B1901_001E'],
+      })
+      expect(classification?.hint).toContain('search-data-tables')
+    })
+
+    it('should list every unknown variable once', () => {
+      const classification = classifyCensusApiError(
+        "error: unknown variable 'A1'\nerror: unknown variable 'B2'\nerror: unknown variable 'A1'",
+      )
+
+      expect(classification?.values).toEqual(['A1', 'B2'])
+    })
+
+    it('should classify unknown predicates', () => {
+      expect(
+        classifyCensusApiError("error: unknown predicate variable: 'AGE'"),
+      ).toMatchObject({ kind: 'unknown_predicate', values: ['AGE'] })
+    })
+
+    it('should point ambiguous geographies to fetch-dataset-geography', () => {
+      const classification = classifyCensusApiError(
+        'error: ambiguous geography',
+      )
+
+      expect(classification?.kind).toBe('ambiguous_geography')
+      expect(classification?.hint).toContain('fetch-dataset-geography')
+    })
+
+    it('should classify unsupported geography hierarchies', () => {
+      expect(
+        classifyCensusApiError('error: unknown/unsupported geography hierarchy')
+          ?.kind,
+      ).toBe('unsupported_geography')
+    })
+
+    it('should point invalid geography codes to resolve-geography-fips', () => {
+      const classification = classifyCensusApiError(
+        "error: invalid 'for' argument",
+      )
+
+      expect(classification).toMatchObject({
+        kind: 'invalid_geography',
+        values: ['for'],
+      })
+      expect(classification?.hint).toContain('resolve-geography-fips')
+    })
+
+    it('should classify rejected API keys in HTML bodies', () => {
+      const classification = classifyCensusApiError(
+        '<html><body><p>Invalid Key</p><p>A valid <em>key</em> must be included with each data API request.</p></body></html>',
+      )
+
+      expect(classification?.kind).toBe('invalid_key')
+      expect(classification?.detail).toBe(
+        'Invalid Key A valid key must be included with each data API request.',
+      )
+    })
+
+    it('should return null for unrecognised bodies', () => {
+      expect(classifyCensusApiError('Something went wrong')).toBeNull()
+      expect(classifyCensusApiError('')).toBeNull()
+    })
+  })
+
+  describe('errorDetail', () => {
+    it('should truncate long bodies', () => {
+      expect(errorDetail('x'.repeat(1000))).toHaveLength(300)
+    })
+  })
+
+  describe('readErrorBody', () => {
+    it('should read the response text', async () => {
+      await expect(
+        readErrorBody(new Response('error: ambiguous geography')),
+      ).resolves.toBe('error: ambiguous geography')
+    })
+
+    it('should return an empty body when the text cannot be read', async () => {
+      await expect(
+        readErrorBody({ text: () => Promise.reject(new Error('Aborted')) }),
+      ).resolves.toBe('')
+    })
+  })
+})
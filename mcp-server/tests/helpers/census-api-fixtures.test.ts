@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest'
+import {
+  getFixturePath,
+  redactFixtureUrl,
+  stripApiKey,
+} from '../../src/helpers/census-api-fixtures'
+
+describe('Census API fixtures', () => {
+  const url =
+    'https://api.census.gov/data/2022/acs/acs1?get=NAME&for=state%3A*&key=secret'
+
+  it('should remove the API key from the request URL', () => {
+    expect(stripApiKey(url)).toBe(
+      'https://api.census.gov/data/2022/acs/acs1?get=NAME&for=state%3A*',
+    )
+  })
+
+  it('should redact the API key for display', () => {
+    expect(redactFixtureUrl(url)).toBe(
+      'https://api.census.gov/data/2022/acs/acs1?get=NAME&for=state%3A*&key=REDACTED',
+    )
+    expect(redactFixtureUrl('https://api.census.gov/data.json')).toBe(
+      'https://api.census.gov/data.json',
+    )
+  })
+
+  it('should name fixtures after the path and a hash of the request', () => {
+    const fixturePath = getFixturePath('/fixtures', url)
+
+    expect(fixturePath).toMatch(
+      /^\/fixtures\/data_2022_acs_acs1-[0-9a-f]{16}\.json$/,
+    )
+    expect(getFixturePath('/fixtures', url.replace('secret', 'other'))).toBe(
+      fixturePath,
+    )
+    expect(
+      getFixturePath('/fixtures', url.replace('state%3A*', 'state%3A01')),
+    ).not.toBe(fixturePath)
+  })
+})
@@ -1,5 +1,11 @@
 import { afterEach, beforeEach, describe, expect, it } from 'vitest'
-import { buildCitation } from '../../src/helpers/citation'
+import {
+  buildCitation,
+  formatCitations,
+  redactApiKey,
+  stableUrl,
+  tableIdOf,
+} from '../../src/helpers/citation'
 
 describe('buildCitation', () => {
   let originalApiKey: string | undefined
@@ -34,3 +40,190 @@ describe('buildCitation', () => {
     )
   })
 })
+
+describe('buildCitation with several URLs', () => {
+  afterEach(() => {
+    delete process.env.CENSUS_API_KEY
+  })
+
+  it('should cite every URL in one citation', () => {
+    process.env.CENSUS_API_KEY = 'test-api-key'
+
+    expect(
+      buildCitation(
+        'https://api.census.gov/data/2020/acs/acs5?get=A&key=test-api-key',
+        'https://api.census.gov/data/2020/acs/acs5?get=B&key=test-api-key',
+      ),
+    ).toBe(
+      'Source: U.S. Census Bureau Data API (https://api.census.gov/data/2020/acs/acs5?get=A&key=REDACTED; https://api.census.gov/data/2020/acs/acs5?get=B&key=REDACTED)',
+    )
+  })
+})
+
+describe('redactApiKey', () => {
+  afterEach(() => {
+    delete process.env.CENSUS_API_KEY
+  })
+
+  it('should replace the API key in the URL', () => {
+    process.env.CENSUS_API_KEY = 'test-api-key'
+
+    expect(
+      redactApiKey(
+        'https://api.census.gov/data/2020/acs/acs5?key=test-api-key',
+      ),
+    ).toBe('https://api.census.gov/data/2020/acs/acs5?key=REDACTED')
+  })
+
+  it('should return the URL unchanged when API key is not set', () => {
+    const url = 'https://api.census.gov/data/2020/acs/acs5'
+    expect(redactApiKey(url)).toBe(url)
+  })
+})
+
+describe('stableUrl', () => {
+  it('should remove the API key from the URL', () => {
+    expect(
+      stableUrl(
+        'https://api.census.gov/data/2022/acs/acs1?get=B19013_001E&for=state%3A06&key=test-api-key',
+      ),
+    ).toBe(
+      'https://api.census.gov/data/2022/acs/acs1?get=B19013_001E&for=state%3A06',
+    )
+    expect(
+      stableUrl('https://api.census.gov/data/2022/acs/acs1?key=test-api-key'),
+    ).toBe('https://api.census.gov/data/2022/acs/acs1')
+  })
+})
+
+describe('tableIdOf', () => {
+  it('should return the table shared by every variable', () => {
+    expect(tableIdOf(['NAME', 'B19013_001E', 'B19013_001M'])).toBe('B19013')
+    expect(tableIdOf(['S1701_C03_001E'])).toBe('S1701')
+    expect(tableIdOf(['B19013A_001E'])).toBe('B19013A')
+  })
+
+  it('should return undefined for variables from several or no tables', () => {
+    expect(tableIdOf(['B19013_001E', 'B01001_001E'])).toBeUndefined()
+    expect(tableIdOf(['NAME', 'PWGTP'])).toBeUndefined()
+  })
+})
+
+describe('formatCitations', () => {
+  const source = {
+    dataset: 'acs/acs1',
+    year: 2022,
+    title: 'American Community Survey: 1-Year Estimates: Detailed Tables',
+    tableId: 'B19013',
+    tableLabel: 'Median Household Income in the Past 12 Months',
+    urls: [
+      'https://api.census.gov/data/2022/acs/acs1?get=B19013_001E&key=test-api-key',
+    ],
+    accessed: new Date('2025-01-31T12:00:00Z'),
+  }
+  const url = 'https://api.census.gov/data/2022/acs/acs1?get=B19013_001E'
+
+  it('should render plain, APA and Chicago citations', () => {
+    const citations = formatCitations(source)
+
+    expect(citations.plain).toBe(
+      `U.S. Census Bureau. American Community Survey: 1-Year Estimates: Detailed Tables, 2022. Table B19013: Median Household Income in the Past 12 Months. ${url} (accessed 2025-01-31).`,
+    )
+    expect(citations.apa).toBe(
+      `U.S. Census Bureau. (2022). Table B19013: Median Household Income in the Past 12 Months [Data set]. American Community Survey: 1-Year Estimates: Detailed Tables. Retrieved January 31, 2025, from ${url}`,
+    )
+    expect(citations.chicago).toBe(
+      `U.S. Census Bureau. "Table B19013: Median Household Income in the Past 12 Months." American Community Survey: 1-Year Estimates: Detailed Tables, 2022. Accessed January 31, 2025. ${url}.`,
+    )
+  })
+
+  it('should render BibTeX and CSL-JSON entries', () => {
+    const citations = formatCitations(source)
+
+    expect(citations.bibtex).toBe(
+      [
+        '@misc{census_acs_acs1_2022_b19013,',
+        '  author = {{U.S. Census Bureau}},',
+        '  title = {{Table B19013: Median Household Income in the Past 12 Months}},',
+        '  howpublished = {American Community Survey: 1-Year Estimates: Detailed Tables, 2022},',
+        '  year = {2022},',
+        '  url = {https://api.census.gov/data/2022/acs/acs1?get=B19013\\_001E},',
+        '  urldate = {2025-01-31},',
+        '}',
+      ].join('\n'),
+    )
+    expect(citations.csl_json).toEqual({
+      id: 'census_acs_acs1_2022_b19013',
+      type: 'dataset',
+      title: 'Table B19013: Median Household Income in the Past 12 Months',
+      author: [{ literal: 'U.S. Census Bureau' }],
+      publisher: 'U.S. Census Bureau',
+      'container-title':
+        'American Community Survey: 1-Year Estimates: Detailed Tables',
+      number: 'B19013',
+      issued: { 'date-parts': [[2022]] },
+      accessed: { 'date-parts': [[2025, 1, 31]] },
+      URL: url,
+    })
+  })
+
+  it('should cite every URL of data fetched with several requests', () => {
+    const otherUrl = 'https://api.census.gov/data/2022/acs/acs1?get=B19013_001M'
+    const citations = formatCitations({
+      ...source,
+      urls: [...source.urls, `${otherUrl}&key=test-api-key`],
+    })
+
+    expect(citations.plain).toBe(
+      `U.S. Census Bureau. American Community Survey: 1-Year Estimates: Detailed Tables, 2022. Table B19013: Median Household Income in the Past 12 Months. ${url}; ${otherUrl} (accessed 2025-01-31).`,
+    )
+    expect(citations.bibtex).toContain(
+      '  note = {Also retrieved from https://api.census.gov/data/2022/acs/acs1?get=B19013\\_001M},',
+    )
+    expect(citations.csl_json).toMatchObject({
+      URL: url,
+      note: `Also retrieved from ${otherUrl}`,
+    })
+    expect(citations).toMatchObject({ url, urls: [url, otherUrl] })
+  })
+
+  it('should cite datasets without a title, table or vintage', () => {
+    const citations = formatCitations({
+      dataset: 'timeseries/eits/resconst',
+      urls: ['https://api.census.gov/data/timeseries/eits/resconst'],
+      accessed: new Date('2025-01-31T12:00:00Z'),
+    })
+
+    expect(citations).toMatchObject({
+      apa: 'U.S. Census Bureau. (n.d.). timeseries/eits/resconst [Data set]. Retrieved January 31, 2025, from https://api.census.gov/data/timeseries/eits/resconst',
+      dataset_title: 'timeseries/eits/resconst',
+      accessed: '2025-01-31',
+    })
+    expect(citations.year).toBeUndefined()
+    expect(citations.csl_json.issued).toBeUndefined()
+  })
+
+  it('should escape BibTeX special characters', () => {
+    const citations = formatCitations({
+      ...source,
+      tableLabel: 'Income & Benefits (in 2022 dollars) 100%',
+    })
+
+    expect(citations.bibtex).toContain(
+      'title = {{Table B19013: Income \\& Benefits (in 2022 dollars) 100\\%}}',
+    )
+  })
+
+  it('should escape BibTeX special characters in the URL', () => {
+    const citations = formatCitations({
+      ...source,
+      urls: [
+        'https://api.census.gov/data/2022/acs/acs1?get=NAME%2CB19013_001E&for=state%3A*#rows',
+      ],
+    })
+
+    expect(citations.bibtex).toContain(
+      'url = {https://api.census.gov/data/2022/acs/acs1?get=NAME\\%2CB19013\\_001E\\&for=state\\%3A*\\#rows},',
+    )
+  })
+})
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  formatColumnSummary,
+  summarizeColumns,
+} from '../../src/helpers/column-summary'
+
+describe('column-summary', () => {
+  const headers = ['NAME', 'B01001_001E', 'B19013_001E', 'state']
+  const rows = [
+    ['Alabama', '5108468', null, '01'],
+    ['Alaska', '733406', null, '02'],
+    ['Arizona', '7431344', null, '04'],
+  ]
+
+  it('should summarize numeric, text and empty columns', () => {
+    expect(summarizeColumns(headers, rows, ['state'])).toEqual([
+      { name: 'NAME', type: 'string', null_count: 0, distinct_count: 3 },
+      {
+        name: 'B01001_001E',
+        type: 'number',
+        null_count: 0,
+        min: 733406,
+        max: 7431344,
+      },
+      { name: 'B19013_001E', type: 'empty', null_count: 3 },
+      { name: 'state', type: 'string', null_count: 0, distinct_count: 3 },
+    ])
+  })
+
+  it('should count nulls in columns with values', () => {
+    const [summary] = summarizeColumns(['B01001_001E'], [['1'], [null], ['3']])
+
+    expect(summary).toMatchObject({ type: 'number', null_count: 1, max: 3 })
+  })
+
+  it('should format one line per column', () => {
+    expect(
+      formatColumnSummary(summarizeColumns(headers, rows, ['state'])),
+    ).toBe(
+      [
+        'NAME: text, 3 distinct',
+        'B01001_001E: number, 733406 to 7431344',
+        'B19013_001E: empty',
+        'state: text, 3 distinct',
+      ].join('\n'),
+    )
+  })
+})
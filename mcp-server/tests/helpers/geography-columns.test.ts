@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest'
+import { geographyColumns } from '../../src/helpers/geography-columns'
+
+describe('geographyColumns', () => {
+  it('should name the parent geographies before the requested one', () => {
+    expect(
+      geographyColumns({ for: 'tract:*', in: 'state:06+county:001' }),
+    ).toEqual(['state', 'county', 'tract'])
+  })
+
+  it('should use the ucgid column for ucgid requests', () => {
+    expect(geographyColumns({ ucgid: '0400000US06' })).toEqual(['ucgid'])
+  })
+
+  it('should return no columns without a geography', () => {
+    expect(geographyColumns({})).toEqual([])
+  })
+})
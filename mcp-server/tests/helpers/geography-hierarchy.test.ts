@@ -0,0 +1,174 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  clauseWithin,
+  expansionPath,
+  findContainer,
+  geographyClause,
+  levelAncestors,
+  mergeClauses,
+  NATION,
+  parseGeographyParam,
+} from '../../src/helpers/geography-hierarchy'
+import {
+  HierarchyGeography,
+  HierarchyLevel,
+} from '../../src/types/geography-hierarchy.types'
+
+const levels = new Map<string, HierarchyLevel>(
+  [
+    ['010', 'United States', 'United States', null],
+    ['020', 'Region', 'region', '010'],
+    ['030', 'Division', 'division', '020'],
+    ['040', 'State', 'state', '030'],
+    ['050', 'County', 'county', '040'],
+    ['060', 'County Subdivision', 'county subdivision', '050'],
+    ['140', 'Census Tract', 'census tract', '050'],
+    ['150', 'Block Group', 'block group', '140'],
+    ['160', 'Place', 'place', '040'],
+    ['860', 'ZIP Code Tabulation Area', 'zip code tabulation area', '010'],
+  ].map(([code, name, query_name, parent_summary_level]) => [
+    code!,
+    { code: code!, name: name!, query_name: query_name!, parent_summary_level },
+  ]),
+)
+
+const texas: HierarchyGeography = {
+  id: 2,
+  name: 'Texas',
+  summary_level_code: '040',
+  for_param: 'state:48',
+  in_param: null,
+  parent_geography_id: 1,
+}
+
+const travis: HierarchyGeography = {
+  id: 3,
+  name: 'Travis County, Texas',
+  summary_level_code: '050',
+  for_param: 'county:453',
+  in_param: 'state:48',
+  parent_geography_id: 2,
+}
+
+const austin: HierarchyGeography = {
+  id: 4,
+  name: 'Austin city, Texas',
+  summary_level_code: '160',
+  for_param: 'place:05000',
+  in_param: 'state:48',
+  parent_geography_id: 2,
+}
+
+describe('geography-hierarchy', () => {
+  it('should list the ancestors of a summary level', () => {
+    expect(levelAncestors(levels, '150')).toEqual([
+      '140',
+      '050',
+      '040',
+      '030',
+      '020',
+      '010',
+    ])
+    expect(levelAncestors(levels, '999')).toEqual([])
+  })
+
+  describe('findContainer', () => {
+    it('should use the geography when the level is nested in it', () => {
+      expect(findContainer(levels, [travis, texas], '140')).toEqual({
+        geography: travis,
+        isTarget: false,
+        requiresFilter: false,
+      })
+    })
+
+    it('should use the nearest containing ancestor and require a filter', () => {
+      expect(findContainer(levels, [austin, texas], '140')).toEqual({
+        geography: texas,
+        isTarget: false,
+        requiresFilter: true,
+      })
+    })
+
+    it('should return the ancestor at the requested level', () => {
+      expect(findContainer(levels, [travis, texas], '040')).toMatchObject({
+        geography: texas,
+        isTarget: true,
+        requiresFilter: false,
+      })
+    })
+
+    it('should fall back to the nation', () => {
+      expect(findContainer(levels, [texas], '860')).toEqual({
+        geography: NATION,
+        isTarget: false,
+        requiresFilter: true,
+      })
+    })
+  })
+
+  it('should list the levels between the container and the target', () => {
+    expect(expansionPath(levels, '040', '150')).toEqual(['050', '140', '150'])
+    expect(expansionPath(levels, '050', '140')).toEqual(['140'])
+  })
+
+  it('should parse stored geography parameters', () => {
+    expect(parseGeographyParam('state:01%20county:001')).toEqual([
+      'state:01',
+      'county:001',
+    ])
+    expect(parseGeographyParam('county%20subdivision:91835')).toEqual([
+      'county subdivision:91835',
+    ])
+    expect(parseGeographyParam(null)).toEqual([])
+  })
+
+  it('should build the clause of a geography', () => {
+    expect(geographyClause(travis)).toEqual({
+      for: 'county:453',
+      in: 'state:48',
+    })
+    expect(geographyClause(texas)).toEqual({ for: 'state:48' })
+  })
+
+  describe('clauseWithin', () => {
+    it('should add wildcards for the levels in between', () => {
+      expect(clauseWithin(levels, texas, ['050', '140', '150'])).toEqual({
+        for: 'block group:*',
+        in: 'state:48+county:*+tract:*',
+      })
+    })
+
+    it('should use the API name of census tracts', () => {
+      expect(clauseWithin(levels, travis, ['140'])).toEqual({
+        for: 'tract:*',
+        in: 'state:48+county:453',
+      })
+    })
+
+    it('should not restrict geographies in the nation', () => {
+      expect(clauseWithin(levels, NATION, ['860'])).toEqual({
+        for: 'zip code tabulation area:*',
+      })
+      expect(clauseWithin(levels, NATION, ['020', '030', '040'])).toEqual({
+        for: 'state:*',
+      })
+    })
+  })
+
+  it('should merge clauses of the same level and parent', () => {
+    expect(
+      mergeClauses([
+        { for: 'state:04' },
+        { for: 'state:06' },
+        { for: 'county:001', in: 'state:48' },
+        { for: 'county:003', in: 'state:48' },
+        { for: 'county:001', in: 'state:06' },
+      ]),
+    ).toEqual([
+      { for: 'state:04,06' },
+      { for: 'county:001,003', in: 'state:48' },
+      { for: 'county:001', in: 'state:06' },
+    ])
+  })
+})
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest'
+import {
+  coerceRows,
+  coerceValue,
+  formatRows,
+} from '../../src/helpers/output-format'
+
+describe('coerceValue', () => {
+  it('should convert numeric strings to numbers', () => {
+    expect(coerceValue('5074296')).toBe(5074296)
+    expect(coerceValue('-666666666')).toBe(-666666666)
+    expect(coerceValue('12.5')).toBe(12.5)
+    expect(coerceValue('0')).toBe(0)
+  })
+
+  it('should keep codes and other values as they are', () => {
+    expect(coerceValue('06')).toBe('06')
+    expect(coerceValue('Alabama')).toBe('Alabama')
+    expect(coerceValue('1e5')).toBe('1e5')
+    expect(coerceValue(null)).toBeNull()
+  })
+})
+
+describe('coerceRows', () => {
+  it('should keep text columns as strings', () => {
+    expect(
+      coerceRows(
+        ['NAME', 'B01001_001E', 'state'],
+        [['Florida', '21781128', '12']],
+        ['state'],
+      ),
+    ).toEqual([['Florida', 21781128, '12']])
+  })
+})
+
+describe('formatRows', () => {
+  const headers = ['NAME', 'B01001_001E', 'state']
+  const rows = [
+    ['Washington, DC', 689545, '11'],
+    ['Alabama', null, '01'],
+  ]
+
+  it('should render header and value lines', () => {
+    expect(formatRows(headers, rows, 'text')).toBe(
+      'NAME: Washington, DC, B01001_001E: 689545, state: 11\nNAME: Alabama, B01001_001E: null, state: 01',
+    )
+  })
+
+  it('should render CSV with quoted fields', () => {
+    expect(formatRows(headers, rows, 'csv')).toBe(
+      'NAME,B01001_001E,state\n"Washington, DC",689545,11\nAlabama,,01',
+    )
+  })
+
+  it('should render JSON records', () => {
+    expect(JSON.parse(formatRows(headers, rows, 'json'))).toEqual([
+      { NAME: 'Washington, DC', B01001_001E: 689545, state: '11' },
+      { NAME: 'Alabama', B01001_001E: null, state: '01' },
+    ])
+  })
+
+  it('should render column-oriented JSON', () => {
+    expect(JSON.parse(formatRows(headers, rows, 'json_columns'))).toEqual({
+      NAME: ['Washington, DC', 'Alabama'],
+      B01001_001E: [689545, null],
+      state: ['11', '01'],
+    })
+  })
+
+  it('should render a Markdown table', () => {
+    expect(formatRows(['NAME', 'value'], [['A | B', '1']], 'markdown')).toBe(
+      '| NAME | value |\n| --- | --- |\n| A \\| B | 1 |',
+    )
+  })
+})
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  decodeCursor,
+  decodeResourceCursor,
+  encodeCursor,
+  encodeResourceCursor,
+  pageOf,
+} from '../../src/helpers/pagination'
+
+describe('pagination', () => {
+  const rows = [['a'], ['b'], ['c'], ['d'], ['e']]
+
+  it('should round-trip cursors', () => {
+    expect(decodeCursor(encodeCursor(500))).toBe(500)
+  })
+
+  it('should reject cursors it did not encode', () => {
+    expect(decodeCursor('not-a-cursor')).toBeNull()
+    expect(decodeCursor(Buffer.from('offset:-1').toString('base64url'))).toBe(
+      null,
+    )
+  })
+
+  it('should round-trip resource cursors', () => {
+    expect(decodeResourceCursor(encodeResourceCursor('dataset', 100))).toEqual({
+      resource: 'dataset',
+      offset: 100,
+    })
+    expect(decodeResourceCursor(encodeCursor(100))).toBeNull()
+  })
+
+  it('should return a cursor while rows remain', () => {
+    const page = pageOf(rows, 0, 2)
+
+    expect(page.rows).toEqual([['a'], ['b']])
+    expect(decodeCursor(page.nextCursor!)).toBe(2)
+  })
+
+  it('should not return a cursor for the last page', () => {
+    expect(pageOf(rows, 3, 2)).toEqual({ rows: [['d'], ['e']] })
+    expect(pageOf(rows, 0, 5)).toEqual({ rows })
+  })
+})
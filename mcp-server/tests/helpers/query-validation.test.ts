@@ -0,0 +1,244 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  editDistance,
+  formatIssues,
+  geographyIssues,
+  suggest,
+  variableIssues,
+} from '../../src/helpers/query-validation'
+import { GeographyJson } from '../../src/schema/dataset-geography.schema'
+import { VariablesJson } from '../../src/schema/describe-variables.schema'
+
+const variablesJson: VariablesJson = {
+  variables: {
+    NAME: { label: 'Geographic Area Name' },
+    AGEGROUP: { label: 'Age group', predicateType: 'int' },
+    B01001_001E: { label: 'Estimate!!Total:', group: 'B01001' },
+    B01001_010E: {
+      label: 'Estimate!!Total:!!Male:!!22 to 24 years',
+      group: 'B01001',
+    },
+    B19013_001E: {
+      label: 'Estimate!!Median household income',
+      group: 'B19013',
+      attributes: 'B19013_001EA,B19013_001M,B19013_001MA',
+    },
+  },
+}
+
+const geographyJson: GeographyJson = {
+  fips: [
+    { name: 'us', geoLevelDisplay: '010', referenceDate: '2022-01-01' },
+    { name: 'state', geoLevelDisplay: '040', referenceDate: '2022-01-01' },
+    {
+      name: 'county',
+      geoLevelDisplay: '050',
+      referenceDate: '2022-01-01',
+      requires: ['state'],
+      wildcard: ['state'],
+      optionalWithWCFor: 'state',
+    },
+    {
+      name: 'tract',
+      geoLevelDisplay: '140',
+      referenceDate: '2022-01-01',
+      requires: ['state', 'county'],
+      wildcard: ['county'],
+      optionalWithWCFor: 'county',
+    },
+    {
+      name: 'place',
+      geoLevelDisplay: '160',
+      referenceDate: '2022-01-01',
+      requires: ['state'],
+      wildcard: ['state'],
+      optionalWithWCFor: 'state',
+    },
+  ],
+}
+
+describe('query-validation', () => {
+  it('should count edits between strings', () => {
+    expect(editDistance('county', 'county')).toBe(0)
+    expect(editDistance('contry', 'county')).toBe(2)
+    expect(editDistance('', 'abc')).toBe(3)
+  })
+
+  it('should suggest the closest candidates', () => {
+    expect(suggest('B01001_01E', Object.keys(variablesJson.variables))).toEqual(
+      ['B01001_001E', 'B01001_010E'],
+    )
+    expect(suggest('STATE', ['state', 'county'])).toEqual(['state'])
+    expect(suggest('XYZ', ['state', 'county'])).toEqual([])
+  })
+
+  describe('variableIssues', () => {
+    it('should accept margins of error and annotations listed as attributes', () => {
+      expect(
+        variableIssues(variablesJson, {
+          dataset: 'acs/acs1',
+          variables: ['B19013_001E', 'B19013_001M', 'B19013_001MA'],
+          predicates: { B19013_001EA: '-555555555' },
+        }),
+      ).toEqual([])
+    })
+
+    it('should accept known variables, groups and predicates', () => {
+      expect(
+        variableIssues(variablesJson, {
+          dataset: 'acs/acs1',
+          variables: ['NAME', 'B01001_001E'],
+          group: 'B19013',
+          predicates: { AGEGROUP: '29' },
+        }),
+      ).toEqual([])
+    })
+
+    it('should report unknown variables, groups and predicates', () => {
+      expect(
+        variableIssues(variablesJson, {
+          dataset: 'acs/acs1',
+          variables: ['B19013_01E'],
+          group: 'B1901',
+          predicates: { AGEGRUP: '29' },
+        }),
+      ).toEqual([
+        {
+          field: 'variables',
+          value: 'B19013_01E',
+          message: "Unknown variable 'B19013_01E'.",
+          suggestions: ['B19013_001E'],
+        },
+        {
+          field: 'predicates',
+          value: 'AGEGRUP',
+          message: "Unknown predicate 'AGEGRUP'.",
+          suggestions: ['AGEGROUP'],
+        },
+        {
+          field: 'group',
+          value: 'B1901',
+          message: "Unknown group 'B1901'.",
+          suggestions: ['B19013', 'B01001'],
+        },
+      ])
+    })
+  })
+
+  describe('geographyIssues', () => {
+    const query = { dataset: 'acs/acs5', year: 2022 }
+
+    it('should accept levels that fit the requires chain', () => {
+      for (const geography of [
+        { for: 'state:*' },
+        { for: 'county:*', in: 'state:*' },
+        { for: 'tract:*', in: 'state:48+county:453' },
+        { for: 'tract:*', in: 'state:48' },
+        { ucgid: '0500000US48453' },
+        { ucgid: 'pseudo(0400000US06$1400000)' },
+      ]) {
+        expect(
+          geographyIssues(geographyJson, { ...query, ...geography }),
+        ).toEqual([])
+      }
+    })
+
+    it('should suggest available levels', () => {
+      expect(
+        geographyIssues(geographyJson, { ...query, for: 'contry:*' }),
+      ).toEqual([
+        {
+          field: 'for',
+          value: 'contry',
+          message: "Geography level 'contry' is not available in acs/acs5.",
+          suggestions: ['county'],
+        },
+      ])
+      expect(
+        geographyIssues(geographyJson, {
+          ...query,
+          for: 'county:*',
+          in: 'sate:48',
+        })[0],
+      ).toMatchObject({ field: 'in', value: 'sate', suggestions: ['state'] })
+    })
+
+    it('should report levels outside the requires chain', () => {
+      const [issue] = geographyIssues(geographyJson, {
+        ...query,
+        for: 'tract:*',
+        in: 'state:48+place:05000',
+      })
+
+      expect(issue).toEqual({
+        field: 'in',
+        value: 'state:48+place:05000',
+        message:
+          "'tract' cannot be requested in 'state:48+place:05000'. It requires state, county, with wildcards allowed only for county.",
+        suggestions: ['state:48+county:*'],
+      })
+    })
+
+    it('should require parents unless for is a wildcard', () => {
+      expect(
+        geographyIssues(geographyJson, {
+          ...query,
+          for: 'tract:001100',
+          in: 'state:48',
+        })[0].suggestions,
+      ).toEqual(['state:48+county:*'])
+      expect(
+        geographyIssues(geographyJson, { ...query, for: 'county:453' }),
+      ).toHaveLength(1)
+    })
+
+    it('should reject wildcards the level does not allow', () => {
+      expect(
+        geographyIssues(geographyJson, {
+          ...query,
+          for: 'tract:*',
+          in: 'state:*+county:*',
+        }),
+      ).toHaveLength(1)
+    })
+
+    it('should report UCGIDs of unavailable summary levels', () => {
+      expect(
+        geographyIssues(geographyJson, {
+          ...query,
+          ucgid: '0400000US48,1500000US484530011001',
+        }),
+      ).toEqual([
+        {
+          field: 'ucgid',
+          value: '1500000US484530011001',
+          message:
+            'Summary level 150 of UCGID 1500000US484530011001 is not available in the dataset.',
+          suggestions: [],
+        },
+      ])
+    })
+  })
+
+  it('should format issues with their suggestions', () => {
+    expect(
+      formatIssues([
+        {
+          field: 'for',
+          value: 'contry',
+          message: "Geography level 'contry' is not available in acs/acs5.",
+          suggestions: ['county'],
+        },
+        {
+          field: 'ucgid',
+          value: '1500000US1',
+          message: 'Summary level 150 is not available.',
+          suggestions: [],
+        },
+      ]),
+    ).toBe(
+      "- Geography level 'contry' is not available in acs/acs5. Did you mean 'county'?\n- Summary level 150 is not available.",
+    )
+  })
+})
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest'
+import { rankValues } from '../../src/helpers/ranking'
+
+describe('rankValues', () => {
+  it('should rank the highest values first with shared ranks for ties', () => {
+    expect(rankValues([10, 30, null, 20, 30])).toEqual([
+      { index: 1, value: 30, rank: 1, percentile: 66.7 },
+      { index: 4, value: 30, rank: 1, percentile: 66.7 },
+      { index: 3, value: 20, rank: 3, percentile: 33.3 },
+      { index: 0, value: 10, rank: 4, percentile: 0 },
+    ])
+  })
+
+  it('should rank the lowest values first in ascending order', () => {
+    expect(rankValues([10, 30, 20], 'asc')).toEqual([
+      { index: 0, value: 10, rank: 1, percentile: 0 },
+      { index: 2, value: 20, rank: 2, percentile: 50 },
+      { index: 1, value: 30, rank: 3, percentile: 100 },
+    ])
+  })
+
+  it('should place a single value in the 100th percentile', () => {
+    expect(rankValues([5, null])).toEqual([
+      { index: 0, value: 5, rank: 1, percentile: 100 },
+    ])
+  })
+})
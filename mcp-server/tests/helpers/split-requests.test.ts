@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest'
+import {
+  joinOnGeography,
+  MAX_VARIABLES_PER_REQUEST,
+  splitVariables,
+} from '../../src/helpers/split-requests'
+
+describe('splitVariables', () => {
+  it('should split the get list into chunks of at most 50', () => {
+    const variables = Array.from({ length: 120 }, (_, i) => `V${i}`)
+    const chunks = splitVariables(variables)
+
+    expect(chunks.map((chunk) => chunk.length)).toEqual([
+      MAX_VARIABLES_PER_REQUEST,
+      MAX_VARIABLES_PER_REQUEST,
+      20,
+    ])
+    expect(chunks.flat()).toEqual(variables)
+  })
+
+  it('should make one request for an empty get list', () => {
+    expect(splitVariables([])).toEqual([[]])
+  })
+})
+
+describe('joinOnGeography', () => {
+  it('should join responses on the columns they have in common', () => {
+    const joined = joinOnGeography([
+      {
+        variables: ['NAME', 'B01001_001E'],
+        rows: [
+          ['NAME', 'B01001_001E', 'state', 'county'],
+          ['Autauga County', '58761', '01', '001'],
+          ['Baldwin County', '233420', '01', '003'],
+        ],
+      },
+      {
+        variables: ['B01001_002E'],
+        rows: [
+          ['B01001_002E', 'state', 'county'],
+          ['113881', '01', '003'],
+          ['28476', '01', '001'],
+        ],
+      },
+    ])
+
+    expect(joined).toEqual([
+      ['NAME', 'B01001_001E', 'B01001_002E', 'state', 'county'],
+      ['Autauga County', '58761', '28476', '01', '001'],
+      ['Baldwin County', '233420', '113881', '01', '003'],
+    ])
+  })
+
+  it('should fill missing values with null', () => {
+    const joined = joinOnGeography([
+      {
+        variables: ['A'],
+        rows: [
+          ['A', 'state'],
+          ['1', '01'],
+        ],
+      },
+      {
+        variables: ['B'],
+        rows: [
+          ['B', 'state'],
+          ['2', '02'],
+        ],
+      },
+    ])
+
+    expect(joined).toEqual([
+      ['A', 'B', 'state'],
+      ['1', null, '01'],
+      [null, '2', '02'],
+    ])
+  })
+
+  it('should keep descriptive header rows and skip duplicate columns', () => {
+    const joined = joinOnGeography(
+      [
+        {
+          variables: ['group(B01001)'],
+          rows: [
+            ['GEO_ID', 'NAME', 'B01001_001E', 'ucgid'],
+            ['Geography', 'Area Name', 'Estimate!!Total:', 'Geography'],
+            ['0400000US06', 'California', '39431263', '0400000US06'],
+          ],
+        },
+        {
+          variables: ['NAME', 'B02001_001E'],
+          rows: [
+            ['NAME', 'B02001_001E', 'ucgid'],
+            ['Area Name', 'Estimate!!Total:', 'Geography'],
+            ['California', '39431263', '0400000US06'],
+          ],
+        },
+      ],
+      2,
+    )
+
+    expect(joined).toEqual([
+      ['GEO_ID', 'NAME', 'B01001_001E', 'B02001_001E', 'ucgid'],
+      [
+        'Geography',
+        'Area Name',
+        'Estimate!!Total:',
+        'Estimate!!Total:',
+        'Geography',
+      ],
+      ['0400000US06', 'California', '39431263', '39431263', '0400000US06'],
+    ])
+  })
+})
@@ -44,15 +44,6 @@ export function validateResponseStructure(response: object) {
   expect(typeof response.content[0].text).toBe('string')
 }
 
-export function validateJsonResponseStructure(response: object) {
-  expect(response).toHaveProperty('content')
-  expect(Array.isArray(response.content)).toBe(true)
-  expect(response.content.length).toBeGreaterThan(0)
-  expect(response.content[0]).toHaveProperty('type', 'json')
-  expect(response.content[0]).toHaveProperty('json')
-  expect(typeof response.content[0].json).toBe('object')
-}
-
 // Sample Census API error response
 export const sampleCensusError = {
   error: {
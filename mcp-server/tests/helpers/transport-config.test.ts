@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_HTTP_HOST,
+  DEFAULT_HTTP_PORT,
+  DEFAULT_MAX_SESSIONS,
+  DEFAULT_SESSION_TIMEOUT_MS,
+  LOOPBACK_HOSTS,
+  resolveTransportConfig,
+} from '../../src/helpers/transport-config'
+
+describe('resolveTransportConfig', () => {
+  it('should default to stdio with default HTTP options', () => {
+    const config = resolveTransportConfig([], {})
+
+    expect(config).toEqual({
+      mode: 'stdio',
+      http: {
+        host: DEFAULT_HTTP_HOST,
+        port: DEFAULT_HTTP_PORT,
+        sessionTimeoutMs: DEFAULT_SESSION_TIMEOUT_MS,
+        maxSessions: DEFAULT_MAX_SESSIONS,
+        allowedHosts: LOOPBACK_HOSTS,
+        allowedOrigins: [],
+      },
+    })
+  })
+
+  it('should read the transport and HTTP options from environment variables', () => {
+    const config = resolveTransportConfig([], {
+      MCP_TRANSPORT: 'HTTP',
+      MCP_HTTP_HOST: '0.0.0.0',
+      MCP_HTTP_PORT: '8080',
+      MCP_SESSION_TIMEOUT_MS: '60000',
+      MCP_MAX_SESSIONS: '10',
+      MCP_ALLOWED_HOSTS: 'mcp.example.com, LOCALHOST',
+      MCP_ALLOWED_ORIGINS: 'https://app.example.com/',
+    })
+
+    expect(config).toEqual({
+      mode: 'http',
+      http: {
+        host: '0.0.0.0',
+        port: 8080,
+        sessionTimeoutMs: 60000,
+        maxSessions: 10,
+        allowedHosts: ['mcp.example.com', 'localhost'],
+        allowedOrigins: ['https://app.example.com'],
+      },
+    })
+  })
+
+  it('should allow the listening host besides loopback names', () => {
+    expect(
+      resolveTransportConfig(['--host', 'mcp.internal'], {}).http.allowedHosts,
+    ).toEqual([...LOOPBACK_HOSTS, 'mcp.internal'])
+    expect(
+      resolveTransportConfig(['--host', '0.0.0.0'], {}).http.allowedHosts,
+    ).toEqual(LOOPBACK_HOSTS)
+    expect(
+      resolveTransportConfig([], { MCP_HTTP_HOST: '::1' }).http.allowedHosts,
+    ).toEqual(LOOPBACK_HOSTS)
+  })
+
+  it('should reject an invalid session limit', () => {
+    expect(() => resolveTransportConfig([], { MCP_MAX_SESSIONS: '0' })).toThrow(
+      'Invalid maximum number of sessions: 0',
+    )
+  })
+
+  it('should prefer CLI flags over environment variables', () => {
+    const config = resolveTransportConfig(
+      ['--transport=http', '--port', '9090', '--host', 'localhost'],
+      { MCP_TRANSPORT: 'stdio', MCP_HTTP_PORT: '8080' },
+    )
+
+    expect(config.mode).toBe('http')
+    expect(config.http.port).toBe(9090)
+    expect(config.http.host).toBe('localhost')
+  })
+
+  it('should reject unknown transports', () => {
+    expect(() =>
+      resolveTransportConfig(['--transport', 'websocket'], {}),
+    ).toThrow('Invalid transport: websocket. Expected one of: stdio, http')
+  })
+
+  it('should reject invalid ports', () => {
+    expect(() => resolveTransportConfig([], { MCP_HTTP_PORT: 'abc' })).toThrow(
+      'Invalid port: abc',
+    )
+  })
+})
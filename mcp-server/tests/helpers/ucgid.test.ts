@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest'
+
+import { ValidationError } from '../../src/errors/tool.errors'
+import {
+  clauseToUcgids,
+  parseUcgid,
+  ucgidToClause,
+} from '../../src/helpers/ucgid'
+
+describe('ucgid', () => {
+  describe('parseUcgid', () => {
+    it('should split a UCGID into its parts', () => {
+      expect(parseUcgid('1400000US48453001100')).toEqual({
+        ucgid: '1400000US48453001100',
+        summaryLevel: '140',
+        variant: '00',
+        component: '00',
+        geoid: '48453001100',
+        parts: { state: '48', county: '453', tract: '001100' },
+      })
+    })
+
+    it('should parse the nation and geographic components', () => {
+      expect(parseUcgid('0100000US')).toMatchObject({ geoid: '', parts: {} })
+      expect(parseUcgid('0400001US06')).toMatchObject({
+        summaryLevel: '040',
+        component: '01',
+        parts: { state: '06' },
+      })
+    })
+
+    it('should parse geographic variants with letters', () => {
+      expect(parseUcgid('860Z200US77494')).toMatchObject({
+        summaryLevel: '860',
+        variant: 'Z2',
+        component: '00',
+        parts: { 'zip code tabulation area': '77494' },
+      })
+    })
+
+    it('should not split GEOIDs of unknown levels or lengths', () => {
+      expect(parseUcgid('2500000US1234')).not.toHaveProperty('parts')
+      expect(parseUcgid('0500000US484')).not.toHaveProperty('parts')
+    })
+
+    it('should reject malformed UCGIDs', () => {
+      expect(parseUcgid('state:06')).toBeNull()
+      expect(parseUcgid('040000US06')).toBeNull()
+    })
+  })
+
+  describe('ucgidToClause', () => {
+    it('should convert a UCGID to for and in clauses', () => {
+      expect(ucgidToClause('0500000US48453')).toEqual({
+        for: 'county:453',
+        in: 'state:48',
+      })
+      expect(ucgidToClause('1500000US484530011001')).toEqual({
+        for: 'block group:1',
+        in: 'state:48+county:453+tract:001100',
+      })
+      expect(ucgidToClause('0400000US06')).toEqual({ for: 'state:06' })
+      expect(ucgidToClause('5001800US4802')).toEqual({
+        for: 'congressional district:02',
+        in: 'state:48',
+      })
+      expect(ucgidToClause('0100000US')).toEqual({ for: 'us:1' })
+    })
+
+    it('should reject UCGIDs clauses cannot express', () => {
+      expect(() => ucgidToClause('0400001US06')).toThrow(ValidationError)
+      expect(() => ucgidToClause('0500000US484')).toThrow(
+        'cannot be converted to for and in clauses',
+      )
+      expect(() => ucgidToClause('pseudo(0400000US06$1400000)')).toThrow(
+        'Invalid UCGID',
+      )
+    })
+  })
+
+  describe('clauseToUcgids', () => {
+    it('should build a UCGID for each code', () => {
+      expect(clauseToUcgids({ for: 'county:453,491', in: 'state:48' })).toEqual(
+        ['0500000US48453', '0500000US48491'],
+      )
+      expect(
+        clauseToUcgids({ for: 'tract:001100', in: 'state:48+county:453' }),
+      ).toEqual(['1400000US48453001100'])
+      expect(clauseToUcgids({ for: 'us:1' })).toEqual(['0100000US'])
+    })
+
+    it('should build UCGIDs with the given variant', () => {
+      expect(
+        clauseToUcgids(
+          { for: 'congressional district:02', in: 'state:48' },
+          '18',
+        ),
+      ).toEqual(['5001800US4802'])
+      expect(
+        clauseToUcgids({ for: 'zip code tabulation area:77494' }, 'Z2'),
+      ).toEqual(['860Z200US77494'])
+    })
+
+    it('should round-trip with ucgidToClause', () => {
+      for (const ucgid of [
+        '0400000US41',
+        '1600000US4805000',
+        '8600000US78701',
+      ]) {
+        expect(clauseToUcgids(ucgidToClause(ucgid))).toEqual([ucgid])
+      }
+    })
+
+    it('should reject wildcards and missing parents', () => {
+      expect(() => clauseToUcgids({ for: 'county:*', in: 'state:48' })).toThrow(
+        'not a wildcard',
+      )
+      expect(() =>
+        clauseToUcgids({ for: 'tract:001100', in: 'state:48' }),
+      ).toThrow("Check that 'in' has every parent level")
+      expect(() =>
+        clauseToUcgids({ for: 'county:453', in: 'state:4' }),
+      ).toThrow('Invalid state code')
+    })
+  })
+})
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest'
+import {
+  formatColumnName,
+  formatLabel,
+  formatLabelTree,
+  parseLabel,
+  splitDescriptiveRow,
+} from '../../src/helpers/variable-labels'
+
+describe('parseLabel', () => {
+  it('should split labels into their measure and hierarchy', () => {
+    expect(parseLabel('Estimate!!Total:!!Male:!!Under 5 years')).toEqual({
+      measure: 'Estimate',
+      path: ['Total', 'Male', 'Under 5 years'],
+    })
+  })
+
+  it('should treat single-level labels as having no measure', () => {
+    expect(parseLabel('Geographic Area Name')).toEqual({
+      path: ['Geographic Area Name'],
+    })
+  })
+})
+
+describe('formatLabel', () => {
+  it('should only name measures other than estimates', () => {
+    expect(formatLabel(parseLabel('Estimate!!Total:!!Male:'))).toBe(
+      'Total > Male',
+    )
+    expect(formatLabel(parseLabel('Margin of Error!!Total:!!Male:'))).toBe(
+      'Margin of Error: Total > Male',
+    )
+  })
+})
+
+describe('formatColumnName', () => {
+  const column = {
+    name: 'B01001_002E',
+    label: 'Estimate!!Total:!!Male:',
+    ...parseLabel('Estimate!!Total:!!Male:'),
+  }
+
+  it('should name columns by code, label or both', () => {
+    expect(formatColumnName(column, 'code')).toBe('B01001_002E')
+    expect(formatColumnName(column, 'label')).toBe('Total > Male')
+    expect(formatColumnName(column, 'both')).toBe('Total > Male [B01001_002E]')
+  })
+
+  it('should fall back to the code for unlabeled columns', () => {
+    expect(
+      formatColumnName({ name: 'state', label: '', path: [] }, 'label'),
+    ).toBe('state')
+  })
+})
+
+describe('splitDescriptiveRow', () => {
+  const data = [
+    ['NAME', 'B01001_001E', 'state'],
+    ['Geographic Area Name', 'Estimate!!Total:', 'state'],
+    ['Alabama', '5074296', '01'],
+  ]
+
+  it('should move the descriptive row into the column labels', () => {
+    const { headers, columns, rows } = splitDescriptiveRow(data, true)
+
+    expect(headers).toEqual(['NAME', 'B01001_001E', 'state'])
+    expect(rows).toEqual([['Alabama', '5074296', '01']])
+    expect(columns?.[1]).toEqual({
+      name: 'B01001_001E',
+      label: 'Estimate!!Total:',
+      measure: 'Estimate',
+      path: ['Total'],
+    })
+  })
+
+  it('should leave other responses as they are', () => {
+    const { columns, rows } = splitDescriptiveRow([data[0], data[2]], false)
+
+    expect(columns).toBeUndefined()
+    expect(rows).toEqual([data[2]])
+  })
+})
+
+describe('formatLabelTree', () => {
+  it('should indent each level below the levels it shares', () => {
+    const columns = [
+      'Estimate!!Total:',
+      'Estimate!!Total:!!Male:',
+      'Estimate!!Total:!!Male:!!Under 5 years',
+      'Estimate!!Total:!!Female:',
+    ].map((label, i) => ({
+      name: `B01001_00${i + 1}E`,
+      label,
+      ...parseLabel(label),
+    }))
+
+    expect(formatLabelTree(columns)).toBe(
+      [
+        'Estimate',
+        '  Total [B01001_001E]',
+        '    Male [B01001_002E]',
+        '      Under 5 years [B01001_003E]',
+        '    Female [B01001_004E]',
+      ].join('\n'),
+    )
+  })
+})
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest'
+import {
+  resolveMicrodataWeight,
+  tabulateWeighted,
+} from '../../src/helpers/weighted-tabulation'
+
+describe('resolveMicrodataWeight', () => {
+  it('should default to the ACS PUMS person weight and its replicates', () => {
+    const weight = resolveMicrodataWeight('acs/acs1/pums')
+
+    expect(weight.variable).toBe('PWGTP')
+    expect(weight.recordKeys).toEqual(['SERIALNO', 'SPORDER'])
+    expect(weight.replicates?.variables).toHaveLength(80)
+    expect(weight.replicates?.variables[79]).toBe('PWGTP80')
+    expect(weight.replicates?.factor).toBe(0.05)
+  })
+
+  it('should count ACS PUMS households once', () => {
+    const weight = resolveMicrodataWeight('acs/acs5/pums', 'WGTP')
+
+    expect(weight.replicates?.variables[0]).toBe('WGTP1')
+    expect(weight.predicates).toEqual({ SPORDER: '1' })
+  })
+
+  it('should omit replicate weights when they are not wanted', () => {
+    expect(
+      resolveMicrodataWeight('acs/acs1/pums', undefined, false),
+    ).not.toHaveProperty('replicates')
+  })
+
+  it('should use the default weight of other microdata datasets', () => {
+    expect(resolveMicrodataWeight('cps/asec/mar').variable).toBe('MARSUPWT')
+    expect(resolveMicrodataWeight('cps/basic/jan').variable).toBe('PWSSWGT')
+    expect(resolveMicrodataWeight('cps/basic/jan').replicates).toBeUndefined()
+  })
+
+  it('should accept weights the dataset does not describe', () => {
+    expect(resolveMicrodataWeight('cps/basic/jan', 'PWCMPWGT')).toEqual({
+      variable: 'PWCMPWGT',
+      recordKeys: [],
+    })
+  })
+})
+
+describe('tabulateWeighted', () => {
+  const weight = {
+    variable: 'W',
+    replicates: { variables: ['W1', 'W2'], factor: 0.5 },
+    recordKeys: [],
+  }
+
+  const records = [
+    ['SEX', 'W', 'W1', 'W2', 'state'],
+    ['2', '5', '5', '5', '06'],
+    ['1', '10', '10', '40', '06'],
+    ['1', '20', '20', '20', '06'],
+  ]
+
+  it('should sum the weights of each cell with replicate standard errors', () => {
+    const tabulation = tabulateWeighted(records, ['SEX', 'state'], weight)
+
+    expect(tabulation).toEqual({
+      headers: [
+        'SEX',
+        'state',
+        'weighted_count',
+        'unweighted_count',
+        'standard_error',
+        'margin_of_error',
+      ],
+      // SE = sqrt(0.5 * ((30 - 30)^2 + (60 - 30)^2)) = 21.2, MOE = 1.645 * SE
+      rows: [
+        ['1', '06', 30, 2, 21, 35],
+        ['2', '06', 5, 1, 0, 0],
+      ],
+      recordCount: 3,
+    })
+  })
+
+  it('should omit standard errors without replicate weights', () => {
+    const tabulation = tabulateWeighted(records, ['SEX'], {
+      variable: 'W',
+      recordKeys: [],
+    })
+
+    expect(tabulation.headers).toEqual([
+      'SEX',
+      'weighted_count',
+      'unweighted_count',
+    ])
+    expect(tabulation.rows).toEqual([
+      ['1', 30, 2],
+      ['2', 5, 1],
+    ])
+  })
+
+  it('should throw when a column is missing', () => {
+    expect(() => tabulateWeighted(records, ['AGEP'], weight)).toThrow(
+      'Column AGEP is missing from the response',
+    )
+  })
+})
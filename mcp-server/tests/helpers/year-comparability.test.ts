@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import { comparabilityWarnings } from '../../src/helpers/year-comparability'
+
+describe('comparabilityWarnings', () => {
+  it('should flag the missing 2020 ACS 1-year release', () => {
+    const warnings = comparabilityWarnings(
+      'acs/acs1',
+      2018,
+      2022,
+      [2018, 2019, 2021, 2022],
+    )
+
+    expect(warnings).toHaveLength(1)
+    expect(warnings[0]).toContain('2020 ACS 1-year estimates were not released')
+  })
+
+  it('should flag overlapping ACS 5-year periods', () => {
+    const [warning] = comparabilityWarnings(
+      'acs/acs5',
+      2015,
+      2022,
+      [2015, 2017, 2022],
+    )
+
+    expect(warning).toContain(
+      'The ACS 5-year estimates for 2015, 2017 cover overlapping periods',
+    )
+    expect(warning).toContain('e.g. 2011-2015 and 2016-2020')
+  })
+
+  it('should not flag non-overlapping ACS 5-year periods', () => {
+    expect(
+      comparabilityWarnings('acs/acs5', 2010, 2020, [2010, 2015, 2020]),
+    ).toEqual([])
+  })
+
+  it('should flag variables missing from some vintages', () => {
+    expect(
+      comparabilityWarnings(
+        'acs/acs1',
+        2021,
+        2022,
+        [2021, 2022],
+        new Map([['B19013_001E', [2021]]]),
+      ),
+    ).toEqual([
+      'B19013_001E is not available in 2021. Its code or definition may have changed between vintages; check each year with describe-variables.',
+    ])
+  })
+})
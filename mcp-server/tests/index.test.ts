@@ -27,12 +27,52 @@ vi.mock('../src/tools/fetch-aggregate-data.tool.js', () => ({
     .mockImplementation(() => ({ name: 'fetch-aggregate-data' })),
 }))
 
+vi.mock('../src/tools/aggregate-geographies.tool.js', () => ({
+  AggregateGeographiesTool: vi.fn(() => ({ name: 'aggregate-geographies' })),
+}))
+
+vi.mock('../src/tools/calculate-moe.tool.js', () => ({
+  CalculateMoeTool: vi.fn(() => ({ name: 'calculate-moe' })),
+}))
+
+vi.mock('../src/tools/compare-years.tool.js', () => ({
+  CompareYearsTool: vi.fn(() => ({ name: 'compare-years' })),
+}))
+
+vi.mock('../src/tools/describe-variables.tool.js', () => ({
+  DescribeVariablesTool: vi.fn(() => ({ name: 'describe-variables' })),
+}))
+
+vi.mock('../src/tools/fetch-microdata.tool.js', () => ({
+  FetchMicrodataTool: vi.fn(() => ({ name: 'fetch-microdata' })),
+}))
+
+vi.mock('../src/tools/fetch-timeseries-data.tool.js', () => ({
+  FetchTimeseriesDataTool: vi.fn(() => ({ name: 'fetch-timeseries-data' })),
+}))
+
 vi.mock('../src/prompts/population.prompt.js', () => ({
   PopulationPrompt: vi
     .fn()
     .mockImplementation(() => ({ name: 'population-prompt' })),
 }))
 
+vi.mock('../src/tools/convert-geography.tool.js', () => ({
+  ConvertGeographyTool: vi.fn(() => ({ name: 'convert-geography' })),
+}))
+
+vi.mock('../src/tools/expand-geography.tool.js', () => ({
+  ExpandGeographyTool: vi.fn(() => ({ name: 'expand-geography' })),
+}))
+
+vi.mock('../src/tools/get-result-page.tool.js', () => ({
+  GetResultPageTool: vi.fn(() => ({ name: 'get-result-page' })),
+}))
+
+vi.mock('../src/tools/rank-geographies.tool.js', () => ({
+  RankGeographiesTool: vi.fn(() => ({ name: 'rank-geographies' })),
+}))
+
 vi.mock('../src/tools/resolve-geography-fips.tool.js', () => ({
   ResolveGeographyFipsTool: vi
     .fn()
@@ -45,29 +85,92 @@ vi.mock('../src/tools/search-data-tables.tool.js', () => ({
     .mockImplementation(() => ({ name: 'search-data-tables' })),
 }))
 
+vi.mock('../src/resources/component.resource.js', () => ({
+  ComponentResource: vi.fn(() => ({ name: 'component' })),
+}))
+
+vi.mock('../src/resources/dataset.resource.js', () => ({
+  DatasetResource: vi.fn(() => ({ name: 'dataset' })),
+}))
+
+vi.mock('../src/resources/program.resource.js', () => ({
+  ProgramResource: vi.fn(() => ({ name: 'program' })),
+}))
+
+vi.mock('../src/resources/summary-level.resource.js', () => ({
+  SummaryLevelResource: vi
+    .fn()
+    .mockImplementation(() => ({ name: 'summary-level' })),
+}))
+
+vi.mock('../src/resources/topic.resource.js', () => ({
+  TopicResource: vi.fn(() => ({ name: 'topic' })),
+}))
+
 vi.mock('@modelcontextprotocol/sdk/server/stdio.js', () => ({
   StdioServerTransport: vi.fn().mockImplementation(() => ({})),
 }))
 
+const { mockHttpStart, mockHttpStop } = vi.hoisted(() => ({
+  mockHttpStart: vi.fn(),
+  mockHttpStop: vi.fn(),
+}))
+
+vi.mock('../src/services/http-transport.service.js', () => ({
+  HttpTransportService: vi.fn(() => ({
+    start: mockHttpStart,
+    stop: mockHttpStop,
+  })),
+}))
+
+const { mockStartCleanup } = vi.hoisted(() => ({ mockStartCleanup: vi.fn() }))
+
+vi.mock('../src/services/cache.service.js', () => ({
+  CacheService: {
+    getInstance: vi.fn(() => ({ startCleanup: mockStartCleanup })),
+  },
+}))
+
 describe('main', () => {
   let promptRegistrySpy: MockInstance
   let toolRegistrySpy: MockInstance
+  let resourceRegistrySpy: MockInstance
   let connectSpy: MockInstance
+  let signalListeners: Record<'SIGINT' | 'SIGTERM', NodeJS.SignalsListener[]>
+
+  // The signal listeners added by main(), which must not outlive a test
+  const addedListeners = (signal: 'SIGINT' | 'SIGTERM') =>
+    process
+      .listeners(signal)
+      .filter((listener) => !signalListeners[signal].includes(listener))
 
   beforeEach(() => {
+    signalListeners = {
+      SIGINT: process.listeners('SIGINT'),
+      SIGTERM: process.listeners('SIGTERM'),
+    }
+    mockHttpStop.mockReset().mockResolvedValue(undefined)
+
     promptRegistrySpy = vi.spyOn(MCPServer.prototype, 'registerPrompt')
     toolRegistrySpy = vi.spyOn(MCPServer.prototype, 'registerTool')
+    resourceRegistrySpy = vi.spyOn(MCPServer.prototype, 'registerResource')
     connectSpy = vi.spyOn(MCPServer.prototype, 'connect') as MockInstance
   })
 
   afterEach(() => {
+    for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+      for (const listener of addedListeners(signal)) {
+        process.removeListener(signal, listener)
+      }
+    }
+
     vi.restoreAllMocks()
     vi.clearAllMocks()
 
     vi.resetModules()
   })
 
-  it('should register tools and prompts and connect to the MCP Server', async () => {
+  it('should register tools, prompts and resources and connect to the MCP Server', async () => {
     await import('../src/index.ts')
 
     expect(promptRegistrySpy).toHaveBeenCalledTimes(1)
@@ -75,7 +178,7 @@ describe('main', () => {
       name: 'population-prompt',
     })
 
-    expect(toolRegistrySpy).toHaveBeenCalledTimes(5)
+    expect(toolRegistrySpy).toHaveBeenCalledTimes(15)
 
     expect(toolRegistrySpy).toHaveBeenCalledWith({
       name: 'fetch-aggregate-data',
@@ -87,6 +190,37 @@ describe('main', () => {
     expect(toolRegistrySpy).toHaveBeenCalledWith({
       name: 'fetch-dataset-geography',
     })
+    expect(toolRegistrySpy).toHaveBeenCalledWith({
+      name: 'aggregate-geographies',
+    })
+    expect(toolRegistrySpy).toHaveBeenCalledWith({
+      name: 'calculate-moe',
+    })
+    expect(toolRegistrySpy).toHaveBeenCalledWith({
+      name: 'compare-years',
+    })
+    expect(toolRegistrySpy).toHaveBeenCalledWith({
+      name: 'describe-variables',
+    })
+    expect(toolRegistrySpy).toHaveBeenCalledWith({
+      name: 'fetch-microdata',
+    })
+    expect(toolRegistrySpy).toHaveBeenCalledWith({
+      name: 'fetch-timeseries-data',
+    })
+
+    expect(toolRegistrySpy).toHaveBeenCalledWith({
+      name: 'convert-geography',
+    })
+    expect(toolRegistrySpy).toHaveBeenCalledWith({
+      name: 'expand-geography',
+    })
+    expect(toolRegistrySpy).toHaveBeenCalledWith({
+      name: 'get-result-page',
+    })
+    expect(toolRegistrySpy).toHaveBeenCalledWith({
+      name: 'rank-geographies',
+    })
 
     expect(toolRegistrySpy).toHaveBeenCalledWith({
       name: 'resolve-geography-fips',
@@ -96,9 +230,57 @@ describe('main', () => {
       name: 'search-data-tables',
     })
 
+    expect(resourceRegistrySpy).toHaveBeenCalledTimes(5)
+    for (const name of [
+      'component',
+      'dataset',
+      'program',
+      'summary-level',
+      'topic',
+    ]) {
+      expect(resourceRegistrySpy).toHaveBeenCalledWith({ name })
+    }
+
+    expect(mockStartCleanup).toHaveBeenCalledTimes(1)
     expect(connectSpy).toHaveBeenCalledTimes(1)
   })
 
+  it('should start the HTTP transport when MCP_TRANSPORT is http', async () => {
+    process.env.MCP_TRANSPORT = 'http'
+
+    try {
+      await import('../src/index.ts')
+      await vi.waitFor(() => expect(mockHttpStart).toHaveBeenCalledTimes(1))
+    } finally {
+      delete process.env.MCP_TRANSPORT
+    }
+  })
+
+  it('should exit on SIGTERM even when the HTTP transport fails to stop', async () => {
+    process.env.MCP_TRANSPORT = 'http'
+    const exitSpy = vi
+      .spyOn(process, 'exit')
+      .mockImplementation((() => undefined) as () => never)
+    const consoleErrorSpy = vi
+      .spyOn(console, 'error')
+      .mockImplementation(() => {})
+    const error = new Error('Stop failed')
+    mockHttpStop.mockRejectedValue(error)
+
+    try {
+      await import('../src/index.ts')
+      await vi.waitFor(() => expect(addedListeners('SIGTERM')).toHaveLength(1))
+
+      const [shutdown] = addedListeners('SIGTERM')
+      shutdown('SIGTERM')
+
+      await vi.waitFor(() => expect(exitSpy).toHaveBeenCalledWith(0))
+      expect(consoleErrorSpy).toHaveBeenCalledWith(error)
+    } finally {
+      delete process.env.MCP_TRANSPORT
+    }
+  })
+
   it('should handle errors in main function', async () => {
     const consoleErrorSpy = vi
       .spyOn(console, 'error')
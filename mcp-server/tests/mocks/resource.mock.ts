@@ -0,0 +1,37 @@
+import { Resource } from '@modelcontextprotocol/sdk/types.js'
+import { z } from 'zod'
+
+import { BaseResource, ResourcePage } from '../../src/resources/base.resource'
+
+const MockResourceParamsSchema = z.object({
+  code: z.string().regex(/^\d{3}$/),
+})
+
+type MockResourceParams = z.infer<typeof MockResourceParamsSchema>
+
+// Stands in for a database-backed resource; records live in memory
+export class MockResource extends BaseResource<MockResourceParams> {
+  name = 'mock-resource'
+  description = 'A resource for testing purposes'
+  uriTemplate = 'census://mock/{code}'
+
+  records: Record<string, { code: string; name: string }> = {
+    '040': { code: '040', name: 'State' },
+  }
+
+  get paramsSchema() {
+    return MockResourceParamsSchema
+  }
+
+  protected async listHandler(page: ResourcePage): Promise<Resource[]> {
+    return Object.values(this.records)
+      .slice(page.offset, page.offset + page.limit)
+      .map((record) => this.createResource({ code: record.code }, record.name))
+  }
+
+  protected async readHandler(
+    params: MockResourceParams,
+  ): Promise<object | null> {
+    return this.records[params.code] ?? null
+  }
+}
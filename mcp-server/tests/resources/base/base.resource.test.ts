@@ -0,0 +1,164 @@
+import { beforeEach, describe, expect, it, Mock, vi } from 'vitest'
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js'
+
+vi.mock('../../../src/services/database.service.js', () => ({
+  DatabaseService: {
+    getInstance: vi.fn(),
+  },
+}))
+
+import { DatabaseService } from '../../../src/services/database.service.js'
+import { ResourceRegistry } from '../../../src/resources/base.resource'
+import { MockResource } from '../../mocks/resource.mock'
+
+describe('BaseResource', () => {
+  let resource: MockResource
+  let mockDbService: { healthCheck: Mock; query: Mock }
+
+  beforeEach(() => {
+    mockDbService = {
+      healthCheck: vi.fn().mockResolvedValue(true),
+      query: vi.fn(),
+    }
+    ;(DatabaseService.getInstance as Mock).mockReturnValue(mockDbService)
+
+    resource = new MockResource()
+  })
+
+  it('should default to a JSON mime type', () => {
+    expect(resource.mimeType).toBe('application/json')
+  })
+
+  it('should expose the template variable names', () => {
+    expect(resource.variableNames).toEqual(['code'])
+  })
+
+  it('should build URIs from the template', () => {
+    expect(resource.buildUri({ code: '050' })).toBe('census://mock/050')
+  })
+
+  describe('matches', () => {
+    it('should match URIs that fit the template and params schema', () => {
+      expect(resource.matches('census://mock/040')).toBe(true)
+    })
+
+    it('should not match URIs with invalid params', () => {
+      expect(resource.matches('census://mock/abc')).toBe(false)
+    })
+
+    it('should not match URIs for other templates', () => {
+      expect(resource.matches('census://other/040')).toBe(false)
+    })
+  })
+
+  describe('listResources', () => {
+    it('should list resources with URIs and mime types', async () => {
+      const resources = await resource.listResources()
+
+      expect(resources).toEqual([
+        {
+          uri: 'census://mock/040',
+          name: 'State',
+          description: undefined,
+          mimeType: 'application/json',
+        },
+      ])
+    })
+
+    it('should throw when the database is unavailable', async () => {
+      mockDbService.healthCheck.mockResolvedValue(false)
+
+      await expect(resource.listResources()).rejects.toThrow(
+        'Database connection failed - cannot retrieve resource metadata.',
+      )
+    })
+  })
+
+  describe('readResource', () => {
+    it('should return the record as JSON text contents', async () => {
+      const result = await resource.readResource('census://mock/040')
+
+      expect(result.contents).toHaveLength(1)
+      expect(result.contents[0].uri).toBe('census://mock/040')
+      expect(result.contents[0].mimeType).toBe('application/json')
+      expect(JSON.parse(result.contents[0].text)).toEqual({
+        code: '040',
+        name: 'State',
+      })
+    })
+
+    it('should throw InvalidParams for invalid URIs', async () => {
+      await expect(
+        resource.readResource('census://mock/abc'),
+      ).rejects.toMatchObject({
+        code: ErrorCode.InvalidParams,
+        message: 'MCP error -32602: Invalid resource URI: census://mock/abc',
+      })
+      expect(mockDbService.healthCheck).not.toHaveBeenCalled()
+    })
+
+    it('should throw when the record does not exist', async () => {
+      await expect(resource.readResource('census://mock/999')).rejects.toThrow(
+        McpError,
+      )
+      await expect(resource.readResource('census://mock/999')).rejects.toThrow(
+        'Resource not found: census://mock/999',
+      )
+    })
+  })
+})
+
+describe('ResourceRegistry', () => {
+  let registry: ResourceRegistry
+
+  beforeEach(() => {
+    ;(DatabaseService.getInstance as Mock).mockReturnValue({})
+    registry = new ResourceRegistry()
+  })
+
+  it('should register and retrieve resources', () => {
+    const resource = new MockResource()
+    registry.register(resource)
+
+    expect(registry.has('mock-resource')).toBe(true)
+    expect(registry.get('mock-resource')).toBe(resource)
+    expect(registry.getAll()).toEqual([resource])
+  })
+
+  it('should reject duplicate resource names', () => {
+    registry.register(new MockResource())
+
+    expect(() => registry.register(new MockResource())).toThrow(
+      "Resource 'mock-resource' is already registered",
+    )
+  })
+
+  it('should find resources by URI', () => {
+    const resource = new MockResource()
+    registry.register(resource)
+
+    expect(registry.findByUri('census://mock/040')).toBe(resource)
+    expect(registry.findByUri('census://unknown/040')).toBeUndefined()
+  })
+
+  it('should find resources by URI template', () => {
+    const resource = new MockResource()
+    registry.register(resource)
+
+    expect(registry.findByTemplate('census://mock/{code}')).toBe(resource)
+    expect(registry.findByTemplate('census://mock/040')).toBeUndefined()
+  })
+
+  it('should return resource templates', () => {
+    registry.register(new MockResource())
+
+    expect(registry.getTemplates()).toEqual([
+      {
+        uriTemplate: 'census://mock/{code}',
+        name: 'mock-resource',
+        description: 'A resource for testing purposes',
+        mimeType: 'application/json',
+      },
+    ])
+  })
+})
@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, it, Mock, vi } from 'vitest'
+
+vi.mock('../../../src/services/database.service.js', () => ({
+  DatabaseService: {
+    getInstance: vi.fn(),
+  },
+}))
+
+import { DatabaseService } from '../../../src/services/database.service.js'
+import {
+  ComponentResource,
+  resourceDescription,
+} from '../../../src/resources/component.resource'
+import { ComponentResourceRow } from '../../../src/types/component.types'
+
+const mockComponentRow: ComponentResourceRow = {
+  component_id: 'ACSDT5Y',
+  label: 'Detailed Tables 5-Year',
+  api_endpoint: 'acs/acs5',
+  description: 'ACS 5-Year Detailed Tables pool five years of survey data.',
+  program_acronym: 'ACS',
+  program_label: 'American Community Survey',
+  years: [2021, 2022],
+}
+
+describe('ComponentResource', () => {
+  let resource: ComponentResource
+  let mockDbService: { healthCheck: Mock; query: Mock }
+
+  beforeEach(() => {
+    mockDbService = {
+      healthCheck: vi.fn().mockResolvedValue(true),
+      query: vi.fn(),
+    }
+    ;(DatabaseService.getInstance as Mock).mockReturnValue(mockDbService)
+
+    resource = new ComponentResource()
+  })
+
+  it('should have the correct metadata', () => {
+    expect(resource.name).toBe('component')
+    expect(resource.description).toBe(resourceDescription)
+    expect(resource.uriTemplate).toBe('census://component/{component_id}')
+  })
+
+  it('should list components labeled with their program', async () => {
+    mockDbService.query.mockResolvedValue({
+      rows: [
+        {
+          component_id: 'ACSDT5Y',
+          label: 'Detailed Tables 5-Year',
+          description: mockComponentRow.description,
+          program_label: 'American Community Survey',
+        },
+      ],
+    })
+
+    const resources = await resource.listResources()
+
+    expect(resources).toEqual([
+      {
+        uri: 'census://component/ACSDT5Y',
+        name: 'American Community Survey - Detailed Tables 5-Year',
+        description: mockComponentRow.description,
+        mimeType: 'application/json',
+      },
+    ])
+  })
+
+  it('should read a component with its program and years', async () => {
+    mockDbService.query.mockResolvedValue({ rows: [mockComponentRow] })
+
+    const result = await resource.readResource('census://component/ACSDT5Y')
+
+    expect(mockDbService.query).toHaveBeenCalledWith(
+      expect.stringContaining('FROM components c'),
+      ['ACSDT5Y'],
+    )
+    expect(JSON.parse(result.contents[0].text)).toEqual({
+      component_id: 'ACSDT5Y',
+      label: 'Detailed Tables 5-Year',
+      api_endpoint: 'acs/acs5',
+      description: mockComponentRow.description,
+      program: { acronym: 'ACS', label: 'American Community Survey' },
+      years: [2021, 2022],
+    })
+  })
+
+  it('should throw when the component does not exist', async () => {
+    mockDbService.query.mockResolvedValue({ rows: [] })
+
+    await expect(
+      resource.readResource('census://component/UNKNOWN'),
+    ).rejects.toThrow('Resource not found: census://component/UNKNOWN')
+  })
+})
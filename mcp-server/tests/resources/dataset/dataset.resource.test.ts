@@ -0,0 +1,141 @@
+import { beforeEach, describe, expect, it, Mock, vi } from 'vitest'
+
+vi.mock('../../../src/services/database.service.js', () => ({
+  DatabaseService: {
+    getInstance: vi.fn(),
+  },
+}))
+
+import { DatabaseService } from '../../../src/services/database.service.js'
+import {
+  DatasetResource,
+  resourceDescription,
+} from '../../../src/resources/dataset.resource'
+import { DatasetResourceRow } from '../../../src/types/dataset.types'
+
+const mockDatasetRow: DatasetResourceRow = {
+  dataset_id: 'ACSDT1Y2022',
+  name: 'American Community Survey: 1-Year Estimates: Detailed Tables',
+  api_endpoint: 'acs/acs1',
+  year: 2022,
+  type: 'aggregate',
+  description: 'The American Community Survey (ACS) is an ongoing survey.',
+  temporal_start: '2022-01-01',
+  temporal_end: '2022-12-31',
+  component_id: 'ACSDT1Y',
+  component_label: 'Detailed Tables 1-Year',
+  program_acronym: 'ACS',
+  program_label: 'American Community Survey',
+  topics: [{ topic_string: 'Income_and_Poverty', name: 'Income and Poverty' }],
+}
+
+describe('DatasetResource', () => {
+  let resource: DatasetResource
+  let mockDbService: { healthCheck: Mock; query: Mock }
+
+  beforeEach(() => {
+    mockDbService = {
+      healthCheck: vi.fn().mockResolvedValue(true),
+      query: vi.fn(),
+    }
+    ;(DatabaseService.getInstance as Mock).mockReturnValue(mockDbService)
+
+    resource = new DatasetResource()
+  })
+
+  it('should have the correct metadata', () => {
+    expect(resource.name).toBe('dataset')
+    expect(resource.description).toBe(resourceDescription)
+    expect(resource.uriTemplate).toBe('census://dataset/{+api_endpoint}/{year}')
+  })
+
+  it('should match dataset URIs with nested API endpoints', () => {
+    expect(resource.matches('census://dataset/acs/acs1/2022')).toBe(true)
+    expect(resource.matches('census://dataset/acs/acs1/profile/2022')).toBe(
+      true,
+    )
+    expect(resource.matches('census://dataset/acs/acs1/latest')).toBe(false)
+  })
+
+  it('should list one resource per dataset vintage', async () => {
+    mockDbService.query.mockResolvedValue({
+      rows: [
+        {
+          name: mockDatasetRow.name,
+          api_endpoint: 'acs/acs1',
+          year: 2022,
+          description: mockDatasetRow.description,
+        },
+      ],
+    })
+
+    const resources = await resource.listResources({ offset: 100, limit: 50 })
+
+    expect(mockDbService.query).toHaveBeenCalledWith(
+      expect.stringContaining('LIMIT $1 OFFSET $2'),
+      [50, 100],
+    )
+    expect(resources).toEqual([
+      {
+        uri: 'census://dataset/acs/acs1/2022',
+        name: `${mockDatasetRow.name} (2022)`,
+        description: mockDatasetRow.description,
+        mimeType: 'application/json',
+      },
+    ])
+  })
+
+  it('should read dataset metadata by API endpoint and year', async () => {
+    mockDbService.query.mockResolvedValue({ rows: [mockDatasetRow] })
+
+    const result = await resource.readResource('census://dataset/acs/acs1/2022')
+    const data = JSON.parse(result.contents[0].text)
+
+    expect(mockDbService.query).toHaveBeenCalledWith(
+      expect.stringContaining('FROM datasets d'),
+      ['acs/acs1', 2022],
+    )
+    expect(data).toMatchObject({
+      dataset_id: 'ACSDT1Y2022',
+      title: mockDatasetRow.name,
+      api_endpoint: 'acs/acs1',
+      year: 2022,
+      type: 'aggregate',
+      temporal_coverage: { start: '2022-01-01', end: '2022-12-31' },
+      program: { acronym: 'ACS', label: 'American Community Survey' },
+      component: { component_id: 'ACSDT1Y', label: 'Detailed Tables 1-Year' },
+      topics: mockDatasetRow.topics,
+    })
+    expect(data.links.variables).toBe(
+      'https://api.census.gov/data/2022/acs/acs1/variables.json',
+    )
+  })
+
+  it('should omit the program and component when the dataset has none', async () => {
+    mockDbService.query.mockResolvedValue({
+      rows: [
+        {
+          ...mockDatasetRow,
+          component_id: null,
+          component_label: null,
+          program_acronym: null,
+          program_label: null,
+        },
+      ],
+    })
+
+    const result = await resource.readResource('census://dataset/acs/acs1/2022')
+    const data = JSON.parse(result.contents[0].text)
+
+    expect(data.program).toBeNull()
+    expect(data.component).toBeNull()
+  })
+
+  it('should throw when the dataset does not exist', async () => {
+    mockDbService.query.mockResolvedValue({ rows: [] })
+
+    await expect(
+      resource.readResource('census://dataset/acs/acs1/1990'),
+    ).rejects.toThrow('Resource not found: census://dataset/acs/acs1/1990')
+  })
+})
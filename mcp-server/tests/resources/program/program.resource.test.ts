@@ -0,0 +1,91 @@
+import { beforeEach, describe, expect, it, Mock, vi } from 'vitest'
+
+vi.mock('../../../src/services/database.service.js', () => ({
+  DatabaseService: {
+    getInstance: vi.fn(),
+  },
+}))
+
+import { DatabaseService } from '../../../src/services/database.service.js'
+import {
+  ProgramResource,
+  resourceDescription,
+} from '../../../src/resources/program.resource'
+import { ProgramResourceRow } from '../../../src/types/component.types'
+
+const mockProgramRow: ProgramResourceRow = {
+  acronym: 'ACS',
+  label: 'American Community Survey',
+  description: null,
+  components: [
+    {
+      component_id: 'ACSDT5Y',
+      label: 'Detailed Tables 5-Year',
+      api_endpoint: 'acs/acs5',
+    },
+  ],
+}
+
+describe('ProgramResource', () => {
+  let resource: ProgramResource
+  let mockDbService: { healthCheck: Mock; query: Mock }
+
+  beforeEach(() => {
+    mockDbService = {
+      healthCheck: vi.fn().mockResolvedValue(true),
+      query: vi.fn(),
+    }
+    ;(DatabaseService.getInstance as Mock).mockReturnValue(mockDbService)
+
+    resource = new ProgramResource()
+  })
+
+  it('should have the correct metadata', () => {
+    expect(resource.name).toBe('program')
+    expect(resource.description).toBe(resourceDescription)
+    expect(resource.uriTemplate).toBe('census://program/{acronym}')
+  })
+
+  it('should list one resource per program', async () => {
+    mockDbService.query.mockResolvedValue({
+      rows: [
+        {
+          acronym: 'ACS',
+          label: 'American Community Survey',
+          description: null,
+        },
+      ],
+    })
+
+    const resources = await resource.listResources()
+
+    expect(resources).toEqual([
+      {
+        uri: 'census://program/ACS',
+        name: 'American Community Survey',
+        description: undefined,
+        mimeType: 'application/json',
+      },
+    ])
+  })
+
+  it('should read a program with its components', async () => {
+    mockDbService.query.mockResolvedValue({ rows: [mockProgramRow] })
+
+    const result = await resource.readResource('census://program/ACS')
+
+    expect(mockDbService.query).toHaveBeenCalledWith(
+      expect.stringContaining('FROM programs p'),
+      ['ACS'],
+    )
+    expect(JSON.parse(result.contents[0].text)).toEqual(mockProgramRow)
+  })
+
+  it('should throw when the program does not exist', async () => {
+    mockDbService.query.mockResolvedValue({ rows: [] })
+
+    await expect(resource.readResource('census://program/XYZ')).rejects.toThrow(
+      'Resource not found: census://program/XYZ',
+    )
+  })
+})
@@ -0,0 +1,118 @@
+import { beforeEach, describe, expect, it, Mock, vi } from 'vitest'
+
+vi.mock('../../../src/services/database.service.js', () => ({
+  DatabaseService: {
+    getInstance: vi.fn(),
+  },
+}))
+
+import { DatabaseService } from '../../../src/services/database.service.js'
+import {
+  SummaryLevelResource,
+  resourceDescription,
+} from '../../../src/resources/summary-level.resource'
+import { SummaryLevelResourceRow } from '../../../src/types/summary-level.types'
+
+const mockSummaryLevelRow: SummaryLevelResourceRow = {
+  code: '050',
+  name: 'County',
+  description: 'The primary legal divisions of most states.',
+  get_variable: 'COUNTY',
+  query_name: 'county',
+  on_spine: true,
+  hierarchy_level: 3,
+  parent_summary_level: '040',
+  parent_name: 'State',
+  children: [{ code: '060', name: 'County Subdivision' }],
+}
+
+describe('SummaryLevelResource', () => {
+  let resource: SummaryLevelResource
+  let mockDbService: { healthCheck: Mock; query: Mock }
+
+  beforeEach(() => {
+    mockDbService = {
+      healthCheck: vi.fn().mockResolvedValue(true),
+      query: vi.fn(),
+    }
+    ;(DatabaseService.getInstance as Mock).mockReturnValue(mockDbService)
+
+    resource = new SummaryLevelResource()
+  })
+
+  it('should have the correct metadata', () => {
+    expect(resource.name).toBe('summary-level')
+    expect(resource.description).toBe(resourceDescription)
+    expect(resource.uriTemplate).toBe('census://summary-level/{code}')
+  })
+
+  it('should only match 3-digit summary level codes', () => {
+    expect(resource.matches('census://summary-level/050')).toBe(true)
+    expect(resource.matches('census://summary-level/county')).toBe(false)
+  })
+
+  it('should list one resource per summary level', async () => {
+    mockDbService.query.mockResolvedValue({
+      rows: [{ code: '050', name: 'County', description: null }],
+    })
+
+    const resources = await resource.listResources()
+
+    expect(resources).toEqual([
+      {
+        uri: 'census://summary-level/050',
+        name: 'County (050)',
+        description: undefined,
+        mimeType: 'application/json',
+      },
+    ])
+  })
+
+  it('should read a summary level with its parent and children', async () => {
+    mockDbService.query.mockResolvedValue({ rows: [mockSummaryLevelRow] })
+
+    const result = await resource.readResource('census://summary-level/050')
+    const data = JSON.parse(result.contents[0].text)
+
+    expect(mockDbService.query).toHaveBeenCalledWith(
+      expect.stringContaining('FROM summary_levels sl'),
+      ['050'],
+    )
+    expect(data).toEqual({
+      code: '050',
+      name: 'County',
+      description: mockSummaryLevelRow.description,
+      query_name: 'county',
+      get_variable: 'COUNTY',
+      on_spine: true,
+      hierarchy_level: 3,
+      parent: { code: '040', name: 'State' },
+      children: [{ code: '060', name: 'County Subdivision' }],
+    })
+  })
+
+  it('should return a null parent for the top of the hierarchy', async () => {
+    mockDbService.query.mockResolvedValue({
+      rows: [
+        {
+          ...mockSummaryLevelRow,
+          code: '010',
+          parent_summary_level: null,
+          parent_name: null,
+        },
+      ],
+    })
+
+    const result = await resource.readResource('census://summary-level/010')
+
+    expect(JSON.parse(result.contents[0].text).parent).toBeNull()
+  })
+
+  it('should throw when the summary level does not exist', async () => {
+    mockDbService.query.mockResolvedValue({ rows: [] })
+
+    await expect(
+      resource.readResource('census://summary-level/999'),
+    ).rejects.toThrow('Resource not found: census://summary-level/999')
+  })
+})
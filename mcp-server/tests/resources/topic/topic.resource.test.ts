@@ -0,0 +1,95 @@
+import { beforeEach, describe, expect, it, Mock, vi } from 'vitest'
+
+vi.mock('../../../src/services/database.service.js', () => ({
+  DatabaseService: {
+    getInstance: vi.fn(),
+  },
+}))
+
+import { DatabaseService } from '../../../src/services/database.service.js'
+import {
+  TopicResource,
+  resourceDescription,
+} from '../../../src/resources/topic.resource'
+import { TopicResourceRow } from '../../../src/types/topic.types'
+
+const mockTopicRow: TopicResourceRow = {
+  topic_string: 'Income_and_Poverty',
+  name: 'Income and Poverty',
+  description: 'Statistics on income and poverty.',
+  parent_topic_string: null,
+  subtopics: [{ topic_string: 'Poverty', name: 'Poverty' }],
+  datasets: [
+    {
+      api_endpoint: 'acs/acs1',
+      name: 'American Community Survey: 1-Year Estimates: Detailed Tables',
+      years: [2021, 2022],
+    },
+  ],
+}
+
+describe('TopicResource', () => {
+  let resource: TopicResource
+  let mockDbService: { healthCheck: Mock; query: Mock }
+
+  beforeEach(() => {
+    mockDbService = {
+      healthCheck: vi.fn().mockResolvedValue(true),
+      query: vi.fn(),
+    }
+    ;(DatabaseService.getInstance as Mock).mockReturnValue(mockDbService)
+
+    resource = new TopicResource()
+  })
+
+  it('should have the correct metadata', () => {
+    expect(resource.name).toBe('topic')
+    expect(resource.description).toBe(resourceDescription)
+    expect(resource.uriTemplate).toBe('census://topic/{topic_string}')
+  })
+
+  it('should list one resource per topic', async () => {
+    mockDbService.query.mockResolvedValue({
+      rows: [
+        {
+          topic_string: 'Income_and_Poverty',
+          name: 'Income and Poverty',
+          description: 'Statistics on income and poverty.',
+        },
+      ],
+    })
+
+    const resources = await resource.listResources()
+
+    expect(resources).toEqual([
+      {
+        uri: 'census://topic/Income_and_Poverty',
+        name: 'Income and Poverty',
+        description: 'Statistics on income and poverty.',
+        mimeType: 'application/json',
+      },
+    ])
+  })
+
+  it('should read a topic with its subtopics and datasets', async () => {
+    mockDbService.query.mockResolvedValue({ rows: [mockTopicRow] })
+
+    const result = await resource.readResource(
+      'census://topic/Income_and_Poverty',
+    )
+
+    expect(mockDbService.query).toHaveBeenCalledWith(
+      expect.stringContaining('FROM topics t'),
+      ['Income_and_Poverty'],
+    )
+    expect(JSON.parse(result.contents[0].text)).toEqual(mockTopicRow)
+  })
+
+  it('should throw when the topic does not exist', async () => {
+    mockDbService.query.mockResolvedValue({ rows: [] })
+
+    await expect(
+      resource.readResource('census://topic/Unknown_Topic'),
+    ).rejects.toThrow('Resource not found: census://topic/Unknown_Topic')
+  })
+})
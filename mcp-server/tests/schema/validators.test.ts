@@ -4,10 +4,12 @@ import { RefinementCtx, z } from 'zod'
 import {
   datasetValidator,
   validateGeographyArgs,
+  validateOptionalGeographyArgs,
 } from '../../src/schema/validators'
 
 type TableArgs = {
   for?: string
+  in?: string
   ucgid?: string
 }
 
@@ -196,3 +198,45 @@ describe('validateGeographyArgs', () => {
     })
   })
 })
+
+describe('validateOptionalGeographyArgs', () => {
+  let mockCtx: RefinementCtx
+  let addIssueSpy: vi.SpyInstance
+
+  beforeEach(() => {
+    addIssueSpy = vi.fn()
+    mockCtx = {
+      addIssue: addIssueSpy,
+    } as unknown as RefinementCtx
+  })
+
+  it('should not add any issues without geography', () => {
+    validateOptionalGeographyArgs({}, mockCtx)
+
+    expect(addIssueSpy).not.toHaveBeenCalled()
+  })
+
+  it('should add an issue for too many geographies', () => {
+    validateOptionalGeographyArgs(
+      { for: 'state:01', ucgid: '0400000US01' },
+      mockCtx,
+    )
+
+    expect(addIssueSpy).toHaveBeenCalledWith({
+      path: ['for', 'ucgid'],
+      code: z.ZodIssueCode.custom,
+      message:
+        'Too many geographies specified error - define for or ucgid only, not both.',
+    })
+  })
+
+  it('should add an issue when in is provided without for', () => {
+    validateOptionalGeographyArgs({ in: 'state:01' }, mockCtx)
+
+    expect(addIssueSpy).toHaveBeenCalledWith({
+      path: ['in'],
+      code: z.ZodIssueCode.custom,
+      message: "Parent geography specified error - 'in' requires 'for'.",
+    })
+  })
+})
@@ -6,8 +6,24 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import { MCPServer } from '../src/server'
 import { ToolRegistry } from '../src/tools/base.tool'
 import { PromptRegistry } from '../src/prompts/base.prompt'
+import { ResourceRegistry } from '../src/resources/base.resource'
 import { ErrorThrowingTool, MockFetchSummaryTableTool } from './mocks/tool.mock'
 import { MockTestPrompt, ErrorThrowingPrompt } from './mocks/prompt.mock'
+import { MockResource } from './mocks/resource.mock'
+
+vi.mock('../src/services/database.service.js', () => ({
+  DatabaseService: {
+    getInstance: vi.fn(() => ({
+      healthCheck: vi.fn().mockResolvedValue(true),
+    })),
+  },
+}))
+
+const { mockComplete } = vi.hoisted(() => ({ mockComplete: vi.fn() }))
+
+vi.mock('../src/services/completion.service.js', () => ({
+  CompletionService: vi.fn(() => ({ complete: mockComplete })),
+}))
 
 vi.mock('@modelcontextprotocol/sdk/server/stdio.js', () => ({
   StdioServerTransport: vi.fn().mockImplementation(() => ({
@@ -51,6 +67,20 @@ describe('MCP Server', () => {
     })
   })
 
+  describe('connectSession', () => {
+    it('should connect each transport to a separate server instance', async () => {
+      connectSpy.mockResolvedValue(undefined)
+
+      const first = await mcpServer.connectSession(new StdioServerTransport())
+      const second = await mcpServer.connectSession(new StdioServerTransport())
+
+      expect(connectSpy).toHaveBeenCalledTimes(2)
+      expect(first).toBeInstanceOf(Server)
+      expect(second).toBeInstanceOf(Server)
+      expect(first).not.toBe(second)
+    })
+  })
+
   describe('Tool functionality', () => {
     describe('registerTool', () => {
       it('should register tools successfully', () => {
@@ -83,6 +113,24 @@ describe('MCP Server', () => {
         expect(toolGetAllSpy).toHaveBeenCalledTimes(1)
       })
 
+      it('should include the output schema when a tool declares one', () => {
+        const outputSchema = {
+          type: 'object' as const,
+          properties: { message: { type: 'string' } },
+        }
+        mcpServer.registerTool(
+          Object.assign(new MockFetchSummaryTableTool(), {
+            name: 'structured-tool-mock',
+            outputSchema,
+          }),
+        )
+
+        const result = mcpServer.getTools()
+
+        expect(result.tools[0]).not.toHaveProperty('outputSchema')
+        expect(result.tools[1].outputSchema).toEqual(outputSchema)
+      })
+
       it('should return tools in correct format', () => {
         const result = mcpServer.getTools()
         expect(result).toEqual({
@@ -117,7 +165,27 @@ describe('MCP Server', () => {
         expect(result.content).toBeDefined()
       })
 
-      it('should throw InvalidParams for invalid arguments (ZodError)', async () => {
+      it('should pass the session to the tool handler', async () => {
+        const handlerSpy = vi.spyOn(mockFetchSummaryTableTool, 'handler')
+        mcpServer.registerTool(mockFetchSummaryTableTool)
+
+        await mcpServer.handleToolCall(
+          {
+            params: {
+              name: 'fetch-summary-table-mock',
+              arguments: { message: 'test message' },
+            },
+          },
+          { sessionId: 'session-1' },
+        )
+
+        expect(handlerSpy).toHaveBeenCalledWith(
+          { message: 'test message' },
+          { sessionId: 'session-1' },
+        )
+      })
+
+      it('should return a validation error result for invalid arguments', async () => {
         const request = {
           params: {
             name: 'fetch-summary-table-mock',
@@ -128,17 +196,17 @@ describe('MCP Server', () => {
           },
         }
 
-        try {
-          await mcpServer.handleToolCall(request)
-          expect.fail('Expected an error to be thrown')
-        } catch (error) {
-          expect(error).toBeInstanceOf(McpError)
-          expect(error.code).toBe(ErrorCode.InvalidParams)
-          expect(error.message).toContain('Invalid arguments:')
-        }
+        const result = await mcpServer.handleToolCall(request)
+
+        expect(result.isError).toBe(true)
+        expect(result.content[0].text).toContain('Invalid arguments:')
+        expect(result._meta?.error).toMatchObject({
+          code: 'VALIDATION_ERROR',
+          details: { issues: expect.any(Array) },
+        })
       })
 
-      it('should re-throw non-ZodError errors', async () => {
+      it('should return an internal error result when the tool throws', async () => {
         const errorTool = new ErrorThrowingTool()
         mcpServer.registerTool(errorTool)
 
@@ -151,15 +219,15 @@ describe('MCP Server', () => {
           },
         }
 
-        try {
-          await mcpServer.handleToolCall(request)
-          expect.fail('Expected an error to be thrown')
-        } catch (error) {
-          // Should be the original error, not wrapped in McpError
-          expect(error).toBeInstanceOf(Error)
-          expect(error.message).toBe('Tool execution failed')
-          expect(error).not.toBeInstanceOf(McpError)
-        }
+        const result = await mcpServer.handleToolCall(request)
+
+        expect(result).toMatchObject({
+          content: [
+            { type: 'text', text: 'Unexpected error: Tool execution failed' },
+          ],
+          isError: true,
+          _meta: { error: { code: 'INTERNAL_ERROR' } },
+        })
       })
 
       it('should throw MethodNotFound for unknown tool', async () => {
@@ -346,6 +414,199 @@ describe('MCP Server', () => {
     })
   })
 
+  describe('Resource functionality', () => {
+    let mockResource: MockResource
+
+    beforeEach(() => {
+      mockResource = new MockResource()
+    })
+
+    describe('registerResource', () => {
+      it('should register resources successfully', () => {
+        const resourceRegistrySpy = vi.spyOn(
+          ResourceRegistry.prototype,
+          'register',
+        )
+
+        mcpServer.registerResource(mockResource)
+
+        expect(resourceRegistrySpy).toHaveBeenCalledWith(mockResource)
+      })
+    })
+
+    describe('getResources', () => {
+      it('should list resources from every registered resource', async () => {
+        mcpServer.registerResource(mockResource)
+
+        const result = await mcpServer.getResources()
+
+        expect(result.resources).toEqual([
+          {
+            uri: 'census://mock/040',
+            name: 'State',
+            description: undefined,
+            mimeType: 'application/json',
+          },
+        ])
+        expect(result).not.toHaveProperty('nextCursor')
+      })
+
+      it('should page through every registered resource', async () => {
+        const otherResource = new MockResource()
+        otherResource.name = 'other-mock-resource'
+        mockResource.records = Object.fromEntries(
+          Array.from({ length: 150 }, (_, i) => {
+            const code = String(100 + i)
+            return [code, { code, name: `Level ${code}` }]
+          }),
+        )
+        mcpServer.registerResource(mockResource)
+        mcpServer.registerResource(otherResource)
+
+        const first = await mcpServer.getResources()
+        const second = await mcpServer.getResources(first.nextCursor)
+
+        expect(first.resources).toHaveLength(100)
+        expect(first.resources[99].name).toBe('Level 199')
+        expect(first.nextCursor).toEqual(expect.any(String))
+        expect(second.resources).toHaveLength(51)
+        expect(second.resources[0].name).toBe('Level 200')
+        expect(second.resources[50].name).toBe('State')
+        expect(second).not.toHaveProperty('nextCursor')
+      })
+
+      it('should reject invalid cursors', async () => {
+        mcpServer.registerResource(mockResource)
+
+        await expect(mcpServer.getResources('not-a-cursor')).rejects.toThrow(
+          'Invalid cursor: not-a-cursor',
+        )
+      })
+    })
+
+    describe('getResourceTemplates', () => {
+      it('should return templates in correct format', () => {
+        mcpServer.registerResource(mockResource)
+
+        expect(mcpServer.getResourceTemplates()).toEqual({
+          resourceTemplates: [
+            {
+              uriTemplate: 'census://mock/{code}',
+              name: 'mock-resource',
+              description: 'A resource for testing purposes',
+              mimeType: 'application/json',
+            },
+          ],
+        })
+      })
+    })
+
+    describe('handleReadResource', () => {
+      it('should read the resource matching the URI', async () => {
+        mcpServer.registerResource(mockResource)
+
+        const result = await mcpServer.handleReadResource({
+          params: { uri: 'census://mock/040' },
+        })
+
+        expect(JSON.parse(result.contents[0].text as string)).toEqual({
+          code: '040',
+          name: 'State',
+        })
+      })
+
+      it('should throw InvalidParams for unknown resources', async () => {
+        mcpServer.registerResource(mockResource)
+
+        await expect(
+          mcpServer.handleReadResource({
+            params: { uri: 'census://unknown/040' },
+          }),
+        ).rejects.toMatchObject({
+          code: ErrorCode.InvalidParams,
+          message: 'MCP error -32602: Unknown resource: census://unknown/040',
+        })
+      })
+    })
+  })
+
+  describe('Completion functionality', () => {
+    beforeEach(() => {
+      mockComplete.mockResolvedValue({
+        values: ['Philadelphia city'],
+        hasMore: false,
+      })
+      mcpServer.registerPrompt(mockTestPrompt)
+      mcpServer.registerResource(new MockResource())
+    })
+
+    it('should complete prompt arguments', async () => {
+      const result = await mcpServer.handleComplete({
+        params: {
+          ref: { type: 'ref/prompt', name: 'test-prompt-mock' },
+          argument: { name: 'message', value: 'Phil' },
+        },
+      })
+
+      expect(mockComplete).toHaveBeenCalledWith('message', 'Phil')
+      expect(result).toEqual({
+        completion: { values: ['Philadelphia city'], hasMore: false },
+      })
+    })
+
+    it('should complete resource template variables', async () => {
+      await mcpServer.handleComplete({
+        params: {
+          ref: { type: 'ref/resource', uri: 'census://mock/{code}' },
+          argument: { name: 'code', value: '04' },
+        },
+      })
+
+      expect(mockComplete).toHaveBeenCalledWith('code', '04')
+    })
+
+    it('should return no values for arguments the reference does not declare', async () => {
+      const result = await mcpServer.handleComplete({
+        params: {
+          ref: { type: 'ref/prompt', name: 'test-prompt-mock' },
+          argument: { name: 'year', value: '20' },
+        },
+      })
+
+      expect(mockComplete).not.toHaveBeenCalled()
+      expect(result).toEqual({ completion: { values: [], hasMore: false } })
+    })
+
+    it('should throw InvalidParams for unknown prompts', async () => {
+      await expect(
+        mcpServer.handleComplete({
+          params: {
+            ref: { type: 'ref/prompt', name: 'unknown-prompt' },
+            argument: { name: 'message', value: '' },
+          },
+        }),
+      ).rejects.toMatchObject({
+        code: ErrorCode.InvalidParams,
+        message: 'MCP error -32602: Unknown prompt: unknown-prompt',
+      })
+    })
+
+    it('should throw InvalidParams for unknown resource templates', async () => {
+      await expect(
+        mcpServer.handleComplete({
+          params: {
+            ref: { type: 'ref/resource', uri: 'census://unknown/{code}' },
+            argument: { name: 'code', value: '' },
+          },
+        }),
+      ).rejects.toMatchObject({
+        code: ErrorCode.InvalidParams,
+        message:
+          'MCP error -32602: Unknown resource template: census://unknown/{code}',
+      })
+    })
+  })
+
   describe('Integration tests', () => {
     it('should handle both tools and prompts in the same server', async () => {
       // Register both
@@ -0,0 +1,242 @@
+import { afterEach, beforeEach, describe, expect, it, Mock, vi } from 'vitest'
+
+vi.mock('../../src/services/database.service.js', () => ({
+  DatabaseService: {
+    getInstance: vi.fn(),
+  },
+}))
+
+import { DatabaseService } from '../../src/services/database.service.js'
+import { CacheService } from '../../src/services/cache.service'
+
+describe('CacheService', () => {
+  const key = {
+    datasetCode: 'acs/acs5',
+    year: 2020,
+    variables: ['NAME', 'B01001_001E'],
+    geographySpec: { for: 'state:*' },
+  }
+
+  let service: CacheService
+  let mockDbService: { query: Mock }
+
+  beforeEach(() => {
+    process.env.CENSUS_CACHE_ENABLED = 'true'
+
+    mockDbService = { query: vi.fn().mockResolvedValue({ rows: [] }) }
+    ;(DatabaseService.getInstance as Mock).mockReturnValue(mockDbService)
+
+    // Reset the singleton so it picks up the mocked database
+    ;(CacheService as unknown as { instance?: CacheService }).instance =
+      undefined
+    service = CacheService.getInstance()
+  })
+
+  afterEach(() => {
+    process.env.CENSUS_CACHE_ENABLED = 'false'
+    delete process.env.CENSUS_API_MODE
+  })
+
+  it('should return the same instance', () => {
+    expect(CacheService.getInstance()).toBe(service)
+  })
+
+  describe('get', () => {
+    it('should look up unexpired entries by generate_cache_hash', async () => {
+      const createdAt = new Date('2025-01-01T00:00:00Z')
+      mockDbService.query.mockResolvedValue({
+        rows: [
+          {
+            response_data: [['NAME']],
+            created_at: createdAt,
+            expires_at: null,
+          },
+        ],
+      })
+
+      const entry = await service.get(key)
+
+      const [sql, params] = mockDbService.query.mock.calls[0]
+      expect(sql).toContain('generate_cache_hash')
+      expect(sql).toContain('expires_at > NOW()')
+      expect(sql).toContain('last_accessed = NOW()')
+      expect(params).toEqual([
+        'acs/acs5',
+        2020,
+        ['NAME', 'B01001_001E'],
+        '{"for":"state:*"}',
+      ])
+      expect(entry).toEqual({
+        data: [['NAME']],
+        createdAt,
+        expiresAt: null,
+      })
+    })
+
+    it('should return null on a cache miss', async () => {
+      expect(await service.get(key)).toBeNull()
+    })
+
+    it('should treat database errors as a cache miss', async () => {
+      mockDbService.query.mockRejectedValue(new Error('Connection refused'))
+
+      expect(await service.get(key)).toBeNull()
+      expect(console.error).toHaveBeenCalledWith(
+        'Failed to read from the response cache:',
+        expect.any(Error),
+      )
+    })
+
+    it('should skip the database when the cache is disabled', async () => {
+      process.env.CENSUS_CACHE_ENABLED = 'false'
+
+      expect(await service.get(key)).toBeNull()
+      expect(mockDbService.query).not.toHaveBeenCalled()
+    })
+
+    it('should skip the database while recording Census API responses', async () => {
+      process.env.CENSUS_API_MODE = 'record'
+
+      expect(await service.get(key)).toBeNull()
+      expect(mockDbService.query).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('set', () => {
+    it('should upsert the response with an expiry', async () => {
+      vi.useFakeTimers({ now: new Date('2025-01-01T00:00:00Z') })
+
+      try {
+        await service.set(key, [['NAME'], ['Alabama']], {
+          ttlMs: 60 * 1000,
+          rowCount: 1,
+        })
+      } finally {
+        vi.useRealTimers()
+      }
+
+      const [sql, params] = mockDbService.query.mock.calls[0]
+      expect(sql).toContain('INSERT INTO census_data_cache')
+      expect(sql).toContain('ON CONFLICT (request_hash) DO UPDATE')
+      expect(params).toEqual([
+        'acs/acs5',
+        2020,
+        ['NAME', 'B01001_001E'],
+        '{"for":"state:*"}',
+        '[["NAME"],["Alabama"]]',
+        1,
+        new Date('2025-01-01T00:01:00Z'),
+      ])
+    })
+
+    it('should not throw when the write fails', async () => {
+      mockDbService.query.mockRejectedValue(new Error('Connection refused'))
+
+      await expect(
+        service.set(key, [], { ttlMs: 1000 }),
+      ).resolves.toBeUndefined()
+    })
+
+    it('should skip the database when the cache is disabled', async () => {
+      process.env.CENSUS_CACHE_ENABLED = 'false'
+
+      await service.set(key, [], { ttlMs: 1000 })
+      expect(mockDbService.query).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('maintenance', () => {
+    it('should remove expired entries with cleanup_expired_cache', async () => {
+      mockDbService.query.mockResolvedValue({ rows: [{ deleted: 3 }] })
+
+      expect(await service.cleanupExpired()).toBe(3)
+      expect(mockDbService.query).toHaveBeenCalledWith(
+        'SELECT cleanup_expired_cache() AS deleted',
+      )
+    })
+
+    it('should read statistics with get_cache_stats', async () => {
+      const stats = {
+        total_entries: '10',
+        expired_entries: '2',
+        cache_size_mb: '1.50',
+        most_accessed_dataset: 'acs/acs5',
+        avg_response_size_kb: '153.60',
+      }
+      mockDbService.query.mockResolvedValue({ rows: [stats] })
+
+      expect(await service.getStats()).toEqual(stats)
+      expect(mockDbService.query).toHaveBeenCalledWith(
+        'SELECT * FROM get_cache_stats()',
+      )
+    })
+
+    it('should clean up on an interval', async () => {
+      vi.useFakeTimers()
+      mockDbService.query.mockResolvedValue({ rows: [{ deleted: 0 }] })
+
+      try {
+        const timer = service.startCleanup(1000)
+        await vi.advanceTimersByTimeAsync(1000)
+        clearInterval(timer)
+      } finally {
+        vi.useRealTimers()
+      }
+
+      expect(mockDbService.query).toHaveBeenCalledWith(
+        'SELECT cleanup_expired_cache() AS deleted',
+      )
+    })
+  })
+
+  describe('toStatus', () => {
+    it('should report a miss when there is no entry', () => {
+      expect(CacheService.toStatus(null)).toEqual({ hit: false })
+    })
+
+    it('should report when a hit was cached and expires', () => {
+      expect(
+        CacheService.toStatus({
+          data: [],
+          createdAt: new Date('2025-01-01T00:00:00Z'),
+          expiresAt: new Date('2026-01-01T00:00:00Z'),
+        }),
+      ).toEqual({
+        hit: true,
+        cached_at: '2025-01-01T00:00:00.000Z',
+        expires_at: '2026-01-01T00:00:00.000Z',
+      })
+    })
+
+    it('should only report a hit when every entry was cached', () => {
+      const entry = {
+        data: [],
+        createdAt: new Date('2025-01-01T00:00:00Z'),
+        expiresAt: null,
+      }
+
+      expect(CacheService.toStatus(entry, null)).toEqual({ hit: false })
+    })
+
+    it('should report the oldest entry and earliest expiry', () => {
+      expect(
+        CacheService.toStatus(
+          {
+            data: [],
+            createdAt: new Date('2025-01-02T00:00:00Z'),
+            expiresAt: null,
+          },
+          {
+            data: [],
+            createdAt: new Date('2025-01-01T00:00:00Z'),
+            expiresAt: new Date('2025-02-01T00:00:00Z'),
+          },
+        ),
+      ).toEqual({
+        hit: true,
+        cached_at: '2025-01-01T00:00:00.000Z',
+        expires_at: '2025-02-01T00:00:00.000Z',
+      })
+    })
+  })
+})
@@ -0,0 +1,427 @@
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+const mockFetch = vi.hoisted(() => vi.fn())
+
+vi.mock('node-fetch', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('node-fetch')>()),
+  default: mockFetch,
+}))
+
+import { CensusApiError, NotFoundError } from '../../src/errors/tool.errors'
+import { HISTORICAL_DATA_CACHE_TTL_MS } from '../../src/helpers/cache-ttl'
+import { CacheService } from '../../src/services/cache.service'
+import { CensusApiClient } from '../../src/services/census-api-client.service'
+import { CensusApiClientOptions } from '../../src/types/census-api.types'
+import { createMockResponse } from '../helpers/test-utils'
+
+// Records backoff delays instead of waiting for them
+class TestCensusApiClient extends CensusApiClient {
+  delays: number[] = []
+
+  protected async sleep(ms: number): Promise<void> {
+    this.delays.push(ms)
+  }
+}
+
+const defaultOptions: CensusApiClientOptions = {
+  mode: 'live',
+  fixturesDir: '/tmp/census-api-fixtures',
+  baseUrl: 'https://api.census.gov',
+  timeoutMs: 1000,
+  maxRetries: 3,
+  retryDelayMs: 100,
+  maxRetryDelayMs: 1000,
+  maxConcurrentRequests: 5,
+}
+
+function createResponse(
+  status: number,
+  statusText: string,
+  headers: Record<string, string> = {},
+) {
+  return new Response('', { status, statusText, headers })
+}
+
+describe('CensusApiClient', () => {
+  let client: TestCensusApiClient
+
+  beforeEach(() => {
+    mockFetch.mockReset()
+    client = new TestCensusApiClient(defaultOptions)
+  })
+
+  describe('getInstance', () => {
+    it('should return the same instance', () => {
+      expect(CensusApiClient.getInstance()).toBe(CensusApiClient.getInstance())
+    })
+  })
+
+  describe('buildUrl', () => {
+    it('should append the API key after the other query parameters', () => {
+      const url = client.buildUrl(
+        'data/2022/acs/acs1',
+        new URLSearchParams({ get: 'NAME', for: 'state:*' }),
+        'test-key',
+      )
+
+      expect(url).toBe(
+        'https://api.census.gov/data/2022/acs/acs1?get=NAME&for=state%3A*&key=test-key',
+      )
+    })
+
+    it('should inject the key from CENSUS_API_KEY by default', () => {
+      const originalKey = process.env.CENSUS_API_KEY
+      process.env.CENSUS_API_KEY = 'env-key'
+
+      try {
+        expect(client.buildUrl('/data.json')).toBe(
+          'https://api.census.gov/data.json?key=env-key',
+        )
+      } finally {
+        if (originalKey === undefined) {
+          delete process.env.CENSUS_API_KEY
+        } else {
+          process.env.CENSUS_API_KEY = originalKey
+        }
+      }
+    })
+
+    it('should omit the query string when there are no parameters', () => {
+      expect(client.buildUrl('data.json', undefined, '')).toBe(
+        'https://api.census.gov/data.json',
+      )
+    })
+  })
+
+  describe('fetch', () => {
+    const url = 'https://api.census.gov/data.json?key=secret'
+
+    it('should return successful responses without retrying', async () => {
+      mockFetch.mockImplementation(() => createMockResponse({ dataset: [] }))
+
+      const response = await client.fetch(url)
+
+      expect(response.status).toBe(200)
+      expect(mockFetch).toHaveBeenCalledOnce()
+      expect(mockFetch).toHaveBeenCalledWith(url, {
+        signal: expect.any(AbortSignal),
+      })
+    })
+
+    it('should retry server errors with exponential backoff', async () => {
+      mockFetch
+        .mockResolvedValueOnce(createResponse(503, 'Service Unavailable'))
+        .mockResolvedValueOnce(createResponse(502, 'Bad Gateway'))
+        .mockImplementationOnce(() => createMockResponse({}))
+
+      const response = await client.fetch(url)
+
+      expect(response.status).toBe(200)
+      expect(mockFetch).toHaveBeenCalledTimes(3)
+      expect(client.delays).toEqual([100, 200])
+    })
+
+    it('should wait for the Retry-After seconds on 429 responses', async () => {
+      mockFetch
+        .mockResolvedValueOnce(
+          createResponse(429, 'Too Many Requests', { 'Retry-After': '0.5' }),
+        )
+        .mockImplementationOnce(() => createMockResponse({}))
+
+      await client.fetch(url)
+
+      expect(client.delays).toEqual([500])
+    })
+
+    it('should accept Retry-After dates and cap the delay', async () => {
+      const retryAt = new Date(Date.now() + 60 * 1000).toUTCString()
+      mockFetch
+        .mockResolvedValueOnce(
+          createResponse(429, 'Too Many Requests', { 'Retry-After': retryAt }),
+        )
+        .mockImplementationOnce(() => createMockResponse({}))
+
+      await client.fetch(url)
+
+      expect(client.delays).toEqual([defaultOptions.maxRetryDelayMs])
+    })
+
+    it('should return the last response once retries are exhausted', async () => {
+      mockFetch.mockImplementation(() =>
+        Promise.resolve(createResponse(503, 'Service Unavailable')),
+      )
+
+      const response = await client.fetch(url)
+
+      expect(response.status).toBe(503)
+      expect(mockFetch).toHaveBeenCalledTimes(defaultOptions.maxRetries + 1)
+    })
+
+    it('should not retry client errors', async () => {
+      mockFetch.mockResolvedValue(createResponse(400, 'Bad Request'))
+
+      const response = await client.fetch(url)
+
+      expect(response.status).toBe(400)
+      expect(mockFetch).toHaveBeenCalledOnce()
+    })
+
+    it('should retry network errors and rethrow the last one', async () => {
+      mockFetch.mockRejectedValue(new Error('socket hang up'))
+
+      await expect(client.fetch(url)).rejects.toThrow('socket hang up')
+      expect(mockFetch).toHaveBeenCalledTimes(defaultOptions.maxRetries + 1)
+    })
+
+    it('should redact the API key when logging retries', async () => {
+      mockFetch
+        .mockRejectedValueOnce(new Error('socket hang up'))
+        .mockImplementationOnce(() => createMockResponse({}))
+
+      const originalKey = process.env.CENSUS_API_KEY
+      process.env.CENSUS_API_KEY = 'secret'
+
+      try {
+        await client.fetch(url)
+      } finally {
+        if (originalKey === undefined) {
+          delete process.env.CENSUS_API_KEY
+        } else {
+          process.env.CENSUS_API_KEY = originalKey
+        }
+      }
+
+      const message = vi.mocked(console.warn).mock.calls.at(-1)?.[0]
+      expect(message).toContain('socket hang up')
+      expect(message).not.toContain('secret')
+    })
+
+    it('should abort requests that exceed the timeout', async () => {
+      client = new TestCensusApiClient({
+        ...defaultOptions,
+        timeoutMs: 5,
+        maxRetries: 0,
+      })
+      mockFetch.mockImplementation(
+        (_url: string, { signal }: { signal: AbortSignal }) =>
+          new Promise((_resolve, reject) => {
+            signal.addEventListener('abort', () =>
+              reject(new Error('The operation was aborted.')),
+            )
+          }),
+      )
+
+      const error = await client.fetch(url).catch((err) => err)
+
+      expect(error).toBeInstanceOf(CensusApiError)
+      expect(error.message).toBe('Census API request timed out after 5ms')
+    })
+
+    it('should limit the number of concurrent requests', async () => {
+      client = new TestCensusApiClient({
+        ...defaultOptions,
+        maxConcurrentRequests: 1,
+      })
+
+      const pending: Array<() => void> = []
+      mockFetch.mockImplementation(
+        () =>
+          new Promise((resolve) =>
+            pending.push(() => resolve(createResponse(200, 'OK'))),
+          ),
+      )
+
+      const first = client.fetch(url)
+      const second = client.fetch(url)
+      await new Promise((resolve) => setTimeout(resolve, 0))
+
+      expect(mockFetch).toHaveBeenCalledOnce()
+
+      pending.shift()?.()
+      await first
+      await new Promise((resolve) => setTimeout(resolve, 0))
+
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+
+      pending.shift()?.()
+      await expect(second).resolves.toHaveProperty('status', 200)
+    })
+  })
+
+  describe('readJson', () => {
+    it('should parse JSON bodies', async () => {
+      const rows = await client.readJson(
+        new Response('[["NAME"],["Alabama"]]', { status: 200 }),
+      )
+
+      expect(rows).toEqual([['NAME'], ['Alabama']])
+    })
+
+    it('should report HTML pages answered with status 200', async () => {
+      const error = await client
+        .readJson(
+          new Response('<html><title>Invalid Key</title></html>', {
+            status: 200,
+            statusText: 'OK',
+          }),
+        )
+        .catch((err) => err)
+
+      expect(error).toBeInstanceOf(CensusApiError)
+      expect(error.message).toBe('Census API error: 200 OK: Invalid Key')
+      expect(error.details).toMatchObject({ kind: 'invalid_key' })
+    })
+  })
+
+  describe('fetchRows', () => {
+    const url =
+      'https://api.census.gov/data/2019/acs/acs1?get=NAME%2CB01001_001E&for=state%3A01&descriptive=false&key=secret-key'
+    const rows = [
+      ['NAME', 'B01001_001E', 'state'],
+      ['Alabama', '4903185', '01'],
+    ]
+
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    it('should key cached responses by the query without the API key', async () => {
+      const getSpy = vi.spyOn(CacheService.prototype, 'get').mockResolvedValue({
+        data: rows,
+        createdAt: new Date('2025-01-01T00:00:00Z'),
+        expiresAt: null,
+      })
+
+      const result = await client.fetchRows(url, 'acs/acs1', 2019)
+
+      expect(mockFetch).not.toHaveBeenCalled()
+      expect(getSpy).toHaveBeenCalledWith({
+        datasetCode: 'acs/acs1',
+        year: 2019,
+        variables: ['NAME', 'B01001_001E'],
+        geographySpec: { for: 'state:01', descriptive: 'false' },
+      })
+      expect(result).toMatchObject({ rows, cached: { expiresAt: null } })
+    })
+
+    it('should store fetched rows with the dataset TTL', async () => {
+      const setSpy = vi
+        .spyOn(CacheService.prototype, 'set')
+        .mockResolvedValue(undefined)
+      mockFetch.mockReturnValue(createMockResponse(rows))
+
+      const result = await client.fetchRows(url, 'acs/acs1', 2019)
+
+      expect(result).toEqual({ rows, cached: null })
+      expect(setSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ datasetCode: 'acs/acs1', year: 2019 }),
+        rows,
+        { ttlMs: HISTORICAL_DATA_CACHE_TTL_MS, rowCount: 1 },
+      )
+    })
+
+    it('should report failed requests without caching them', async () => {
+      const setSpy = vi.spyOn(CacheService.prototype, 'set')
+      mockFetch.mockResolvedValue(new Response(null, { status: 204 }))
+
+      await expect(client.fetchRows(url, 'acs/acs1', 2019)).rejects.toThrow(
+        NotFoundError,
+      )
+      expect(setSpy).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('record and replay', () => {
+    const url =
+      'https://api.census.gov/data/2022/acs/acs1?get=NAME&for=state%3A01&key=secret-key'
+    let fixturesDir: string
+
+    beforeEach(async () => {
+      fixturesDir = await mkdtemp(path.join(tmpdir(), 'census-api-fixtures-'))
+    })
+
+    afterEach(async () => {
+      await rm(fixturesDir, { recursive: true, force: true })
+    })
+
+    it('should record responses as fixtures without the API key', async () => {
+      const recorder = new TestCensusApiClient({
+        ...defaultOptions,
+        mode: 'record',
+        fixturesDir,
+      })
+      mockFetch.mockImplementation(() =>
+        createMockResponse([
+          ['NAME', 'state'],
+          ['Alabama', '01'],
+        ]),
+      )
+
+      const response = await recorder.fetch(url)
+
+      // The caller can still read the recorded body
+      expect(await response.json()).toEqual([
+        ['NAME', 'state'],
+        ['Alabama', '01'],
+      ])
+
+      const [file] = await readdir(fixturesDir)
+      expect(file).toMatch(/^data_2022_acs_acs1-[0-9a-f]{16}\.json$/)
+
+      const contents = await readFile(path.join(fixturesDir, file), 'utf8')
+      expect(contents).not.toContain('secret-key')
+      expect(JSON.parse(contents)).toMatchObject({
+        url: 'https://api.census.gov/data/2022/acs/acs1?get=NAME&for=state%3A01&key=REDACTED',
+        status: 200,
+        headers: { 'content-type': 'application/json' },
+      })
+    })
+
+    it('should replay recorded responses without the network', async () => {
+      mockFetch.mockImplementation(() =>
+        createMockResponse({ error: 'unknown variable' }, 400, 'Bad Request'),
+      )
+      await new TestCensusApiClient({
+        ...defaultOptions,
+        mode: 'record',
+        fixturesDir,
+      }).fetch(url)
+      mockFetch.mockClear()
+
+      const player = new TestCensusApiClient({
+        ...defaultOptions,
+        mode: 'replay',
+        fixturesDir,
+      })
+
+      // Fixtures match regardless of the API key
+      const response = await player.fetch(
+        url.replace('secret-key', 'another-key'),
+      )
+
+      expect(mockFetch).not.toHaveBeenCalled()
+      expect(response.status).toBe(400)
+      expect(response.statusText).toBe('Bad Request')
+      expect(await response.json()).toEqual({ error: 'unknown variable' })
+    })
+
+    it('should report requests that were never recorded', async () => {
+      const player = new TestCensusApiClient({
+        ...defaultOptions,
+        mode: 'replay',
+        fixturesDir,
+      })
+
+      const error = await player.fetch(url).catch((err) => err)
+
+      expect(error).toBeInstanceOf(CensusApiError)
+      expect(error.message).toContain('No recorded Census API response')
+      expect(error.message).not.toContain('secret-key')
+      expect(error.hint).toContain('CENSUS_API_MODE=record')
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,93 @@
+import { beforeAll, beforeEach, describe, expect, it, Mock, vi } from 'vitest'
+
+vi.mock('../../src/services/database.service.js', () => ({
+  DatabaseService: {
+    getInstance: vi.fn(),
+  },
+}))
+
+import { DatabaseService } from '../../src/services/database.service.js'
+import { CitationService } from '../../src/services/citation.service'
+
+describe('CitationService', () => {
+  const mockDbService = { query: vi.fn() }
+  let service: CitationService
+
+  const request = {
+    dataset: 'acs/acs1',
+    year: 2022,
+    tableId: 'B19013',
+    urls: ['https://api.census.gov/data/2022/acs/acs1?get=B19013_001E'],
+  }
+
+  beforeAll(() => {
+    ;(DatabaseService.getInstance as Mock).mockReturnValue(mockDbService)
+    service = CitationService.getInstance()
+  })
+
+  beforeEach(() => {
+    mockDbService.query.mockReset()
+  })
+
+  it('should return the same instance', () => {
+    expect(CitationService.getInstance()).toBe(service)
+  })
+
+  it('should cite the dataset title and table label from the database', async () => {
+    mockDbService.query.mockResolvedValue({
+      rows: [
+        {
+          name: 'American Community Survey: 1-Year Estimates: Detailed Tables',
+          table_label: 'Median Household Income in the Past 12 Months',
+        },
+      ],
+    })
+
+    const citations = await service.cite(request)
+
+    expect(mockDbService.query).toHaveBeenCalledWith(
+      expect.stringContaining('FROM datasets d'),
+      ['acs/acs1', 2022, 'B19013'],
+    )
+    expect(citations).toMatchObject({
+      dataset_title:
+        'American Community Survey: 1-Year Estimates: Detailed Tables',
+      table_id: 'B19013',
+      table_label: 'Median Household Income in the Past 12 Months',
+      url: 'https://api.census.gov/data/2022/acs/acs1?get=B19013_001E',
+    })
+    expect(citations.accessed).toMatch(/^\d{4}-\d{2}-\d{2}$/)
+  })
+
+  it('should look up timeseries datasets without a vintage', async () => {
+    mockDbService.query.mockResolvedValue({ rows: [] })
+
+    await service.cite({
+      dataset: 'timeseries/eits/resconst',
+      urls: [
+        'https://api.census.gov/data/timeseries/eits/resconst?get=cell_value',
+      ],
+    })
+
+    expect(mockDbService.query).toHaveBeenCalledWith(expect.any(String), [
+      'timeseries/eits/resconst',
+      null,
+      null,
+    ])
+  })
+
+  it('should cite the dataset identifier when the database is unavailable', async () => {
+    mockDbService.query.mockRejectedValue(new Error('Connection refused'))
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    const citations = await service.cite(request)
+
+    expect(citations.dataset_title).toBe('acs/acs1')
+    expect(citations.table_label).toBeUndefined()
+    expect(consoleSpy).toHaveBeenCalledWith(
+      'Citing acs/acs1 without its title: Connection refused',
+    )
+
+    consoleSpy.mockRestore()
+  })
+})
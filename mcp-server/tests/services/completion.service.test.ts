@@ -0,0 +1,151 @@
+import { beforeEach, describe, expect, it, Mock, vi } from 'vitest'
+
+vi.mock('../../src/services/database.service.js', () => ({
+  DatabaseService: {
+    getInstance: vi.fn(),
+  },
+}))
+
+import { DatabaseService } from '../../src/services/database.service.js'
+import {
+  COMPLETION_LIMIT,
+  CompletionService,
+} from '../../src/services/completion.service'
+
+describe('CompletionService', () => {
+  let service: CompletionService
+  let mockDbService: { healthCheck: Mock; query: Mock }
+
+  beforeEach(() => {
+    mockDbService = {
+      healthCheck: vi.fn().mockResolvedValue(true),
+      query: vi.fn().mockResolvedValue({ rows: [] }),
+    }
+    ;(DatabaseService.getInstance as Mock).mockReturnValue(mockDbService)
+
+    service = new CompletionService()
+  })
+
+  it('should complete geography names from search_geographies', async () => {
+    mockDbService.query.mockResolvedValue({
+      rows: [
+        { name: 'Philadelphia city' },
+        { name: 'Philadelphia County' },
+        { name: 'Philadelphia city' },
+      ],
+    })
+
+    const result = await service.complete('geography_name', ' Philad ')
+
+    expect(mockDbService.query).toHaveBeenCalledWith(
+      'SELECT name FROM search_geographies($1, $2)',
+      ['Philad', COMPLETION_LIMIT + 1],
+    )
+    expect(result).toEqual({
+      values: ['Philadelphia city', 'Philadelphia County'],
+      hasMore: false,
+    })
+  })
+
+  it('should not search geographies for an empty value', async () => {
+    const result = await service.complete('geography_name', '')
+
+    expect(mockDbService.query).not.toHaveBeenCalled()
+    expect(result).toEqual({ values: [], hasMore: false })
+  })
+
+  it('should complete partial summary level codes by prefix', async () => {
+    mockDbService.query.mockResolvedValue({
+      rows: [{ code: '050' }, { code: '060' }],
+    })
+
+    const result = await service.complete('code', '0')
+
+    expect(mockDbService.query).toHaveBeenCalledWith(
+      expect.stringContaining('FROM summary_levels'),
+      ['0', COMPLETION_LIMIT + 1],
+    )
+    expect(result.values).toEqual(['050', '060'])
+  })
+
+  it('should complete summary level names from search_summary_levels', async () => {
+    mockDbService.query.mockResolvedValue({ rows: [{ code: '050' }] })
+
+    const result = await service.complete('code', 'coun')
+
+    expect(mockDbService.query).toHaveBeenCalledWith(
+      'SELECT code FROM search_summary_levels($1, $2)',
+      ['coun', COMPLETION_LIMIT + 1],
+    )
+    expect(result.values).toEqual(['050'])
+  })
+
+  it.each([
+    ['api_endpoint', 'acs/', 'FROM datasets', 'api_endpoint'],
+    ['year', '20', 'FROM years y', 'year'],
+    ['data_table_id', 'B160', 'FROM data_tables', 'data_table_id'],
+    ['topic_string', 'Inc', 'FROM topics', 'topic_string'],
+    ['component_id', 'ACSDT', 'FROM components', 'component_id'],
+    ['acronym', 'AC', 'FROM programs', 'acronym'],
+  ])(
+    'should complete %s values by prefix',
+    async (argumentName, value, table, column) => {
+      mockDbService.query.mockResolvedValue({ rows: [{ [column]: 'match' }] })
+
+      const result = await service.complete(argumentName, value)
+
+      expect(mockDbService.query).toHaveBeenCalledWith(
+        expect.stringContaining(table),
+        [value, COMPLETION_LIMIT + 1],
+      )
+      expect(result.values).toEqual(['match'])
+    },
+  )
+
+  it('should match underscores and other LIKE wildcards literally', async () => {
+    mockDbService.query.mockResolvedValue({
+      rows: [{ topic_string: 'Income_and_Poverty' }],
+    })
+
+    await service.complete('topic_string', 'Income_')
+    await service.complete('api_endpoint', '100%\\')
+
+    expect(mockDbService.query).toHaveBeenCalledWith(
+      expect.stringContaining("ILIKE $1 || '%' ESCAPE '\\'"),
+      ['Income\\_', COMPLETION_LIMIT + 1],
+    )
+    expect(mockDbService.query).toHaveBeenCalledWith(
+      expect.stringContaining('FROM datasets'),
+      ['100\\%\\\\', COMPLETION_LIMIT + 1],
+    )
+  })
+
+  it('should cap values and report when more are available', async () => {
+    mockDbService.query.mockResolvedValue({
+      rows: Array.from({ length: COMPLETION_LIMIT + 1 }, (_, i) => ({
+        data_table_id: `B${i}`,
+      })),
+    })
+
+    const result = await service.complete('data_table_id', 'B')
+
+    expect(result.values).toHaveLength(COMPLETION_LIMIT)
+    expect(result.hasMore).toBe(true)
+  })
+
+  it('should return no values for unknown arguments', async () => {
+    const result = await service.complete('unknown', 'value')
+
+    expect(mockDbService.healthCheck).not.toHaveBeenCalled()
+    expect(result).toEqual({ values: [], hasMore: false })
+  })
+
+  it('should return no values when the database is unavailable', async () => {
+    mockDbService.healthCheck.mockResolvedValue(false)
+
+    const result = await service.complete('api_endpoint', 'acs')
+
+    expect(mockDbService.query).not.toHaveBeenCalled()
+    expect(result).toEqual({ values: [], hasMore: false })
+  })
+})
@@ -0,0 +1,323 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { request } from 'node:http'
+import { AddressInfo } from 'node:net'
+
+import { formatCitations } from '../../src/helpers/citation'
+import { MCPServer } from '../../src/server'
+import {
+  HttpTransportService,
+  MCP_ENDPOINT,
+} from '../../src/services/http-transport.service'
+import { ResultStoreService } from '../../src/services/result-store.service'
+import { MockFetchSummaryTableTool } from '../mocks/tool.mock'
+
+// global.fetch is mocked in tests/setup.ts, so requests go through node:http
+function sendRequest(
+  address: AddressInfo,
+  method: string,
+  path: string,
+  body?: object,
+  headers: Record<string, string> = {},
+): Promise<{ status: number; headers: Record<string, unknown>; body: string }> {
+  return new Promise((resolve, reject) => {
+    const req = request(
+      {
+        host: address.address,
+        port: address.port,
+        method,
+        path,
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'application/json, text/event-stream',
+          ...headers,
+        },
+      },
+      (res) => {
+        let data = ''
+        res.on('data', (chunk) => (data += chunk))
+        res.on('end', () =>
+          resolve({
+            status: res.statusCode ?? 0,
+            headers: res.headers,
+            body: data,
+          }),
+        )
+      },
+    )
+    req.on('error', reject)
+    if (body) req.write(JSON.stringify(body))
+    req.end()
+  })
+}
+
+const initializeRequest = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-03-26',
+    capabilities: {},
+    clientInfo: { name: 'test-client', version: '1.0.0' },
+  },
+}
+
+// Streamable HTTP responses to POST are delivered as SSE events
+function parseSseData(body: string) {
+  const dataLine = body.split('\n').find((line) => line.startsWith('data: '))
+  return JSON.parse(dataLine!.slice('data: '.length))
+}
+
+async function initializeSession(address: AddressInfo): Promise<string> {
+  const res = await sendRequest(
+    address,
+    'POST',
+    MCP_ENDPOINT,
+    initializeRequest,
+  )
+  const sessionId = res.headers['mcp-session-id'] as string
+
+  await sendRequest(
+    address,
+    'POST',
+    MCP_ENDPOINT,
+    { jsonrpc: '2.0', method: 'notifications/initialized' },
+    { 'mcp-session-id': sessionId },
+  )
+
+  return sessionId
+}
+
+describe('HttpTransportService', () => {
+  let service: HttpTransportService
+  let address: AddressInfo
+
+  beforeEach(async () => {
+    const mcpServer = new MCPServer('test-server', '1.0.0')
+    mcpServer.registerTool(new MockFetchSummaryTableTool())
+
+    service = new HttpTransportService(mcpServer, {
+      host: '127.0.0.1',
+      port: 0,
+      sessionTimeoutMs: 60000,
+      maxSessions: 2,
+      allowedHosts: ['localhost', '127.0.0.1'],
+      allowedOrigins: ['https://app.example.com'],
+    })
+    address = await service.start()
+  })
+
+  afterEach(async () => {
+    await service.stop()
+  })
+
+  it('should report health and session count', async () => {
+    const res = await sendRequest(address, 'GET', '/health')
+
+    expect(res.status).toBe(200)
+    expect(JSON.parse(res.body)).toEqual({ status: 'ok', sessions: 0 })
+  })
+
+  it('should return 404 for unknown paths', async () => {
+    const res = await sendRequest(address, 'GET', '/unknown')
+    expect(res.status).toBe(404)
+  })
+
+  it('should create a session on initialize', async () => {
+    const res = await sendRequest(
+      address,
+      'POST',
+      MCP_ENDPOINT,
+      initializeRequest,
+    )
+
+    expect(res.status).toBe(200)
+    expect(res.headers['mcp-session-id']).toEqual(expect.any(String))
+    expect(parseSseData(res.body).result.serverInfo).toEqual({
+      name: 'test-server',
+      version: '1.0.0',
+    })
+    expect(service.getSessionCount()).toBe(1)
+  })
+
+  it('should keep sessions isolated from each other', async () => {
+    const first = await initializeSession(address)
+    const second = await initializeSession(address)
+
+    expect(first).not.toBe(second)
+    expect(service.getSessionCount()).toBe(2)
+  })
+
+  it('should route requests with a session ID to the session transport', async () => {
+    const sessionId = await initializeSession(address)
+
+    const res = await sendRequest(
+      address,
+      'POST',
+      MCP_ENDPOINT,
+      { jsonrpc: '2.0', id: 2, method: 'tools/list' },
+      { 'mcp-session-id': sessionId },
+    )
+
+    expect(res.status).toBe(200)
+    expect(parseSseData(res.body).result.tools).toEqual([
+      expect.objectContaining({ name: 'fetch-summary-table-mock' }),
+    ])
+  })
+
+  it('should reject requests for unknown sessions', async () => {
+    const res = await sendRequest(
+      address,
+      'POST',
+      MCP_ENDPOINT,
+      { jsonrpc: '2.0', id: 2, method: 'tools/list' },
+      { 'mcp-session-id': 'not-a-session' },
+    )
+
+    expect(res.status).toBe(404)
+    expect(JSON.parse(res.body).error.message).toBe('Session not found')
+  })
+
+  it('should reject non-initialize requests without a session', async () => {
+    const res = await sendRequest(address, 'POST', MCP_ENDPOINT, {
+      jsonrpc: '2.0',
+      id: 2,
+      method: 'tools/list',
+    })
+
+    expect(res.status).toBe(400)
+    expect(service.getSessionCount()).toBe(0)
+  })
+
+  it('should require a session ID for GET requests', async () => {
+    const res = await sendRequest(address, 'GET', MCP_ENDPOINT)
+    expect(res.status).toBe(400)
+  })
+
+  it('should terminate sessions on DELETE', async () => {
+    const sessionId = await initializeSession(address)
+
+    const res = await sendRequest(address, 'DELETE', MCP_ENDPOINT, undefined, {
+      'mcp-session-id': sessionId,
+    })
+
+    expect(res.status).toBe(200)
+    expect(service.getSessionCount()).toBe(0)
+  })
+
+  it('should clear stored results when a session closes', async () => {
+    const sessionId = await initializeSession(address)
+    const store = ResultStoreService.getInstance()
+    const handle = store.save(sessionId, {
+      tool: 'fetch-aggregate-data',
+      dataset: 'acs/acs5',
+      year: 2022,
+      headers: ['NAME'],
+      names: ['NAME'],
+      rows: [['Alabama']],
+      format: 'text',
+      textColumns: [],
+      citation: 'Source: U.S. Census Bureau Data API',
+      citations: formatCitations({
+        dataset: 'acs/acs5',
+        year: 2022,
+        urls: ['https://api.census.gov/data/2022/acs/acs5?get=NAME'],
+        accessed: new Date('2025-01-31T12:00:00Z'),
+      }),
+    })
+
+    await sendRequest(address, 'DELETE', MCP_ENDPOINT, undefined, {
+      'mcp-session-id': sessionId,
+    })
+
+    expect(store.get(sessionId, handle)).toBeNull()
+  })
+
+  it('should refuse new sessions beyond the session limit', async () => {
+    await initializeSession(address)
+    await initializeSession(address)
+
+    const res = await sendRequest(
+      address,
+      'POST',
+      MCP_ENDPOINT,
+      initializeRequest,
+    )
+
+    expect(res.status).toBe(503)
+    expect(res.headers['retry-after']).toBe('60')
+    expect(JSON.parse(res.body).error.message).toBe(
+      'Service Unavailable: Too many open sessions',
+    )
+    expect(service.getSessionCount()).toBe(2)
+
+    const sse = await sendRequest(address, 'GET', '/sse')
+    expect(sse.status).toBe(503)
+  })
+
+  it('should reject requests with a disallowed Host header', async () => {
+    const res = await sendRequest(
+      address,
+      'POST',
+      MCP_ENDPOINT,
+      initializeRequest,
+      { Host: 'attacker.example.com' },
+    )
+
+    expect(res.status).toBe(403)
+    expect(JSON.parse(res.body).error.message).toBe(
+      'Forbidden: Host not allowed',
+    )
+    expect(service.getSessionCount()).toBe(0)
+  })
+
+  it('should reject requests from disallowed origins', async () => {
+    const res = await sendRequest(
+      address,
+      'POST',
+      MCP_ENDPOINT,
+      initializeRequest,
+      { Origin: 'http://attacker.example.com' },
+    )
+
+    expect(res.status).toBe(403)
+    expect(JSON.parse(res.body).error.message).toBe(
+      'Forbidden: Origin not allowed',
+    )
+
+    const sse = await sendRequest(address, 'GET', '/sse', undefined, {
+      Origin: 'null',
+    })
+    expect(sse.status).toBe(403)
+  })
+
+  it('should accept allowed and local origins', async () => {
+    for (const origin of ['https://app.example.com', 'http://localhost:5173']) {
+      const res = await sendRequest(
+        address,
+        'POST',
+        MCP_ENDPOINT,
+        initializeRequest,
+        { Origin: origin },
+      )
+      expect(res.status).toBe(200)
+    }
+  })
+
+  it('should answer health checks from any host', async () => {
+    const res = await sendRequest(address, 'GET', '/health', undefined, {
+      Host: '10.0.0.5:3000',
+    })
+    expect(res.status).toBe(200)
+  })
+
+  it('should reject legacy SSE messages for unknown sessions', async () => {
+    const res = await sendRequest(
+      address,
+      'POST',
+      '/messages?sessionId=missing',
+      { jsonrpc: '2.0', id: 1, method: 'tools/list' },
+    )
+
+    expect(res.status).toBe(404)
+  })
+})
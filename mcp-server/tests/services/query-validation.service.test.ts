@@ -0,0 +1,132 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+import { CensusApiError } from '../../src/errors/tool.errors'
+import {
+  FAILED_METADATA_TTL_MS,
+  METADATA_TTL_MS,
+  QueryValidationService,
+} from '../../src/services/query-validation.service'
+import { VariableMetadataService } from '../../src/services/variable-metadata.service'
+
+describe('QueryValidationService', () => {
+  const variablesJson = {
+    variables: { NAME: { label: 'Geographic Area Name' } },
+  }
+  const geographyJson = {
+    fips: [
+      { name: 'state', geoLevelDisplay: '040', referenceDate: '2022-01-01' },
+    ],
+  }
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    vi.useRealTimers()
+  })
+
+  // The service keeps metadata in memory, so each test uses its own dataset
+  function mockMetadata() {
+    const getVariables = vi
+      .spyOn(VariableMetadataService.prototype, 'getVariables')
+      .mockResolvedValue({ data: variablesJson, cached: null })
+    const getGeography = vi
+      .spyOn(VariableMetadataService.prototype, 'getGeography')
+      .mockResolvedValue({ data: geographyJson, cached: null })
+
+    return { getVariables, getGeography }
+  }
+
+  it('should return the same instance', () => {
+    expect(QueryValidationService.getInstance()).toBe(
+      QueryValidationService.getInstance(),
+    )
+  })
+
+  it('should check the query against variables.json and geography.json', async () => {
+    const getVariables = vi
+      .spyOn(VariableMetadataService.prototype, 'getVariables')
+      .mockResolvedValue({ data: variablesJson, cached: null })
+    vi.spyOn(
+      VariableMetadataService.prototype,
+      'getGeography',
+    ).mockResolvedValue({ data: geographyJson, cached: null })
+
+    const issues = await QueryValidationService.getInstance().validate(
+      {
+        dataset: 'acs/acs1',
+        year: 2022,
+        variables: ['NAME', 'NAM'],
+        for: 'stat:*',
+      },
+      'test-key',
+    )
+
+    expect(getVariables).toHaveBeenCalledWith('acs/acs1', 2022, 'test-key')
+    expect(issues.map((issue) => [issue.field, issue.suggestions])).toEqual([
+      ['variables', ['NAME']],
+      ['for', ['state']],
+    ])
+  })
+
+  it('should skip checks whose metadata cannot be fetched', async () => {
+    vi.spyOn(
+      VariableMetadataService.prototype,
+      'getVariables',
+    ).mockRejectedValue(
+      new CensusApiError('variables.json endpoint returned: 500', 500),
+    )
+    vi.spyOn(
+      VariableMetadataService.prototype,
+      'getGeography',
+    ).mockResolvedValue({ data: geographyJson, cached: null })
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    const issues = await QueryValidationService.getInstance().validate(
+      { dataset: 'acs/acs1', year: 2021, variables: ['NAM'], for: 'state:*' },
+      'test-key',
+    )
+
+    expect(issues).toEqual([])
+  })
+
+  it('should keep metadata in memory until it expires', async () => {
+    vi.useFakeTimers()
+    const { getVariables, getGeography } = mockMetadata()
+    const service = QueryValidationService.getInstance()
+    const query = { dataset: 'acs/acs5', year: 2022, variables: ['NAM'] }
+
+    await Promise.all([
+      service.validate(query, 'test-key'),
+      service.validate(query, 'test-key'),
+    ])
+    const issues = await service.validate(query, 'test-key')
+
+    expect(getVariables).toHaveBeenCalledTimes(1)
+    expect(getGeography).toHaveBeenCalledTimes(1)
+    expect(issues[0].suggestions).toEqual(['NAME'])
+
+    vi.advanceTimersByTime(METADATA_TTL_MS)
+    await service.validate(query, 'test-key')
+
+    expect(getVariables).toHaveBeenCalledTimes(2)
+  })
+
+  it('should skip validation without refetching after a failed fetch', async () => {
+    vi.useFakeTimers()
+    const { getVariables } = mockMetadata()
+    getVariables.mockRejectedValue(
+      new CensusApiError('variables.json endpoint returned: 500', 500),
+    )
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const service = QueryValidationService.getInstance()
+    const query = { dataset: 'acs/acs5', year: 2021, variables: ['NAM'] }
+
+    expect(await service.validate(query, 'test-key')).toEqual([])
+    expect(await service.validate(query, 'test-key')).toEqual([])
+    expect(getVariables).toHaveBeenCalledTimes(1)
+
+    vi.advanceTimersByTime(FAILED_METADATA_TTL_MS)
+    await service.validate(query, 'test-key')
+
+    expect(getVariables).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,89 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+import { formatCitations } from '../../src/helpers/citation'
+import {
+  MAX_STORED_RESULTS,
+  RESULT_TTL_MS,
+  ResultStoreService,
+} from '../../src/services/result-store.service'
+import { StoredResult } from '../../src/types/result-store.types'
+
+describe('ResultStoreService', () => {
+  const result: StoredResult = {
+    tool: 'fetch-aggregate-data',
+    dataset: 'acs/acs5',
+    year: 2022,
+    headers: ['NAME', 'B01001_001E'],
+    names: ['NAME', 'B01001_001E'],
+    rows: [['Census Tract 1', '4000']],
+    format: 'text',
+    textColumns: [],
+    citation: 'Source: U.S. Census Bureau Data API',
+    citations: formatCitations({
+      dataset: 'acs/acs5',
+      year: 2022,
+      urls: ['https://api.census.gov/data/2022/acs/acs5?get=B01001_001E'],
+      accessed: new Date('2025-01-31T12:00:00Z'),
+    }),
+  }
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should return the same instance', () => {
+    expect(ResultStoreService.getInstance()).toBe(
+      ResultStoreService.getInstance(),
+    )
+  })
+
+  it('should return saved results by handle', () => {
+    const store = ResultStoreService.getInstance()
+    const handle = store.save('session-1', result)
+
+    expect(store.get('session-1', handle)).toEqual(result)
+    expect(store.get('session-1', 'unknown')).toBeNull()
+  })
+
+  it('should scope results to the session that saved them', () => {
+    const store = ResultStoreService.getInstance()
+    const handle = store.save('session-1', result)
+    const stdioHandle = store.save(undefined, result)
+
+    expect(store.get('session-2', handle)).toBeNull()
+    expect(store.get(undefined, handle)).toBeNull()
+    expect(store.get(undefined, stdioHandle)).toEqual(result)
+  })
+
+  it('should clear the results of closed sessions', () => {
+    const store = ResultStoreService.getInstance()
+    const handle = store.save('session-1', result)
+
+    store.clearSession('session-1')
+
+    expect(store.get('session-1', handle)).toBeNull()
+  })
+
+  it('should expire results', () => {
+    vi.useFakeTimers()
+    const store = ResultStoreService.getInstance()
+    const handle = store.save('session-1', result)
+
+    vi.advanceTimersByTime(RESULT_TTL_MS)
+
+    expect(store.get('session-1', handle)).toBeNull()
+  })
+
+  it('should drop the oldest results once a session is full', () => {
+    const store = ResultStoreService.getInstance()
+    const other = store.save('session-2', result)
+    const first = store.save('session-1', result)
+    const handles = Array.from({ length: MAX_STORED_RESULTS }, () =>
+      store.save('session-1', result),
+    )
+
+    expect(store.get('session-1', first)).toBeNull()
+    expect(handles.every((handle) => store.get('session-1', handle))).toBe(true)
+    expect(store.get('session-2', other)).toEqual(result)
+  })
+})
@@ -0,0 +1,136 @@
+const mockFetch = vi.hoisted(() => vi.fn())
+
+vi.mock('node-fetch', () => ({
+  default: mockFetch,
+}))
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { HISTORICAL_DATA_CACHE_TTL_MS } from '../../src/helpers/cache-ttl'
+import { CacheService } from '../../src/services/cache.service'
+import { VariableMetadataService } from '../../src/services/variable-metadata.service'
+import { createMockResponse } from '../helpers/test-utils'
+
+describe('VariableMetadataService', () => {
+  const variablesJson = {
+    variables: {
+      NAME: { label: 'Geographic Area Name', predicateType: 'string' },
+    },
+  }
+
+  let service: VariableMetadataService
+
+  beforeEach(() => {
+    service = VariableMetadataService.getInstance()
+    mockFetch.mockClear()
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should return the same instance', () => {
+    expect(VariableMetadataService.getInstance()).toBe(service)
+  })
+
+  it('should fetch variables.json for a vintage', async () => {
+    mockFetch.mockResolvedValue(createMockResponse(variablesJson))
+
+    const result = await service.getVariables('acs/acs1', 2022, 'test-key')
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      'https://api.census.gov/data/2022/acs/acs1/variables.json?key=test-key',
+      expect.anything(),
+    )
+    expect(result).toEqual({ data: variablesJson, cached: null })
+  })
+
+  it('should fetch groups.json without a vintage for timeseries', async () => {
+    mockFetch.mockResolvedValue(createMockResponse({ groups: [] }))
+
+    await service.getGroups('timeseries/healthins/sahie', undefined, 'test-key')
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      'https://api.census.gov/data/timeseries/healthins/sahie/groups.json?key=test-key',
+      expect.anything(),
+    )
+  })
+
+  it('should fetch geography.json under the fetch-dataset-geography cache key', async () => {
+    const geographyJson = {
+      fips: [
+        { name: 'state', geoLevelDisplay: '040', referenceDate: '2022-01-01' },
+      ],
+    }
+    const getSpy = vi.spyOn(CacheService.prototype, 'get')
+    mockFetch.mockResolvedValue(createMockResponse(geographyJson))
+
+    const result = await service.getGeography('acs/acs1', 2022, 'test-key')
+
+    expect(getSpy).toHaveBeenCalledWith({
+      datasetCode: 'acs/acs1',
+      year: 2022,
+      variables: [],
+      geographySpec: { endpoint: 'geography.json' },
+    })
+    expect(mockFetch).toHaveBeenCalledWith(
+      'https://api.census.gov/data/2022/acs/acs1/geography.json?key=test-key',
+      expect.anything(),
+    )
+    expect(result.data).toEqual(geographyJson)
+  })
+
+  it('should cache validated responses', async () => {
+    const setSpy = vi
+      .spyOn(CacheService.prototype, 'set')
+      .mockResolvedValue(undefined)
+    mockFetch.mockResolvedValue(createMockResponse(variablesJson))
+
+    await service.getVariables('acs/acs1', 2019, 'test-key')
+
+    expect(setSpy).toHaveBeenCalledWith(
+      {
+        datasetCode: 'acs/acs1',
+        year: 2019,
+        variables: [],
+        geographySpec: { endpoint: 'variables.json' },
+      },
+      variablesJson,
+      { ttlMs: HISTORICAL_DATA_CACHE_TTL_MS },
+    )
+  })
+
+  it('should return cached responses without calling the Census API', async () => {
+    const entry = {
+      data: variablesJson,
+      createdAt: new Date('2025-01-01T00:00:00Z'),
+      expiresAt: null,
+    }
+    vi.spyOn(CacheService.prototype, 'get').mockResolvedValue(entry)
+
+    const result = await service.getVariables('acs/acs1', 2022, 'test-key')
+
+    expect(mockFetch).not.toHaveBeenCalled()
+    expect(result).toEqual({ data: variablesJson, cached: entry })
+  })
+
+  it('should throw NOT_FOUND errors for unknown datasets', async () => {
+    mockFetch.mockResolvedValue(createMockResponse({}, 404, 'Not Found'))
+
+    await expect(
+      service.getVariables('acs/unknown', 2022, 'test-key'),
+    ).rejects.toMatchObject({
+      code: 'NOT_FOUND',
+      message: 'variables.json endpoint returned: 404 Not Found',
+    })
+  })
+
+  it('should reject unexpected responses', async () => {
+    const setSpy = vi.spyOn(CacheService.prototype, 'set')
+    mockFetch.mockResolvedValue(createMockResponse({ unexpected: true }))
+
+    await expect(
+      service.getVariables('acs/acs1', 2022, 'test-key'),
+    ).rejects.toMatchObject({ code: 'CENSUS_API_ERROR' })
+    expect(setSpy).not.toHaveBeenCalled()
+  })
+})
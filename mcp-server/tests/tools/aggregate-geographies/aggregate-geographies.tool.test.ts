@@ -0,0 +1,307 @@
+const mockFetch = vi.hoisted(() => vi.fn())
+
+vi.mock('node-fetch', () => ({
+  default: mockFetch,
+}))
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import {
+  AggregateGeographiesTool,
+  toolDescription,
+} from '../../../src/tools/aggregate-geographies.tool'
+import {
+  validateToolStructure,
+  validateResponseStructure,
+  createMockResponse,
+} from '../../helpers/test-utils'
+
+const variablesJson = {
+  variables: {
+    NAME: { label: 'Geographic Area Name', predicateType: 'string' },
+    GEO_ID: { label: 'Geography', predicateType: 'string' },
+    // Margins of error are only listed among the estimate's attributes
+    B01001_001E: {
+      label: 'Estimate!!Total:',
+      predicateType: 'int',
+      attributes: 'B01001_001EA,B01001_001M,B01001_001MA',
+    },
+    B17001_002E: {
+      label:
+        'Estimate!!Total:!!Income in the past 12 months below poverty level:',
+      predicateType: 'int',
+      attributes: 'B17001_002EA,B17001_002M,B17001_002MA',
+    },
+    B19013_001E: {
+      label: 'Estimate!!Median household income in the past 12 months',
+      predicateType: 'int',
+      attributes: 'B19013_001EA,B19013_001M,B19013_001MA',
+    },
+  },
+}
+
+const countyRows: Record<string, string[]> = {
+  '0500000US48453': [
+    'Travis County, Texas',
+    '0500000US48453',
+    '1290188',
+    '-555555555',
+    '150000',
+    '3000',
+  ],
+  '0500000US48491': [
+    'Williamson County, Texas',
+    '0500000US48491',
+    '643026',
+    '-555555555',
+    '40000',
+    '4000',
+  ],
+}
+
+// Answers variables.json and the requested UCGIDs
+function mockAggregateResponse(url: string) {
+  if (url.includes('variables.json')) {
+    return createMockResponse(variablesJson)
+  }
+
+  const ucgids = new URL(url).searchParams.get('ucgid')!.split(',')
+
+  return createMockResponse([
+    [
+      'NAME',
+      'GEO_ID',
+      'B01001_001E',
+      'B01001_001M',
+      'B17001_002E',
+      'B17001_002M',
+      'ucgid',
+    ],
+    ...ucgids.map((ucgid) => [...countyRows[ucgid], ucgid]),
+  ])
+}
+
+describe('AggregateGeographiesTool', () => {
+  let tool: AggregateGeographiesTool
+
+  const validArgs = {
+    dataset: 'acs/acs5',
+    year: 2022,
+    variables: ['B01001_001E', 'B17001_002E'],
+    geographies: ['0500000US48453', '0500000US48491'],
+    name: 'Central Texas',
+  }
+
+  beforeEach(() => {
+    tool = new AggregateGeographiesTool()
+    mockFetch.mockReset()
+  })
+
+  afterEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('Tool Configuration', () => {
+    it('should have correct tool metadata', () => {
+      validateToolStructure(tool)
+      expect(tool.name).toBe('aggregate-geographies')
+      expect(tool.description).toBe(toolDescription)
+      expect(tool.requiresApiKey).toBe(true)
+    })
+
+    it('should have valid input schema', () => {
+      const schema = tool.inputSchema
+      expect(schema.type).toBe('object')
+      expect(schema.required).toEqual([
+        'dataset',
+        'year',
+        'variables',
+        'geographies',
+      ])
+    })
+  })
+
+  describe('Schema Validation', () => {
+    it('should accept UCGIDs and for and in restrictions', () => {
+      expect(
+        tool.validateArgs({
+          ...validArgs,
+          geographies: [
+            '0500000US48453',
+            { for: 'tract:001100', in: 'state:48+county:453' },
+          ],
+        }).success,
+      ).toBe(true)
+    })
+
+    it('should reject invalid geographies', () => {
+      expect(
+        tool.validateArgs({ ...validArgs, geographies: ['Travis County'] })
+          .success,
+      ).toBe(false)
+      expect(
+        tool.validateArgs({ ...validArgs, geographies: [{ in: 'state:48' }] })
+          .success,
+      ).toBe(false)
+    })
+
+    it('should require at least one geography', () => {
+      expect(tool.validateArgs({ ...validArgs, geographies: [] }).success).toBe(
+        false,
+      )
+    })
+  })
+
+  describe('toolHandler', () => {
+    it('should sum the estimates and combine their margins of error', async () => {
+      mockFetch.mockImplementation(mockAggregateResponse)
+
+      const response = await tool.toolHandler(validArgs, 'test-api-key')
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.census.gov/data/2022/acs/acs5?get=NAME%2CGEO_ID%2CB01001_001E%2CB01001_001M%2CB17001_002E%2CB17001_002M&ucgid=0500000US48453%2C0500000US48491&descriptive=false&key=test-api-key',
+        expect.anything(),
+      )
+
+      validateResponseStructure(response)
+      expect(response.structuredContent).toMatchObject({
+        name: 'Central Texas',
+        geography_count: 2,
+        estimates: [
+          {
+            variable: 'B01001_001E',
+            label: 'Total',
+            estimate: 1933214,
+            moe: 0,
+          },
+          {
+            variable: 'B17001_002E',
+            estimate: 190000,
+            moe: 5000,
+          },
+        ],
+      })
+      expect(response.content[0].text).toContain(
+        'Central Texas, 2 geographies from acs/acs5 (2022):',
+      )
+      expect(response.content[0].text).toContain(
+        'B17001_002E (Total > Income in the past 12 months below poverty level): 190000 ± 5000',
+      )
+    })
+
+    it('should not request margins of error the dataset does not publish', async () => {
+      mockFetch.mockImplementation((url: string) =>
+        url.includes('variables.json')
+          ? createMockResponse({
+              variables: {
+                ...variablesJson.variables,
+                B01001_001E: {
+                  label: 'Estimate!!Total:',
+                  predicateType: 'int',
+                  attributes: 'B01001_001EA',
+                },
+              },
+            })
+          : mockAggregateResponse(url),
+      )
+
+      const response = await tool.toolHandler(
+        { ...validArgs, variables: ['B01001_001E'] },
+        'test-api-key',
+      )
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.census.gov/data/2022/acs/acs5?get=NAME%2CGEO_ID%2CB01001_001E&ucgid=0500000US48453%2C0500000US48491&descriptive=false&key=test-api-key',
+        expect.anything(),
+      )
+      expect(response.structuredContent?.estimates).toEqual([
+        { variable: 'B01001_001E', label: 'Total', estimate: 1933214 },
+      ])
+    })
+
+    it('should count geographies listed twice once', async () => {
+      mockFetch.mockImplementation(mockAggregateResponse)
+
+      const response = await tool.toolHandler(
+        {
+          ...validArgs,
+          geographies: ['0500000US48453', '0500000US48453'],
+        },
+        'test-api-key',
+      )
+
+      expect(response.structuredContent).toMatchObject({
+        geography_count: 1,
+        estimates: [{ estimate: 1290188 }, { estimate: 150000 }],
+      })
+    })
+
+    it('should refuse to sum medians', async () => {
+      mockFetch.mockImplementation(mockAggregateResponse)
+
+      const response = await tool.toolHandler(
+        { ...validArgs, variables: ['B01001_001E', 'B19013_001E'] },
+        'test-api-key',
+      )
+
+      expect(response.isError).toBe(true)
+      expect(response.content[0].text).toContain(
+        'Cannot sum non-additive variables across geographies: B19013_001E (median).',
+      )
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    })
+
+    it('should report variables the dataset does not have', async () => {
+      mockFetch.mockImplementation(mockAggregateResponse)
+
+      const response = await tool.toolHandler(
+        { ...validArgs, variables: ['B99999_001E'] },
+        'test-api-key',
+      )
+
+      expect(response.isError).toBe(true)
+      expect(response._meta).toMatchObject({ error: { code: 'NOT_FOUND' } })
+    })
+
+    it('should not total variables a geography has no estimate for', async () => {
+      mockFetch.mockImplementation((url: string) =>
+        url.includes('variables.json')
+          ? createMockResponse(variablesJson)
+          : createMockResponse([
+              [
+                'NAME',
+                'GEO_ID',
+                'B01001_001E',
+                'B01001_001M',
+                'B17001_002E',
+                'B17001_002M',
+                'ucgid',
+              ],
+              [
+                'Travis County, Texas',
+                '0500000US48453',
+                '1290188',
+                '-555555555',
+                '-666666666',
+                '-222222222',
+                '0500000US48453',
+              ],
+            ]),
+      )
+
+      const response = await tool.toolHandler(
+        { ...validArgs, geographies: ['0500000US48453'] },
+        'test-api-key',
+      )
+
+      expect(response.structuredContent).toMatchObject({
+        estimates: [
+          { variable: 'B01001_001E', estimate: 1290188, moe: 0 },
+          { variable: 'B17001_002E', estimate: null, moe: null },
+        ],
+        warnings: [
+          'B17001_002E has no estimate for Travis County, Texas, so its total cannot be computed.',
+        ],
+      })
+    })
+  })
+})
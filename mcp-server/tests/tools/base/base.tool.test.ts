@@ -145,14 +145,11 @@ describe('BaseTool', () => {
 
         const result = await mockToolWithApiKey.handler({ testArg: 'test' })
 
-        expect(result).toEqual({
-          content: [
-            {
-              type: 'text',
-              text: 'Error: CENSUS_API_KEY is not set.',
-            },
-          ],
-        })
+        expect(result).toMatchObject({ isError: true })
+        expect(result.content[0].text).toContain(
+          'Error: CENSUS_API_KEY is not set.',
+        )
+        expect(result._meta?.error).toMatchObject({ code: 'MISSING_API_KEY' })
       })
 
       it('should return error response when CENSUS_API_KEY is empty string', async () => {
@@ -161,11 +158,26 @@ describe('BaseTool', () => {
 
         const result = await mockToolWithApiKey.handler({ testArg: 'test' })
 
+        expect(result).toMatchObject({ isError: true })
+        expect(result.content[0].text).toContain(
+          'Error: CENSUS_API_KEY is not set.',
+        )
+        expect(result._meta?.error).toMatchObject({ code: 'MISSING_API_KEY' })
+      })
+
+      it('should not require CENSUS_API_KEY when replaying fixtures', async () => {
+        process.env = { ...originalEnv, CENSUS_API_MODE: 'replay' }
+        delete process.env.CENSUS_API_KEY
+
+        const result = await mockToolWithApiKey.handler({
+          testArg: 'test-value',
+        })
+
         expect(result).toEqual({
           content: [
             {
               type: 'text',
-              text: 'Error: CENSUS_API_KEY is not set.',
+              text: 'Executed with test-value and key undefined',
             },
           ],
         })
@@ -233,13 +245,15 @@ describe('BaseTool', () => {
 
         const result = await errorToolWithApiKey.handler({ testArg: 'test' })
 
-        expect(result).toEqual({
+        expect(result).toMatchObject({
           content: [
             {
               type: 'text',
               text: 'Unexpected error: Test error from toolHandler method',
             },
           ],
+          isError: true,
+          _meta: { error: { code: 'INTERNAL_ERROR' } },
         })
       })
     })
@@ -252,13 +266,15 @@ describe('BaseTool', () => {
 
         const result = await errorToolWithoutApiKey.handler({ testArg: 'test' })
 
-        expect(result).toEqual({
+        expect(result).toMatchObject({
           content: [
             {
               type: 'text',
               text: 'Unexpected error: Test error from toolHandler method',
             },
           ],
+          isError: true,
+          _meta: { error: { code: 'INTERNAL_ERROR' } },
         })
       })
     })
@@ -295,13 +311,15 @@ describe('BaseTool', () => {
         const nonErrorTool = new NonErrorThrowingTool()
         const result = await nonErrorTool.handler({ testArg: 'test' })
 
-        expect(result).toEqual({
+        expect(result).toMatchObject({
           content: [
             {
               type: 'text',
               text: 'Unexpected error: String error',
             },
           ],
+          isError: true,
+          _meta: { error: { code: 'INTERNAL_ERROR' } },
         })
       })
 
@@ -339,13 +357,15 @@ describe('BaseTool', () => {
 
         const result = await asyncErrorTool.handler({ testArg: 'test' })
 
-        expect(result).toEqual({
+        expect(result).toMatchObject({
           content: [
             {
               type: 'text',
               text: 'Unexpected error: Async error',
             },
           ],
+          isError: true,
+          _meta: { error: { code: 'INTERNAL_ERROR' } },
         })
       })
     })
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  CalculateMoeTool,
+  toolDescription,
+} from '../../../src/tools/calculate-moe.tool'
+import {
+  validateToolStructure,
+  validateResponseStructure,
+} from '../../helpers/test-utils'
+
+describe('CalculateMoeTool', () => {
+  let tool: CalculateMoeTool
+
+  beforeEach(() => {
+    tool = new CalculateMoeTool()
+  })
+
+  describe('Tool Configuration', () => {
+    it('should have correct tool metadata', () => {
+      validateToolStructure(tool)
+      expect(tool.name).toBe('calculate-moe')
+      expect(tool.description).toBe(toolDescription)
+      expect(tool.requiresApiKey).toBe(false)
+    })
+  })
+
+  describe('Schema Validation', () => {
+    it('should require two components for proportions', () => {
+      const result = tool.argsSchema.safeParse({
+        operation: 'proportion',
+        components: [{ estimate: 1, moe: 1 }],
+      })
+
+      expect(result.error.issues[0].message).toBe(
+        'The proportion operation takes exactly two components.',
+      )
+    })
+
+    it('should reject zero denominators', () => {
+      const result = tool.argsSchema.safeParse({
+        operation: 'ratio',
+        components: [
+          { estimate: 1, moe: 1 },
+          { estimate: 0, moe: 1 },
+        ],
+      })
+
+      expect(result.error.issues[0].message).toBe(
+        'The denominator must not be zero.',
+      )
+    })
+
+    it('should reject negative margins of error', () => {
+      const result = tool.argsSchema.safeParse({
+        operation: 'sum',
+        components: [{ estimate: 1, moe: -555555555 }],
+      })
+
+      expect(result.success).toBe(false)
+    })
+  })
+
+  describe('toolHandler', () => {
+    it('should calculate differences', async () => {
+      const response = await tool.handler({
+        operation: 'difference',
+        components: [
+          { estimate: 100, moe: 3 },
+          { estimate: 40, moe: 4 },
+        ],
+      })
+
+      validateResponseStructure(response)
+      expect(response.structuredContent).toMatchObject({
+        operation: 'difference',
+        estimate: 60,
+        moe: 5,
+      })
+      expect(response.content[0].text).toContain('difference: 60 ± 5')
+    })
+
+    it('should calculate proportions with their CV', async () => {
+      const response = await tool.handler({
+        operation: 'proportion',
+        components: [
+          { estimate: 50, moe: 6 },
+          { estimate: 100, moe: 8 },
+        ],
+      })
+
+      expect(response.structuredContent?.estimate).toBe(0.5)
+      expect(response.structuredContent?.moe).toBeCloseTo(Math.sqrt(20) / 100)
+      expect(response.structuredContent?.coefficient_of_variation).toBeCloseTo(
+        (Math.sqrt(20) / 100 / 1.645 / 0.5) * 100,
+      )
+    })
+  })
+})
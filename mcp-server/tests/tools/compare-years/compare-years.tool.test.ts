@@ -0,0 +1,278 @@
+const mockFetch = vi.hoisted(() => vi.fn())
+
+vi.mock('node-fetch', () => ({
+  default: mockFetch,
+}))
+
+vi.mock('../../../src/services/database.service.js', () => ({
+  DatabaseService: {
+    getInstance: vi.fn(),
+  },
+}))
+
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  beforeEach,
+  afterEach,
+  vi,
+  Mock,
+} from 'vitest'
+
+import { DatabaseService } from '../../../src/services/database.service.js'
+import {
+  CompareYearsTool,
+  toolDescription,
+} from '../../../src/tools/compare-years.tool'
+import {
+  validateToolStructure,
+  validateResponseStructure,
+  createMockResponse,
+} from '../../helpers/test-utils'
+
+// Answers each vintage with the requested variables for two counties, with a
+// median household income that differs by year
+function mockCountyResponse(url: string) {
+  const { pathname, searchParams } = new URL(url)
+  const year = Number(pathname.split('/')[2])
+  const get = searchParams.get('get')!.split(',')
+
+  const counties = [
+    { NAME: 'Alameda County', B19013_001E: 100000 + year, county: '001' },
+    { NAME: 'Alpine County', B19013_001E: 60000 + year, county: '003' },
+  ]
+
+  return createMockResponse([
+    [...get, 'state', 'county'],
+    ...counties.map((county) => [
+      ...get.map((variable) => String(county[variable as keyof typeof county])),
+      '06',
+      county.county,
+    ]),
+  ])
+}
+
+describe('CompareYearsTool', () => {
+  let tool: CompareYearsTool
+  let mockDbService: {
+    healthCheck: Mock
+    query: Mock
+  }
+
+  const validArgs = {
+    dataset: 'acs/acs1',
+    variables: ['NAME', 'B19013_001E'],
+    start_year: 2019,
+    end_year: 2021,
+    for: 'county:001,003',
+    in: 'state:06',
+  }
+
+  beforeAll(() => {
+    mockDbService = {
+      healthCheck: vi.fn(),
+      query: vi.fn(),
+    }
+    ;(DatabaseService.getInstance as Mock).mockReturnValue(mockDbService)
+  })
+
+  beforeEach(() => {
+    mockDbService.healthCheck.mockReset().mockResolvedValue(true)
+    mockDbService.query
+      .mockReset()
+      .mockResolvedValue({ rows: [{ year: 2019 }, { year: 2021 }] })
+    mockFetch.mockReset()
+
+    tool = new CompareYearsTool()
+  })
+
+  afterEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('Tool Configuration', () => {
+    it('should have correct tool metadata', () => {
+      validateToolStructure(tool)
+      expect(tool.name).toBe('compare-years')
+      expect(tool.description).toBe(toolDescription)
+      expect(tool.requiresApiKey).toBe(true)
+    })
+
+    it('should have valid input schema', () => {
+      const schema = tool.inputSchema
+      expect(schema.type).toBe('object')
+      expect(schema.required).toEqual([
+        'dataset',
+        'variables',
+        'start_year',
+        'end_year',
+      ])
+    })
+  })
+
+  describe('Schema Validation', () => {
+    it('should accept valid arguments', () => {
+      expect(tool.validateArgs(validArgs).success).toBe(true)
+    })
+
+    it('should reject reversed year ranges', () => {
+      const result = tool.validateArgs({
+        ...validArgs,
+        start_year: 2022,
+        end_year: 2019,
+      })
+
+      expect(result.error?.issues[0].message).toBe(
+        'Invalid year range error - start_year is after end_year.',
+      )
+    })
+
+    it('should reject datasets for other tools', () => {
+      const result = tool.validateArgs({
+        ...validArgs,
+        dataset: 'timeseries/eits/resconst',
+      })
+
+      expect(result.error?.issues[0].message).toBe(
+        'Incompatible dataset. Please use the fetch-timeseries-data tool.',
+      )
+    })
+
+    it('should require a geography', () => {
+      const result = tool.validateArgs({
+        ...validArgs,
+        for: undefined,
+        in: undefined,
+      })
+
+      expect(result.success).toBe(false)
+    })
+  })
+
+  describe('toolHandler', () => {
+    it('should align every available vintage by geography and year', async () => {
+      mockFetch.mockImplementation(mockCountyResponse)
+
+      const response = await tool.toolHandler(validArgs, 'test-api-key')
+
+      expect(mockDbService.query).toHaveBeenCalledWith(
+        expect.stringContaining('FROM datasets d'),
+        ['acs/acs1', 2019, 2021],
+      )
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.census.gov/data/2019/acs/acs1?get=NAME%2CB19013_001E&for=county%3A001%2C003&in=state%3A06&descriptive=false&key=test-api-key',
+        expect.anything(),
+      )
+
+      validateResponseStructure(response)
+      expect(response.structuredContent).toMatchObject({
+        years: [2019, 2021],
+        missing_years: [{ year: 2020, reason: 'No vintage of the dataset.' }],
+        headers: ['year', 'NAME', 'B19013_001E', 'state', 'county'],
+        rows: [
+          [2019, 'Alameda County', '102019', '06', '001'],
+          [2021, 'Alameda County', '102021', '06', '001'],
+          [2019, 'Alpine County', '62019', '06', '003'],
+          [2021, 'Alpine County', '62021', '06', '003'],
+        ],
+        row_count: 4,
+      })
+      expect(response.structuredContent?.warnings).toEqual([
+        expect.stringContaining('2020 ACS 1-year estimates were not released'),
+      ])
+      expect(response.content[0].text).toContain('Missing years:\n- 2020')
+    })
+
+    it('should refetch vintages without the variables they do not have', async () => {
+      mockFetch.mockImplementation((url: string) => {
+        const get = new URL(url).searchParams.get('get')!
+        if (url.includes('/2019/') && get.includes('B19013_001E')) {
+          return Promise.resolve(
+            new Response("error: unknown variable 'B19013_001E'", {
+              status: 400,
+              statusText: 'Bad Request',
+            }),
+          )
+        }
+        return mockCountyResponse(url)
+      })
+
+      const response = await tool.toolHandler(validArgs, 'test-api-key')
+
+      expect(mockFetch).toHaveBeenCalledTimes(3)
+      expect(response.structuredContent).toMatchObject({
+        years: [2019, 2021],
+        rows: [
+          [2019, 'Alameda County', null, '06', '001'],
+          [2021, 'Alameda County', '102021', '06', '001'],
+          [2019, 'Alpine County', null, '06', '003'],
+          [2021, 'Alpine County', '62021', '06', '003'],
+        ],
+      })
+      expect(response.structuredContent?.warnings).toContain(
+        'B19013_001E is not available in 2019. Its code or definition may have changed between vintages; check each year with describe-variables.',
+      )
+    })
+
+    it('should report vintages without data for the geography', async () => {
+      mockFetch.mockImplementation((url: string) =>
+        url.includes('/2019/')
+          ? Promise.resolve(new Response(null, { status: 204 }))
+          : mockCountyResponse(url),
+      )
+
+      const response = await tool.toolHandler(validArgs, 'test-api-key')
+
+      expect(response.structuredContent).toMatchObject({
+        years: [2021],
+        missing_years: [
+          {
+            year: 2019,
+            reason: 'No data for the geography in this vintage.',
+          },
+          { year: 2020, reason: 'No vintage of the dataset.' },
+        ],
+        row_count: 2,
+      })
+    })
+
+    it('should return an error when no vintages are in the range', async () => {
+      mockDbService.query.mockResolvedValue({ rows: [] })
+
+      const response = await tool.toolHandler(validArgs, 'test-api-key')
+
+      expect(response.isError).toBe(true)
+      expect(response.content[0].text).toContain(
+        'No vintages of acs/acs1 found between 2019 and 2021.',
+      )
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+
+    it('should return an error when the database is unavailable', async () => {
+      mockDbService.healthCheck.mockResolvedValue(false)
+
+      const response = await tool.toolHandler(validArgs, 'test-api-key')
+
+      expect(response.isError).toBe(true)
+      expect(response._meta).toMatchObject({
+        error: { code: 'DATABASE_UNAVAILABLE' },
+      })
+    })
+
+    it('should report Census API server errors', async () => {
+      mockFetch.mockResolvedValue(
+        createMockResponse({}, 503, 'Service Unavailable'),
+      )
+
+      const response = await tool.toolHandler(validArgs, 'test-api-key')
+
+      expect(response.isError).toBe(true)
+      expect(response.content[0].text).toContain(
+        'Census API error: 503 Service Unavailable',
+      )
+    })
+  })
+})
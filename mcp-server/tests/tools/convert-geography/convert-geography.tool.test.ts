@@ -0,0 +1,149 @@
+// Mock DatabaseService
+vi.mock('../../../src/services/database.service.js', () => ({
+  DatabaseService: {
+    getInstance: vi.fn(),
+  },
+}))
+
+import { beforeEach, describe, expect, it, Mock, vi } from 'vitest'
+
+import { DatabaseService } from '../../../src/services/database.service.js'
+import {
+  ConvertGeographyTool,
+  toolDescription,
+} from '../../../src/tools/convert-geography.tool'
+import {
+  validateResponseStructure,
+  validateToolStructure,
+} from '../../helpers/test-utils'
+
+describe('ConvertGeographyTool', () => {
+  let tool: ConvertGeographyTool
+  let mockDbService: { healthCheck: Mock; query: Mock }
+
+  beforeEach(() => {
+    mockDbService = {
+      healthCheck: vi.fn().mockResolvedValue(true),
+      query: vi.fn(async (sql: string) =>
+        sql.includes('DISTINCT')
+          ? { rows: [{ summary_level_code: '050' }] }
+          : {
+              rows: [
+                { ucgid_code: '0500000US48453', name: 'Travis County, Texas' },
+              ],
+            },
+      ),
+    }
+    ;(DatabaseService.getInstance as Mock).mockReturnValue(mockDbService)
+
+    tool = new ConvertGeographyTool()
+  })
+
+  it('should have the correct metadata', () => {
+    validateToolStructure(tool)
+    expect(tool.name).toBe('convert-geography')
+    expect(tool.description).toBe(toolDescription)
+    expect(tool.requiresApiKey).toBe(false)
+  })
+
+  it('should require for or ucgid, but not both', () => {
+    expect(tool.validateArgs({}).success).toBe(false)
+    expect(
+      tool.validateArgs({ for: 'state:06', ucgid: '0400000US06' }).success,
+    ).toBe(false)
+    expect(tool.validateArgs({ ucgid: '0400000US06' }).success).toBe(true)
+  })
+
+  it('should convert for and in clauses to UCGIDs and validate them', async () => {
+    const response = await tool.toolHandler({
+      for: 'county:453,999',
+      in: 'state:48',
+    })
+
+    validateResponseStructure(response)
+    expect(mockDbService.query.mock.calls[0][1]).toEqual([
+      ['0500000US48453', '0500000US48999'],
+    ])
+    expect(response.structuredContent).toEqual({
+      ucgid: '0500000US48453,0500000US48999',
+      geographies: [
+        {
+          ucgid: '0500000US48453',
+          summary_level: '050',
+          geoid: '48453',
+          for: 'county:453',
+          in: 'state:48',
+          name: 'Travis County, Texas',
+        },
+        {
+          ucgid: '0500000US48999',
+          summary_level: '050',
+          geoid: '48999',
+          for: 'county:999',
+          in: 'state:48',
+        },
+      ],
+      validated: true,
+      not_found: ['0500000US48999'],
+    })
+    expect(response.content[0].text).toContain(
+      'Not found in the MCP database: 0500000US48999.',
+    )
+  })
+
+  it('should build UCGIDs of the given variant', async () => {
+    const response = await tool.toolHandler({
+      for: 'congressional district:02',
+      in: 'state:48',
+      variant: '18',
+    })
+
+    expect(response.structuredContent).toMatchObject({
+      ucgid: '5001800US4802',
+      geographies: [
+        {
+          ucgid: '5001800US4802',
+          summary_level: '500',
+          for: 'congressional district:02',
+          in: 'state:48',
+        },
+      ],
+    })
+  })
+
+  it('should not report levels the database does not have', async () => {
+    const response = await tool.toolHandler({
+      ucgid: '1400000US48453001100',
+    })
+
+    expect(response.structuredContent).toMatchObject({
+      geographies: [
+        {
+          for: 'tract:001100',
+          in: 'state:48+county:453',
+          summary_level: '140',
+        },
+      ],
+      not_found: [],
+    })
+  })
+
+  it('should convert without validating when the database is unavailable', async () => {
+    mockDbService.healthCheck.mockResolvedValue(false)
+
+    const response = await tool.toolHandler({ ucgid: '0400000US06' })
+
+    expect(mockDbService.query).not.toHaveBeenCalled()
+    expect(response.structuredContent).toMatchObject({
+      geographies: [{ for: 'state:06' }],
+      validated: false,
+    })
+  })
+
+  it('should report clauses that cannot be converted', async () => {
+    const response = await tool.toolHandler({ for: 'county:*', in: 'state:48' })
+
+    expect(response.isError).toBe(true)
+    expect(response._meta?.error).toMatchObject({ code: 'VALIDATION_ERROR' })
+  })
+})
@@ -0,0 +1,210 @@
+const mockFetch = vi.hoisted(() => vi.fn())
+
+vi.mock('node-fetch', () => ({
+  default: mockFetch,
+}))
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import {
+  DescribeVariablesTool,
+  toolDescription,
+} from '../../../src/tools/describe-variables.tool'
+import {
+  validateToolStructure,
+  validateResponseStructure,
+  createMockResponse,
+} from '../../helpers/test-utils'
+
+const variablesJson = {
+  variables: {
+    NAME: {
+      label: 'Geographic Area Name',
+      concept: 'Geography',
+      predicateType: 'string',
+      group: 'N/A',
+      limit: 0,
+      predicateOnly: true,
+    },
+    B19013_001E: {
+      label:
+        'Estimate!!Median household income in the past 12 months (in 2022 inflation-adjusted dollars)',
+      concept:
+        'Median Household Income in the Past 12 Months (in 2022 Inflation-Adjusted Dollars)',
+      predicateType: 'int',
+      group: 'B19013',
+      limit: 0,
+      attributes: 'B19013_001EA,B19013_001M,B19013_001MA',
+    },
+    B19013_001M: {
+      label:
+        'Margin of Error!!Median household income in the past 12 months (in 2022 inflation-adjusted dollars)',
+      concept:
+        'Median Household Income in the Past 12 Months (in 2022 Inflation-Adjusted Dollars)',
+      predicateType: 'int',
+      group: 'B19013',
+      limit: 0,
+    },
+    for: {
+      label: "Census API FIPS 'for' clause",
+      concept: 'Census API Geography Specification',
+      predicateType: 'fips-for',
+      group: 'N/A',
+      limit: 0,
+      predicateOnly: true,
+      required: 'true',
+    },
+  },
+}
+
+const groupsJson = {
+  groups: [
+    {
+      name: 'B19013',
+      description:
+        'Median Household Income in the Past 12 Months (in 2022 Inflation-Adjusted Dollars)',
+      variables: 'https://api.census.gov/data/2022/acs/acs1/groups/B19013.json',
+      'universe ': 'Households',
+    },
+  ],
+}
+
+function respondWithMetadata(url: string) {
+  if (url.includes('/variables.json')) {
+    return createMockResponse(variablesJson)
+  }
+  return createMockResponse(groupsJson)
+}
+
+describe('DescribeVariablesTool', () => {
+  let tool: DescribeVariablesTool
+
+  beforeEach(() => {
+    tool = new DescribeVariablesTool()
+    mockFetch.mockReset()
+    mockFetch.mockImplementation(respondWithMetadata)
+  })
+
+  afterEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('Tool Configuration', () => {
+    it('should have correct tool metadata', () => {
+      validateToolStructure(tool)
+      expect(tool.name).toBe('describe-variables')
+      expect(tool.description).toBe(toolDescription)
+      expect(tool.requiresApiKey).toBe(true)
+    })
+
+    it('should require variables or a group', () => {
+      const result = tool.argsSchema.safeParse({ dataset: 'acs/acs1' })
+
+      expect(result.success).toBe(false)
+      expect(result.error.issues[0].message).toBe(
+        'No variables specified error - define variables or group.',
+      )
+    })
+  })
+
+  describe('toolHandler', () => {
+    it('should describe the requested variables', async () => {
+      const response = await tool.toolHandler(
+        {
+          dataset: 'acs/acs1',
+          year: 2022,
+          variables: ['B19013_001E', 'for', 'B99999_001E'],
+        },
+        'test-api-key',
+      )
+
+      validateResponseStructure(response)
+      expect(response.structuredContent).toEqual({
+        dataset: 'acs/acs1',
+        year: 2022,
+        group: undefined,
+        variables: [
+          expect.objectContaining({
+            name: 'B19013_001E',
+            group: 'B19013',
+            universe: 'Households',
+            predicate_type: 'int',
+            attributes: ['B19013_001EA', 'B19013_001M', 'B19013_001MA'],
+          }),
+          expect.objectContaining({
+            name: 'for',
+            group: undefined,
+            predicate_only: true,
+            required: true,
+            attributes: [],
+          }),
+        ],
+        not_found: ['B99999_001E'],
+      })
+      expect(response.content[0].text).toContain(
+        'B19013_001E: Estimate!!Median household income',
+      )
+      expect(response.content[0].text).toContain('Not found: B99999_001E')
+    })
+
+    it('should describe every variable of a group', async () => {
+      const response = await tool.toolHandler(
+        { dataset: 'acs/acs1', year: 2022, group: 'B19013' },
+        'test-api-key',
+      )
+
+      expect(response.structuredContent).toMatchObject({
+        group: {
+          name: 'B19013',
+          universe: 'Households',
+        },
+        variables: [{ name: 'B19013_001E' }, { name: 'B19013_001M' }],
+      })
+      expect(response.content[0].text).toContain('Universe: Households')
+    })
+
+    it('should report unknown groups', async () => {
+      const response = await tool.toolHandler(
+        { dataset: 'acs/acs1', year: 2022, group: 'B99999' },
+        'test-api-key',
+      )
+
+      expect(response.isError).toBe(true)
+      expect(response._meta?.error).toMatchObject({
+        code: 'NOT_FOUND',
+        message: 'Group B99999 not found in acs/acs1 (2022).',
+      })
+    })
+
+    it('should describe variables when groups.json is unavailable', async () => {
+      mockFetch.mockImplementation((url: string) =>
+        url.includes('/groups.json')
+          ? createMockResponse({}, 404, 'Not Found')
+          : createMockResponse(variablesJson),
+      )
+
+      const response = await tool.toolHandler(
+        { dataset: 'acs/acs1', year: 2022, variables: ['B19013_001E'] },
+        'test-api-key',
+      )
+
+      expect(response.isError).toBeUndefined()
+      expect(response.structuredContent?.variables).toEqual([
+        expect.objectContaining({ name: 'B19013_001E', universe: undefined }),
+      ])
+    })
+
+    it('should report Census API errors', async () => {
+      mockFetch.mockResolvedValue(
+        createMockResponse({}, 500, 'Internal Server Error'),
+      )
+
+      const response = await tool.toolHandler(
+        { dataset: 'acs/acs1', year: 2022, variables: ['NAME'] },
+        'test-api-key',
+      )
+
+      expect(response.isError).toBe(true)
+      expect(response._meta?.error).toMatchObject({ code: 'CENSUS_API_ERROR' })
+    })
+  })
+})
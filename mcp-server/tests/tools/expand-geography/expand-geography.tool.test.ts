@@ -0,0 +1,312 @@
+const mockFetch = vi.hoisted(() => vi.fn())
+
+vi.mock('node-fetch', () => ({
+  default: mockFetch,
+}))
+
+// Mock DatabaseService
+vi.mock('../../../src/services/database.service.js', () => ({
+  DatabaseService: {
+    getInstance: vi.fn(),
+  },
+}))
+
+import { beforeEach, describe, expect, it, Mock, vi } from 'vitest'
+
+import { DatabaseService } from '../../../src/services/database.service.js'
+import {
+  ExpandGeographyTool,
+  toolDescription,
+} from '../../../src/tools/expand-geography.tool'
+import { HierarchyGeography } from '../../../src/types/geography-hierarchy.types'
+import {
+  createMockResponse,
+  validateResponseStructure,
+  validateToolStructure,
+} from '../../helpers/test-utils'
+
+const summaryLevels = [
+  ['010', 'United States', 'United States', null],
+  ['020', 'Region', 'region', '010'],
+  ['030', 'Division', 'division', '020'],
+  ['040', 'State', 'state', '030'],
+  ['050', 'County', 'county', '040'],
+  ['140', 'Census Tract', 'census tract', '050'],
+  ['160', 'Place', 'place', '040'],
+  ['860', 'ZIP Code Tabulation Area', 'zip code tabulation area', '010'],
+].map(([code, name, query_name, parent_summary_level]) => ({
+  code,
+  name,
+  query_name,
+  parent_summary_level,
+}))
+
+const geography = (
+  id: number,
+  name: string,
+  summary_level_code: string,
+  for_param: string,
+  in_param: string | null,
+  parent_geography_id: number | null,
+): HierarchyGeography => ({
+  id,
+  name,
+  summary_level_code,
+  for_param,
+  in_param,
+  parent_geography_id,
+})
+
+const west = geography(1, 'West Region', '020', 'region:4', null, null)
+const mountain = geography(2, 'Mountain Division', '030', 'division:8', null, 1)
+const arizona = geography(3, 'Arizona', '040', 'state:04', null, 2)
+const colorado = geography(4, 'Colorado', '040', 'state:08', null, 2)
+const maricopa = geography(
+  5,
+  'Maricopa County, Arizona',
+  '050',
+  'county:013',
+  'state:04',
+  3,
+)
+const phoenix = geography(
+  6,
+  'Phoenix city, Arizona',
+  '160',
+  'place:55000',
+  'state:04',
+  3,
+)
+
+const pinal = geography(
+  7,
+  'Pinal County, Arizona',
+  '050',
+  'county:021',
+  'state:04',
+  3,
+)
+
+const geographies = [
+  west,
+  mountain,
+  arizona,
+  colorado,
+  maricopa,
+  phoenix,
+  pinal,
+]
+
+function ancestry(id: number): HierarchyGeography[] {
+  const rows: HierarchyGeography[] = []
+  let current = geographies.find((g) => g.id === id)
+
+  while (current) {
+    rows.push(current)
+    current = geographies.find((g) => g.id === current!.parent_geography_id)
+  }
+
+  return rows
+}
+
+describe('ExpandGeographyTool', () => {
+  let tool: ExpandGeographyTool
+  let mockDbService: { healthCheck: Mock; query: Mock }
+
+  beforeEach(() => {
+    mockDbService = {
+      healthCheck: vi.fn().mockResolvedValue(true),
+      query: vi.fn(async (sql: string, params: unknown[] = []) => {
+        if (sql.includes('FROM summary_levels')) return { rows: summaryLevels }
+        if (sql.includes('search_summary_levels')) return { rows: [] }
+        if (sql.includes('MAX(y.year)')) return { rows: [{ year: 2022 }] }
+        if (sql.includes('ANY($3)')) {
+          return {
+            rows: geographies.filter(
+              (g) =>
+                g.summary_level_code === params[0] &&
+                g.parent_geography_id === params[1] &&
+                (params[2] as string[]).includes(g.for_param),
+            ),
+          }
+        }
+        if (sql.includes('ancestry'))
+          return { rows: ancestry(params[0] as number) }
+        if (sql.includes('descendants')) {
+          return {
+            rows: geographies.filter(
+              (g) =>
+                g.summary_level_code === params[1] &&
+                ancestry(g.id).some((a) => a.id === params[0]),
+            ),
+          }
+        }
+        return { rows: [] }
+      }),
+    }
+    ;(DatabaseService.getInstance as Mock).mockReturnValue(mockDbService)
+    mockFetch.mockReset()
+
+    tool = new ExpandGeographyTool()
+  })
+
+  it('should have the correct metadata', () => {
+    validateToolStructure(tool)
+    expect(tool.name).toBe('expand-geography')
+    expect(tool.description).toBe(toolDescription)
+    expect(tool.requiresApiKey).toBe(false)
+    expect(tool.inputSchema.required).toEqual(['geography_id', 'summary_level'])
+  })
+
+  it('should expand a geography to a level nested in it', async () => {
+    const response = await tool.toolHandler({
+      geography_id: 5,
+      summary_level: 'tract',
+    })
+
+    validateResponseStructure(response)
+    expect(response.structuredContent).toEqual({
+      geography: {
+        id: 5,
+        name: 'Maricopa County, Arizona',
+        summary_level: '050',
+      },
+      summary_level: { code: '140', name: 'Census Tract' },
+      container: {
+        id: 5,
+        name: 'Maricopa County, Arizona',
+        summary_level: '050',
+      },
+      path: ['140'],
+      clauses: [{ for: 'tract:*', in: 'state:04+county:013' }],
+      requires_filter: false,
+    })
+    expect(response.content[0].text).toContain(
+      '- for: tract:*, in: state:04+county:013',
+    )
+  })
+
+  it('should expand a place within the counties it overlaps', async () => {
+    mockFetch.mockResolvedValue(
+      createMockResponse([
+        ['NAME', 'state', 'place', 'county'],
+        ['Phoenix city (part), Maricopa County, Arizona', '04', '55000', '013'],
+        ['Phoenix city (part), Pinal County, Arizona', '04', '55000', '021'],
+      ]),
+    )
+
+    const response = await tool.toolHandler({
+      geography_id: 6,
+      summary_level: '140',
+    })
+
+    const url = new URL(mockFetch.mock.calls[0][0])
+    expect(url.pathname).toBe('/data/2022/acs/acs5')
+    expect(url.searchParams.get('for')).toBe('county (or part):*')
+    expect(url.searchParams.get('in')).toBe('state:04 place:55000')
+
+    expect(response.structuredContent).toMatchObject({
+      container: { id: 3, name: 'Arizona' },
+      path: ['050', '140'],
+      counties: [
+        { id: 5, name: 'Maricopa County, Arizona', summary_level: '050' },
+        { id: 7, name: 'Pinal County, Arizona', summary_level: '050' },
+      ],
+      clauses: [
+        { for: 'tract:*', in: 'state:04+county:013' },
+        { for: 'tract:*', in: 'state:04+county:021' },
+      ],
+      requires_filter: true,
+    })
+    expect(response.structuredContent?.filter).toContain(
+      'every census tract in the 2 counties Phoenix city, Arizona overlaps',
+    )
+  })
+
+  it('should refuse a place whose counties cannot be found', async () => {
+    mockFetch.mockResolvedValue(
+      createMockResponse([['NAME', 'state', 'place', 'county']]),
+    )
+
+    const response = await tool.toolHandler({
+      geography_id: 6,
+      summary_level: '140',
+    })
+
+    expect(response.isError).toBe(true)
+    expect(response._meta?.error).toMatchObject({ code: 'VALIDATION_ERROR' })
+    expect(response.content[0].text).toContain('is unsupported')
+  })
+
+  it('should refuse levels outside the hierarchy of the geography', async () => {
+    const response = await tool.toolHandler({
+      geography_id: 5,
+      summary_level: '860',
+    })
+
+    expect(mockFetch).not.toHaveBeenCalled()
+    expect(response._meta?.error).toMatchObject({
+      code: 'VALIDATION_ERROR',
+      details: { geography_id: 5, summary_level: '860' },
+    })
+  })
+
+  it('should expand regions and divisions by their states', async () => {
+    const states = await tool.toolHandler({
+      geography_id: 1,
+      summary_level: 'State',
+    })
+    expect(states.structuredContent?.clauses).toEqual([{ for: 'state:04,08' }])
+
+    const counties = await tool.toolHandler({
+      geography_id: 2,
+      summary_level: 'county',
+    })
+    expect(counties.structuredContent?.clauses).toEqual([
+      { for: 'county:*', in: 'state:04' },
+      { for: 'county:*', in: 'state:08' },
+    ])
+  })
+
+  it('should return the containing geography of a larger level', async () => {
+    const response = await tool.toolHandler({
+      geography_id: 5,
+      summary_level: 'state',
+    })
+
+    expect(response.structuredContent).toMatchObject({
+      container: { id: 3 },
+      clauses: [{ for: 'state:04' }],
+      requires_filter: false,
+    })
+  })
+
+  it('should report unknown summary levels and geographies', async () => {
+    const level = await tool.toolHandler({
+      geography_id: 5,
+      summary_level: 'galaxy',
+    })
+    expect(level.isError).toBe(true)
+    expect(level.content[0].text).toContain('Summary level galaxy not found.')
+
+    const missing = await tool.toolHandler({
+      geography_id: 99,
+      summary_level: 'county',
+    })
+    expect(missing.isError).toBe(true)
+    expect(missing.content[0].text).toContain('Geography 99 not found.')
+  })
+
+  it('should report an unavailable database', async () => {
+    mockDbService.healthCheck.mockResolvedValue(false)
+
+    const response = await tool.toolHandler({
+      geography_id: 5,
+      summary_level: 'county',
+    })
+
+    expect(response._meta?.error).toMatchObject({
+      code: 'DATABASE_UNAVAILABLE',
+    })
+  })
+})
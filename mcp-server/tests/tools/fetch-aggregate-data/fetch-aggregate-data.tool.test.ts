@@ -1,11 +1,35 @@
-const mockFetch = vi.fn()
+const mockFetch = vi.hoisted(() => vi.fn())
+const mockValidate = vi.hoisted(() => vi.fn())
+const mockCite = vi.hoisted(() => vi.fn())
 
-vi.mock('node-fetch', () => ({
+vi.mock('node-fetch', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('node-fetch')>()),
   default: mockFetch,
 }))
 
+vi.mock('../../../src/services/query-validation.service', () => ({
+  QueryValidationService: {
+    getInstance: vi.fn(() => ({ validate: mockValidate })),
+  },
+}))
+
+vi.mock('../../../src/services/citation.service', () => ({
+  CitationService: {
+    getInstance: vi.fn(() => ({ cite: mockCite })),
+  },
+}))
+
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import { buildCitation } from '../../../src/helpers/citation'
+import { HISTORICAL_DATA_CACHE_TTL_MS } from '../../../src/helpers/cache-ttl'
+import { resolveCensusApiConfig } from '../../../src/helpers/census-api-config'
+import { writeFixture } from '../../../src/helpers/census-api-fixtures'
+import { CacheService } from '../../../src/services/cache.service'
+import { CensusApiClient } from '../../../src/services/census-api-client.service'
+import { ResultStoreService } from '../../../src/services/result-store.service'
 import {
   FetchAggregateDataTool,
   toolDescription,
@@ -19,10 +43,12 @@ import {
 
 import { sampleTableByGroupData } from '../../helpers/test-data'
 
-vi.mock('../../../src/helpers/citation', () => ({
+vi.mock('../../../src/helpers/citation', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../src/helpers/citation')>()),
   buildCitation: vi.fn((url: string) => {
     return `Source: U.S. Census Bureau Data API (${url})`
   }),
+  redactApiKey: vi.fn((url: string) => url),
 }))
 
 describe('FetchAggregateDataTool', () => {
@@ -31,6 +57,8 @@ describe('FetchAggregateDataTool', () => {
   beforeEach(() => {
     tool = new FetchAggregateDataTool()
     mockFetch.mockClear()
+    mockValidate.mockReset().mockResolvedValue([])
+    mockCite.mockReset().mockResolvedValue({ plain: 'U.S. Census Bureau.' })
 
     process.env.CENSUS_API_KEY = 'test-api-key-12345'
   })
@@ -71,6 +99,35 @@ describe('FetchAggregateDataTool', () => {
         'Source: U.S. Census Bureau Data API',
       )
     })
+
+    it('cites the dataset and table for publications', async () => {
+      mockFetch.mockResolvedValue(
+        createMockResponse([
+          ['NAME', 'B19013_001E', 'B19013_001M', 'state'],
+          ['Test State', '75000', '500', '01'],
+        ]),
+      )
+
+      const response = await tool.toolHandler(
+        {
+          dataset: 'acs/acs1',
+          year: 2022,
+          get: { variables: ['NAME', 'B19013_001E', 'B19013_001M'] },
+          for: 'state:01',
+        },
+        process.env.CENSUS_API_KEY,
+      )
+
+      expect(mockCite).toHaveBeenCalledWith({
+        dataset: 'acs/acs1',
+        year: 2022,
+        tableId: 'B19013',
+        urls: [expect.stringContaining('/data/2022/acs/acs1?')],
+      })
+      expect(response.structuredContent?.citations).toEqual({
+        plain: 'U.S. Census Bureau.',
+      })
+    })
   })
 
   describe('Tool Configuration', () => {
@@ -112,6 +169,29 @@ describe('FetchAggregateDataTool', () => {
       )
     })
 
+    it('should validate the format of ucgids', () => {
+      const args = {
+        dataset: 'acs/acs1',
+        year: 2022,
+        get: { variables: ['NAME'] },
+      }
+
+      for (const ucgid of [
+        '0400000US06',
+        '0500000US06001,0500000US06075',
+        '860Z200US77494',
+        'pseudo(0400000US06$1400000)',
+      ]) {
+        expect(tool.argsSchema.safeParse({ ...args, ucgid }).success).toBe(true)
+      }
+
+      for (const ucgid of ['06', 'state:06', '0400000US06,']) {
+        expect(tool.argsSchema.safeParse({ ...args, ucgid }).success).toBe(
+          false,
+        )
+      }
+    })
+
     it('should validate complex geography level definitions', () => {
       const complexArgs = {
         dataset: 'acs/acs1',
@@ -241,11 +321,83 @@ describe('FetchAggregateDataTool', () => {
 
       expect(() => tool.argsSchema.parse(invalidArgs)).toThrow()
       expect(result.error.issues[0].message).toContain(
-        'This data is currently not supported by the U.S. Census Bureau Data API MCP Server.',
+        'Incompatible dataset. Please use the fetch-timeseries-data tool.',
       )
     })
   })
 
+  describe('Response Cache', () => {
+    const args = {
+      dataset: 'acs/acs1',
+      year: 2019,
+      get: {
+        group: 'B01001',
+      },
+      for: 'state:*',
+    }
+
+    it('should return cached rows without calling the Census API', async () => {
+      const getSpy = vi.spyOn(CacheService.prototype, 'get').mockResolvedValue({
+        data: sampleTableByGroupData,
+        createdAt: new Date('2025-01-01T00:00:00Z'),
+        expiresAt: null,
+      })
+
+      const response = await tool.toolHandler(args, 'test-api-key')
+
+      expect(mockFetch).not.toHaveBeenCalled()
+      expect(getSpy).toHaveBeenCalledWith({
+        datasetCode: 'acs/acs1',
+        year: 2019,
+        variables: ['group(B01001)'],
+        geographySpec: expect.objectContaining({
+          for: 'state:*',
+          descriptive: 'false',
+        }),
+      })
+      expect(response.structuredContent).toMatchObject({ row_count: 3 })
+      expect(response._meta).toEqual({
+        cache: {
+          hit: true,
+          cached_at: '2025-01-01T00:00:00.000Z',
+          expires_at: null,
+        },
+      })
+
+      getSpy.mockRestore()
+    })
+
+    it('should store API responses with the dataset TTL', async () => {
+      const setSpy = vi
+        .spyOn(CacheService.prototype, 'set')
+        .mockResolvedValue(undefined)
+      mockFetch.mockResolvedValue(createMockResponse(sampleTableByGroupData))
+
+      const response = await tool.toolHandler(args, 'test-api-key')
+
+      expect(setSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ datasetCode: 'acs/acs1', year: 2019 }),
+        sampleTableByGroupData,
+        { ttlMs: HISTORICAL_DATA_CACHE_TTL_MS, rowCount: 3 },
+      )
+      expect(response._meta).toEqual({ cache: { hit: false } })
+
+      setSpy.mockRestore()
+    })
+
+    it('should not cache error responses', async () => {
+      const setSpy = vi.spyOn(CacheService.prototype, 'set')
+      mockFetch.mockResolvedValue(createMockResponse({}, 400, 'Bad Request'))
+
+      const response = await tool.toolHandler(args, 'test-api-key')
+
+      expect(response.isError).toBe(true)
+      expect(setSpy).not.toHaveBeenCalled()
+
+      setSpy.mockRestore()
+    })
+  })
+
   describe('URL Construction', () => {
     beforeEach(() => {
       mockFetch.mockResolvedValue(createMockResponse(sampleTableByGroupData))
@@ -265,9 +417,11 @@ describe('FetchAggregateDataTool', () => {
 
       expect(mockFetch).toHaveBeenCalledWith(
         expect.stringContaining('https://api.census.gov/data/2022/acs/acs1'),
+        expect.objectContaining({ signal: expect.any(AbortSignal) }),
       )
       expect(mockFetch).toHaveBeenCalledWith(
         expect.stringContaining('get=group%28B01001%29'),
+        expect.anything(),
       )
     })
 
@@ -351,6 +505,78 @@ describe('FetchAggregateDataTool', () => {
       expect(responseText).toContain('Arizona')
     })
 
+    it('should report a not found error for an unknown dataset', async () => {
+      mockFetch.mockResolvedValue(createMockResponse({}, 404, 'Not Found'))
+
+      const args = {
+        dataset: 'acs/unknown',
+        year: 2022,
+        get: {
+          group: 'B01001',
+        },
+        for: 'state:*',
+      }
+
+      const response = await tool.toolHandler(args, process.env.CENSUS_API_KEY)
+      expect(response.isError).toBe(true)
+      expect(response.content[0].text).toContain(
+        'Census API error: 404 Not Found',
+      )
+      expect(response._meta?.error).toMatchObject({ code: 'NOT_FOUND' })
+    })
+
+    it('should translate Census API error bodies', async () => {
+      mockFetch.mockResolvedValue(
+        Promise.resolve(
+          new Response("error: unknown variable 'B1901_001E'", {
+            status: 400,
+            statusText: 'Bad Request',
+          }),
+        ),
+      )
+
+      const response = await tool.toolHandler(
+        {
+          dataset: 'acs/acs1',
+          year: 2022,
+          get: { variables: ['B1901_001E'] },
+          for: 'state:*',
+        },
+        process.env.CENSUS_API_KEY,
+      )
+
+      expect(response.isError).toBe(true)
+      expect(response.content[0].text).toContain(
+        "Census API error: 400 Bad Request: unknown variable 'B1901_001E'",
+      )
+      expect(response.content[0].text).toContain('search-data-tables')
+      expect(response._meta?.error).toMatchObject({
+        code: 'CENSUS_API_ERROR',
+        details: { kind: 'unknown_variable', values: ['B1901_001E'] },
+      })
+    })
+
+    it('should report queries that return no data', async () => {
+      mockFetch.mockResolvedValue(
+        Promise.resolve(new Response(null, { status: 204 })),
+      )
+
+      const response = await tool.toolHandler(
+        {
+          dataset: 'acs/acs1',
+          year: 2022,
+          get: { variables: ['B01001_001E'] },
+          for: 'county:999',
+          in: 'state:06',
+        },
+        process.env.CENSUS_API_KEY,
+      )
+
+      expect(response.isError).toBe(true)
+      expect(response.content[0].text).toContain('The query returned no data.')
+      expect(response._meta?.error).toMatchObject({ code: 'NOT_FOUND' })
+    })
+
     it('should handle network errors', async () => {
       mockFetch.mockImplementation(() => createMockFetchError('Network error'))
 
@@ -366,13 +592,13 @@ describe('FetchAggregateDataTool', () => {
       const response = await tool.toolHandler(args, process.env.CENSUS_API_KEY)
       validateResponseStructure(response)
       expect(response.content[0].text).toContain('Fetch failed: Network error')
+      expect(response._meta?.error).toMatchObject({ code: 'INTERNAL_ERROR' })
     })
 
     it('should handle malformed JSON responses', async () => {
-      mockFetch.mockResolvedValue({
-        ok: true,
-        json: () => Promise.reject(new Error('Invalid JSON')),
-      })
+      mockFetch.mockResolvedValue(
+        new Response('not json', { status: 200, statusText: 'OK' }),
+      )
 
       const args = {
         dataset: 'acs/acs1',
@@ -385,7 +611,43 @@ describe('FetchAggregateDataTool', () => {
 
       const response = await tool.toolHandler(args, process.env.CENSUS_API_KEY)
       validateResponseStructure(response)
-      expect(response.content[0].text).toContain('Fetch failed: Invalid JSON')
+      expect(response.content[0].text).toContain(
+        'Census API error: 200 OK: Unexpected response: not json',
+      )
+      expect(response._meta?.error).toMatchObject({ code: 'CENSUS_API_ERROR' })
+    })
+
+    it('should report invalid keys answered with an HTML page', async () => {
+      mockFetch.mockResolvedValue(
+        new Response(
+          '<html><head><title>Invalid Key</title></head><body>A valid <em>key</em> must be included with each data API request.</body></html>',
+          {
+            status: 200,
+            statusText: 'OK',
+            headers: { 'Content-Type': 'text/html' },
+          },
+        ),
+      )
+
+      const response = await tool.toolHandler(
+        {
+          dataset: 'acs/acs1',
+          year: 2022,
+          get: { variables: ['NAME', 'B01001_001E'] },
+          for: 'state:02',
+        },
+        'invalid-key',
+      )
+
+      expect(response.isError).toBe(true)
+      expect(response.content[0].text).toContain(
+        'Census API error: 200 OK: Invalid Key A valid key must be included',
+      )
+      expect(response._meta?.error).toMatchObject({
+        code: 'CENSUS_API_ERROR',
+        hint: expect.stringContaining('Check CENSUS_API_KEY'),
+        details: { kind: 'invalid_key' },
+      })
     })
   })
 
@@ -414,6 +676,41 @@ describe('FetchAggregateDataTool', () => {
       )
     })
 
+    it('should return rows, headers, geography and citation as structured content', async () => {
+      const testData = [
+        ['NAME', 'B01001_001E', 'state'],
+        ['Test State', '1000000', '01'],
+      ]
+      mockFetch.mockResolvedValue(createMockResponse(testData))
+
+      const args = {
+        dataset: 'acs/acs1',
+        year: 2022,
+        get: {
+          variables: ['NAME', 'B01001_001E'],
+        },
+        for: 'state:01',
+      }
+
+      const response = await tool.toolHandler(args, process.env.CENSUS_API_KEY)
+
+      expect(tool.outputSchema?.required).toContain('rows')
+      expect(response.structuredContent).toMatchObject({
+        dataset: 'acs/acs1',
+        year: 2022,
+        headers: ['NAME', 'B01001_001E', 'state'],
+        rows: [['Test State', '1000000', '01']],
+        row_count: 1,
+        geography: { for: 'state:01' },
+      })
+      expect(response.structuredContent?.citation).toContain(
+        'Source: U.S. Census Bureau Data API',
+      )
+      expect(response.structuredContent?.source_url).toContain(
+        'https://api.census.gov/data/2022/acs/acs1?get=NAME%2CB01001_001E',
+      )
+    })
+
     it('should handle empty data arrays', async () => {
       const emptyData = [['NAME', 'B01001_001E', 'state']] // Headers only
       mockFetch.mockResolvedValue(createMockResponse(emptyData))
@@ -436,6 +733,486 @@ describe('FetchAggregateDataTool', () => {
     })
   })
 
+  describe('Annotations', () => {
+    it('should return sentinel values as nulls with their reasons', async () => {
+      mockFetch.mockResolvedValue(
+        createMockResponse([
+          ['NAME', 'B19013_001E', 'state', 'county'],
+          ['Loving County, Texas', '-666666666', '48', '301'],
+        ]),
+      )
+
+      const response = await tool.toolHandler(
+        {
+          dataset: 'acs/acs5',
+          year: 2022,
+          get: { variables: ['NAME', 'B19013_001E'] },
+          for: 'county:301',
+          in: 'state:48',
+        },
+        'test-api-key',
+      )
+
+      expect(response.structuredContent).toMatchObject({
+        rows: [['Loving County, Texas', null, '48', '301']],
+        annotations: [{ column: 'B19013_001E', value: '-666666666', count: 1 }],
+      })
+      expect(response.content[0].text).toContain(
+        'Annotated values returned as null:\n- B19013_001E: -666666666 in 1 row.',
+      )
+    })
+
+    it('should not add annotations when there are none', async () => {
+      mockFetch.mockResolvedValue(
+        createMockResponse([
+          ['NAME', 'B19013_001E', 'state'],
+          ['Alabama', '59609', '01'],
+        ]),
+      )
+
+      const response = await tool.toolHandler(
+        {
+          dataset: 'acs/acs1',
+          year: 2022,
+          get: { variables: ['NAME', 'B19013_001E'] },
+          for: 'state:01',
+        },
+        'test-api-key',
+      )
+
+      expect(response.structuredContent).not.toHaveProperty('annotations')
+      expect(response.content[0].text).not.toContain('Annotated values')
+    })
+  })
+
+  describe('Output Formats', () => {
+    const data = [
+      ['NAME', 'B01001_001E', 'state'],
+      ['Alabama', '5074296', '01'],
+      ['Florida', '22244823', '12'],
+    ]
+
+    const args = {
+      dataset: 'acs/acs1',
+      year: 2022,
+      get: { variables: ['NAME', 'B01001_001E'] },
+      for: 'state:01,12',
+    }
+
+    it('should render CSV', async () => {
+      mockFetch.mockResolvedValue(createMockResponse(data))
+
+      const response = await tool.toolHandler(
+        { ...args, output_format: 'csv' },
+        'test-api-key',
+      )
+
+      expect(response.content[0].text).toContain(
+        'NAME,B01001_001E,state\nAlabama,5074296,01\nFlorida,22244823,12',
+      )
+    })
+
+    it('should render JSON records with numbers and geography codes', async () => {
+      mockFetch.mockResolvedValue(createMockResponse(data))
+
+      const response = await tool.toolHandler(
+        { ...args, output_format: 'json' },
+        'test-api-key',
+      )
+
+      const json = response.content[0].text.split('\n')[1]
+      expect(JSON.parse(json)).toEqual([
+        { NAME: 'Alabama', B01001_001E: 5074296, state: '01' },
+        { NAME: 'Florida', B01001_001E: 22244823, state: '12' },
+      ])
+    })
+
+    it('should reject unknown formats', () => {
+      expect(() =>
+        tool.argsSchema.parse({ ...args, output_format: 'xml' }),
+      ).toThrow()
+    })
+  })
+
+  describe('Pagination', () => {
+    const testData = [
+      ['NAME', 'B01001_001E', 'state'],
+      ['Alabama', '5108468', '01'],
+      ['Alaska', '733406', '02'],
+    ]
+
+    it('should store results with more rows than max_rows', async () => {
+      mockFetch.mockResolvedValue(createMockResponse(testData))
+
+      const response = await tool.toolHandler(
+        {
+          dataset: 'acs/acs1',
+          year: 2022,
+          get: { variables: ['NAME', 'B01001_001E'] },
+          for: 'state:*',
+          max_rows: 1,
+        },
+        'test-api-key',
+        { sessionId: 'session-1' },
+      )
+
+      const structured = response.structuredContent!
+      expect(structured).toMatchObject({
+        rows: [['Alabama', '5108468', '01']],
+        row_count: 1,
+        total_row_count: 2,
+        next_cursor: expect.any(String),
+        column_summary: [
+          { name: 'NAME', type: 'string', distinct_count: 2 },
+          { name: 'B01001_001E', type: 'number', min: 733406, max: 5108468 },
+          { name: 'state', type: 'string', distinct_count: 2 },
+        ],
+      })
+
+      const stored = ResultStoreService.getInstance().get(
+        'session-1',
+        structured.result_handle as string,
+      )
+      expect(stored?.rows).toEqual(testData.slice(1))
+      expect(response.content[0].text).toContain(
+        `Showing rows 1-1 of 2. Use get-result-page with result_handle "${structured.result_handle}"`,
+      )
+    })
+
+    it('should return small results in full', async () => {
+      mockFetch.mockResolvedValue(createMockResponse(testData))
+
+      const response = await tool.toolHandler(
+        {
+          dataset: 'acs/acs1',
+          year: 2022,
+          get: { variables: ['NAME', 'B01001_001E'] },
+          for: 'state:*',
+        },
+        'test-api-key',
+      )
+
+      expect(response.structuredContent).toMatchObject({ row_count: 2 })
+      expect(response.structuredContent).not.toHaveProperty('result_handle')
+    })
+  })
+
+  describe('Query Validation', () => {
+    it('should report invalid queries with suggestions before fetching data', async () => {
+      mockValidate.mockResolvedValue([
+        {
+          field: 'variables',
+          value: 'B01001_01E',
+          message: "Unknown variable 'B01001_01E'.",
+          suggestions: ['B01001_001E', 'B01001_010E'],
+        },
+      ])
+
+      const response = await tool.toolHandler(
+        {
+          dataset: 'acs/acs1',
+          year: 2022,
+          get: { variables: ['NAME', 'B01001_01E'] },
+          for: 'state:*',
+        },
+        'test-api-key',
+      )
+
+      expect(mockValidate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          dataset: 'acs/acs1',
+          year: 2022,
+          variables: ['NAME', 'B01001_01E'],
+          for: 'state:*',
+        }),
+        'test-api-key',
+      )
+      expect(mockFetch).not.toHaveBeenCalled()
+      expect(response.isError).toBe(true)
+      expect(response.content[0].text).toContain(
+        "Invalid query for acs/acs1 (2022):\n- Unknown variable 'B01001_01E'. Did you mean 'B01001_001E', 'B01001_010E'?",
+      )
+      expect(response._meta?.error).toMatchObject({ code: 'VALIDATION_ERROR' })
+    })
+  })
+
+  describe('Labels', () => {
+    const descriptiveData = [
+      ['NAME', 'B01001_002E', 'state'],
+      ['Geographic Area Name', 'Estimate!!Total:!!Male:', 'state'],
+      ['Alabama', '2461248', '01'],
+    ]
+
+    it('should return the descriptive row as column labels', async () => {
+      mockFetch.mockResolvedValue(createMockResponse(descriptiveData))
+
+      const response = await tool.toolHandler(
+        {
+          dataset: 'acs/acs1',
+          year: 2022,
+          get: { variables: ['NAME', 'B01001_002E'] },
+          for: 'state:01',
+          descriptive: true,
+        },
+        'test-api-key',
+      )
+
+      expect(response.structuredContent).toMatchObject({
+        rows: [['Alabama', '2461248', '01']],
+        row_count: 1,
+        columns: [
+          { name: 'NAME', path: ['Geographic Area Name'] },
+          {
+            name: 'B01001_002E',
+            label: 'Estimate!!Total:!!Male:',
+            measure: 'Estimate',
+            path: ['Total', 'Male'],
+          },
+          { name: 'state' },
+        ],
+      })
+      expect(response.content[0].text).toContain(
+        'NAME: Alabama, B01001_002E: 2461248, state: 01',
+      )
+      expect(response.content[0].text).not.toContain(
+        'NAME: Geographic Area Name',
+      )
+    })
+
+    it('should fetch labels and name columns by label and code', async () => {
+      mockFetch.mockResolvedValue(createMockResponse(descriptiveData))
+
+      const response = await tool.toolHandler(
+        {
+          dataset: 'acs/acs1',
+          year: 2022,
+          get: { variables: ['NAME', 'B01001_002E'] },
+          for: 'state:01',
+          labels: 'both',
+        },
+        'test-api-key',
+      )
+
+      expect(mockFetch.mock.calls[0][0]).toContain('descriptive=true')
+      expect(response.content[0].text).toContain(
+        'Geographic Area Name [NAME]: Alabama, Total > Male [B01001_002E]: 2461248',
+      )
+      expect(response.content[0].text).toContain(
+        'Labels:\nGeographic Area Name [NAME]\nEstimate\n  Total\n    Male [B01001_002E]',
+      )
+    })
+  })
+
+  describe('Margins of Error', () => {
+    it('should fetch the margin of error for every estimate', async () => {
+      mockFetch.mockResolvedValue(
+        createMockResponse([
+          [
+            'NAME',
+            'B01001_001E',
+            'B01001_001M',
+            'B01001_002E',
+            'B01001_002M',
+            'state',
+          ],
+          ['Alabama', '5074296', '-555555555', '2461248', '6178', '01'],
+        ]),
+      )
+
+      const response = await tool.toolHandler(
+        {
+          dataset: 'acs/acs1',
+          year: 2022,
+          get: {
+            variables: ['NAME', 'B01001_001E', 'B01001_002E', 'B01001_002M'],
+          },
+          for: 'state:01',
+          include_moe: true,
+        },
+        'test-api-key',
+      )
+
+      const url = new URL(mockFetch.mock.calls[0][0])
+      expect(url.searchParams.get('get')).toBe(
+        'NAME,B01001_001E,B01001_001M,B01001_002E,B01001_002M',
+      )
+      expect(response.structuredContent).toMatchObject({
+        moe_pairs: [
+          { estimate: 'B01001_001E', moe: 'B01001_001M' },
+          { estimate: 'B01001_002E', moe: 'B01001_002M' },
+        ],
+      })
+    })
+
+    it('should not add margins of error by default', async () => {
+      mockFetch.mockResolvedValue(createMockResponse(sampleTableByGroupData))
+
+      const response = await tool.toolHandler(
+        {
+          dataset: 'acs/acs1',
+          year: 2022,
+          get: { variables: ['B01001_001E'] },
+          for: 'state:*',
+        },
+        'test-api-key',
+      )
+
+      const url = new URL(mockFetch.mock.calls[0][0])
+      expect(url.searchParams.get('get')).toBe('B01001_001E')
+      expect(response.structuredContent).not.toHaveProperty('moe_pairs')
+    })
+  })
+
+  describe('Variable Splitting', () => {
+    const variables = Array.from(
+      { length: 60 },
+      (_, i) => `B01001_${String(i + 1).padStart(3, '0')}E`,
+    )
+
+    // Responds with the requested variables for Alabama and Alaska
+    function respondWithRequestedVariables(url: string) {
+      const get = new URL(url).searchParams.get('get')!.split(',')
+      const requested = get.filter((variable) => variable !== 'NAME')
+      const order = url.includes('B01001_001E') ? ['01', '02'] : ['02', '01']
+
+      return createMockResponse([
+        [...get, 'state'],
+        ...order.map((state) => [
+          ...get.map((variable) =>
+            variable === 'NAME' ? `State ${state}` : `${variable}-${state}`,
+          ),
+          state,
+        ]),
+      ]).then((response) => {
+        expect(requested.length).toBeLessThanOrEqual(50)
+        return response
+      })
+    }
+
+    it('should accept more than 50 variables', () => {
+      const result = tool.validateArgs({
+        dataset: 'acs/acs5',
+        year: 2022,
+        get: { variables },
+        for: 'state:*',
+      })
+
+      expect(result.success).toBe(true)
+    })
+
+    it('should split the request and join the responses on geography', async () => {
+      mockFetch.mockImplementation(respondWithRequestedVariables)
+
+      const response = await tool.toolHandler(
+        {
+          dataset: 'acs/acs5',
+          year: 2022,
+          get: { variables: ['NAME', ...variables] },
+          for: 'state:01,02',
+        },
+        'test-api-key',
+      )
+
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+      expect(response.isError).toBeUndefined()
+
+      const { headers, rows, row_count, source_urls, citation } =
+        response.structuredContent as {
+          headers: string[]
+          rows: string[][]
+          row_count: number
+          source_urls: string[]
+          citation: string
+        }
+
+      expect(headers).toEqual(['NAME', ...variables, 'state'])
+      expect(row_count).toBe(2)
+      expect(rows[0]).toEqual([
+        'State 01',
+        ...variables.map((variable) => `${variable}-01`),
+        '01',
+      ])
+      expect(rows[1][headers.indexOf('B01001_060E')]).toBe('B01001_060E-02')
+      expect(source_urls).toHaveLength(2)
+      expect(buildCitation).toHaveBeenCalledOnce()
+      expect(buildCitation).toHaveBeenCalledWith(...source_urls)
+      expect(citation).toContain(source_urls[0])
+    })
+
+    it('should report an error when any sub-request fails', async () => {
+      mockFetch
+        .mockImplementationOnce(respondWithRequestedVariables)
+        .mockResolvedValueOnce(createMockResponse({}, 400, 'Bad Request'))
+
+      const response = await tool.toolHandler(
+        {
+          dataset: 'acs/acs5',
+          year: 2022,
+          get: { variables },
+          for: 'state:*',
+        },
+        'test-api-key',
+      )
+
+      expect(response.isError).toBe(true)
+      expect(response.content[0].text).toContain(
+        'Census API error: 400 Bad Request',
+      )
+    })
+  })
+
+  describe('Fixture Replay', () => {
+    let fixturesDir: string
+
+    beforeEach(async () => {
+      fixturesDir = await mkdtemp(path.join(tmpdir(), 'census-api-fixtures-'))
+    })
+
+    afterEach(async () => {
+      vi.restoreAllMocks()
+      delete process.env.CENSUS_API_MODE
+      await rm(fixturesDir, { recursive: true, force: true })
+    })
+
+    it('should replay recorded responses without an API key', async () => {
+      await writeFixture(
+        fixturesDir,
+        'https://api.census.gov/data/2022/acs/acs1?get=NAME%2CB01001_001E&for=state%3A01&descriptive=false&key=recording-key',
+        {
+          status: 200,
+          statusText: 'OK',
+          headers: { 'content-type': 'application/json' },
+          body: JSON.stringify([
+            ['NAME', 'B01001_001E', 'state'],
+            ['Alabama', '5108468', '01'],
+          ]),
+        },
+      )
+      vi.spyOn(CensusApiClient, 'getInstance').mockReturnValue(
+        new CensusApiClient({
+          ...resolveCensusApiConfig(),
+          mode: 'replay',
+          fixturesDir,
+        }),
+      )
+      process.env.CENSUS_API_MODE = 'replay'
+      delete process.env.CENSUS_API_KEY
+
+      const response = await new FetchAggregateDataTool().handler({
+        dataset: 'acs/acs1',
+        year: 2022,
+        get: { variables: ['NAME', 'B01001_001E'] },
+        for: 'state:01',
+      })
+
+      expect(response.isError).toBeFalsy()
+      expect(response.structuredContent?.rows).toEqual([
+        ['Alabama', '5108468', '01'],
+      ])
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+  })
+
   describe('Integration Tests', () => {
     it('should perform complete successful request flow', async () => {
       mockFetch.mockResolvedValue(createMockResponse(sampleTableByGroupData))
@@ -1,4 +1,4 @@
-const mockFetch = vi.fn()
+const mockFetch = vi.hoisted(() => vi.fn())
 
 vi.mock('node-fetch', () => ({
   default: mockFetch,
@@ -25,6 +25,7 @@ import {
   FetchDatasetGeographyTool,
   toolDescription,
 } from '../../../src/tools/fetch-dataset-geography.tool.js'
+import { CacheService } from '../../../src/services/cache.service.js'
 import { DatabaseService } from '../../../src/services/database.service.js'
 import { SummaryLevelRow } from '../../../src/types/summary-level.types.js'
 import { GeographyJson } from '../../../src/schema/dataset-geography.schema.js'
@@ -208,6 +209,10 @@ describe('FetchDatasetGeographyTool', () => {
       expect((response.content[0] as TextContent).text).toContain(
         'Database connection failed - cannot retrieve geography metadata',
       )
+      expect(response.isError).toBe(true)
+      expect(response._meta?.error).toMatchObject({
+        code: 'DATABASE_UNAVAILABLE',
+      })
     })
 
     it('should query geography levels from database', async () => {
@@ -246,6 +251,68 @@ describe('FetchDatasetGeographyTool', () => {
     })
   })
 
+  describe('Response Cache', () => {
+    it('should use cached geography.json without calling the Census API', async () => {
+      const getSpy = vi.spyOn(CacheService.prototype, 'get').mockResolvedValue({
+        data: mockCensusApiResponse,
+        createdAt: new Date('2025-01-01T00:00:00Z'),
+        expiresAt: new Date('2025-01-02T00:00:00Z'),
+      })
+
+      const response = await tool.toolHandler(
+        { dataset: 'acs/acs1', year: 2022 },
+        'test-api-key',
+      )
+
+      expect(mockFetch).not.toHaveBeenCalled()
+      expect(getSpy).toHaveBeenCalledWith({
+        datasetCode: 'acs/acs1',
+        year: 2022,
+        variables: [],
+        geographySpec: { endpoint: 'geography.json' },
+      })
+      expect(response.structuredContent?.geographies).toHaveLength(
+        mockCensusApiResponse.fips.length,
+      )
+      expect(response._meta).toEqual({
+        cache: {
+          hit: true,
+          cached_at: '2025-01-01T00:00:00.000Z',
+          expires_at: '2025-01-02T00:00:00.000Z',
+        },
+      })
+
+      getSpy.mockRestore()
+    })
+
+    it('should cache validated responses only', async () => {
+      const setSpy = vi
+        .spyOn(CacheService.prototype, 'set')
+        .mockResolvedValue(undefined)
+      mockFetch.mockResolvedValue(createMockResponse({ invalid: true }))
+
+      await tool.toolHandler({ dataset: 'acs/acs1', year: 2022 }, 'key')
+      expect(setSpy).not.toHaveBeenCalled()
+
+      mockFetch.mockResolvedValue(createMockResponse(mockCensusApiResponse))
+
+      const response = await tool.toolHandler(
+        { dataset: 'acs/acs1', year: 2022 },
+        'key',
+      )
+      expect(setSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ datasetCode: 'acs/acs1', year: 2022 }),
+        mockCensusApiResponse,
+        expect.objectContaining({
+          rowCount: mockCensusApiResponse.fips.length,
+        }),
+      )
+      expect(response._meta).toEqual({ cache: { hit: false } })
+
+      setSpy.mockRestore()
+    })
+  })
+
   describe('URL Construction', () => {
     it('should construct basic URL correctly', async () => {
       mockFetch.mockResolvedValue(createMockResponse(mockCensusApiResponse))
@@ -255,10 +322,10 @@ describe('FetchDatasetGeographyTool', () => {
         year: 2022,
       }
 
-      await tool.toolHandler(args, process.env.CENSUS_API_KEY!)
+      await tool.toolHandler(args, 'test-api-key')
       const calls = mockFetch.mock.calls
-      expect(calls[0][0]).toContain(
-        'https://api.census.gov/data/2022/acs/acs1/geography.json?key=',
+      expect(calls[0][0]).toBe(
+        'https://api.census.gov/data/2022/acs/acs1/geography.json?key=test-api-key',
       )
     })
 
@@ -273,8 +340,9 @@ describe('FetchDatasetGeographyTool', () => {
 
       expect(mockFetch).toHaveBeenCalledWith(
         expect.stringContaining(
-          'https://api.census.gov/data/timeseries/asm/area2012/geography.json?key=',
+          'https://api.census.gov/data/timeseries/asm/area2012/geography.json',
         ),
+        expect.objectContaining({ signal: expect.any(AbortSignal) }),
       )
     })
   })
@@ -326,6 +394,22 @@ describe('FetchDatasetGeographyTool', () => {
       })
     })
 
+    it('should return the geographies as structured content', async () => {
+      mockFetch.mockResolvedValue(createMockResponse(mockCensusApiResponse))
+
+      const response = await tool.toolHandler(
+        { dataset: 'acs/acs1', year: 2022 },
+        process.env.CENSUS_API_KEY!,
+      )
+
+      expect(tool.outputSchema?.required).toEqual(['dataset', 'geographies'])
+      expect(response.structuredContent).toMatchObject({
+        dataset: 'acs/acs1',
+        year: 2022,
+      })
+      expect(response.structuredContent?.geographies).toHaveLength(3)
+    })
+
     it('should handle fallback for unknown geography codes', async () => {
       // Mock API response with unknown geography code
       const unknownCodeResponse = {
@@ -376,6 +460,10 @@ describe('FetchDatasetGeographyTool', () => {
       expect((response.content[0] as TextContent).text).toContain(
         'Geography endpoint returned: 400 Bad Request',
       )
+      expect(response._meta?.error).toMatchObject({
+        code: 'CENSUS_API_ERROR',
+        details: { status: 400 },
+      })
     })
 
     it('should handle network errors', async () => {
@@ -0,0 +1,253 @@
+const mockFetch = vi.hoisted(() => vi.fn())
+
+vi.mock('node-fetch', () => ({
+  default: mockFetch,
+}))
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { CacheService } from '../../../src/services/cache.service'
+import {
+  FetchMicrodataTool,
+  toolDescription,
+} from '../../../src/tools/fetch-microdata.tool'
+import {
+  validateToolStructure,
+  validateResponseStructure,
+  createMockResponse,
+} from '../../helpers/test-utils'
+
+// Answers each split request with two person records in California
+function mockPumsResponse(url: string) {
+  const get = new URL(url).searchParams.get('get')!.split(',')
+  const records = [
+    { SERIALNO: 'A', SPORDER: '1', SEX: '1', weight: 10 },
+    { SERIALNO: 'B', SPORDER: '1', SEX: '2', weight: 20 },
+  ]
+
+  const value = (
+    record: (typeof records)[number],
+    variable: string,
+  ): string => {
+    if (variable in record) {
+      return String(record[variable as keyof typeof record])
+    }
+    // Replicate weights are one more than the full sample weight
+    return String(record.weight + (variable === 'PWGTP' ? 0 : 1))
+  }
+
+  return createMockResponse([
+    [...get, 'state'],
+    ...records.map((record) => [
+      ...get.map((variable) => value(record, variable)),
+      '06',
+    ]),
+  ])
+}
+
+describe('FetchMicrodataTool', () => {
+  let tool: FetchMicrodataTool
+
+  beforeEach(() => {
+    tool = new FetchMicrodataTool()
+    mockFetch.mockClear()
+  })
+
+  afterEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('Tool Configuration', () => {
+    it('should have correct tool metadata', () => {
+      validateToolStructure(tool)
+      expect(tool.name).toBe('fetch-microdata')
+      expect(tool.description).toBe(toolDescription)
+      expect(tool.requiresApiKey).toBe(true)
+    })
+
+    it('should have valid input schema', () => {
+      const schema = tool.inputSchema
+      expect(schema.type).toBe('object')
+      expect(schema.properties).toHaveProperty('tabulate')
+      expect(schema.properties).toHaveProperty('weight')
+      expect(schema.required).toEqual(['dataset', 'year', 'tabulate'])
+    })
+  })
+
+  describe('Schema Validation', () => {
+    const validArgs = {
+      dataset: 'acs/acs1/pums',
+      year: 2022,
+      tabulate: ['SEX'],
+      for: 'state:06',
+    }
+
+    it('should accept microdata datasets', () => {
+      expect(() => tool.argsSchema.parse(validArgs)).not.toThrow()
+      expect(() =>
+        tool.argsSchema.parse({ ...validArgs, dataset: 'cps/asec/mar' }),
+      ).not.toThrow()
+    })
+
+    it('should reject datasets for other tools', () => {
+      const result = tool.validateArgs({ ...validArgs, dataset: 'acs/acs1' })
+
+      expect(result.error.issues[0].message).toBe(
+        'Incompatible dataset. Please use the fetch-aggregate-data tool.',
+      )
+    })
+
+    it('should require at least one tabulation variable', () => {
+      expect(() =>
+        tool.argsSchema.parse({ ...validArgs, tabulate: [] }),
+      ).toThrow()
+    })
+
+    it('should limit the number of tabulation variables', () => {
+      const tabulate = Array.from({ length: 11 }, (_, i) => `V${i}`)
+
+      expect(() => tool.argsSchema.parse({ ...validArgs, tabulate })).toThrow()
+    })
+  })
+
+  describe('toolHandler', () => {
+    it('should fetch records without replicate weights in one request', async () => {
+      mockFetch.mockImplementation(mockPumsResponse)
+
+      const response = await tool.toolHandler(
+        {
+          dataset: 'acs/acs1/pums',
+          year: 2022,
+          tabulate: ['SEX'],
+          for: 'state:06',
+          predicates: { AGEP: '18:64' },
+          replicate_weights: false,
+        },
+        'test-api-key',
+      )
+
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.census.gov/data/2022/acs/acs1/pums?get=SEX%2CPWGTP&for=state%3A06&AGEP=18%3A64&key=test-api-key',
+        expect.objectContaining({ signal: expect.any(AbortSignal) }),
+      )
+
+      validateResponseStructure(response)
+      expect(response.structuredContent).toMatchObject({
+        headers: ['SEX', 'state', 'weighted_count', 'unweighted_count'],
+        rows: [
+          ['1', '06', 10, 1],
+          ['2', '06', 20, 1],
+        ],
+        record_count: 2,
+        weight: 'PWGTP',
+        replicate_weights: 0,
+      })
+    })
+
+    it('should split replicate weight requests and join them on record keys', async () => {
+      mockFetch.mockImplementation(mockPumsResponse)
+
+      const response = await tool.toolHandler(
+        {
+          dataset: 'acs/acs1/pums',
+          year: 2022,
+          tabulate: ['SEX'],
+          for: 'state:06',
+        },
+        'test-api-key',
+      )
+
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+      for (const [url] of mockFetch.mock.calls) {
+        const get = new URL(url).searchParams.get('get')!.split(',')
+        expect(get.slice(0, 2)).toEqual(['SERIALNO', 'SPORDER'])
+        expect(get.length).toBeLessThanOrEqual(50)
+      }
+
+      // Every replicate differs by 1: SE = sqrt(0.05 * 80 * 1^2) = 2
+      expect(response.structuredContent).toMatchObject({
+        headers: [
+          'SEX',
+          'state',
+          'weighted_count',
+          'unweighted_count',
+          'standard_error',
+          'margin_of_error',
+        ],
+        rows: [
+          ['1', '06', 10, 1, 2, 3],
+          ['2', '06', 20, 1, 2, 3],
+        ],
+        replicate_weights: 80,
+      })
+      expect((response.structuredContent?.source_urls as string[]).length).toBe(
+        2,
+      )
+    })
+
+    it('should restrict household weights to householders', async () => {
+      mockFetch.mockImplementation(mockPumsResponse)
+
+      await tool.toolHandler(
+        {
+          dataset: 'acs/acs1/pums',
+          year: 2022,
+          tabulate: ['SEX'],
+          weight: 'WGTP',
+          replicate_weights: false,
+        },
+        'test-api-key',
+      )
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.census.gov/data/2022/acs/acs1/pums?get=SEX%2CWGTP&SPORDER=1&key=test-api-key',
+        expect.anything(),
+      )
+    })
+
+    it('should return cached tabulations without calling the Census API', async () => {
+      const getSpy = vi.spyOn(CacheService.prototype, 'get').mockResolvedValue({
+        data: {
+          headers: ['SEX', 'weighted_count', 'unweighted_count'],
+          rows: [['1', 10, 1]],
+          recordCount: 1,
+        },
+        createdAt: new Date('2025-01-01T00:00:00Z'),
+        expiresAt: null,
+      })
+
+      const response = await tool.toolHandler(
+        {
+          dataset: 'acs/acs1/pums',
+          year: 2022,
+          tabulate: ['SEX'],
+          replicate_weights: false,
+        },
+        'test-api-key',
+      )
+
+      expect(mockFetch).not.toHaveBeenCalled()
+      expect(response.structuredContent).toMatchObject({
+        rows: [['1', 10, 1]],
+        record_count: 1,
+      })
+      expect(response._meta).toMatchObject({ cache: { hit: true } })
+
+      getSpy.mockRestore()
+    })
+
+    it('should report Census API errors', async () => {
+      mockFetch.mockResolvedValue(createMockResponse({}, 400, 'Bad Request'))
+
+      const response = await tool.toolHandler(
+        { dataset: 'acs/acs1/pums', year: 2022, tabulate: ['SEX'] },
+        'test-api-key',
+      )
+
+      expect(response.isError).toBe(true)
+      expect(response.content[0].text).toContain(
+        'Census API error: 400 Bad Request',
+      )
+    })
+  })
+})
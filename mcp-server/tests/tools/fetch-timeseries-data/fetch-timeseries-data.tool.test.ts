@@ -0,0 +1,314 @@
+const mockFetch = vi.hoisted(() => vi.fn())
+
+vi.mock('node-fetch', () => ({
+  default: mockFetch,
+}))
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { CURRENT_DATA_CACHE_TTL_MS } from '../../../src/helpers/cache-ttl'
+import { toTimePredicate } from '../../../src/schema/fetch-timeseries-data.schema'
+import { CacheService } from '../../../src/services/cache.service'
+import {
+  FetchTimeseriesDataTool,
+  toolDescription,
+} from '../../../src/tools/fetch-timeseries-data.tool'
+import {
+  validateToolStructure,
+  validateResponseStructure,
+  createMockResponse,
+  createMockFetchError,
+} from '../../helpers/test-utils'
+
+const sampleTimeseriesData = [
+  ['cell_value', 'time_slot_id', 'category_code', 'time', 'us'],
+  ['1250', '0', 'APERMITS', '2019-01', '1'],
+  ['1300', '0', 'APERMITS', '2019-02', '1'],
+]
+
+describe('FetchTimeseriesDataTool', () => {
+  let tool: FetchTimeseriesDataTool
+
+  beforeEach(() => {
+    tool = new FetchTimeseriesDataTool()
+    mockFetch.mockClear()
+  })
+
+  afterEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('Tool Configuration', () => {
+    it('should have correct tool metadata', () => {
+      validateToolStructure(tool)
+      expect(tool.name).toBe('fetch-timeseries-data')
+      expect(tool.description).toBe(toolDescription)
+      expect(tool.requiresApiKey).toBe(true)
+    })
+
+    it('should have valid input schema', () => {
+      const schema = tool.inputSchema
+      expect(schema.type).toBe('object')
+      expect(schema.properties).toHaveProperty('dataset')
+      expect(schema.properties).toHaveProperty('get')
+      expect(schema.properties).toHaveProperty('time')
+      expect(schema.properties).not.toHaveProperty('year')
+      expect(schema.required).toEqual(['dataset', 'get'])
+    })
+  })
+
+  describe('Schema Validation', () => {
+    const validArgs = {
+      dataset: 'timeseries/eits/resconst',
+      get: { variables: ['cell_value', 'time_slot_id'] },
+      for: 'us:*',
+      time: 'from 2019-01 to 2019-12',
+    }
+
+    it('should accept timeseries datasets', () => {
+      expect(() => tool.argsSchema.parse(validArgs)).not.toThrow()
+    })
+
+    it('should reject datasets for other tools', () => {
+      const result = tool.validateArgs({ ...validArgs, dataset: 'acs/acs1' })
+
+      expect(result.success).toBe(false)
+      expect(result.error.issues[0].message).toBe(
+        'Incompatible dataset. Please use the fetch-aggregate-data tool.',
+      )
+    })
+
+    it('should allow requests without geography', () => {
+      const args = {
+        dataset: 'timeseries/intltrade/exports/hs',
+        get: { variables: ['ALL_VAL_MO'] },
+        time: '2023-06',
+      }
+
+      expect(() => tool.argsSchema.parse(args)).not.toThrow()
+    })
+
+    it('should reject both for and ucgid', () => {
+      const result = tool.validateArgs({ ...validArgs, ucgid: '0100000US' })
+
+      expect(result.error.issues[0].message).toBe(
+        'Too many geographies specified error - define for or ucgid only, not both.',
+      )
+    })
+
+    it('should require for when in is defined', () => {
+      const result = tool.validateArgs({
+        ...validArgs,
+        for: undefined,
+        in: 'state:01',
+      })
+
+      expect(result.error.issues[0].message).toBe(
+        "Parent geography specified error - 'in' requires 'for'.",
+      )
+    })
+
+    it.each(['2019', '2019-03', '2019-Q1', 'from 2015', 'to 2019-Q4'])(
+      'should accept the time predicate %s',
+      (time) => {
+        expect(() =>
+          tool.argsSchema.parse({ ...validArgs, time }),
+        ).not.toThrow()
+      },
+    )
+
+    it.each(['19', '2019-13', 'between 2015 and 2019', 'from 2015 to'])(
+      'should reject the time predicate %s',
+      (time) => {
+        expect(() => tool.argsSchema.parse({ ...validArgs, time })).toThrow()
+      },
+    )
+
+    it('should accept time ranges as an object', () => {
+      const args = { ...validArgs, time: { from: '2015', to: '2019' } }
+
+      expect(() => tool.argsSchema.parse(args)).not.toThrow()
+      expect(() => tool.argsSchema.parse({ ...validArgs, time: {} })).toThrow()
+    })
+
+    it('should reject time in both time and predicates', () => {
+      const result = tool.validateArgs({
+        ...validArgs,
+        predicates: { time: '2019' },
+      })
+
+      expect(result.error.issues[0].message).toBe(
+        'Too many time periods specified error - define time or predicates.time only, not both.',
+      )
+    })
+  })
+
+  describe('toTimePredicate', () => {
+    it('should convert time ranges to the time predicate syntax', () => {
+      expect(toTimePredicate({ from: '2015', to: '2019' })).toBe(
+        'from 2015 to 2019',
+      )
+      expect(toTimePredicate({ from: '2015' })).toBe('from 2015')
+      expect(toTimePredicate({ to: '2019-Q4' })).toBe('to 2019-Q4')
+      expect(toTimePredicate('2019')).toBe('2019')
+      expect(toTimePredicate(undefined)).toBeUndefined()
+    })
+  })
+
+  describe('toolHandler', () => {
+    it('should construct the URL without a vintage', async () => {
+      mockFetch.mockResolvedValue(createMockResponse(sampleTimeseriesData))
+
+      await tool.toolHandler(
+        {
+          dataset: 'timeseries/eits/resconst',
+          get: { variables: ['cell_value', 'time_slot_id'] },
+          for: 'us:*',
+          time: { from: '2019-01', to: '2019-02' },
+          predicates: { category_code: 'APERMITS', seasonally_adj: 'yes' },
+        },
+        'test-api-key',
+      )
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.census.gov/data/timeseries/eits/resconst?get=cell_value%2Ctime_slot_id&for=us%3A*&time=from+2019-01+to+2019-02&category_code=APERMITS&seasonally_adj=yes&descriptive=false&key=test-api-key',
+        expect.objectContaining({ signal: expect.any(AbortSignal) }),
+      )
+    })
+
+    it('should pass time predicates through predicates', async () => {
+      mockFetch.mockResolvedValue(createMockResponse(sampleTimeseriesData))
+
+      const response = await tool.toolHandler(
+        {
+          dataset: 'timeseries/intltrade/exports/hs',
+          get: { variables: ['ALL_VAL_MO'] },
+          predicates: { time: '2023-06' },
+        },
+        'test-api-key',
+      )
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.census.gov/data/timeseries/intltrade/exports/hs?get=ALL_VAL_MO&time=2023-06&descriptive=false&key=test-api-key',
+        expect.anything(),
+      )
+      expect(response.structuredContent).toMatchObject({ time: '2023-06' })
+    })
+
+    it('should return structured timeseries data', async () => {
+      mockFetch.mockResolvedValue(createMockResponse(sampleTimeseriesData))
+
+      const response = await tool.toolHandler(
+        {
+          dataset: 'timeseries/eits/resconst',
+          get: { variables: ['cell_value', 'time_slot_id', 'category_code'] },
+          for: 'us:*',
+          time: 'from 2019-01 to 2019-02',
+        },
+        'test-api-key',
+      )
+
+      validateResponseStructure(response)
+      expect(response.content[0].text).toContain(
+        'Response from timeseries/eits/resconst:',
+      )
+      expect(response.structuredContent).toMatchObject({
+        dataset: 'timeseries/eits/resconst',
+        headers: sampleTimeseriesData[0],
+        rows: sampleTimeseriesData.slice(1),
+        row_count: 2,
+        time: 'from 2019-01 to 2019-02',
+        geography: { for: 'us:*' },
+      })
+    })
+
+    it('should split requests for more than 50 variables', async () => {
+      const variables = Array.from({ length: 60 }, (_, i) => `V${i}`)
+      const rowsFor = (names: string[]) => [
+        [...names, 'time', 'us'],
+        [...names.map(() => '1'), '2019', '1'],
+      ]
+      mockFetch
+        .mockResolvedValueOnce(
+          createMockResponse(rowsFor(variables.slice(0, 50))),
+        )
+        .mockResolvedValueOnce(createMockResponse(rowsFor(variables.slice(50))))
+
+      const response = await tool.toolHandler(
+        {
+          dataset: 'timeseries/eits/resconst',
+          get: { variables },
+          for: 'us:*',
+          time: '2019',
+        },
+        'test-api-key',
+      )
+
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+      expect(response.structuredContent).toMatchObject({
+        headers: [...variables, 'time', 'us'],
+        row_count: 1,
+      })
+    })
+
+    it('should cache responses with the current data TTL', async () => {
+      const setSpy = vi
+        .spyOn(CacheService.prototype, 'set')
+        .mockResolvedValue(undefined)
+      mockFetch.mockResolvedValue(createMockResponse(sampleTimeseriesData))
+
+      await tool.toolHandler(
+        {
+          dataset: 'timeseries/eits/resconst',
+          get: { variables: ['cell_value'] },
+          time: '2019',
+        },
+        'test-api-key',
+      )
+
+      expect(setSpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          datasetCode: 'timeseries/eits/resconst',
+          year: 0,
+          geographySpec: expect.objectContaining({ time: '2019' }),
+        }),
+        sampleTimeseriesData,
+        { ttlMs: CURRENT_DATA_CACHE_TTL_MS, rowCount: 2 },
+      )
+
+      setSpy.mockRestore()
+    })
+
+    it('should report Census API errors', async () => {
+      mockFetch.mockResolvedValue(createMockResponse({}, 400, 'Bad Request'))
+
+      const response = await tool.toolHandler(
+        {
+          dataset: 'timeseries/eits/resconst',
+          get: { variables: ['cell_value'] },
+        },
+        'test-api-key',
+      )
+
+      expect(response.isError).toBe(true)
+      expect(response.content[0].text).toContain(
+        'Census API error: 400 Bad Request',
+      )
+      expect(response._meta?.error).toMatchObject({ code: 'CENSUS_API_ERROR' })
+    })
+
+    it('should report network errors', async () => {
+      mockFetch.mockImplementation(() => createMockFetchError('Network error'))
+
+      const response = await tool.toolHandler(
+        {
+          dataset: 'timeseries/eits/resconst',
+          get: { variables: ['cell_value'] },
+        },
+        'test-api-key',
+      )
+
+      expect(response.isError).toBe(true)
+      expect(response.content[0].text).toContain('Network error')
+    })
+  })
+})
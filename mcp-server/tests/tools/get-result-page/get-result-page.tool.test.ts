@@ -0,0 +1,136 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+
+import { formatCitations } from '../../../src/helpers/citation'
+import { encodeCursor } from '../../../src/helpers/pagination'
+import { ResultStoreService } from '../../../src/services/result-store.service'
+import {
+  GetResultPageTool,
+  toolDescription,
+} from '../../../src/tools/get-result-page.tool'
+import {
+  validateResponseStructure,
+  validateToolStructure,
+} from '../../helpers/test-utils'
+
+describe('GetResultPageTool', () => {
+  const citations = formatCitations({
+    dataset: 'acs/acs5',
+    year: 2022,
+    tableId: 'B01001',
+    urls: ['https://api.census.gov/data/2022/acs/acs5?get=B01001_001E'],
+    accessed: new Date('2025-01-31T12:00:00Z'),
+  })
+  let tool: GetResultPageTool
+  let handle: string
+
+  beforeEach(() => {
+    tool = new GetResultPageTool()
+    handle = ResultStoreService.getInstance().save(undefined, {
+      tool: 'fetch-aggregate-data',
+      dataset: 'acs/acs5',
+      year: 2022,
+      headers: ['NAME', 'B01001_001E', 'state'],
+      names: ['NAME', 'Total population', 'state'],
+      rows: [
+        ['Alabama', '5108468', '01'],
+        ['Alaska', '733406', '02'],
+        ['Arizona', '7431344', '04'],
+      ],
+      format: 'csv',
+      textColumns: ['state'],
+      citation: 'Source: U.S. Census Bureau Data API',
+      citations,
+    })
+  })
+
+  describe('Tool Configuration', () => {
+    it('should have correct tool metadata', () => {
+      validateToolStructure(tool)
+      expect(tool.name).toBe('get-result-page')
+      expect(tool.description).toBe(toolDescription)
+      expect(tool.requiresApiKey).toBe(false)
+      expect(tool.inputSchema.required).toEqual(['result_handle', 'cursor'])
+    })
+
+    it('should limit max_rows', () => {
+      expect(() =>
+        tool.argsSchema.parse({
+          result_handle: handle,
+          cursor: encodeCursor(1),
+          max_rows: 5001,
+        }),
+      ).toThrow()
+    })
+  })
+
+  describe('toolHandler', () => {
+    it('should return the page at the cursor in the stored format', async () => {
+      const response = await tool.toolHandler({
+        result_handle: handle,
+        cursor: encodeCursor(1),
+        max_rows: 1,
+      })
+
+      validateResponseStructure(response)
+      expect(response.structuredContent).toEqual({
+        result_handle: handle,
+        dataset: 'acs/acs5',
+        year: 2022,
+        headers: ['NAME', 'B01001_001E', 'state'],
+        rows: [['Alaska', '733406', '02']],
+        row_count: 1,
+        first_row: 2,
+        total_row_count: 3,
+        next_cursor: encodeCursor(2),
+        citation: 'Source: U.S. Census Bureau Data API',
+        citations,
+      })
+      expect(response.content[0].text).toContain(
+        'Rows 2-2 of 3 from acs/acs5:\nNAME,Total population,state\nAlaska,733406,02',
+      )
+    })
+
+    it('should mark the last page', async () => {
+      const response = await tool.toolHandler({
+        result_handle: handle,
+        cursor: encodeCursor(2),
+      })
+
+      expect(response.structuredContent).not.toHaveProperty('next_cursor')
+      expect(response.content[0].text).toContain('This is the last page.')
+    })
+
+    it('should not return results stored by another session', async () => {
+      const response = await tool.toolHandler(
+        { result_handle: handle, cursor: encodeCursor(1) },
+        undefined,
+        { sessionId: 'session-2' },
+      )
+
+      expect(response.isError).toBe(true)
+      expect(response.content[0].text).toContain(`Result ${handle} not found.`)
+    })
+
+    it('should report unknown handles', async () => {
+      const response = await tool.toolHandler({
+        result_handle: 'expired',
+        cursor: encodeCursor(1),
+      })
+
+      expect(response.isError).toBe(true)
+      expect(response.content[0].text).toContain('Result expired not found.')
+    })
+
+    it('should reject invalid cursors', async () => {
+      for (const cursor of ['bad', encodeCursor(3)]) {
+        const response = await tool.toolHandler({
+          result_handle: handle,
+          cursor,
+        })
+
+        expect(response.isError).toBe(true)
+        expect(response.content[0].text).toContain('Invalid cursor')
+      }
+    })
+  })
+})
@@ -1,5 +1,5 @@
 // Mock node-fetch
-const mockFetch = vi.fn()
+const mockFetch = vi.hoisted(() => vi.fn())
 
 vi.mock('node-fetch', () => ({
   default: mockFetch,
@@ -10,6 +10,8 @@ import {
   ListDatasetsTool,
   toolDescription,
 } from '../../../src/tools/list-datasets.tool'
+import { CATALOG_CACHE_TTL_MS } from '../../../src/helpers/cache-ttl'
+import { CacheService } from '../../../src/services/cache.service'
 import { sampleDatasetMetadata } from '../../helpers/test-data.js'
 import {
   SimplifiedAPIDatasetType,
@@ -65,6 +67,48 @@ describe('ListDatasetsTool', () => {
     })
   })
 
+  describe('Response Cache', () => {
+    it('should return the cached catalog without calling the Census API', async () => {
+      const cachedCatalog = [
+        { dataset: 'acs/acs1', title: 'American Community Survey: 1-Year' },
+      ]
+      const getSpy = vi.spyOn(CacheService.prototype, 'get').mockResolvedValue({
+        data: cachedCatalog,
+        createdAt: new Date('2025-01-01T00:00:00Z'),
+        expiresAt: new Date('2025-01-01T01:00:00Z'),
+      })
+
+      const result = await tool.toolHandler({}, 'test-api-key')
+
+      expect(mockFetch).not.toHaveBeenCalled()
+      expect(result.structuredContent).toEqual({ datasets: cachedCatalog })
+      expect(result._meta).toMatchObject({ cache: { hit: true } })
+
+      getSpy.mockRestore()
+    })
+
+    it('should cache the aggregated catalog for a short time', async () => {
+      const setSpy = vi
+        .spyOn(CacheService.prototype, 'set')
+        .mockResolvedValue(undefined)
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve(sampleDatasetMetadata),
+      })
+
+      const result = await tool.toolHandler({}, 'test-api-key')
+
+      expect(setSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ datasetCode: 'catalog' }),
+        result.structuredContent?.datasets,
+        expect.objectContaining({ ttlMs: CATALOG_CACHE_TTL_MS }),
+      )
+      expect(result._meta).toEqual({ cache: { hit: false } })
+
+      setSpy.mockRestore()
+    })
+  })
+
   describe('Data Validation and Transformation', () => {
     beforeEach(() => {
       process.env.CENSUS_API_KEY = 'test-api-key'
@@ -180,6 +224,11 @@ describe('ListDatasetsTool', () => {
       const parsedContent = JSON.parse(result.content[0].text)
 
       expect(parsedContent[0].dataset).toBe('dec/sf1')
+      expect(result.structuredContent).toEqual({
+        datasets: [
+          { dataset: 'dec/sf1', title: 'Decennial SF1', years: [2010] },
+        ],
+      })
     })
 
     it('should include optional fields when present', async () => {
@@ -0,0 +1,227 @@
+const mockFetch = vi.hoisted(() => vi.fn())
+
+vi.mock('node-fetch', () => ({
+  default: mockFetch,
+}))
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import {
+  RankGeographiesTool,
+  toolDescription,
+} from '../../../src/tools/rank-geographies.tool'
+import {
+  validateToolStructure,
+  validateResponseStructure,
+  createMockResponse,
+} from '../../helpers/test-utils'
+
+const countyRows = [
+  ['NAME', 'B25064_001E', 'state', 'county'],
+  ['Travis County, Texas', '1604', '48', '453'],
+  ['Loving County, Texas', '-666666666', '48', '301'],
+  ['Collin County, Texas', '1714', '48', '085'],
+  ['Brewster County, Texas', '801', '48', '043'],
+  ['Harris County, Texas', '1196', '48', '201'],
+]
+
+const stateRows = [
+  ['NAME', 'B25064_001E', 'state'],
+  ['Texas', '1270', '48'],
+]
+
+function mockRankResponse(url: string) {
+  return createMockResponse(
+    new URL(url).searchParams.get('for') === 'county:*'
+      ? countyRows
+      : stateRows,
+  )
+}
+
+describe('RankGeographiesTool', () => {
+  let tool: RankGeographiesTool
+
+  const validArgs = {
+    dataset: 'acs/acs5',
+    year: 2022,
+    variable: 'B25064_001E',
+    geography: 'county',
+    in: 'state:48',
+  }
+
+  beforeEach(() => {
+    tool = new RankGeographiesTool()
+    mockFetch.mockReset()
+  })
+
+  afterEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('Tool Configuration', () => {
+    it('should have correct tool metadata', () => {
+      validateToolStructure(tool)
+      expect(tool.name).toBe('rank-geographies')
+      expect(tool.description).toBe(toolDescription)
+      expect(tool.requiresApiKey).toBe(true)
+    })
+
+    it('should have valid input schema', () => {
+      const schema = tool.inputSchema
+      expect(schema.type).toBe('object')
+      expect(schema.required).toEqual([
+        'dataset',
+        'year',
+        'variable',
+        'geography',
+      ])
+    })
+  })
+
+  describe('Schema Validation', () => {
+    it('should accept valid arguments', () => {
+      expect(tool.validateArgs(validArgs).success).toBe(true)
+    })
+
+    it('should reject geography levels with values', () => {
+      expect(
+        tool.validateArgs({ ...validArgs, geography: 'county:*' }).success,
+      ).toBe(false)
+    })
+
+    it('should reject limits above the maximum', () => {
+      expect(tool.validateArgs({ ...validArgs, limit: 101 }).success).toBe(
+        false,
+      )
+    })
+
+    it('should reject a minimum above the maximum', () => {
+      const result = tool.validateArgs({ ...validArgs, min: 10, max: 5 })
+
+      expect(result.error?.issues[0].message).toBe(
+        'Invalid threshold error - min is greater than max.',
+      )
+    })
+  })
+
+  describe('toolHandler', () => {
+    it('should rank the geographies and add the parent value', async () => {
+      mockFetch.mockImplementation(mockRankResponse)
+
+      const response = await tool.toolHandler(
+        { ...validArgs, limit: 3 },
+        'test-api-key',
+      )
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.census.gov/data/2022/acs/acs5?get=NAME%2CB25064_001E&for=county%3A*&in=state%3A48&descriptive=false&key=test-api-key',
+        expect.anything(),
+      )
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.census.gov/data/2022/acs/acs5?get=NAME%2CB25064_001E&for=state%3A48&descriptive=false&key=test-api-key',
+        expect.anything(),
+      )
+
+      validateResponseStructure(response)
+      expect(response.structuredContent).toMatchObject({
+        headers: [
+          'rank',
+          'percentile',
+          'NAME',
+          'B25064_001E',
+          'state',
+          'county',
+        ],
+        rows: [
+          [1, 100, 'Collin County, Texas', 1714, '48', '085'],
+          [2, 66.7, 'Travis County, Texas', 1604, '48', '453'],
+          [3, 33.3, 'Harris County, Texas', 1196, '48', '201'],
+        ],
+        row_count: 3,
+        ranked_count: 4,
+        excluded_count: 1,
+        parent: { name: 'Texas', value: 1270 },
+      })
+      expect(response.content[0].text).toContain(
+        'Highest 3 of 4 county geographies in state:48 by B25064_001E',
+      )
+      expect(response.content[0].text).toContain(
+        '1. Collin County, Texas: 1714 (percentile: 100)',
+      )
+      expect(response.content[0].text).toContain('Parent geography Texas: 1270')
+    })
+
+    it('should rank the lowest values first and apply thresholds', async () => {
+      mockFetch.mockImplementation(mockRankResponse)
+
+      const response = await tool.toolHandler(
+        { ...validArgs, order: 'asc', min: 1000 },
+        'test-api-key',
+      )
+
+      expect(response.structuredContent?.rows).toEqual([
+        [2, 33.3, 'Harris County, Texas', 1196, '48', '201'],
+        [3, 66.7, 'Travis County, Texas', 1604, '48', '453'],
+        [4, 100, 'Collin County, Texas', 1714, '48', '085'],
+      ])
+    })
+
+    it('should rank without the parent value when it is unavailable', async () => {
+      mockFetch.mockImplementation((url: string) =>
+        new URL(url).searchParams.get('for') === 'county:*'
+          ? createMockResponse(countyRows)
+          : createMockResponse({}, 400, 'Bad Request'),
+      )
+
+      const response = await tool.toolHandler(validArgs, 'test-api-key')
+
+      expect(response.isError).toBeFalsy()
+      expect(response.structuredContent).not.toHaveProperty('parent')
+      expect(response.structuredContent?.row_count).toBe(4)
+      expect(response.structuredContent?.parent_note).toContain(
+        'Census API error: 400 Bad Request',
+      )
+    })
+
+    it('should rank without the parent value when its request fails', async () => {
+      mockFetch.mockImplementation((url: string) =>
+        new URL(url).searchParams.get('for') === 'county:*'
+          ? createMockResponse(countyRows)
+          : createMockResponse({}, 500, 'Internal Server Error'),
+      )
+
+      const response = await tool.toolHandler(validArgs, 'test-api-key')
+
+      expect(response.isError).toBeFalsy()
+      expect(response.structuredContent).not.toHaveProperty('parent')
+      expect(response.structuredContent?.row_count).toBe(4)
+      expect(response.structuredContent?.parent_note).toContain(
+        'Census API error: 500 Internal Server Error',
+      )
+      expect(response.content[0].text).toContain(
+        'Parent geography value omitted: Census API error: 500 Internal Server Error',
+      )
+    })
+
+    it('should not fetch a parent with several values', async () => {
+      mockFetch.mockImplementation(mockRankResponse)
+
+      await tool.toolHandler(
+        { ...validArgs, in: 'state:48,35' },
+        'test-api-key',
+      )
+
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    })
+
+    it('should report Census API errors', async () => {
+      mockFetch.mockResolvedValue(createMockResponse({}, 400, 'Bad Request'))
+
+      const response = await tool.toolHandler(validArgs, 'test-api-key')
+
+      expect(response.isError).toBe(true)
+      expect(response.content[0].text).toContain(
+        'Census API error: 400 Bad Request',
+      )
+    })
+  })
+})
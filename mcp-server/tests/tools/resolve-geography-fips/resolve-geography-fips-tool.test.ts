@@ -138,6 +138,9 @@ describe('ResolveGeographyFipsTool', () => {
       expect(response.content[0].text).toContain(
         'Database connection failed - cannot retrieve geography metadata',
       )
+      expect(response._meta?.error).toMatchObject({
+        code: 'DATABASE_UNAVAILABLE',
+      })
     })
 
     it('should handle database query errors', async () => {
@@ -226,6 +229,20 @@ describe('ResolveGeographyFipsTool', () => {
         expect(result.content[0].text).toContain('Los Angeles')
         expect(result.content[0].text).toContain('Los Angeles County')
       })
+
+      it('returns the found geographies as structured content', async () => {
+        mockDbService.query
+          .mockResolvedValueOnce({ rows: [{ code: '160', name: 'Place' }] })
+          .mockResolvedValueOnce({ rows: mockGeographies })
+
+        const result = await tool.handler(summaryLevelArgs)
+
+        expect(result.structuredContent).toEqual({
+          geography_name: summaryLevelArgs.geography_name,
+          summary_level: '160',
+          geographies: mockGeographies,
+        })
+      })
     })
 
     describe('when there are no geography results', () => {
@@ -167,6 +167,9 @@ describe('SearchDataTablesTool', () => {
       expect(getTextContent(response).text).toContain(
         'Database connection failed - cannot search data tables.',
       )
+      expect(response._meta?.error).toMatchObject({
+        code: 'DATABASE_UNAVAILABLE',
+      })
     })
 
     it('should handle database query errors gracefully', async () => {
@@ -224,6 +227,15 @@ describe('SearchDataTablesTool', () => {
         expect(getTextContent(result).text).toContain('B16005D')
       })
 
+      it('returns the matching data tables as structured content', async () => {
+        const result = await tool.handler(byLabelArgs)
+
+        expect(tool.outputSchema?.required).toEqual(['data_tables'])
+        expect(result.structuredContent).toEqual({
+          data_tables: mockDataTables,
+        })
+      })
+
       it('uses singular form when exactly one result is returned', async () => {
         mockDbService.query.mockResolvedValue({ rows: [mockDataTables[0]] })
 